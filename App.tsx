@@ -1,7 +1,8 @@
 
 import React, { Suspense, lazy, useEffect, useRef, useState, useCallback } from 'react';
-import { Search, Radio, Loader2, MapPin, ExternalLink, SignalHigh, Database, Bot, Map, LocateFixed, ShieldCheck, Zap, AlertCircle, CheckCircle2, Timer, LogOut, User, Navigation, CheckSquare, Square, ChevronDown, ChevronUp, Filter, BookOpen, Coffee, Globe, ShoppingBag, MessageSquarePlus, FileDown, Settings, Eye, EyeOff, Star, X, Copy, Sun, Moon, Trophy, PlusCircle, Ear, List, Bell, Printer, Menu, Users, RotateCw, Cpu, Flame, Target, Crosshair, TrendingUp, Award, Sparkles, Shield, Activity } from 'lucide-react';
-import { searchFrequencies, getDatabaseStats } from './services/geminiService';
+import { Search, Radio, Loader2, MapPin, ExternalLink, SignalHigh, Database, Bot, Map, LocateFixed, ShieldCheck, Zap, AlertCircle, CheckCircle2, Timer, LogOut, User, Navigation, CheckSquare, Square, ChevronDown, ChevronUp, Filter, BookOpen, Coffee, Globe, ShoppingBag, MessageSquarePlus, Settings, Eye, EyeOff, Star, X, Copy, Sun, Moon, Trophy, PlusCircle, Ear, List, Bell, BellOff, Printer, Menu, Users, RotateCw, History, WifiOff, Cpu, Flame, Target, Crosshair, TrendingUp, Award, Sparkles, Shield, Activity, HardDrive } from 'lucide-react';
+import { searchFrequencies, getDatabaseStats, restoreCacheSnapshot } from './services/geminiService';
+import { isCacheAdmin, type CacheSnapshot } from './services/cacheHistoryService';
 import { RRCredentials } from './services/rrApi';
 import { SearchMeta, SearchResponse, ScanResult, ServiceType, UserStats } from './types';
 import { FrequencyDisplay } from './components/FrequencyDisplay';
@@ -10,12 +11,12 @@ import { isValidLocationInput } from './utils/security';
 import { supabase } from './services/supabaseClient';
 import { Session } from '@supabase/supabase-js';
 import { generateSentinelExport } from './utils/exportUtils';
-import { getFavorites, addFavorite, removeFavorite, Favorite } from './services/favoritesService';
+import { getFavorites, addFavorite, removeFavorite, setFavoriteAlerts, Favorite } from './services/favoritesService';
 import { loadServicePreferences, saveServicePreferences, getLocalServicePreferences } from './services/preferencesService';
 import { getNotifications, getUnreadCount, markAllRead, AppNotification } from './services/notificationsService';
 import { SearchSuggestions, saveSearchToHistory } from './components/SearchSuggestions';
 import { SearchForm } from './components/SearchForm';
-import { getMyStats, getBadge, getBadgeProgress, getBadgePercent } from './services/crowdsourceService';
+import { getMyStats, getBadge, getBadgeProgress, getBadgePercent, syncQueuedReports } from './services/crowdsourceService';
 import {
   CONVENTIONAL_SYSTEM_FILTER_KEYS as SDS100_CONVENTIONAL_KEYS,
   TRUNKED_SYSTEM_FILTER_KEYS as SDS100_TRUNKED_KEYS,
@@ -28,11 +29,21 @@ import { trackStat, setStreak, onAchievementUnlocked, type Achievement } from '.
 import { updateAddressBarPermalink } from './utils/sharing';
 import { captureRefFromUrl, maybeFireReferralReward } from './utils/referrals';
 import { ShareCard } from './components/ShareCard';
+import { ExportButtons } from './components/ExportButtons';
+import { runExport } from './utils/exporters/registry';
+import type { RadioExporter } from './utils/exporters/types';
+import { EXPORT_SCANNER_MODELS, getModelProfile } from './utils/sds100/profiles';
+import type { ScannerModel } from './utils/sds100/types';
+import { diffScanResults, type ScanDiff } from './utils/scanDiff';
 
 const TripPlanner = lazy(async () => ({ default: (await import('./components/TripPlanner')).TripPlanner }));
 const ProgrammingManual = lazy(async () => ({ default: (await import('./components/ProgrammingManual')).ProgrammingManual }));
 const MapDisplay = lazy(async () => ({ default: (await import('./components/MapDisplay')).MapDisplay }));
 const ComparisonView = lazy(async () => ({ default: (await import('./components/ComparisonView')).ComparisonView }));
+const ChangeReport = lazy(async () => ({ default: (await import('./components/ChangeReport')).ChangeReport }));
+const CacheHistoryTimeline = lazy(async () => ({ default: (await import('./components/CacheHistoryTimeline')).CacheHistoryTimeline }));
+const RadioImportView = lazy(async () => ({ default: (await import('./components/RadioImportView')).RadioImportView }));
+const MemoryBudgetPlanner = lazy(async () => ({ default: (await import('./components/MemoryBudgetPlanner')).MemoryBudgetPlanner }));
 const Leaderboard = lazy(async () => ({ default: (await import('./components/Leaderboard')).Leaderboard }));
 const ContributeModal = lazy(async () => ({ default: (await import('./components/ContributeModal')).ContributeModal }));
 const ExploreMap = lazy(async () => ({ default: (await import('./components/ExploreMap')).ExploreMap }));
@@ -238,6 +249,7 @@ function App() {
   const [showMobileMenu, setShowMobileMenu] = useState(false);
   const [showSds100Modal, setShowSds100Modal] = useState(false);
   const [sds100Filters, setSds100Filters] = useState<Set<SystemFilterKey>>(new Set());
+  const [sds100Model, setSds100Model] = useState<ScannerModel>('SDS100');
 
   const sds100ExportSummary = React.useMemo(() => {
     if (!result) {
@@ -280,6 +292,13 @@ function App() {
   // Comparison State
   const [pinnedResult, setPinnedResult] = useState<ScanResult | null>(null);
   const [showComparison, setShowComparison] = useState(false);
+  const [showRadioImport, setShowRadioImport] = useState(false);
+  const [showBudget, setShowBudget] = useState(false);
+  // What the last "Refresh RR" changed relative to the result it replaced
+  const [refreshDiff, setRefreshDiff] = useState<ScanDiff | null>(null);
+  const refreshBaselineRef = useRef<ScanResult | null>(null);
+  const [showCacheHistory, setShowCacheHistory] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine !== false);
   const activeSearchControllerRef = useRef<AbortController | null>(null);
   const activeSearchRequestIdRef = useRef(0);
 
@@ -499,6 +518,36 @@ function App() {
     return () => clearInterval(interval);
   }, [sessionUserId]);
 
+  // Track connectivity for the offline pill; saved results keep working either way.
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // Send "Heard It" confirmations and submissions queued while offline
+  useEffect(() => {
+    if (!sessionUserId || !isOnline) return;
+    let cancelled = false;
+    syncQueuedReports(sessionUserId).then(({ synced, remaining }) => {
+      if (cancelled || synced === 0) return;
+      pushStatusNotice({
+        tone: 'success',
+        message: `Synced ${synced} report${synced === 1 ? '' : 's'} saved while offline.`,
+        detail: remaining > 0 ? `${remaining} still waiting for a steadier connection.` : undefined,
+      });
+      getMyStats().then(s => { if (!cancelled && s) setUserStats(s); }).catch(() => {});
+    }).catch(err => console.warn('Offline report sync failed:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionUserId, isOnline]);
+
   const handleOpenNotifPanel = async () => {
     const nextOpen = !showNotifPanel;
     setShowNotifPanel(nextOpen);
@@ -568,6 +617,9 @@ function App() {
   const runSearch = (query: string, options?: { bypassCache?: boolean }) => {
     const { controller, requestId } = beginSearchRequest();
     const searchOptions = buildSearchOptions(options);
+    refreshBaselineRef.current = options?.bypassCache ? result : null;
+    setRefreshDiff(null);
+    setShowCacheHistory(false);
     setLoading(true);
     setError(null);
     setResult(null);
@@ -590,6 +642,28 @@ function App() {
     setFavorites(prev => prev.filter(f => f.id !== id));
   };
 
+  const toggleFavoriteAlerts = async (fav: Favorite) => {
+    const enabled = fav.alerts_enabled === false;
+    if (!(await setFavoriteAlerts(fav.id, enabled))) {
+      pushStatusNotice({ tone: 'error', message: 'Could not update change alerts for this location.' });
+      return;
+    }
+    setFavorites(prev => prev.map(f => (f.id === fav.id ? { ...f, alerts_enabled: enabled } : f)));
+    pushStatusNotice({
+      tone: 'success',
+      message: enabled ? `Change alerts on for ${fav.label || fav.location_query}.` : `Change alerts off for ${fav.label || fav.location_query}.`,
+      detail: enabled ? 'You will be notified when a RadioReference refresh adds or drops frequencies, talkgroups or systems here.' : undefined,
+    });
+  };
+
+  const handleNotificationLink = (link: string) => {
+    const query = new URL(link, window.location.origin).searchParams.get('q');
+    if (!query) return;
+    setShowNotifPanel(false);
+    setMode('scan');
+    handleFavoriteClick(query);
+  };
+
   const checkConnection = async () => {
     if (!supabase) {
       setCacheStatus('offline');
@@ -625,6 +699,8 @@ function App() {
     activeSearchRequestIdRef.current += 1;
     setResult(null);
     setPinnedResult(null);
+    setRefreshDiff(null);
+    setShowCacheHistory(false);
     setSearchQuery('');
     setGrounding(null);
     setSearchMeta(null);
@@ -738,6 +814,27 @@ function App() {
     setStatusNotice(notice);
   };
 
+  const handleRestoreSnapshot = async (snapshot: CacheSnapshot, pin: boolean) => {
+    if (!searchMeta?.cacheKeys?.length) return;
+    try {
+      const restored = await restoreCacheSnapshot(snapshot, searchMeta.cacheKeys, serviceTypes, { pin });
+      if (!restored) return;
+      setRefreshDiff(null);
+      setResult(restored);
+      setGrounding(snapshot.groundingChunks ?? null);
+      setSearchMeta({ ...searchMeta, pinnedSnapshotAt: pin ? snapshot.createdAt : searchMeta.pinnedSnapshotAt });
+      pushStatusNotice({
+        tone: 'success',
+        message: pin ? 'Snapshot restored and pinned.' : 'Snapshot restored.',
+        detail: pin
+          ? 'New searches for this location will keep serving this snapshot until it is unpinned.'
+          : `The cached result now matches the snapshot from ${new Date(snapshot.createdAt).toLocaleString()}.`,
+      });
+    } catch (e: any) {
+      pushStatusNotice({ tone: 'error', message: e?.message || 'Could not restore this snapshot.' });
+    }
+  };
+
   const handleSentinelCopy = async (data: ScanResult) => {
     const text = generateSentinelExport(data);
     if (!text) {
@@ -757,34 +854,20 @@ function App() {
     }
   };
 
-  const handleCsvExport = async (data: ScanResult) => {
-    const { generateCSV } = await import('./utils/csvGenerator');
-    const result = generateCSV(data);
-    if (result.ok) {
-      pushStatusNotice({
-        tone: 'success',
-        message: `CSV export ready: ${result.count} rows.`,
-        detail: `Downloaded ${result.filename}.`,
-      });
-      return;
-    }
-
-    pushStatusNotice({ tone: 'error', message: result.message });
-  };
-
-  const handleChirpExport = async (data: ScanResult) => {
-    const { exportChirpCSV } = await import('./utils/chirpExporter');
-    const result = exportChirpCSV(data);
-    if (result.ok) {
-      pushStatusNotice({
-        tone: 'success',
-        message: `CHIRP export ready: ${result.count} channels.`,
-        detail: `Downloaded ${result.filename}.`,
-      });
+  const handleFileExport = async (exporter: RadioExporter, data: ScanResult) => {
+    const result = await runExport(exporter, data);
+    if (result.ok === false) {
+      pushStatusNotice({ tone: result.empty ? 'warning' : 'error', message: result.message });
       return;
     }
 
-    pushStatusNotice({ tone: 'warning', message: result.message });
+    pushStatusNotice({
+      tone: result.warnings.length > 0 ? 'warning' : 'success',
+      message: `${exporter.label} export ready: ${result.count} ${result.count === 1 ? 'entry' : 'entries'}.`,
+      detail: result.warnings.length > 0
+        ? `Downloaded ${result.filename}. ${result.warnings.length} item${result.warnings.length === 1 ? ' was' : 's were'} skipped: ${result.warnings[0]}`
+        : `Downloaded ${result.filename}.`,
+    });
   };
 
   const openSds100Modal = (data: ScanResult) => {
@@ -810,17 +893,13 @@ function App() {
 
   const handleSds100Export = async (data: ScanResult) => {
     try {
-      const { exportSentinelZip } = await import('./utils/sentinelExporter');
-      await exportSentinelZip(data, Array.from(sds100Filters));
+      const { exportSentinelZip, describeSds100Package } = await import('./utils/sentinelExporter');
+      const summary = await exportSentinelZip(data, Array.from(sds100Filters), sds100Model);
       setShowSds100Modal(false);
-      pushStatusNotice({
-        tone: 'success',
-        message: 'SDS100 package generated.',
-        detail: 'Check your downloads for the Sentinel ZIP package.',
-      });
+      pushStatusNotice(describeSds100Package(summary, sds100Model));
     } catch (err) {
       console.error('SDS100 export failed:', err);
-      pushStatusNotice({ tone: 'error', message: 'Failed to generate the SDS100 package. Please try again.' });
+      pushStatusNotice({ tone: 'error', message: `Failed to generate the ${getModelProfile(sds100Model).label} package. Please try again.` });
     }
   };
 
@@ -862,6 +941,9 @@ function App() {
         }
       }
       if (response.data) {
+        const baseline = refreshBaselineRef.current;
+        refreshBaselineRef.current = null;
+        setRefreshDiff(baseline && options?.bypassCache ? diffScanResults(baseline, response.data) : null);
         setResult(response.data);
         setGrounding(response.groundingChunks);
         setSearchMeta(response.searchMeta ?? null);
@@ -905,7 +987,15 @@ function App() {
 
         // Refresh user stats
         getMyStats().then(s => { if (s) setUserStats(s); }).catch(() => {});
-        if (response.searchMeta?.autoBypassedStaleAuthoritativeCache) {
+        if (response.searchMeta?.servedOffline) {
+          pushStatusNotice({
+            tone: 'info',
+            message: 'Offline — showing the copy saved on this device.',
+            detail: response.searchMeta.offlineSavedAt
+              ? `Saved ${new Date(response.searchMeta.offlineSavedAt).toLocaleString()}. It will refresh the next time you search with a connection.`
+              : undefined,
+          });
+        } else if (response.searchMeta?.autoBypassedStaleAuthoritativeCache) {
           pushStatusNotice({
             tone: 'info',
             message: 'Older RadioReference cache was refreshed automatically.',
@@ -919,6 +1009,12 @@ function App() {
               ? 'Cache was bypassed for this search so you are seeing a fresh RadioReference lookup.'
               : 'Cache was bypassed for this search. RadioReference did not return authoritative data, so the best live result was shown.',
           });
+        } else if (response.searchMeta?.pinnedSnapshotAt) {
+          pushStatusNotice({
+            tone: 'info',
+            message: 'A pinned snapshot is protecting the cache for this location.',
+            detail: `This run was recorded in the cache history, but the snapshot pinned from ${new Date(response.searchMeta.pinnedSnapshotAt).toLocaleString()} stays cached. Open History to compare or unpin.`,
+          });
         } else if (response.searchMeta?.refreshedWithRadioReference) {
           pushStatusNotice({
             tone: 'success',
@@ -1078,6 +1174,13 @@ function App() {
 
   return (
     <div className="min-h-screen theme-bg-main theme-text-main pb-24 md:pb-20 selection:bg-amber-500/30 transition-colors duration-300">
+      {/* Offline pill */}
+      {!isOnline && (
+        <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[150] print-hide px-3 py-1.5 rounded-full border border-amber-500/50 bg-slate-900/95 text-amber-300 text-xs font-mono-tech flex items-center gap-2 shadow-lg">
+          <WifiOff className="w-3.5 h-3.5" /> Offline — saved locations, trips and Heard It still work
+        </div>
+      )}
+
       {/* Celebration Toast */}
       {celebration && (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[200] animate-celebration-in pointer-events-none">
@@ -1282,6 +1385,14 @@ function App() {
                               <li key={n.id} className={`px-4 py-3 ${n.read ? 'opacity-60' : ''}`}>
                                 <p className="text-xs font-semibold text-slate-200">{n.title}</p>
                                 {n.body && <p className="text-[11px] text-slate-400 mt-0.5">{n.body}</p>}
+                                {n.link && (
+                                  <button
+                                    onClick={() => handleNotificationLink(n.link!)}
+                                    className="text-[11px] font-mono-tech text-cyan-400 hover:text-white mt-1"
+                                  >
+                                    View location →
+                                  </button>
+                                )}
                                 <p className="text-[10px] text-slate-600 mt-1">{new Date(n.created_at).toLocaleString()}</p>
                               </li>
                             ))}
@@ -1588,7 +1699,7 @@ function App() {
           </Suspense>
         ) : mode === 'trip' ? (
           <Suspense fallback={<SectionLoader label="Loading trip planner..." />}>
-            <TripPlanner />
+            <TripPlanner rrCredentials={rrCredentials} />
           </Suspense>
         ) : mode === 'explore' ? (
           <Suspense fallback={<SectionLoader label="Loading cache explorer..." />}>
@@ -1853,6 +1964,14 @@ function App() {
                           >
                             {fav.label || fav.location_query}
                           </button>
+                          <button
+                            type="button"
+                            onClick={(e) => { e.stopPropagation(); toggleFavoriteAlerts(fav); }}
+                            className={`p-0.5 rounded-full hover:bg-slate-700 transition-colors ${fav.alerts_enabled === false ? 'text-slate-600 hover:text-slate-300' : 'text-amber-500/70 hover:text-amber-300'}`}
+                            title={fav.alerts_enabled === false ? 'Change alerts off — click to turn on' : 'Change alerts on — click to turn off'}
+                          >
+                            {fav.alerts_enabled === false ? <BellOff className="w-3 h-3" /> : <Bell className="w-3 h-3" />}
+                          </button>
                           <button
                             type="button"
                             onClick={(e) => { e.stopPropagation(); removeFavoriteById(fav.id); }}
@@ -2049,6 +2168,20 @@ function App() {
                       </>
                     )}
 
+                    {searchMeta?.cacheKey && (
+                      <button
+                        onClick={() => setShowCacheHistory(v => !v)}
+                        className={`inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border transition-all shadow-lg hover:scale-105 ${showCacheHistory
+                          ? 'bg-cyan-900/40 border-cyan-500/60 text-cyan-300'
+                          : 'bg-slate-800/40 border-slate-600 text-slate-400 hover:bg-slate-700 hover:text-white'
+                          }`}
+                        title="Earlier cached results for this location"
+                      >
+                        <History className="w-5 h-5" />
+                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">History</span>
+                      </button>
+                    )}
+
                     <div className="flex flex-wrap items-center justify-center gap-2">
                       <button
                         onClick={() => handleSentinelCopy(result)}
@@ -2058,28 +2191,30 @@ function App() {
                         <Copy className="w-5 h-5" />
                         <span className="text-sm font-mono-tech font-bold uppercase tracking-wider"><span className="hidden sm:inline">Copy for </span>Sentinel</span>
                       </button>
+                      <ExportButtons onExport={(exporter) => handleFileExport(exporter, result)} />
                       <button
-                        onClick={() => handleCsvExport(result)}
-                        className="inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border bg-emerald-900/40 border-emerald-500/60 text-emerald-400 hover:bg-emerald-900/60 hover:text-white transition-all shadow-lg shadow-emerald-900/20 hover:scale-105"
+                        onClick={() => openSds100Modal(result)}
+                        className="inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border bg-amber-900/40 border-amber-500/60 text-amber-400 hover:bg-amber-900/60 hover:text-white transition-all shadow-lg shadow-amber-900/20 hover:scale-105"
+                        title="Export SDS100/SDS200 package with selected system types"
                       >
-                        <FileDown className="w-5 h-5" />
-                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">CSV</span>
+                        <Zap className="w-5 h-5" />
+                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">SDS100</span>
                       </button>
                       <button
-                        onClick={() => handleChirpExport(result)}
-                        className="inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border bg-violet-900/40 border-violet-500/60 text-violet-400 hover:bg-violet-900/60 hover:text-white transition-all shadow-lg shadow-violet-900/20 hover:scale-105"
-                        title="Export CHIRP-format CSV for programming handhelds"
+                        onClick={() => setShowBudget(true)}
+                        className="inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border bg-violet-900/40 border-violet-500/60 text-violet-300 hover:bg-violet-900/60 hover:text-white transition-all shadow-lg shadow-violet-900/20 hover:scale-105"
+                        title="Fit these results to a radio's memory and see what gets left out"
                       >
-                        <FileDown className="w-5 h-5" />
-                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">CHIRP</span>
+                        <Cpu className="w-5 h-5" />
+                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">Budget</span>
                       </button>
                       <button
-                        onClick={() => openSds100Modal(result)}
-                        className="inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border bg-amber-900/40 border-amber-500/60 text-amber-400 hover:bg-amber-900/60 hover:text-white transition-all shadow-lg shadow-amber-900/20 hover:scale-105"
-                        title="Export SDS100/SDS200 package with selected system types"
+                        onClick={() => setShowRadioImport(true)}
+                        className="inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border bg-slate-800/60 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white transition-all shadow-lg hover:scale-105"
+                        title="Load your scanner's favorites lists and compare them with these results"
                       >
-                        <Zap className="w-5 h-5" />
-                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">SDS100</span>
+                        <HardDrive className="w-5 h-5" />
+                        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider"><span className="hidden sm:inline">My </span>Radio</span>
                       </button>
                       <button
                         onClick={() => setShowManual(true)}
@@ -2141,6 +2276,30 @@ function App() {
                       onShared={() => trackStat({ shares: 1 })}
                     />
                   </div>
+                  {refreshDiff && (
+                    <div className="mb-6">
+                      <Suspense fallback={<SectionLoader label="Loading change report..." />}>
+                        <ChangeReport
+                          diff={refreshDiff}
+                          title="Changed by this RadioReference refresh"
+                          onDismiss={() => setRefreshDiff(null)}
+                        />
+                      </Suspense>
+                    </div>
+                  )}
+                  {showCacheHistory && searchMeta?.cacheKey && (
+                    <div className="mb-6">
+                      <Suspense fallback={<SectionLoader label="Loading cache history..." />}>
+                        <CacheHistoryTimeline
+                          cacheKey={searchMeta.cacheKey}
+                          current={result}
+                          canPin={isCacheAdmin(session?.user)}
+                          onRestore={handleRestoreSnapshot}
+                          onStatus={pushStatusNotice}
+                        />
+                      </Suspense>
+                    </div>
+                  )}
                   <FrequencyDisplay
                     data={result}
                     locationQuery={searchQuery}
@@ -2204,6 +2363,22 @@ function App() {
                   </div>
 
                   <div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto">
+                    <label className="flex flex-wrap items-center gap-2 text-xs text-slate-300 font-mono-tech">
+                      Target radio
+                      <select
+                        value={sds100Model}
+                        onChange={(e) => setSds100Model(e.target.value as ScannerModel)}
+                        className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-slate-200"
+                      >
+                        {EXPORT_SCANNER_MODELS.map((model) => (
+                          <option key={model} value={model}>{getModelProfile(model).label}</option>
+                        ))}
+                      </select>
+                      <span className="text-slate-500">
+                        Alpha tags up to {getModelProfile(sds100Model).limits.alphaTagMax} chars
+                      </span>
+                    </label>
+
                     <div className="flex flex-wrap gap-2">
                       <button
                         onClick={() => setSds100Filters(new Set(Array.from(sds100AvailableFilters)))}
@@ -2335,6 +2510,30 @@ function App() {
               )
             }
 
+            {
+              showRadioImport && result && (
+                <Suspense fallback={<SectionLoader label="Loading radio import..." />}>
+                  <RadioImportView
+                    result={result}
+                    onClose={() => setShowRadioImport(false)}
+                  />
+                </Suspense>
+              )
+            }
+
+            {
+              showBudget && result && (
+                <Suspense fallback={<SectionLoader label="Loading memory budget..." />}>
+                  <MemoryBudgetPlanner
+                    data={result}
+                    priorities={serviceTypes}
+                    onClose={() => setShowBudget(false)}
+                    onStatus={pushStatusNotice}
+                  />
+                </Suspense>
+              )
+            }
+
             {showProfile && session && (
               <Suspense fallback={<SectionLoader label="Loading profile..." />}>
                 <ProfileModal session={session} onClose={() => setShowProfile(false)} />
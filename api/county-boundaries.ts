@@ -0,0 +1,49 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { lookupCountyBoundaryAt } from './location-resolve.js';
+import { mapWithConcurrency } from '../utils/route';
+
+const MAX_POINTS = 40;
+const LOOKUP_CONCURRENCY = 4;
+
+/**
+ * County outlines for trip zones. Body: { points: [{ lat, lng }] }, one point
+ * inside each zone. Answers { boundaries } in the same order, with null for
+ * any point the Census layer could not place.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const points: unknown = req.body?.points;
+  if (!Array.isArray(points) || points.length === 0) {
+    return res.status(400).json({ error: 'Missing points' });
+  }
+  if (points.length > MAX_POINTS) {
+    return res.status(413).json({ error: `At most ${MAX_POINTS} points per request.` });
+  }
+
+  const parsed = points.map((point: any) => {
+    const lat = Number(point?.lat);
+    const lng = Number(point?.lng);
+    return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+  });
+  if (parsed.some((point) => point === null)) {
+    return res.status(400).json({ error: 'Invalid coordinates' });
+  }
+
+  try {
+    const boundaries = await mapWithConcurrency(parsed, LOOKUP_CONCURRENCY, async (point) => {
+      try {
+        return await lookupCountyBoundaryAt(point!.lat, point!.lng);
+      } catch (error) {
+        console.warn('County boundary lookup failed:', point, error);
+        return null;
+      }
+    });
+    return res.status(200).json({ boundaries });
+  } catch (error: any) {
+    console.error('County boundaries API error:', error);
+    return res.status(500).json({ error: 'Unable to load county boundaries at this time.' });
+  }
+}
@@ -22,6 +22,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       fileCount: built.files.length,
       files: built.files.map((x) => x.path),
       warnings: built.warnings,
+      notices: built.notices,
     });
   } catch (error) {
     return res.status(400).json({
@@ -1,8 +1,12 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { CountyBoundary } from '../types';
 
 const REQUEST_TIMEOUT_MS = 12_000;
 const CENSUS_BENCHMARK = 'Public_AR_Current';
 const CENSUS_VINTAGE = 'Current_Current';
+const TIGERWEB_COUNTIES_URL = 'https://tigerweb.geo.census.gov/arcgis/rest/services/TIGERweb/State_County/MapServer/1/query';
+// Degrees; keeps a county outline to a few hundred vertices.
+const BOUNDARY_SIMPLIFY_DEGREES = 0.005;
 
 const STATE_ALIASES: Record<string, string> = {
   alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
@@ -16,7 +20,7 @@ const STATE_ALIASES: Record<string, string> = {
   washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY', 'district of columbia': 'DC'
 };
 
-type ResolverPayload = {
+export type ResolverPayload = {
   type: 'zip' | 'county' | 'city' | 'unknown';
   standardizedName: string;
   primaryZip: string | null;
@@ -36,7 +40,7 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string)
   ]);
 }
 
-function sanitizeQuery(input: string): string {
+export function sanitizeQuery(input: string): string {
   return String(input || '').replace(/[^a-zA-Z0-9\s,.-]/g, '').trim().slice(0, 100);
 }
 
@@ -240,29 +244,106 @@ function mergeResolved(base: ResolverPayload, patch: Partial<ResolverPayload>):
   };
 }
 
+/** Resolves a sanitized query, falling back to the parsed text when the geocoders fail. */
+export async function resolveLocationQuery(safeQuery: string): Promise<ResolverPayload> {
+  let resolved = buildFallback(safeQuery);
+
+  try {
+    if (/^\d{5}$/.test(safeQuery)) {
+      resolved = mergeResolved(resolved, await resolveZip(safeQuery));
+    } else {
+      resolved = mergeResolved(resolved, await resolveText(safeQuery));
+    }
+  } catch (error) {
+    console.warn('Location resolution fallback used for query:', safeQuery, error);
+  }
+
+  return resolved;
+}
+
+/** County, state and ZIP (ZCTA) containing a point, from the Census geographies layers. */
+export async function lookupCountyAt(lat: number, lng: number): Promise<{ county: string; stateCode: string; zip: string | null } | null> {
+  const url = `https://geocoding.geo.census.gov/geocoder/geographies/coordinates?x=${encodeURIComponent(String(lng))}&y=${encodeURIComponent(String(lat))}&benchmark=${CENSUS_BENCHMARK}&vintage=${CENSUS_VINTAGE}&layers=all&format=json`;
+  const json = await fetchJson(url);
+  const geographies = json?.result?.geographies || {};
+  const county = normalizeCountyName(Array.isArray(geographies.Counties) ? geographies.Counties[0]?.BASENAME || geographies.Counties[0]?.NAME : null);
+  const stateCode = Array.isArray(geographies.States) && typeof geographies.States[0]?.STUSAB === 'string'
+    ? geographies.States[0].STUSAB.trim().toUpperCase()
+    : null;
+  // The ZCTA layer name carries the census year ("2020 Census ZIP Code Tabulation Areas").
+  const zctaLayer = Object.keys(geographies).find((name) => /zip code tabulation/i.test(name));
+  const zcta = zctaLayer && Array.isArray(geographies[zctaLayer]) ? geographies[zctaLayer][0] : null;
+  const zip = typeof zcta?.ZCTA5 === 'string' && /^\d{5}$/.test(zcta.ZCTA5)
+    ? zcta.ZCTA5
+    : typeof zcta?.BASENAME === 'string' && /^\d{5}$/.test(zcta.BASENAME) ? zcta.BASENAME : null;
+  return county && stateCode ? { county, stateCode, zip } : null;
+}
+
+/** Generalized outline of the county containing a point, from the Census TIGERweb county layer. */
+export async function lookupCountyBoundaryAt(lat: number, lng: number): Promise<CountyBoundary | null> {
+  const params = new URLSearchParams({
+    geometry: `${lng},${lat}`,
+    geometryType: 'esriGeometryPoint',
+    inSR: '4326',
+    spatialRel: 'esriSpatialRelIntersects',
+    outFields: 'GEOID,NAME,STATE',
+    returnGeometry: 'true',
+    outSR: '4326',
+    maxAllowableOffset: String(BOUNDARY_SIMPLIFY_DEGREES),
+    f: 'geojson',
+  });
+  const json = await fetchJson(`${TIGERWEB_COUNTIES_URL}?${params.toString()}`);
+  const feature = Array.isArray(json?.features) ? json.features[0] : null;
+  const geometry = feature?.geometry;
+  if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') || !Array.isArray(geometry.coordinates)) {
+    return null;
+  }
+  const props = feature.properties || {};
+  return {
+    geoid: String(props.GEOID || ''),
+    name: String(props.NAME || ''),
+    stateFips: String(props.STATE || ''),
+    geometry: { type: geometry.type, coordinates: geometry.coordinates },
+  };
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
+    // Reverse lookup for a GPS fix: { lat, lng } instead of a text query.
+    const lat = Number(req.body?.lat);
+    const lng = Number(req.body?.lng);
+    if (req.body?.query === undefined && Number.isFinite(lat) && Number.isFinite(lng)) {
+      if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return res.status(400).json({ error: 'Invalid coordinates' });
+      }
+      const hit = await lookupCountyAt(lat, lng);
+      if (!hit) {
+        return res.status(404).json({ error: 'No county found at this position' });
+      }
+      const standardizedName = `${hit.county} County, ${hit.stateCode}`;
+      const resolved: ResolverPayload = {
+        type: 'county',
+        standardizedName,
+        primaryZip: hit.zip,
+        city: null,
+        county: hit.county,
+        stateCode: hit.stateCode,
+        coords: { lat, lng },
+        aliases: [standardizedName, ...(hit.zip ? [hit.zip] : [])],
+      };
+      return res.status(200).json({ resolved });
+    }
+
     const safeQuery = sanitizeQuery(req.body?.query || '');
     if (!safeQuery) {
       return res.status(400).json({ error: 'Missing location query' });
     }
 
-    let resolved = buildFallback(safeQuery);
-
-    try {
-      if (/^\d{5}$/.test(safeQuery)) {
-        resolved = mergeResolved(resolved, await resolveZip(safeQuery));
-      } else {
-        resolved = mergeResolved(resolved, await resolveText(safeQuery));
-      }
-    } catch (error) {
-      console.warn('Location resolution fallback used for query:', safeQuery, error);
-    }
-
+    const resolved = await resolveLocationQuery(safeQuery);
     return res.status(200).json({ resolved });
   } catch (error: any) {
     console.error('Location resolve API error:', error);
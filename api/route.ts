@@ -0,0 +1,132 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { lookupCountyAt, resolveLocationQuery, sanitizeQuery } from './location-resolve.js';
+import {
+  createMockRoutingProvider,
+  parseRouteGeometry,
+  polylineLengthMiles,
+  routeZones,
+  simplifyPolyline,
+  DEFAULT_ROUTE_SPEED_MPH,
+  type RouteGeometry,
+  type RoutePoint,
+  type RoutingProvider,
+} from '../utils/route';
+
+const REQUEST_TIMEOUT_MS = 20_000;
+const MAX_WAYPOINTS = 10;
+const MAX_GEOMETRY_CHARS = 4_000_000;
+const DEFAULT_OSRM_URL = 'https://router.project-osrm.org';
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      setTimeout(() => reject(new Error(message)), timeoutMs);
+    }),
+  ]);
+}
+
+/** OSRM-compatible driving router (public demo server unless ROUTING_OSRM_URL is set). */
+function createOsrmRoutingProvider(baseUrl: string): RoutingProvider {
+  return {
+    name: 'osrm',
+    async route(waypoints) {
+      const coords = waypoints.map((p) => `${p.lng.toFixed(6)},${p.lat.toFixed(6)}`).join(';');
+      const url = `${baseUrl.replace(/\/+$/, '')}/route/v1/driving/${coords}?overview=full&geometries=geojson`;
+      const response = await withTimeout(fetch(url), REQUEST_TIMEOUT_MS, 'Routing request timed out');
+      if (!response.ok) {
+        throw new Error(`Routing upstream failed (${response.status})`);
+      }
+      const json = await response.json();
+      const route = Array.isArray(json?.routes) ? json.routes[0] : null;
+      const line: unknown = route?.geometry?.coordinates;
+      if (!route || !Array.isArray(line) || line.length < 2) {
+        throw new Error(`Routing upstream returned no route (${json?.code || 'unknown'})`);
+      }
+      const points = line.map((pair: [number, number]) => ({ lng: Number(pair[0]), lat: Number(pair[1]) }));
+      return {
+        points,
+        distanceMiles: Number(route.distance) / 1609.344,
+        durationMinutes: Number(route.duration) / 60,
+        provider: 'osrm',
+      };
+    },
+  };
+}
+
+/** ROUTING_PROVIDER=mock uses straight lines between the stops; anything else goes to OSRM. */
+function getRoutingProvider(): RoutingProvider {
+  if ((process.env.ROUTING_PROVIDER || '').toLowerCase() === 'mock') {
+    return createMockRoutingProvider();
+  }
+  return createOsrmRoutingProvider(process.env.ROUTING_OSRM_URL || DEFAULT_OSRM_URL);
+}
+
+async function geocodeStop(query: string): Promise<{ label: string; point: RoutePoint }> {
+  const resolved = await resolveLocationQuery(query);
+  if (!resolved.coords) {
+    throw new Error(`Could not locate "${query}"`);
+  }
+  return { label: resolved.standardizedName || query, point: resolved.coords };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { start, end, via, geometry } = req.body || {};
+    let route: RouteGeometry;
+    let startLabel = sanitizeQuery(start);
+    let endLabel = sanitizeQuery(end);
+
+    if (typeof geometry === 'string' && geometry.trim()) {
+      if (geometry.length > MAX_GEOMETRY_CHARS) {
+        return res.status(413).json({ error: 'Route file is too large.' });
+      }
+      let points: RoutePoint[];
+      try {
+        points = parseRouteGeometry(geometry);
+      } catch (error: any) {
+        return res.status(400).json({ error: error?.message || 'Unreadable route file.' });
+      }
+      const distanceMiles = polylineLengthMiles(points);
+      route = { points, distanceMiles, durationMinutes: (distanceMiles / DEFAULT_ROUTE_SPEED_MPH) * 60, provider: 'file' };
+    } else {
+      const stops = [startLabel, ...(Array.isArray(via) ? via.slice(0, MAX_WAYPOINTS).map(sanitizeQuery) : []), endLabel].filter(Boolean);
+      if (!startLabel || !endLabel) {
+        return res.status(400).json({ error: 'Missing start or end location' });
+      }
+      let located: Array<{ label: string; point: RoutePoint }>;
+      try {
+        located = await Promise.all(stops.map(geocodeStop));
+      } catch (error: any) {
+        return res.status(422).json({ error: error?.message || 'Could not locate a route stop.' });
+      }
+      startLabel = located[0].label;
+      endLabel = located[located.length - 1].label;
+      route = await getRoutingProvider().route(located.map((stop) => stop.point));
+    }
+
+    const zones = await routeZones(route, (point) => lookupCountyAt(point.lat, point.lng));
+    if (zones.length === 0) {
+      return res.status(502).json({ error: 'No counties found along this route.' });
+    }
+
+    return res.status(200).json({
+      route: {
+        provider: route.provider,
+        distanceMiles: Math.round(route.distanceMiles * 10) / 10,
+        durationMinutes: Math.round(route.durationMinutes),
+        startLocation: startLabel || zones[0].name,
+        endLocation: endLabel || zones[zones.length - 1].name,
+        path: simplifyPolyline(route.points, 1),
+      },
+      zones,
+    });
+  } catch (error: any) {
+    console.error('Route API Error:', error);
+    return res.status(500).json({ error: 'Unable to route this trip at this time.' });
+  }
+}
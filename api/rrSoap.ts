@@ -0,0 +1,203 @@
+import { XmlParseError, child, childText, findElement, items, parseXml, type XmlElement } from './rrXml.js';
+
+/**
+ * Typed views of the RadioReference SOAP responses api/rrdb.ts uses. Each
+ * reader takes the `<return>` element of one method's response and maps it
+ * to plain objects, so callers never look at XML. RRFrequency and RRTalkgroup
+ * are RR's raw records; rrdb.ts turns them into the app's Frequency/Talkgroup. Ids stay strings the way
+ * RR sends them; a missing field reads as ''.
+ */
+
+// --- Faults ---
+
+/** A SOAP Fault body, whether RR sent it with HTTP 500 or HTTP 200. */
+export class RRSoapFault extends Error {
+  readonly method: string;
+  readonly faultCode: string;
+  readonly faultString: string;
+
+  constructor(method: string, faultCode: string, faultString: string) {
+    super(`RadioReference ${method} fault: ${faultString}`);
+    this.name = 'RRSoapFault';
+    this.method = method;
+    this.faultCode = faultCode;
+    this.faultString = faultString;
+  }
+}
+
+/** Parses a response envelope and returns its `<return>` element; throws RRSoapFault for a fault. */
+export function readSoapReturn(method: string, envelopeXml: string): XmlElement {
+  const doc = parseXml(envelopeXml);
+  const body = findElement(doc, 'Body');
+  const fault = child(body, 'Fault');
+  if (fault) {
+    throw new RRSoapFault(method, childText(fault, 'faultcode'), childText(fault, 'faultstring') || 'Unknown fault');
+  }
+  const response = body?.children.find(c => c.name === `${method}Response`) ?? body?.children[0];
+  const ret = child(response, 'return');
+  if (!ret) throw new XmlParseError(`RadioReference ${method} response has no <return>`);
+  return ret;
+}
+
+// --- Response types ---
+
+export interface ZipInfo { ctid: string; stid: string; city: string; }
+
+export interface Subcat { scid: string; name: string; catName: string; }
+
+export interface TrsListItem { sid: string; sName: string; }
+
+export interface CountyInfo {
+  ctid: string;
+  countyName: string;
+  stid: string;
+  subcats: Subcat[];
+  trsList: TrsListItem[];
+}
+
+export interface StateInfo {
+  stid: string;
+  stateName: string;
+  counties: Array<{ ctid: string; countyName: string }>;
+  subcats: Subcat[];
+  trsList: TrsListItem[];
+}
+
+export interface RRFrequency {
+  out: string;
+  descr: string;
+  mode: string;
+  alpha: string;
+  tone: string;
+  colorCode: string;
+  nac: string;
+  ran: string;
+  tagIds: number[];
+}
+
+export interface TrsDetails { sName: string; sType: string; }
+
+export interface TrsSiteFreq { freq: string; use: string; lcn: string; }
+
+export interface TrsSite {
+  siteNumber: string;
+  descr: string;
+  ctid: string;
+  rfss: string;
+  nac: string;
+  lat: string;
+  lon: string;
+  range: string;
+  freqs: TrsSiteFreq[];
+}
+
+export interface RRTalkgroup {
+  tgDec: string;
+  tgAlpha: string;
+  tgDescr: string;
+  tgMode: string;
+  tagIds: number[];
+}
+
+// --- Readers ---
+
+const validId = (id: string) => id !== '' && id !== '0';
+
+function readTagIds(element: XmlElement): number[] {
+  return items(element, 'tags')
+    .map(tag => parseInt(childText(tag, 'tagId'), 10))
+    .filter(Number.isFinite);
+}
+
+// Counties and states list their subcategories inside categories
+function readSubcats(ret: XmlElement): Subcat[] {
+  return items(ret, 'cats').flatMap(cat => {
+    const catName = childText(cat, 'cName');
+    return items(cat, 'subcats')
+      .map(sc => ({ scid: childText(sc, 'scid'), name: childText(sc, 'scName') || catName, catName }))
+      .filter(sc => validId(sc.scid));
+  });
+}
+
+function readTrsList(ret: XmlElement): TrsListItem[] {
+  return items(ret, 'trsList')
+    .map(trs => ({ sid: childText(trs, 'sid'), sName: childText(trs, 'sName') }))
+    .filter(trs => validId(trs.sid));
+}
+
+// A ZIP in one county comes back as a bare record, a shared ZIP as <item>s
+export function readZipInfo(ret: XmlElement): ZipInfo[] {
+  const records = items(ret);
+  return (records.length > 0 ? records : [ret])
+    .map(zip => ({ ctid: childText(zip, 'ctid'), stid: childText(zip, 'stid'), city: childText(zip, 'city') }))
+    .filter(zip => validId(zip.ctid));
+}
+
+export function readCountyInfo(ret: XmlElement): CountyInfo {
+  return {
+    ctid: childText(ret, 'ctid'),
+    countyName: childText(ret, 'countyName'),
+    stid: childText(ret, 'stid'),
+    subcats: readSubcats(ret),
+    trsList: readTrsList(ret),
+  };
+}
+
+export function readStateInfo(ret: XmlElement): StateInfo {
+  return {
+    stid: childText(ret, 'stid'),
+    stateName: childText(ret, 'stateName'),
+    counties: items(ret, 'countyList')
+      .map(county => ({ ctid: childText(county, 'ctid'), countyName: childText(county, 'countyName') }))
+      .filter(county => validId(county.ctid)),
+    subcats: readSubcats(ret),
+    trsList: readTrsList(ret),
+  };
+}
+
+export function readSubcatFreqs(ret: XmlElement): RRFrequency[] {
+  return items(ret).map(freq => ({
+    out: childText(freq, 'out'),
+    descr: childText(freq, 'descr'),
+    mode: childText(freq, 'mode'),
+    alpha: childText(freq, 'alpha'),
+    tone: childText(freq, 'tone'),
+    colorCode: childText(freq, 'colorCode'),
+    nac: childText(freq, 'nac'),
+    ran: childText(freq, 'ran'),
+    tagIds: readTagIds(freq),
+  }));
+}
+
+export function readTrsDetails(ret: XmlElement): TrsDetails {
+  return { sName: childText(ret, 'sName'), sType: childText(ret, 'sType') };
+}
+
+// Older responses spell the site fields siteLat/siteLon/siteRange/siteLocation
+export function readTrsSites(ret: XmlElement): TrsSite[] {
+  return items(ret).map(site => ({
+    siteNumber: childText(site, 'siteNumber'),
+    descr: childText(site, 'siteDescr') || childText(site, 'siteLocation'),
+    ctid: childText(site, 'siteCtid'),
+    rfss: childText(site, 'rfss'),
+    nac: childText(site, 'nac'),
+    lat: childText(site, 'lat') || childText(site, 'siteLat'),
+    lon: childText(site, 'lon') || childText(site, 'siteLon'),
+    range: childText(site, 'range') || childText(site, 'siteRange'),
+    freqs: items(site, 'siteFreqs').map(f => ({
+      freq: childText(f, 'freq'),
+      use: childText(f, 'use'),
+      lcn: childText(f, 'lcn'),
+    })),
+  }));
+}
+
+export function readTalkgroups(ret: XmlElement): RRTalkgroup[] {
+  return items(ret).map(tg => ({
+    tgDec: childText(tg, 'tgDec'),
+    tgAlpha: childText(tg, 'tgAlpha'),
+    tgDescr: childText(tg, 'tgDescr'),
+    tgMode: childText(tg, 'tgMode'),
+    tagIds: readTagIds(tg),
+  }));
+}
@@ -0,0 +1,223 @@
+/**
+ * Response cache and per-account rate limiter for RadioReference SOAP calls.
+ * County, state and system listings change slowly, so a warm function
+ * instance answers repeat lookups (users and the precacher asking for the
+ * same county) from memory instead of re-issuing 20+ SOAP calls. Calls that
+ * do go out are metered with token buckets to stay within RR's fair-use
+ * limits: per RR account once RR has accepted the login, and per credential
+ * hash before that, so bad passwords cannot spend the real account's budget.
+ * Cache keys leave the credentials out, so cached answers are only served to
+ * logins RR has recently accepted.
+ */
+
+import { createHash } from 'node:crypto';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long each method's response stays fresh. ZIP → county mappings
+// practically never move; frequency and talkgroup listings are edited daily.
+export const RR_CACHE_TTL_MS: Record<string, number> = {
+  getZipcodeInfo: 30 * 24 * HOUR_MS,
+  getCountyInfo: 24 * HOUR_MS,
+  getStateInfo: 24 * HOUR_MS,
+  getTrsDetails: 24 * HOUR_MS,
+  getTrsSites: 24 * HOUR_MS,
+  getSubcatFreqs: 6 * HOUR_MS,
+  getTrsTalkgroups: 6 * HOUR_MS,
+};
+const DEFAULT_TTL_MS = 6 * HOUR_MS;
+const MAX_CACHE_ENTRIES = 2000;
+// A changed or revoked RR password stops being served from cache within this window
+const VERIFIED_ACCOUNT_TTL_MS = 15 * 60 * 1000;
+
+const AUTH_INFO_PATTERN = /<authInfo\b[^>]*>[\s\S]*?<\/authInfo>/i;
+
+/**
+ * Splits a SOAP params fragment into the cache key (method plus params with
+ * the credentials removed, whitespace collapsed), the RR account it was sent
+ * as, and a hash of the full credentials for checking them against
+ * verified logins.
+ */
+export function soapCallKey(method: string, params: string): { key: string; account: string; credential: string } {
+  const auth = params.match(AUTH_INFO_PATTERN)?.[0] ?? '';
+  const account = (auth.match(/<username[^>]*>([^<]*)<\/username>/i)?.[1] ?? '').trim().toLowerCase();
+  const credential = createHash('sha256').update(auth.replace(/\s+/g, ' ').trim()).digest('hex');
+  const rest = params.replace(AUTH_INFO_PATTERN, '').replace(/\s+/g, ' ').trim();
+  return { key: `${method}|${rest}`, account, credential };
+}
+
+export interface SoapCacheOptions {
+  ttls?: Record<string, number>;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export interface SoapCache {
+  /** Answers from the cache, or runs `load` once for concurrent identical calls. */
+  get(method: string, key: string, load: () => Promise<string>): Promise<string>;
+  /** Stores a response fetched outside `get`. */
+  set(method: string, key: string, text: string): void;
+  clear(): void;
+  readonly size: number;
+}
+
+export function createSoapCache(options: SoapCacheOptions = {}): SoapCache {
+  const ttls = options.ttls ?? RR_CACHE_TTL_MS;
+  const maxEntries = options.maxEntries ?? MAX_CACHE_ENTRIES;
+  const now = options.now ?? Date.now;
+  // Insertion-ordered, so the first key is the least recently used
+  const entries = new Map<string, { text: string; expiresAt: number }>();
+  const inFlight = new Map<string, Promise<string>>();
+
+  const store = (method: string, key: string, text: string) => {
+    entries.delete(key);
+    entries.set(key, { text, expiresAt: now() + (ttls[method] ?? DEFAULT_TTL_MS) });
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  };
+
+  return {
+    async get(method, key, load) {
+      const hit = entries.get(key);
+      if (hit && hit.expiresAt > now()) {
+        entries.delete(key);
+        entries.set(key, hit);
+        return hit.text;
+      }
+      if (hit) entries.delete(key);
+
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      // Faults and timeouts are not cached; the next call tries again.
+      const promise = load()
+        .then(text => {
+          store(method, key, text);
+          return text;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    },
+    set: store,
+    clear() {
+      entries.clear();
+      inFlight.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+export interface VerifiedAccountsOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export interface VerifiedAccounts {
+  /** True when RR accepted exactly this credential hash for `account` within the TTL. */
+  has(account: string, credential: string): boolean;
+  add(account: string, credential: string): void;
+  clear(): void;
+}
+
+/** Short-lived record of credentials RR has accepted, holding only password hashes. */
+export function createVerifiedAccounts(options: VerifiedAccountsOptions = {}): VerifiedAccounts {
+  const ttlMs = options.ttlMs ?? VERIFIED_ACCOUNT_TTL_MS;
+  const maxEntries = options.maxEntries ?? MAX_CACHE_ENTRIES;
+  const now = options.now ?? Date.now;
+  const accounts = new Map<string, { credential: string; expiresAt: number }>();
+
+  return {
+    has(account, credential) {
+      const entry = accounts.get(account);
+      return !!entry && entry.credential === credential && entry.expiresAt > now();
+    },
+    add(account, credential) {
+      accounts.delete(account);
+      accounts.set(account, { credential, expiresAt: now() + ttlMs });
+      while (accounts.size > maxEntries) {
+        accounts.delete(accounts.keys().next().value as string);
+      }
+    },
+    clear() {
+      accounts.clear();
+    },
+  };
+}
+
+export interface RateLimiterOptions {
+  /** Calls per second each account earns back. */
+  ratePerSecond?: number;
+  /** Calls an idle account can make back to back. */
+  burst?: number;
+  /** Longest a call may wait for a token before giving up. */
+  maxWaitMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface AccountRateLimiter {
+  /**
+   * Waits for a token for `account`; throws RR_RATE_LIMITED if the wait would
+   * exceed maxWaitMs or run past `deadline` (epoch ms), the time the calling
+   * request has to answer by.
+   */
+  take(account: string, deadline?: number): Promise<void>;
+  reset(): void;
+}
+
+// A cold ZIP search is ~100 calls: ZIP, county and state info, 80+ county and
+// state subcategories, and three calls per trunked system.
+export function createAccountRateLimiter(options: RateLimiterOptions = {}): AccountRateLimiter {
+  const rate = options.ratePerSecond ?? 5;
+  const burst = options.burst ?? 150;
+  const maxWaitMs = options.maxWaitMs ?? 8_000;
+  const now = options.now ?? (() => Date.now());
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    async take(account, deadline) {
+      const at = now();
+      const bucket = buckets.get(account) ?? { tokens: burst, updatedAt: at };
+      bucket.tokens = Math.min(burst, bucket.tokens + ((at - bucket.updatedAt) / 1000) * rate);
+      bucket.updatedAt = at;
+      buckets.set(account, bucket);
+
+      // Reserve the token now so concurrent callers queue behind each other
+      bucket.tokens -= 1;
+      if (bucket.tokens >= 0) return;
+
+      const waitMs = Math.ceil((-bucket.tokens / rate) * 1000);
+      const allowedMs = deadline === undefined ? maxWaitMs : Math.min(maxWaitMs, deadline - at);
+      if (waitMs > allowedMs) {
+        bucket.tokens += 1;
+        throw new Error(`RR_RATE_LIMITED: too many RadioReference requests for this account; retry in ${Math.ceil(waitMs / 1000)}s`);
+      }
+      await sleep(waitMs);
+    },
+    reset() {
+      buckets.clear();
+    },
+  };
+}
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Shared by every request a warm instance serves
+export const rrSoapCache = createSoapCache();
+export const rrVerifiedAccounts = createVerifiedAccounts();
+export const rrRateLimiter = createAccountRateLimiter({
+  ratePerSecond: envNumber('RR_RATE_LIMIT_PER_SECOND'),
+  burst: envNumber('RR_RATE_LIMIT_BURST'),
+});
+// Calls made before RR has accepted a login, keyed by credential hash. A few
+// are enough to verify a login; guessing passwords stays slow.
+export const rrLoginRateLimiter = createAccountRateLimiter({ ratePerSecond: 0.5, burst: 5, maxWaitMs: 2_000 });
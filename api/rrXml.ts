@@ -0,0 +1,153 @@
+/**
+ * Small XML reader for RadioReference SOAP responses. Builds an element tree
+ * with namespace prefixes dropped (so `ns1:getCountyInfoResponse` is
+ * `getCountyInfoResponse`), entities and CDATA decoded into text, and
+ * comments, processing instructions and doctypes skipped. It does not
+ * validate against a schema; markup it cannot read throws XmlParseError.
+ */
+
+export interface XmlElement {
+  /** Local name, without any namespace prefix. */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Decoded text directly inside this element, not including children's text. */
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(':') + 1);
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const m of source.matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[localName(m[1])] = decodeEntities(m[2] ?? m[3] ?? '');
+  }
+  return attributes;
+}
+
+// End of a start or end tag, skipping '>' inside quoted attribute values
+function tagEnd(xml: string, from: number): number {
+  let quote = '';
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  throw new XmlParseError('Unterminated tag');
+}
+
+function skipPast(xml: string, marker: string, from: number, what: string): number {
+  const end = xml.indexOf(marker, from);
+  if (end === -1) throw new XmlParseError(`Unterminated ${what}`);
+  return end + marker.length;
+}
+
+/** Parses a document into a synthetic `#document` element holding the root. */
+export function parseXml(xml: string): XmlElement {
+  const doc: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [doc];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    const top = stack[stack.length - 1];
+    if (lt === -1 || lt > pos) {
+      top.text += decodeEntities(xml.slice(pos, lt === -1 ? xml.length : lt));
+      if (lt === -1) break;
+    }
+
+    if (xml.startsWith('<!--', lt)) {
+      pos = skipPast(xml, '-->', lt + 4, 'comment');
+    } else if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt + 9);
+      if (end === -1) throw new XmlParseError('Unterminated CDATA section');
+      top.text += xml.slice(lt + 9, end);
+      pos = end + 3;
+    } else if (xml.startsWith('<?', lt)) {
+      pos = skipPast(xml, '?>', lt + 2, 'processing instruction');
+    } else if (xml.startsWith('<!', lt)) {
+      pos = skipPast(xml, '>', lt + 2, 'declaration');
+    } else {
+      const gt = tagEnd(xml, lt + 1);
+      const raw = xml.slice(lt + 1, gt);
+      pos = gt + 1;
+
+      if (raw.startsWith('/')) {
+        const name = localName(raw.slice(1).trim());
+        if (stack.length === 1 || top.name !== name) {
+          throw new XmlParseError(`Unexpected </${name}>${stack.length > 1 ? ` inside <${top.name}>` : ''}`);
+        }
+        stack.pop();
+        continue;
+      }
+
+      const selfClosing = raw.endsWith('/');
+      const body = selfClosing ? raw.slice(0, -1) : raw;
+      const nameMatch = body.match(/^([^\s/>]+)/);
+      if (!nameMatch) throw new XmlParseError('Tag without a name');
+      const element: XmlElement = {
+        name: localName(nameMatch[1]),
+        attributes: parseAttributes(body.slice(nameMatch[1].length)),
+        children: [],
+        text: '',
+      };
+      top.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) throw new XmlParseError(`Unclosed <${stack[stack.length - 1].name}>`);
+  return doc;
+}
+
+// --- Traversal ---
+
+export function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+/** Trimmed text of a direct child, or '' when it is missing. */
+export function childText(element: XmlElement | undefined, name: string): string {
+  return child(element, name)?.text.trim() ?? '';
+}
+
+/** The `<item>` entries of an RR array, either `element` itself or its child `name`. */
+export function items(element: XmlElement | undefined, name?: string): XmlElement[] {
+  const list = name ? child(element, name) : element;
+  return list ? list.children.filter(c => c.name === 'item') : [];
+}
+
+/** First element called `name` at any depth, in document order. */
+export function findElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  if (!element) return undefined;
+  for (const c of element.children) {
+    if (c.name === name) return c;
+    const nested = findElement(c, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
@@ -1,8 +1,35 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const RR_SOAP_URL = "https://api.radioreference.com/soap2/";
+import type { Agency, Frequency, Talkgroup, TrunkedSite, TrunkedSiteChannel, TrunkedSiteChannelUse, TrunkedSystem } from '../types';
+import { classifyRRCategory, rrTagIdsForService, rrTagName } from '../utils/categoryTaxonomy';
+import { stateCodeForRrId } from '../utils/rrStateIds';
+import { rrLoginRateLimiter, rrRateLimiter, rrSoapCache, rrVerifiedAccounts, soapCallKey } from './rrSoapCache.js';
+import { XmlParseError, type XmlElement } from './rrXml.js';
+import {
+  RRSoapFault,
+  readCountyInfo,
+  readSoapReturn,
+  readStateInfo,
+  readSubcatFreqs,
+  readTalkgroups,
+  readTrsDetails,
+  readTrsSites,
+  readZipInfo,
+  type CountyInfo,
+  type RRFrequency,
+  type RRTalkgroup,
+  type StateInfo,
+  type Subcat,
+  type TrsListItem,
+  type TrsSite,
+  type ZipInfo
+} from './rrSoap.js';
+
+// RR_SOAP_URL points the wrapper at a stand-in such as mocks/rrSoapServer.mjs
+const DEFAULT_RR_SOAP_URL = "https://api.radioreference.com/soap2/";
 const RR_NAMESPACE = "http://api.radioreference.com/soap2";
 const SOAP_TIMEOUT_MS = 40_000;
+// Vercel stops the function at 10s; leave time to build the response
+const REQUEST_BUDGET_MS = 9_000;
 const DEBUG_LOGS = process.env.NODE_ENV !== 'production';
 
 function debugLog(...args: unknown[]) {
@@ -55,9 +82,42 @@ function escapeXml(str: string): string {
 
 // --- SOAP Request ---
 
-async function soapCall(method: string, params: string): Promise<string> {
+// One /api/rrdb request: the caller's RR login, when the function has to answer by,
+// and whether the rate limit cut the listing short
+interface RRSession {
+  authXml: string;
+  deadline: number;
+  truncated: boolean;
+}
+
+// Repeat calls are answered from the response cache; the rest are metered and may not
+// wait for a token past the request deadline. Only credentials RR has accepted recently
+// are served from the cache or draw on the account's budget; until then calls come out
+// of a small per-credential budget. Resolves with the response's <return> element.
+async function soapCall(method: string, callParams: string, rr: RRSession): Promise<XmlElement> {
+  const params = `${callParams}\n      ${rr.authXml}`;
+  const { key, account, credential } = soapCallKey(method, params);
+  const verified = rrVerifiedAccounts.has(account, credential);
+  const load = async () => {
+    if (verified) await rrRateLimiter.take(account, rr.deadline);
+    else await rrLoginRateLimiter.take(credential, rr.deadline);
+    const text = await requestSoap(method, params);
+    rrVerifiedAccounts.add(account, credential);
+    return text;
+  };
+  let text: string;
+  if (verified) {
+    text = await rrSoapCache.get(method, key, load);
+  } else {
+    text = await load();
+    rrSoapCache.set(method, key, text);
+  }
+  return readSoapReturn(method, text);
+}
+
+async function requestSoap(method: string, params: string): Promise<string> {
   const body = buildSoapEnvelope(method, params);
-  const response = await withTimeout(fetch(RR_SOAP_URL, {
+  const response = await withTimeout(fetch(process.env.RR_SOAP_URL || DEFAULT_RR_SOAP_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'text/xml; charset=utf-8',
@@ -66,135 +126,218 @@ async function soapCall(method: string, params: string): Promise<string> {
     body
   }), SOAP_TIMEOUT_MS, `RadioReference ${method} timed out`);
 
+  const text = await response.text();
+
+  // Faults come back as HTTP 500 (SOAP 1.1) and sometimes as HTTP 200 — read the fault either way.
+  // Parsing here also keeps faults and unreadable bodies out of the cache.
+  let parseError: unknown = null;
+  try {
+    readSoapReturn(method, text);
+  } catch (e) {
+    if (e instanceof RRSoapFault) throw e;
+    parseError = e;
+  }
+
   if (!response.ok) {
-    const text = await response.text();
     console.error(`SOAP ${method} failed (${response.status}):`, text.substring(0, 500));
     throw new Error(`RadioReference API returned ${response.status}`);
   }
+  if (parseError) throw parseError;
 
-  const text = await response.text();
+  return text;
+}
+
+// --- Tag ID Mapping ---
+// RadioReference tag ids and names live in the shared category taxonomy
+const getTagIdsForService = rrTagIdsForService;
+const getTagName = rrTagName;
+
+// --- Lookup Targets ---
+
+// What the request asked for; every path ends up as county and/or state info
+// (or a single system) feeding the same conventional + trunked pipeline.
+type RRLookup =
+  | { kind: 'zip'; zip: string }
+  | { kind: 'county'; ctid: string; stid: string | null }
+  | { kind: 'state'; stid: string; county: string | null }
+  | { kind: 'system'; sid: string };
+
+const RR_ID_PATTERN = /^\d{1,7}$/;
+
+function parseLookup(body: any): RRLookup | string {
+  if (body.zipcode) {
+    const zip = String(body.zipcode).replace(/\D/g, '');
+    return zip.length === 5 ? { kind: 'zip', zip } : 'Invalid ZIP code. Must be 5 digits.';
+  }
+  const ctid = body.ctid !== undefined ? String(body.ctid).trim() : '';
+  const stid = body.stid !== undefined ? String(body.stid).trim() : '';
+  const sid = body.sid !== undefined ? String(body.sid).trim() : '';
+  if (ctid) {
+    if (!RR_ID_PATTERN.test(ctid) || (stid && !RR_ID_PATTERN.test(stid))) return 'Invalid RadioReference county ID.';
+    return { kind: 'county', ctid, stid: stid || null };
+  }
+  if (sid) {
+    return RR_ID_PATTERN.test(sid) ? { kind: 'system', sid } : 'Invalid RadioReference system ID.';
+  }
+  if (stid) {
+    if (!RR_ID_PATTERN.test(stid)) return 'Invalid RadioReference state ID.';
+    const county = typeof body.county === 'string' ? body.county.replace(/[^a-zA-Z0-9\s.'-]/g, '').trim().slice(0, 60) : '';
+    return { kind: 'state', stid, county: county || null };
+  }
+  return 'Missing required fields: zipcode, ctid, stid or sid';
+}
 
-  // SOAP faults are sometimes returned as HTTP 200 with a fault body — detect them here
-  const faultMatch = text.match(/<faultstring[^>]*>([^<]+)<\/faultstring>/i);
-  if (faultMatch) {
-    const fault = faultMatch[1].trim();
-    throw new Error(`RR_SOAP_FAULT: ${fault}`);
+// getZipcodeInfo → county ID (ctid) and state ID (stid), checked against the ZIP's state
+async function resolveZip(zip: string, rr: RRSession): Promise<ZipInfo | null> {
+  debugLog(`[RR API] getZipcodeInfo for ${zip}`);
+  const zipItems = readZipInfo(await soapCall('getZipcodeInfo', `<zipcode xsi:type="xsd:int">${zip}</zipcode>`, rr));
+
+  // RR occasionally links a ZIP to a county in the wrong state, so insist on
+  // the state the ZIP prefix belongs to when we know it.
+  const expectedStid = inferStateIdFromZip(zip);
+  let bestMatch = zipItems.find(item => !expectedStid || item.stid === expectedStid) ?? null;
+
+  // Fallback: If no strict match found, use the first item but FORCE the state ID if we know it.
+  if (!bestMatch && zipItems.length > 0) {
+    const first = zipItems[0];
+    const finalStid = expectedStid || first.stid;
+    bestMatch = { ...first, stid: finalStid };
+    if (first.stid !== finalStid) {
+      debugLog(`[RR API] Corrected State ID from ${first.stid} to ${finalStid} for ZIP ${zip}`);
+    }
   }
 
-  return text;
+  if (!bestMatch) return null;
+
+  debugLog(`[RR API] ZIP ${zip} → City: ${bestMatch.city}, County ID: ${bestMatch.ctid}, State ID: ${bestMatch.stid} (Validated)`);
+  return bestMatch;
 }
 
-// --- XML Parsing Helpers ---
+const normalizeCountyName = (name: string) =>
+  name.toLowerCase().replace(/\b(county|parish|borough|census area|municipality)\b/g, '').replace(/^st\.?\s/, 'saint ').replace(/[^a-z0-9]/g, '');
 
-function getTextContent(xml: string, tag: string): string {
-  const regex = new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`, 'i');
-  const match = xml.match(regex);
-  return match ? match[1].trim() : '';
+// getStateInfo lists every county with its ctid
+function findCountyInState(state: StateInfo, county: string): string | null {
+  const wanted = normalizeCountyName(county);
+  return state.counties.find(c => normalizeCountyName(c.countyName) === wanted)?.ctid ?? null;
 }
 
-function getAllElements(xml: string, tag: string): string[] {
-  const results: string[] = [];
-  const regex = new RegExp(`<${tag}[^>]*>(.*?)</${tag}>`, 'gis');
-  let match;
-  while ((match = regex.exec(xml)) !== null) {
-    results.push(match[1]);
-  }
-  return results;
+async function getCountyInfo(ctid: string, rr: RRSession): Promise<CountyInfo> {
+  return readCountyInfo(await soapCall('getCountyInfo', `<ctid xsi:type="xsd:int">${ctid}</ctid>`, rr));
 }
 
-// Get all <item> elements (RR returns arrays as <item> elements)
-function getItems(xml: string): string[] {
-  const results: string[] = [];
-  // Match top-level items using a stack-based approach for nested items
-  let depth = 0;
-  let currentItem = '';
-  let inItem = false;
-  const lines = xml.split(/(<\/?item[^>]*>)/);
-
-  for (const part of lines) {
-    if (part.match(/<item[^/][^>]*>/i) || part === '<item>') {
-      depth++;
-      if (depth === 1) {
-        inItem = true;
-        currentItem = '';
-        continue;
+async function getStateInfo(stid: string, rr: RRSession): Promise<StateInfo> {
+  return readStateInfo(await soapCall('getStateInfo', `<stid xsi:type="xsd:int">${stid}</stid>`, rr));
+}
+
+// --- Fetch Steps ---
+
+// Running out of RR calls (or time to wait for them) while listing subcategories and
+// systems stops the fan-out; what was fetched is returned and marked truncated.
+const isRateLimited = (e: unknown) => e instanceof Error && e.message.startsWith('RR_RATE_LIMITED:');
+
+// Fetch all frequencies for each subcategory (but limit concurrency)
+async function fetchAgencies(subcats: Subcat[], relevantTagIds: Set<number>, rr: RRSession): Promise<Agency[]> {
+  const agencies: Agency[] = [];
+  // Vercel allows 10s execution; keep batches small enough to avoid rate limits and timeouts.
+  const batchSize = 10;
+
+  for (let i = 0; i < subcats.length && !rr.truncated; i += batchSize) {
+    const batch = subcats.slice(i, i + batchSize);
+    const results = await Promise.all(batch.map(async (sc) => {
+      try {
+        const freqs = readSubcatFreqs(await soapCall('getSubcatFreqs', `<scid xsi:type="xsd:int">${sc.scid}</scid>`, rr));
+        return { subcatName: sc.name, catName: sc.catName, freqs };
+      } catch (e) {
+        if (isRateLimited(e)) {
+          rr.truncated = true;
+          return null;
+        }
+        console.warn(`Failed to fetch scid ${sc.scid}:`, e);
+        return null;
       }
-    }
-    if (part.match(/<\/item>/i)) {
-      depth--;
-      if (depth === 0 && inItem) {
-        results.push(currentItem);
-        inItem = false;
-        continue;
+    }));
+
+    for (const r of results) {
+      if (!r) continue;
+      const freqs = parseFrequencies(r.freqs, relevantTagIds);
+      if (freqs.length > 0) {
+        // Determine category from tags or subcategory name
+        const category = inferCategory(r.catName, r.subcatName);
+        agencies.push({
+          name: r.subcatName,
+          category,
+          frequencies: freqs
+        });
       }
     }
-    if (inItem) {
-      currentItem += part;
-    }
   }
-  return results;
+
+  return agencies;
 }
 
-// --- Tag ID Mapping ---
-// RadioReference Tag IDs for common service types
-const TAG_MAP: Record<string, number> = {
-  'Law Dispatch': 1,
-  'Law Talk': 2,
-  'Law Tactical': 3,
-  'Fire Dispatch': 4,
-  'Fire Talk': 5,
-  'Fire Tactical': 6,
-  'EMS Dispatch': 7,
-  'EMS Talk': 8,
-  'EMS Tactical': 9,
-  'Hospital': 10,
-  'Ham': 11,
-  'Public Works': 12,
-  'Transportation': 14,
-  'Military': 15,
-  'Federal': 16,
-  'Corrections': 18,
-  'Schools': 20,
-  'Security': 21,
-  'Utilities': 22,
-  'Air': 23,
-  'Railroad': 25,
-  'Marine': 26,
-  'Business': 29,
-  'Multi-Dispatch': 30,
-};
+// Details, sites and talkgroups for one system, fetched in parallel
+async function fetchTrunkedSystem(
+  trs: TrsListItem,
+  ctid: string,
+  relevantTagIds: Set<number>,
+  rr: RRSession,
+  fallbackLocation: string
+): Promise<TrunkedSystem | null> {
+  const [detailRet, sitesRet, tgRet] = await Promise.all([
+    soapCall('getTrsDetails', `<sid xsi:type="xsd:int">${trs.sid}</sid>`, rr),
+    soapCall('getTrsSites', `<sid xsi:type="xsd:int">${trs.sid}</sid>`, rr),
+    soapCall('getTrsTalkgroups', `
+            <sid xsi:type="xsd:int">${trs.sid}</sid>
+            <tgCid xsi:type="xsd:int">0</tgCid>
+            <tgTag xsi:type="xsd:int">0</tgTag>
+            <tgDec xsi:type="xsd:int">0</tgDec>
+          `, rr)
+  ]);
+
+  const details = readTrsDetails(detailRet);
+  const sysName = details.sName || trs.sName;
+  const sites = parseSites(readTrsSites(sitesRet), ctid);
+  const talkgroups = parseTalkgroups(readTalkgroups(tgRet), relevantTagIds);
+
+  if (sites.length === 0 && talkgroups.length === 0) return null;
 
-// Map user-facing service type to tag IDs
-function getTagIdsForService(serviceType: string): number[] {
-  const st = serviceType.toLowerCase();
-  if (st === 'police') return [1, 2, 3]; // Law Dispatch, Talk, Tactical
-  if (st === 'fire') return [4, 5, 6];
-  if (st === 'ems') return [7, 8, 9];
-  if (st === 'hospital' || st === 'hospitals') return [10];
-  if (st === 'ham radio') return [11];
-  if (st === 'public works') return [12];
-  if (st === 'transportation') return [14];
-  if (st === 'military') return [15];
-  if (st === 'federal') return [16];
-  if (st === 'corrections') return [18];
-  if (st === 'schools') return [20];
-  if (st === 'security') return [21];
-  if (st === 'utilities') return [22];
-  if (st === 'air') return [23];
-  if (st === 'railroad') return [25];
-  if (st === 'marine') return [26];
-  if (st === 'business') return [29];
-  if (st === 'multi-dispatch') return [30];
-  return [];
+  // Use the site(s) that match our county, or the first site
+  const primarySite = sites[0];
+
+  return {
+    sid: trs.sid,
+    name: sysName,
+    type: mapTrsType(details.sType),
+    location: primarySite?.name || fallbackLocation,
+    frequencies: (primarySite?.channels || []).map(ch => ({ freq: ch.freq, use: SITE_FREQ_USE_LABELS[ch.use] })),
+    sites,
+    talkgroups
+  };
 }
 
-// Reverse map tag ID to a readable tag name
-function getTagName(tagId: number | string): string {
-  const id = Number(tagId);
-  for (const [name, tId] of Object.entries(TAG_MAP)) {
-    if (tId === id) return name;
+async function fetchTrunkedSystems(
+  trsList: TrsListItem[],
+  ctid: string,
+  relevantTagIds: Set<number>,
+  rr: RRSession,
+  fallbackLocation: string
+): Promise<TrunkedSystem[]> {
+  const trunkedSystems: TrunkedSystem[] = [];
+  for (const trs of trsList) {
+    if (rr.truncated) break;
+    try {
+      const system = await fetchTrunkedSystem(trs, ctid, relevantTagIds, rr, fallbackLocation);
+      if (system) trunkedSystems.push(system);
+    } catch (e) {
+      if (isRateLimited(e)) {
+        rr.truncated = true;
+        break;
+      }
+      console.warn(`Failed to fetch trunked system sid=${trs.sid}:`, e);
+    }
   }
-  return 'Other';
+  return trunkedSystems;
 }
 
 // --- Main Handler ---
@@ -211,148 +354,29 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { zipcode, rrUsername, rrPassword, serviceTypes } = req.body;
+    const { rrUsername, rrPassword, serviceTypes } = req.body;
 
-    if (!zipcode || !rrUsername || !rrPassword) {
-      return res.status(400).json({ error: 'Missing required fields: zipcode, rrUsername, rrPassword' });
+    if (!rrUsername || !rrPassword) {
+      return res.status(400).json({ error: 'Missing required fields: rrUsername, rrPassword' });
     }
 
-    // Validate ZIP
-    const zip = String(zipcode).replace(/\D/g, '');
-    if (zip.length !== 5) {
-      return res.status(400).json({ error: 'Invalid ZIP code. Must be 5 digits.' });
+    const lookup = parseLookup(req.body);
+    if (typeof lookup === 'string') {
+      return res.status(400).json({ error: lookup });
     }
 
     const safeServices: string[] = Array.isArray(serviceTypes) ? serviceTypes.slice(0, 20) : ['Police', 'Fire', 'EMS'];
-    const authXml = buildAuthInfo(appKey, rrUsername, rrPassword);
-
-    // -------------------------------------------------------
-    // Step 1: getZipcodeInfo → get countyId (ctid) and stateId (stid)
-    // -------------------------------------------------------
-    debugLog(`[RR API] Step 1: getZipcodeInfo for ${zip}`);
-    const zipXml = await soapCall('getZipcodeInfo', `
-      <zipcode xsi:type="xsd:int">${zip}</zipcode>
-      ${authXml}
-    `);
-
-    // Parse ALL items returned for the ZIP
-    let zipItems = getItems(zipXml);
-
-    // If no <item> tags found, but we have a ctid in the root, treat it as a single item
-    if (zipItems.length === 0) {
-      const rootCtid = getTextContent(zipXml, 'ctid');
-      if (rootCtid && rootCtid !== '0') {
-        zipItems = [zipXml];
-      }
-    }
-
-    let bestMatch: { ctid: string; stid: string; city: string } | null = null;
-
-    for (const itemXml of zipItems) {
-      const c = getTextContent(itemXml, 'ctid');
-      const s = getTextContent(itemXml, 'stid');
-      const city = getTextContent(itemXml, 'city');
-
-      if (!c || c === '0') continue;
-
-      // Validation: Enforce State ID matches ZIP prefix
-      // If RR returns a weird state (like KS for an ID zip), we override it if we are sure.
-      const expectedStid = inferStateIdFromZip(zip);
-
-      if (expectedStid) {
-        // If we have a definitive state for this ZIP, insist on it.
-        // If the item's stid matches, great. 
-        // If not, we might still accept it but FORCE the correct stid?
-        // Actually, if RR says it's in KS but ZIP says ID, RR might be returning a "nearest neighbor" or just wrong data for that specific zip entry.
-        // BUT, usually RR returns the correct county ID (ctid) but links it to the wrong state parent in some edge cases?
-        // Or maybe it returns a list of candidate counties and one is garbage.
-
-        if (s === expectedStid) {
-          bestMatch = { ctid: c, stid: s, city };
-          break;
-        }
-      } else {
-        // Fallback for unknown states (territories etc)
-        bestMatch = { ctid: c, stid: s, city };
-        break;
-      }
-    }
-
-    // Fallback: If no strict match found, use the first item but FORCE the state ID if we know it.
-    if (!bestMatch && zipItems.length > 0) {
-      const first = zipItems[0];
-      const c = getTextContent(first, 'ctid');
-      const s = getTextContent(first, 'stid');
-      const city = getTextContent(first, 'city');
-
-      const expectedStid = inferStateIdFromZip(zip);
-
-      if (c && c !== '0') {
-        // Correct the State ID if we know better
-        const finalStid = expectedStid || s;
-        bestMatch = { ctid: c, stid: finalStid, city };
-        if (s !== finalStid) {
-          debugLog(`[RR API] Corrected State ID from ${s} to ${finalStid} for ZIP ${zip}`);
-        }
-      }
-    }
-
-    if (!bestMatch) {
-      // Check for SOAP fault
-      const faultString = getTextContent(zipXml, 'faultstring');
-      if (faultString) {
-        return res.status(401).json({ error: `RadioReference: ${faultString}` });
-      }
-      return res.status(404).json({ error: 'ZIP code not found in RadioReference database (or state mismatch).' });
-    }
-
-    const { ctid, stid, city } = bestMatch;
-    debugLog(`[RR API] ZIP ${zip} → City: ${city}, County ID: ${ctid}, State ID: ${stid} (Validated)`);
-
-    // -------------------------------------------------------
-    // Step 2: getCountyInfo → get categories, subcategories, trunked system list, agencies
-    // -------------------------------------------------------
-    debugLog(`[RR API] Step 2: getCountyInfo for ctid=${ctid}`);
-
-    // Concurrently fetch County AND State info to save time
-    const [countyXml, stateXml] = await Promise.all([
-      soapCall('getCountyInfo', `
-        <ctid xsi:type="xsd:int">${ctid}</ctid>
-        ${authXml}
-      `),
-      soapCall('getStateInfo', `
-        <stid xsi:type="xsd:int">${stid}</stid>
-        ${authXml}
-      `)
-    ]);
-
-    const countyName = getTextContent(countyXml, 'countyName');
-    const locationName = `${countyName || city}, ${getStateName(stid)}`;
-
-    // Parse categories & subcategories to get scids
-    const countySubcatIds = parseSubcategories(countyXml);
-    const stateSubcatIds = parseSubcategories(stateXml); // Get all state agencies
-
-    // Parse trunked system list (County only, usually contains the relevant systems for the area)
-    const trsListRaw = parseTrsList(countyXml);
-
-    // -------------------------------------------------------
-    // Step 3: Get conventional frequencies from subcategories
-    // -------------------------------------------------------
-    // Combine County + State subcategories
-    // We filter State subcategories to only include "Statewide" or major agencies if needed,
-    // but for "finding everything", we'll just fetch them all.
-    // NOTE: State subcategories can be huge. We might want to filter by name?
-    // For now, let's fetch them but limit to "Police" and "DOT" and "Federal" types if user didn't ask for everything.
-
-    const allSubcatIds = [...countySubcatIds, ...stateSubcatIds];
-    debugLog(`[RR API] Step 3: Fetching ${allSubcatIds.length} subcategory frequency sets (County: ${countySubcatIds.length}, State: ${stateSubcatIds.length})`);
+    const rr: RRSession = {
+      authXml: buildAuthInfo(appKey, rrUsername, rrPassword),
+      deadline: Date.now() + REQUEST_BUDGET_MS,
+      truncated: false
+    };
 
     // Collect relevant tag IDs based on user's service filter
     const relevantTagIds = new Set<number>();
 
     // Heuristic: If we are asking for a lot of services (Universal Cache), fetch EVERYTHING.
-    // This prevents hiding data due to missing tag mappings in TAG_MAP.
+    // This prevents hiding data due to missing tag mappings in the taxonomy.
     const fetchAllData = safeServices.length > 12;
 
     if (!fetchAllData) {
@@ -367,124 +391,151 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       relevantTagIds.add(25); // Railroad
     }
 
-    // Fetch all frequencies for each subcategory (but limit concurrency)
-    const agencies: any[] = [];
-    // Increase batch size slightly for performance, Vercel allows 10s execution.
-    // We need to be careful not to hit rate limits or timeouts.
-    const batchSize = 10;
-
-    // Limit total subcats to fetch to avoid timeouts? 
-    // State arrays can be 100+ subcats.
-    // Let's prioritize County first, then State.
-    const prioritizedSubcats = [
-      ...countySubcatIds,
-      ...stateSubcatIds.filter(s =>
-        // Filter state agencies to avoid "State Parks" in remote areas unless requested?
-        // Actually user wants "everything possible". Let's try fetching first 50 state subcats.
-        true
-      )
-    ].slice(0, 150); // Hard cap to prevent timeout
-
-    for (let i = 0; i < prioritizedSubcats.length; i += batchSize) {
-      const batch = prioritizedSubcats.slice(i, i + batchSize);
-      const results = await Promise.all(batch.map(async (sc) => {
-        try {
-          const freqXml = await soapCall('getSubcatFreqs', `
-            <scid xsi:type="xsd:int">${sc.scid}</scid>
-            ${authXml}
-          `);
-          return { subcatName: sc.name, catName: sc.catName, freqXml };
-        } catch (e) {
-          console.warn(`Failed to fetch scid ${sc.scid}:`, e);
-          return null;
+    // -------------------------------------------------------
+    // Single trunked system (sid): no county or state context
+    // -------------------------------------------------------
+    if (lookup.kind === 'system') {
+      debugLog(`[RR API] Fetching trunked system sid=${lookup.sid}`);
+      const system = await fetchTrunkedSystem({ sid: lookup.sid, sName: '' }, '', relevantTagIds, rr, '');
+      if (!system) {
+        return res.status(404).json({ error: 'Trunked system not found in RadioReference database.', errorCode: 'RR_LOCATION_NOT_FOUND' });
+      }
+      const locationName = system.name || `RR System ${lookup.sid}`;
+      return res.status(200).json({
+        data: {
+          source: 'API' as const,
+          locationName,
+          summary: `RadioReference verified data for ${locationName}: ${system.sites?.length ?? 0} sites and ${system.talkgroups.length} talkgroups.`,
+          crossRef: {
+            verified: true,
+            confidenceScore: 100,
+            sourcesChecked: 1,
+            notes: `Data retrieved directly from RadioReference.com database (System ID: ${lookup.sid}). This is verified, authoritative source data.`
+          },
+          agencies: [],
+          trunkedSystems: [system]
         }
-      }));
-
-      for (const r of results) {
-        if (!r) continue;
-        const freqs = parseFrequencies(r.freqXml, relevantTagIds);
-        if (freqs.length > 0) {
-          // Determine category from tags or subcategory name
-          const category = inferCategory(r.catName, r.subcatName);
-          agencies.push({
-            name: r.subcatName,
-            category,
-            frequencies: freqs
+      });
+    }
+
+    // -------------------------------------------------------
+    // Step 1: resolve the target to a county (ctid) and/or state (stid)
+    // -------------------------------------------------------
+    let ctid = '';
+    let stid = '';
+    let city = '';
+    let county: CountyInfo | null = null;
+    let state: StateInfo | null = null;
+
+    if (lookup.kind === 'zip') {
+      const match = await resolveZip(lookup.zip, rr);
+      if (!match) {
+        return res.status(404).json({ error: 'ZIP code not found in RadioReference database (or state mismatch).' });
+      }
+      ({ ctid, stid, city } = match);
+    } else if (lookup.kind === 'county') {
+      ctid = lookup.ctid;
+      if (lookup.stid) {
+        stid = lookup.stid;
+      } else {
+        // The county record names its state; fetch it first so the state info can follow.
+        county = await getCountyInfo(ctid, rr);
+        stid = county.stid;
+      }
+    } else {
+      stid = lookup.stid;
+      state = await getStateInfo(stid, rr);
+      if (lookup.county) {
+        const found = findCountyInState(state, lookup.county);
+        if (!found) {
+          return res.status(404).json({
+            error: `${lookup.county} not found in RadioReference database for ${getStateName(stid)}.`,
+            errorCode: 'RR_LOCATION_NOT_FOUND'
           });
         }
+        ctid = found;
       }
     }
 
     // -------------------------------------------------------
-    // Step 4: Get trunked systems with sites and talkgroups
+    // Step 2: getCountyInfo + getStateInfo → categories, subcategories, trunked system list
     // -------------------------------------------------------
-    debugLog(`[RR API] Step 4: Fetching ${trsListRaw.length} trunked systems`);
-    const trunkedSystems: any[] = [];
+    debugLog(`[RR API] Step 2: county ctid=${ctid || '-'}, state stid=${stid || '-'}`);
 
-    // Increase limit to 50 to catch "hidden" or less popular systems
-    const trsToFetch = trsListRaw.slice(0, 50);
+    // Concurrently fetch whatever County AND State info is still missing
+    [county, state] = await Promise.all([
+      county ?? (ctid ? getCountyInfo(ctid, rr) : Promise.resolve(null)),
+      state ?? (stid ? getStateInfo(stid, rr) : Promise.resolve(null))
+    ]);
 
-    for (const trs of trsToFetch) {
-      try {
-        // Parallelize details and sites+talkgroups? 
-        // No, details needed first? Actually details are just metadata.
-        // We can run all 3 in parallel for a single system!
+    const stateName = getStateName(stid);
+    const locationName = county
+      ? [county.countyName || city, stateName].filter(Boolean).join(', ')
+      : `${stateName} Statewide`;
 
-        const [detailXml, sitesXml, tgXml] = await Promise.all([
-          soapCall('getTrsDetails', `
-            <sid xsi:type="xsd:int">${trs.sid}</sid>
-            ${authXml}
-          `),
-          soapCall('getTrsSites', `
-            <sid xsi:type="xsd:int">${trs.sid}</sid>
-            ${authXml}
-          `),
-          soapCall('getTrsTalkgroups', `
-            <sid xsi:type="xsd:int">${trs.sid}</sid>
-            <tgCid xsi:type="xsd:int">0</tgCid>
-            <tgTag xsi:type="xsd:int">0</tgTag>
-            <tgDec xsi:type="xsd:int">0</tgDec>
-            ${authXml}
-          `)
-        ]);
-
-        const sysName = getTextContent(detailXml, 'sName') || trs.sName;
-        const sysType = getTextContent(detailXml, 'sType') || '';
-        const sites = parseSites(sitesXml, ctid);
-        const talkgroups = parseTalkgroups(tgXml, relevantTagIds);
-
-        if (sites.length > 0 || talkgroups.length > 0) {
-          // Use the site(s) that match our county, or the first site
-          const primarySite = sites[0];
-
-          trunkedSystems.push({
-            name: sysName,
-            type: mapTrsType(sysType),
-            location: primarySite?.siteDescr || locationName,
-            frequencies: primarySite?.frequencies || [],
-            talkgroups
-          });
-        }
-      } catch (e) {
-        console.warn(`Failed to fetch trunked system sid=${trs.sid}:`, e);
-      }
-    }
+    // Subcategories carry the scids
+    const countySubcatIds = county?.subcats ?? [];
+    const stateSubcatIds = state?.subcats ?? []; // State Police, DOT, DNR, interop...
+
+    // County searches use the county's trunked systems; statewide searches use the state's
+    const trsListRaw = (county ?? state)?.trsList ?? [];
+    const countySids = new Set(trsListRaw.map(trs => trs.sid));
+    // For a county, the state's own systems (statewide P25 and the like) go in the Statewide section
+    const stateTrsList = county && state
+      ? state.trsList.filter(trs => !countySids.has(trs.sid)).slice(0, 10)
+      : [];
+
+    // -------------------------------------------------------
+    // Step 3: Get conventional frequencies from subcategories
+    // -------------------------------------------------------
+    // County first, then State. State arrays can be 100+ subcats.
+    const subcatBudget = 150; // Hard cap to prevent timeout
+    const countySubcats = countySubcatIds.slice(0, subcatBudget);
+    const stateSubcats = stateSubcatIds.slice(0, subcatBudget - countySubcats.length);
+    debugLog(`[RR API] Step 3: Fetching ${countySubcats.length + stateSubcats.length} subcategory frequency sets (County: ${countySubcats.length}, State: ${stateSubcats.length})`);
+    const [countyAgencies, stateAgencies] = await Promise.all([
+      fetchAgencies(countySubcats, relevantTagIds, rr),
+      fetchAgencies(stateSubcats, relevantTagIds, rr)
+    ]);
+
+    // -------------------------------------------------------
+    // Step 4: Get trunked systems with sites and talkgroups
+    // -------------------------------------------------------
+    debugLog(`[RR API] Step 4: Fetching ${trsListRaw.length} trunked systems (+${stateTrsList.length} statewide)`);
+    // Increase limit to 50 to catch "hidden" or less popular systems
+    const trunkedSystems = await fetchTrunkedSystems(trsListRaw.slice(0, 50), ctid, relevantTagIds, rr, locationName);
+    const stateSystems = await fetchTrunkedSystems(stateTrsList, ctid, relevantTagIds, rr, `${stateName} Statewide`);
 
     // -------------------------------------------------------
     // Build result
     // -------------------------------------------------------
+    // A statewide search is all state data; a county search keeps the state's in its own section
+    const agencies = county ? countyAgencies : stateAgencies;
+    const statewide = county && (stateAgencies.length > 0 || stateSystems.length > 0)
+      ? { name: `${stateName} Statewide`, stateCode: stateCodeForRrId(stid) ?? undefined, agencies: stateAgencies, trunkedSystems: stateSystems }
+      : undefined;
+    const statewideNote = statewide
+      ? ` plus ${statewide.agencies.length} statewide agencies and ${statewide.trunkedSystems.length} statewide trunked systems`
+      : '';
+
+    const ids = [ctid && `County ID: ${ctid}`, stid && `State ID: ${stid}`].filter(Boolean).join(', ');
+    const truncatedNote = rr.truncated
+      ? ' The RadioReference rate limit cut this listing short; search again shortly for the rest.'
+      : '';
     const result = {
       source: 'API' as const,
       locationName,
-      summary: `RadioReference verified data for ${locationName}. Found ${agencies.length} conventional agencies (including Statewide) and ${trunkedSystems.length} trunked systems.`,
+      summary: `RadioReference verified data for ${locationName}. Found ${agencies.length} conventional agencies and ${trunkedSystems.length} trunked systems${statewideNote}.${truncatedNote}`,
       crossRef: {
         verified: true,
         confidenceScore: 100,
         sourcesChecked: 1,
-        notes: `Data retrieved directly from RadioReference.com database (County ID: ${ctid}, State ID: ${stid}). This is verified, authoritative source data.`
+        notes: `Data retrieved directly from RadioReference.com database (${ids}). This is verified, authoritative source data.`
       },
       agencies,
-      trunkedSystems
+      trunkedSystems,
+      ...(statewide ? { statewide } : {}),
+      ...(rr.truncated ? { truncated: true } : {})
     };
 
     return res.status(200).json({ data: result });
@@ -494,9 +545,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const msg = error.message || '';
 
-    // SOAP faults returned as HTTP 200 with a fault body
-    if (msg.startsWith('RR_SOAP_FAULT:')) {
-      const fault = msg.replace('RR_SOAP_FAULT:', '').trim();
+    if (msg.startsWith('RR_RATE_LIMITED:')) {
+      res.setHeader('Retry-After', msg.match(/retry in (\d+)s/)?.[1] ?? '10');
+      return res.status(429).json({
+        error: 'Too many RadioReference requests for this account right now. Please try again shortly.',
+        errorCode: 'RR_RATE_LIMITED'
+      });
+    }
+
+    // SOAP faults, whichever HTTP status they came with
+    if (error instanceof RRSoapFault) {
+      const fault = error.faultString;
+      // "Invalid Zipcode" is a lookup miss, not a credentials problem
+      if (/zip/i.test(fault)) {
+        return res.status(404).json({
+          error: 'ZIP code not found in RadioReference database.',
+          errorCode: 'RR_ZIP_NOT_FOUND'
+        });
+      }
       const isAuthFault = /access denied|invalid|username|password|credentials|not authorized|authentication/i.test(fault);
       if (isAuthFault) {
         return res.status(401).json({
@@ -510,6 +576,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    if (error instanceof XmlParseError) {
+      return res.status(502).json({
+        error: 'RadioReference returned a response that could not be read. ' + msg,
+        errorCode: 'RR_UNAVAILABLE'
+      });
+    }
+
     if (msg.includes('401') || /authentication|invalid.*password|access denied/i.test(msg)) {
       return res.status(401).json({
         error: 'RadioReference authentication failed — check your username and password.',
@@ -539,7 +612,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 }
 
 // Infer the correct RadioReference State ID based on ZIP code prefix
-function inferStateIdFromZip(zip: string): string | null {
+export function inferStateIdFromZip(zip: string): string | null {
   if (!zip || zip.length < 3) return null;
   const prefix = parseInt(zip.substring(0, 2));
   const prefix3 = parseInt(zip.substring(0, 3));
@@ -645,8 +718,13 @@ function inferStateIdFromZip(zip: string): string | null {
   if (prefix >= 66 && prefix <= 67) return '16';
   // NE (27) 680-693
   if (prefix >= 68 && prefix <= 69) return '27';
+  // AR (4) 716-719 share prefix 71 with LA 700-714
+  if (prefix === 71) {
+    if (prefix3 >= 716 && prefix3 <= 719) return '4'; // AR
+    return '18'; // LA
+  }
   // LA (18) 700-714
-  if (prefix >= 70 && prefix <= 71) return '18';
+  if (prefix === 70) return '18';
   // AR (4) 716-729
   if (prefix === 72) return '4';
   // OK (36) 730-749
@@ -671,180 +749,113 @@ function inferStateIdFromZip(zip: string): string | null {
   if (prefix >= 20 && prefix <= 21) return '20';
   // NY (32) 100-149
   if (prefix >= 10 && prefix <= 14) return '32';
-  // AR overlap: 716-729 spans prefix 71 (also LA 700-714)
-  if (prefix === 71) {
-    if (prefix3 >= 716 && prefix3 <= 719) return '4'; // AR
-    return '18'; // LA
-  }
 
   return null;
 }
 
 
-// --- XML Parsing Functions ---
-
-interface SubcatInfo { scid: string; name: string; catName: string; }
-
-function parseSubcategories(countyXml: string): SubcatInfo[] {
-  const results: SubcatInfo[] = [];
-
-  // Extract cats section
-  const catsMatch = countyXml.match(/<cats[^>]*>(.*?)<\/cats>/is);
-  if (!catsMatch) return results;
-
-  const catItems = getItems(catsMatch[1]);
-  for (const catXml of catItems) {
-    const catName = getTextContent(catXml, 'cName');
-
-    // Find subcats within this category
-    const subcatsMatch = catXml.match(/<subcats[^>]*>(.*?)<\/subcats>/is);
-    if (!subcatsMatch) continue;
-
-    const scItems = getItems(subcatsMatch[1]);
-    for (const scXml of scItems) {
-      const scid = getTextContent(scXml, 'scid');
-      const scName = getTextContent(scXml, 'scName');
-      if (scid && scid !== '0') {
-        results.push({ scid, name: scName || catName, catName });
-      }
-    }
-  }
-
-  return results;
-}
-
-function parseTrsList(countyXml: string): Array<{ sid: string; sName: string }> {
-  const results: Array<{ sid: string; sName: string }> = [];
-
-  const trsMatch = countyXml.match(/<trsList[^>]*>(.*?)<\/trsList>/is);
-  if (!trsMatch) return results;
-
-  const trsItems = getItems(trsMatch[1]);
-  for (const trsXml of trsItems) {
-    const sid = getTextContent(trsXml, 'sid');
-    const sName = getTextContent(trsXml, 'sName');
-    if (sid && sid !== '0') {
-      results.push({ sid, sName });
-    }
-  }
+// --- Response Mapping ---
 
-  return results;
+// Frequencies and talkgroups without tags are kept; tagged ones must match the service filter
+function isRelevant(tagIds: number[], relevantTagIds: Set<number>): boolean {
+  // If relevantTagIds is empty, we assume "Fetch All" (no filter)
+  return relevantTagIds.size === 0 || tagIds.length === 0 || tagIds.some(t => relevantTagIds.has(t));
 }
 
-function parseFrequencies(freqXml: string, relevantTagIds: Set<number>): any[] {
-  const results: any[] = [];
-  const items = getItems(freqXml);
-
-  for (const itemXml of items) {
-    const out = getTextContent(itemXml, 'out');
-    if (!out || out === '0') continue;
+function parseFrequencies(freqs: RRFrequency[], relevantTagIds: Set<number>): Frequency[] {
+  const results: Frequency[] = [];
 
-    // Check if this frequency has a relevant tag
-    const tagIds = extractTagIds(itemXml);
+  for (const f of freqs) {
+    if (!f.out || f.out === '0') continue;
+    if (!isRelevant(f.tagIds, relevantTagIds)) continue;
 
-    // If relevantTagIds is empty, we assume "Fetch All" (no filter)
-    const hasRelevantTag = relevantTagIds.size === 0 || tagIds.some(t => relevantTagIds.has(t));
-    if (!hasRelevantTag && tagIds.length > 0) continue;
-
-    const freq = parseFloat(out);
+    const freq = parseFloat(f.out);
     if (isNaN(freq) || freq === 0) continue;
 
-    const tagName = tagIds.length > 0 ? getTagName(tagIds[0]) : 'Other';
-
     results.push({
       freq: freq.toFixed(4),
-      description: getTextContent(itemXml, 'descr') || '',
-      mode: getTextContent(itemXml, 'mode') || 'FM',
-      tag: tagName,
-      alphaTag: getTextContent(itemXml, 'alpha') || '',
-      tone: getTextContent(itemXml, 'tone') || '',
-      colorCode: getTextContent(itemXml, 'colorCode') || '',
-      nac: getTextContent(itemXml, 'nac') || '',
-      ran: getTextContent(itemXml, 'ran') || ''
+      description: f.descr,
+      mode: f.mode || 'FM',
+      tag: f.tagIds.length > 0 ? getTagName(f.tagIds[0]) : 'Other',
+      alphaTag: f.alpha,
+      tone: f.tone,
+      colorCode: f.colorCode,
+      nac: f.nac,
+      ran: f.ran
     });
   }
 
   return results;
 }
 
-function extractTagIds(xml: string): number[] {
-  const ids: number[] = [];
-  const tagsMatch = xml.match(/<tags[^>]*>(.*?)<\/tags>/is);
-  if (!tagsMatch) return ids;
-
-  const tagIdMatches = tagsMatch[1].matchAll(/<tagId[^>]*>(\d+)<\/tagId>/gi);
-  for (const m of tagIdMatches) {
-    ids.push(parseInt(m[1]));
-  }
-  return ids;
-}
-
-function parseSites(sitesXml: string, targetCtid: string): any[] {
-  const results: any[] = [];
-  const items = getItems(sitesXml);
-
+function parseSites(sites: TrsSite[], targetCtid: string): TrunkedSite[] {
   // Sort county-matching sites first
-  const sorted = items.sort((a, b) => {
-    const aCtid = getTextContent(a, 'siteCtid');
-    const bCtid = getTextContent(b, 'siteCtid');
-    if (aCtid === targetCtid && bCtid !== targetCtid) return -1;
-    if (bCtid === targetCtid && aCtid !== targetCtid) return 1;
+  const sorted = [...sites].sort((a, b) => {
+    if (a.ctid === targetCtid && b.ctid !== targetCtid) return -1;
+    if (b.ctid === targetCtid && a.ctid !== targetCtid) return 1;
     return 0;
   });
 
-  for (const siteXml of sorted) {
-    const siteDescr = getTextContent(siteXml, 'siteDescr') || getTextContent(siteXml, 'siteLocation') || 'Unknown Site';
-    const nac = getTextContent(siteXml, 'nac') || '';
-
-    // Parse site frequencies (control channels)
-    const siteFreqs: any[] = [];
-    const freqsMatch = siteXml.match(/<siteFreqs[^>]*>(.*?)<\/siteFreqs>/is);
-    if (freqsMatch) {
-      const freqItems = getItems(freqsMatch[1]);
-      for (const fXml of freqItems) {
-        const freq = getTextContent(fXml, 'freq');
-        const use = getTextContent(fXml, 'use') || '';
-        if (freq && freq !== '0') {
-          siteFreqs.push({
-            freq: parseFloat(freq).toFixed(4),
-            use: use || 'Unknown'
-          });
-        }
-      }
+  return sorted.map(site => {
+    // Control, alternate control and voice channels
+    const channels: TrunkedSiteChannel[] = [];
+    for (const f of site.freqs) {
+      if (!f.freq || f.freq === '0') continue;
+      const lcn = parseInt(f.lcn, 10);
+      channels.push({
+        freq: parseFloat(f.freq).toFixed(4),
+        use: mapSiteFreqUse(f.use),
+        lcn: Number.isFinite(lcn) && lcn > 0 ? lcn : undefined
+      });
     }
 
-    results.push({
-      siteDescr,
-      nac,
-      frequencies: siteFreqs
-    });
-  }
+    const lat = parseFloat(site.lat);
+    const lon = parseFloat(site.lon);
+    const range = parseFloat(site.range);
+
+    return {
+      siteNumber: site.siteNumber || undefined,
+      name: site.descr || 'Unknown Site',
+      rfss: site.rfss || undefined,
+      nac: site.nac || undefined,
+      countyId: site.ctid || undefined,
+      lat: Number.isFinite(lat) && lat !== 0 ? lat : undefined,
+      lon: Number.isFinite(lon) && lon !== 0 ? lon : undefined,
+      rangeMiles: Number.isFinite(range) && range > 0 ? range : undefined,
+      channels
+    };
+  });
+}
 
-  return results;
+// RR marks control channels "c" (or "d" for dedicated) and alternates "a"
+function mapSiteFreqUse(use: string): TrunkedSiteChannelUse {
+  const u = use.trim().toLowerCase();
+  if (u === 'a' || u.startsWith('alt')) return 'alternate';
+  if (u === 'c' || u === 'd' || u.startsWith('control')) return 'control';
+  return 'voice';
 }
 
-function parseTalkgroups(tgXml: string, relevantTagIds: Set<number>): any[] {
-  const results: any[] = [];
-  const items = getItems(tgXml);
+const SITE_FREQ_USE_LABELS: Record<TrunkedSiteChannelUse, string> = {
+  control: 'Control',
+  alternate: 'Alternate',
+  voice: 'Voice'
+};
 
-  for (const itemXml of items) {
-    const dec = getTextContent(itemXml, 'tgDec');
-    if (!dec || dec === '0') continue;
+function parseTalkgroups(talkgroups: RRTalkgroup[], relevantTagIds: Set<number>): Talkgroup[] {
+  const results: Talkgroup[] = [];
 
-    // Check tag filter
-    const tagIds = extractTagIds(itemXml);
-    const hasRelevantTag = relevantTagIds.size === 0 || tagIds.some(t => relevantTagIds.has(t));
-    if (!hasRelevantTag && tagIds.length > 0) continue;
+  for (const tg of talkgroups) {
+    if (!tg.tgDec || tg.tgDec === '0') continue;
+    if (!isRelevant(tg.tagIds, relevantTagIds)) continue;
 
-    const tagName = tagIds.length > 0 ? getTagName(tagIds[0]) : 'Other';
-    const mode = getTextContent(itemXml, 'tgMode') || 'D';
+    const mode = tg.tgMode || 'D';
 
     results.push({
-      dec,
+      dec: tg.tgDec,
       mode: mode === 'D' ? 'D' : mode === 'A' ? 'A' : mode === 'T' ? 'TDMA' : mode === 'E' ? 'Encrypted' : mode,
-      alphaTag: getTextContent(itemXml, 'tgAlpha') || '',
-      description: getTextContent(itemXml, 'tgDescr') || '',
-      tag: tagName
+      alphaTag: tg.tgAlpha,
+      description: tg.tgDescr,
+      tag: tg.tagIds.length > 0 ? getTagName(tg.tagIds[0]) : 'Other'
     });
   }
 
@@ -854,25 +865,7 @@ function parseTalkgroups(tgXml: string, relevantTagIds: Set<number>): any[] {
 // --- Utility Functions ---
 
 function inferCategory(catName: string, subcatName: string): string {
-  const combined = (catName + ' ' + subcatName).toLowerCase();
-  if (combined.includes('police') || combined.includes('sheriff') || combined.includes('law')) return 'Police';
-  if (combined.includes('fire') || combined.includes('rescue')) return 'Fire';
-  if (combined.includes('ems') || combined.includes('medic') || combined.includes('ambulance')) return 'EMS';
-  if (combined.includes('federal')) return 'Federal';
-  if (combined.includes('military')) return 'Military';
-  if (combined.includes('air') || combined.includes('aviation')) return 'Air';
-  if (combined.includes('marine')) return 'Marine';
-  if (combined.includes('railroad') || combined.includes('rail')) return 'Railroad';
-  if (combined.includes('ham') || combined.includes('amateur')) return 'Ham Radio';
-  if (combined.includes('public works')) return 'Public Works';
-  if (combined.includes('utility') || combined.includes('utilities')) return 'Utilities';
-  if (combined.includes('transport')) return 'Transportation';
-  if (combined.includes('hospital')) return 'Hospitals';
-  if (combined.includes('school')) return 'Schools';
-  if (combined.includes('correction') || combined.includes('prison') || combined.includes('jail')) return 'Corrections';
-  if (combined.includes('security')) return 'Security';
-  if (combined.includes('business')) return 'Business';
-  return catName || 'Other';
+  return classifyRRCategory(catName, subcatName) || catName || 'Other';
 }
 
 function mapTrsType(typeId: string): string {
@@ -900,16 +893,5 @@ function mapTrsType(typeId: string): string {
 }
 
 function getStateName(stid: string): string {
-  const states: Record<string, string> = {
-    '1': 'AL', '2': 'AK', '3': 'AZ', '4': 'AR', '5': 'CA', '6': 'CO', '7': 'CT',
-    '8': 'DE', '9': 'FL', '10': 'GA', '11': 'HI', '12': 'ID', '13': 'IL',
-    '14': 'IN', '15': 'IA', '16': 'KS', '17': 'KY', '18': 'LA', '19': 'ME',
-    '20': 'MD', '21': 'MA', '22': 'MI', '23': 'MN', '24': 'MS', '25': 'MO',
-    '26': 'MT', '27': 'NE', '28': 'NV', '29': 'NH', '30': 'NJ', '31': 'NM',
-    '32': 'NY', '33': 'NC', '34': 'ND', '35': 'OH', '36': 'OK', '37': 'OR',
-    '38': 'PA', '39': 'RI', '40': 'SC', '41': 'SD', '42': 'TN', '43': 'TX',
-    '44': 'UT', '45': 'VT', '46': 'VA', '47': 'WA', '48': 'WV', '49': 'WI',
-    '50': 'WY', '51': 'DC'
-  };
-  return states[stid] || stid;
+  return stateCodeForRrId(stid) || stid;
 }
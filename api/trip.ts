@@ -23,7 +23,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { start, end, serviceTypes } = req.body;
+    const { start, end, via, serviceTypes } = req.body;
 
     if (!start || !end) {
       return res.status(400).json({ error: 'Missing start or end location' });
@@ -31,10 +31,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const safeStart = String(start).replace(/[^a-zA-Z0-9\s,.-]/g, "").trim().slice(0, 100);
     const safeEnd = String(end).replace(/[^a-zA-Z0-9\s,.-]/g, "").trim().slice(0, 100);
+    const safeVia = Array.isArray(via)
+      ? via.slice(0, 10).map((stop) => String(stop).replace(/[^a-zA-Z0-9\s,.-]/g, "").trim().slice(0, 100)).filter(Boolean)
+      : [];
     const safeServices = Array.isArray(serviceTypes) ? serviceTypes.slice(0, 20) : ['Police', 'Fire', 'EMS'];
 
     const prompt = `
-    I am planning a road trip from ${safeStart} to ${safeEnd}.
+    I am planning a road trip from ${safeStart} to ${safeEnd}${safeVia.length > 0 ? `, stopping in ${safeVia.join(', then ')} on the way` : ''}.
     
     Task:
     1. Identify the driving route and select 3-5 major distinct jurisdictions (Counties/Cities) along the path.
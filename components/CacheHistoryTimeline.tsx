@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { History, Loader2, Pin, PinOff, RotateCcw, GitCompare } from 'lucide-react';
+import type { ScanResult } from '../types';
+import { listCacheSnapshots, setSnapshotPinned, type CacheSnapshot } from '../services/cacheHistoryService';
+import { diffScanResults } from '../utils/scanDiff';
+import { ChangeReport } from './ChangeReport';
+
+interface CacheHistoryTimelineProps {
+  cacheKey: string;
+  current: ScanResult;
+  /** Cache admins only; see isCacheAdmin */
+  canPin: boolean;
+  onRestore: (snapshot: CacheSnapshot, pin: boolean) => Promise<void>;
+  onStatus?: (notice: { tone: 'success' | 'error' | 'info'; message: string; detail?: string }) => void;
+}
+
+const SOURCE_LABELS: Record<CacheSnapshot['source'], { label: string; cls: string }> = {
+  API:     { label: 'RR',      cls: 'bg-emerald-900/40 text-emerald-300 border-emerald-700/60' },
+  AI:      { label: 'AI',      cls: 'bg-violet-900/40 text-violet-300 border-violet-700/60' },
+  Cache:   { label: 'Cache',   cls: 'bg-slate-800 text-slate-400 border-slate-700' },
+  Restore: { label: 'Restore', cls: 'bg-amber-900/40 text-amber-300 border-amber-700/60' },
+};
+
+function countsOf(data: ScanResult) {
+  const agencies = data.agencies || [];
+  const systems = data.trunkedSystems || [];
+  return {
+    freqs: agencies.reduce((n, a) => n + (a.frequencies?.length || 0), 0),
+    agencies: agencies.length,
+    systems: systems.length,
+    talkgroups: systems.reduce((n, s) => n + (s.talkgroups?.length || 0), 0),
+  };
+}
+
+/** Timeline of search_cache snapshots for one location, with diff, restore and pin. */
+export const CacheHistoryTimeline: React.FC<CacheHistoryTimelineProps> = ({ cacheKey, current, canPin, onRestore, onStatus }) => {
+  const [snapshots, setSnapshots] = useState<CacheSnapshot[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [diffId, setDiffId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setSnapshots(await listCacheSnapshots(cacheKey));
+  }, [cacheKey]);
+
+  useEffect(() => {
+    setSnapshots(null);
+    setDiffId(null);
+    reload();
+  }, [reload]);
+
+  const diffs = useMemo(() => {
+    const map = new Map<string, ReturnType<typeof diffScanResults>>();
+    (snapshots || []).forEach(s => map.set(s.id, diffScanResults(s.data, current)));
+    return map;
+  }, [snapshots, current]);
+
+  const run = async (snapshot: CacheSnapshot, action: () => Promise<void>) => {
+    setBusyId(snapshot.id);
+    try {
+      await action();
+      await reload();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnpin = (snapshot: CacheSnapshot) => run(snapshot, async () => {
+    const ok = await setSnapshotPinned(snapshot, false);
+    onStatus?.(ok
+      ? { tone: 'success', message: 'Snapshot unpinned.', detail: 'New searches will update the cached result again.' }
+      : { tone: 'error', message: 'Could not unpin this snapshot.' });
+  });
+
+  if (snapshots === null) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-500 py-4">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading cache history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 md:p-6">
+      <h3 className="text-sm font-bold text-slate-200 font-mono-tech uppercase tracking-wider flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-cyan-400" /> Cache History
+      </h3>
+
+      {snapshots.length === 0 ? (
+        <div className="text-slate-500 italic text-sm">No earlier snapshots for this location yet.</div>
+      ) : (
+        <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+          {snapshots.map(snapshot => {
+            const counts = countsOf(snapshot.data);
+            const diff = diffs.get(snapshot.id);
+            const source = SOURCE_LABELS[snapshot.source] || SOURCE_LABELS.Cache;
+            const busy = busyId === snapshot.id;
+            return (
+              <li key={snapshot.id} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border ${snapshot.pinned ? 'bg-amber-400 border-amber-300' : 'bg-slate-600 border-slate-500'}`} />
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <time className="font-mono-tech text-slate-300">{new Date(snapshot.createdAt).toLocaleString()}</time>
+                  <span className={`px-1.5 py-0.5 rounded border font-mono-tech uppercase text-[10px] ${source.cls}`}>{source.label}</span>
+                  {snapshot.aiModel && <span className="text-slate-500 font-mono-tech">{snapshot.aiProvider ? `${snapshot.aiProvider}/` : ''}{snapshot.aiModel}</span>}
+                  {snapshot.pinned && <span className="text-amber-300 font-mono-tech uppercase text-[10px]">Pinned</span>}
+                </div>
+                <div className="text-xs text-slate-400 mt-1">
+                  {counts.freqs} freqs · {counts.agencies} agencies · {counts.systems} trunked · {counts.talkgroups} talkgroups
+                  {diff && diff.entries.length > 0 && (
+                    <span className="ml-2 font-mono-tech text-slate-500">
+                      vs now: +{diff.counts.added} −{diff.counts.removed} ~{diff.counts.changed}
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <button
+                    onClick={() => setDiffId(diffId === snapshot.id ? null : snapshot.id)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-[10px] font-mono-tech uppercase text-slate-400 hover:text-white hover:border-cyan-500/50"
+                  >
+                    <GitCompare className="w-3 h-3" /> {diffId === snapshot.id ? 'Hide changes' : 'Changes since'}
+                  </button>
+                  <button
+                    onClick={() => run(snapshot, () => onRestore(snapshot, false))}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-[10px] font-mono-tech uppercase text-slate-400 hover:text-white hover:border-cyan-500/50 disabled:opacity-60"
+                  >
+                    {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />} Restore
+                  </button>
+                  <button
+                    onClick={() => (snapshot.pinned ? handleUnpin(snapshot) : run(snapshot, () => onRestore(snapshot, true)))}
+                    disabled={busy || !canPin}
+                    title={canPin ? 'Keep this snapshot as the cached result until unpinned' : 'Only cache admins can pin'}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-[10px] font-mono-tech uppercase text-slate-400 hover:text-amber-300 hover:border-amber-500/50 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {snapshot.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />} {snapshot.pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                </div>
+                {diffId === snapshot.id && diff && (
+                  <div className="mt-3">
+                    <ChangeReport diff={diff} title="Changes from this snapshot to now" />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default CacheHistoryTimeline;
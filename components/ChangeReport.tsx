@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, X } from 'lucide-react';
+import type { ChangeKind, DiffEntry, ScanDiff } from '../utils/scanDiff';
+
+interface ChangeReportProps {
+  diff: ScanDiff;
+  title: string;
+  onDismiss?: () => void;
+}
+
+const COLLAPSED_LIMIT = 40;
+
+const KIND_STYLES: Record<ChangeKind, { symbol: string; cls: string }> = {
+  added:   { symbol: '+', cls: 'bg-emerald-900/40 text-emerald-300 border-emerald-700/60' },
+  removed: { symbol: '−', cls: 'bg-red-900/40 text-red-300 border-red-700/60' },
+  changed: { symbol: '~', cls: 'bg-amber-900/40 text-amber-300 border-amber-700/60' },
+};
+
+const ENTITY_LABELS: Record<DiffEntry['entity'], string> = {
+  agency: 'Agency',
+  frequency: 'Freq',
+  system: 'System',
+  site: 'Site',
+  talkgroup: 'TG',
+};
+
+/** Added/removed/changed report for a ScanDiff, grouped by agency or system. */
+export const ChangeReport: React.FC<ChangeReportProps> = ({ diff, title, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const groups = useMemo(() => {
+    const visible = expanded ? diff.entries : diff.entries.slice(0, COLLAPSED_LIMIT);
+    const byParent = new Map<string, DiffEntry[]>();
+    visible.forEach(entry => byParent.set(entry.parent, [...(byParent.get(entry.parent) || []), entry]));
+    return [...byParent.entries()];
+  }, [diff, expanded]);
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 md:p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <GitCompare className="w-5 h-5 text-cyan-400" />
+        <h3 className="text-sm font-bold text-slate-200 font-mono-tech uppercase tracking-wider">{title}</h3>
+        <div className="flex gap-2 text-[10px] font-mono-tech uppercase">
+          {(Object.keys(KIND_STYLES) as ChangeKind[]).map(kind => (
+            <span key={kind} className={`px-1.5 py-0.5 rounded border ${KIND_STYLES[kind].cls}`}>
+              {diff.counts[kind]} {kind}
+            </span>
+          ))}
+        </div>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="ml-auto p-1 rounded-full text-slate-500 hover:text-white hover:bg-slate-700 transition-colors"
+            aria-label="Dismiss change report"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {diff.entries.length === 0 ? (
+        <div className="text-slate-500 italic text-sm">No differences.</div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(([parent, entries]) => (
+            <div key={parent}>
+              <h4 className="font-bold text-slate-300 text-sm mb-1">{parent}</h4>
+              <ul className="space-y-1">
+                {entries.map((entry, idx) => (
+                  <li key={`${entry.entity}-${entry.key}-${idx}`} className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className={`w-5 text-center rounded border font-bold ${KIND_STYLES[entry.kind].cls}`}>
+                      {KIND_STYLES[entry.kind].symbol}
+                    </span>
+                    <span className="text-[10px] font-mono-tech uppercase text-slate-500 w-12">{ENTITY_LABELS[entry.entity]}</span>
+                    {entry.key !== parent && <span className="font-mono-tech text-amber-400">{entry.key}</span>}
+                    <span className="text-slate-400">{entry.label}</span>
+                    {entry.changes.map(change => (
+                      <span key={change.field} className="font-mono-tech text-slate-300">
+                        {change.field}: <span className="text-red-300 line-through">{change.before || '—'}</span>
+                        {' → '}
+                        <span className="text-emerald-300">{change.after || '—'}</span>
+                      </span>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {diff.entries.length > COLLAPSED_LIMIT && (
+            <button
+              onClick={() => setExpanded(v => !v)}
+              className="text-xs font-mono-tech text-cyan-400 hover:text-white"
+            >
+              {expanded ? 'Show fewer' : `Show all ${diff.entries.length} changes`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeReport;
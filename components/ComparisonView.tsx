@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { ScanResult, Agency, TrunkedSystem } from '../types';
 import { X, Shield, Flame, Activity, Radio, Hash, Zap } from 'lucide-react';
+import { diffScanResults } from '../utils/scanDiff';
+import { ChangeReport } from './ChangeReport';
 
 interface ComparisonViewProps {
     left: ScanResult;
@@ -51,6 +53,9 @@ const SystemList: React.FC<{ systems: TrunkedSystem[] }> = ({ systems }) => {
 };
 
 export const ComparisonView: React.FC<ComparisonViewProps> = ({ left, right, onClose }) => {
+    const [view, setView] = useState<'columns' | 'changes'>('columns');
+    const diff = useMemo(() => diffScanResults(left, right), [left, right]);
+
     return (
         <div className="fixed inset-0 z-[100] bg-slate-900/95 backdrop-blur-sm overflow-hidden flex flex-col animate-fade-in">
             {/* Header */}
@@ -59,6 +64,17 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({ left, right, onC
                     <Zap className="w-5 h-5 text-cyan-400" />
                     Comparison View
                 </h2>
+                <div className="ml-auto mr-4 flex rounded-full border border-slate-700 overflow-hidden text-xs font-mono-tech uppercase">
+                    {(['columns', 'changes'] as const).map(v => (
+                        <button
+                            key={v}
+                            onClick={() => setView(v)}
+                            className={`px-3 py-1.5 transition-colors ${view === v ? 'bg-cyan-900/60 text-cyan-300' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {v === 'columns' ? 'Side by side' : `Changes (${diff.entries.length})`}
+                        </button>
+                    ))}
+                </div>
                 <button
                     onClick={onClose}
                     className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
@@ -69,6 +85,9 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({ left, right, onC
 
             {/* Content */}
             <div className="flex-1 overflow-y-auto p-4 md:p-8">
+                {view === 'changes' ? (
+                    <ChangeReport diff={diff} title={`${left.locationName} → ${right.locationName}`} />
+                ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 h-full">
 
                     {/* Left Column */}
@@ -116,6 +135,7 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({ left, right, onC
                     </div>
 
                 </div>
+                )}
             </div>
         </div>
     );
@@ -23,7 +23,7 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
     mode: 'FM',
   });
   const [loading, setLoading] = useState(false);
-  const [success, setSuccess] = useState(false);
+  const [success, setSuccess] = useState<'submitted' | 'queued' | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const set = (field: keyof typeof form) => (
@@ -46,11 +46,11 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
 
     setLoading(true);
     setError(null);
-    const ok = await submitFrequency(form);
+    const outcome = await submitFrequency(form);
     setLoading(false);
 
-    if (ok) {
-      setSuccess(true);
+    if (outcome !== 'error') {
+      setSuccess(outcome);
       setTimeout(() => {
         onSuccess?.();
         onClose();
@@ -86,8 +86,12 @@ export const ContributeModal: React.FC<ContributeModalProps> = ({
         {success ? (
           <div className="p-10 text-center">
             <CheckCircle2 className="w-16 h-16 text-emerald-400 mx-auto mb-4" />
-            <h3 className="text-xl font-bold text-white font-mono-tech mb-2">Submitted! +10 Points</h3>
-            <p className="text-slate-400 text-sm">Thanks for contributing to the community database.</p>
+            <h3 className="text-xl font-bold text-white font-mono-tech mb-2">{success === 'queued' ? 'Saved Offline' : 'Submitted! +10 Points'}</h3>
+            <p className="text-slate-400 text-sm">
+              {success === 'queued'
+                ? "You're offline. Your submission will be sent automatically when the connection comes back."
+                : 'Thanks for contributing to the community database.'}
+            </p>
           </div>
         ) : (
           <form onSubmit={handleSubmit} className="p-5 space-y-4">
@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Crosshair, Loader2, Navigation, Volume2, VolumeX, X } from 'lucide-react';
+import { ScanResult, ServiceType, TripResult } from '../types';
+import { searchFrequencies } from '../services/geminiService';
+import { resolveCountyAtPoint } from '../services/locationService';
+import type { RRCredentials } from '../services/rrApi';
+import { haversineMiles, matchTripZone, type RoutePoint, type TripZoneMatch } from '../utils/route';
+import { FrequencyDisplay } from './FrequencyDisplay';
+
+const DRIVE_VOICE_KEY = 'drive_mode_voice';
+// Re-run the county lookup only after moving this far while off the route.
+const COUNTY_LOOKUP_MOVE_MILES = 2;
+// Start loading the next zone when it is this close.
+const PREFETCH_MILES = 15;
+const ZONE_BANNER_MS = 6000;
+
+interface DriveModeProps {
+  trip: TripResult;
+  serviceTypes: ServiceType[];
+  rrCredentials?: RRCredentials;
+  onClose: () => void;
+}
+
+interface CurrentZone {
+  key: string;
+  label: string;
+  data: ScanResult | null;
+  // Index into trip.locations, or -1 for a county found off the trip
+  index: number;
+}
+
+interface GpsFix extends RoutePoint {
+  accuracy: number;
+  speedMph: number | null;
+}
+
+const sameCounty = (locationName: string, countyName: string) =>
+  locationName.trim().toLowerCase() === countyName.trim().toLowerCase();
+
+function announce(text: string) {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+}
+
+/**
+ * Full-screen, glanceable trip companion. Follows the GPS position, shows the
+ * zone the vehicle is in (or the cached county when it leaves the route),
+ * announces zone changes and warms the next zone before the boundary.
+ */
+export const DriveMode: React.FC<DriveModeProps> = ({ trip, serviceTypes, rrCredentials, onClose }) => {
+  const [fix, setFix] = useState<GpsFix | null>(null);
+  const [gpsError, setGpsError] = useState<string | null>(null);
+  const [match, setMatch] = useState<TripZoneMatch | null>(null);
+  const [current, setCurrent] = useState<CurrentZone | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [banner, setBanner] = useState<string | null>(null);
+  const [voiceOn, setVoiceOn] = useState(() => localStorage.getItem(DRIVE_VOICE_KEY) !== 'off');
+  const [zoneData, setZoneData] = useState<Map<number, ScanResult>>(new Map());
+
+  const lastLookupRef = useRef<RoutePoint | null>(null);
+  const lookupInFlightRef = useRef(false);
+  const prefetchedRef = useRef<Set<number>>(new Set());
+  const announcedKeyRef = useRef<string | null>(null);
+  // Lives outside the announce effect: GPS fixes re-set `current` inside the
+  // same zone, and that effect's cleanup must not cancel the hide timer.
+  const bannerTimerRef = useRef<number | null>(null);
+  const unmountedRef = useRef(false);
+
+  const locations = trip.locations || [];
+
+  const tripZone = useCallback((index: number): CurrentZone => ({
+    key: `trip:${index}`,
+    label: locations[index].locationName,
+    data: zoneData.get(index) ?? locations[index].data,
+    index,
+  }), [locations, zoneData]);
+
+  const prefetchZone = useCallback((index: number) => {
+    if (index < 0 || index >= locations.length || prefetchedRef.current.has(index)) return;
+    prefetchedRef.current.add(index);
+    // Goes through the normal search so the result also lands in the cache and the offline store.
+    searchFrequencies(locations[index].locationName, serviceTypes, rrCredentials)
+      .then((response) => {
+        if (unmountedRef.current || !response.data) return;
+        setZoneData(prev => new Map(prev).set(index, response.data!));
+      })
+      .catch((err) => console.warn('Drive mode prefetch failed:', err));
+  }, [locations, serviceTypes, rrCredentials]);
+
+  const lookupCounty = useCallback(async (point: RoutePoint) => {
+    if (lookupInFlightRef.current) return;
+    if (lastLookupRef.current && haversineMiles(lastLookupRef.current, point) < COUNTY_LOOKUP_MOVE_MILES) return;
+    lookupInFlightRef.current = true;
+    setLookingUp(true);
+    try {
+      const county = await resolveCountyAtPoint(point.lat, point.lng);
+      if (!county || unmountedRef.current) return;
+      const index = locations.findIndex(loc => sameCounty(loc.locationName, county.canonicalName));
+      if (index >= 0) {
+        lastLookupRef.current = point;
+        setCurrent(tripZone(index));
+        prefetchZone(index + 1);
+        return;
+      }
+      const response = await searchFrequencies(county.canonicalName, serviceTypes, rrCredentials);
+      if (unmountedRef.current) return;
+      // Only a lookup that landed waits for the car to move; a failed one retries on the next fix
+      lastLookupRef.current = point;
+      setCurrent({ key: `county:${county.canonicalKey}`, label: county.canonicalName, data: response.data, index: -1 });
+    } catch (err) {
+      console.warn('Drive mode county lookup failed:', err);
+    } finally {
+      lookupInFlightRef.current = false;
+      if (!unmountedRef.current) setLookingUp(false);
+    }
+  }, [locations, serviceTypes, rrCredentials, tripZone, prefetchZone]);
+
+  // Follow the GPS position for as long as Drive Mode is open.
+  useEffect(() => {
+    unmountedRef.current = false;
+    if (!navigator.geolocation) {
+      setGpsError('Geolocation is not supported by your browser.');
+      return;
+    }
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { latitude, longitude, accuracy, speed } = position.coords;
+        if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+        setGpsError(null);
+        setFix({
+          lat: latitude,
+          lng: longitude,
+          accuracy,
+          speedMph: typeof speed === 'number' && Number.isFinite(speed) ? speed * 2.23694 : null,
+        });
+      },
+      (err) => {
+        if (err.code === err.PERMISSION_DENIED) {
+          setGpsError('GPS Access Denied. Drive Mode needs location access.');
+        } else if (err.code === err.TIMEOUT) {
+          setGpsError('GPS Timeout. Waiting for a new fix...');
+        } else {
+          setGpsError('GPS Error: ' + err.message);
+        }
+      },
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    );
+    return () => {
+      unmountedRef.current = true;
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, []);
+
+  // Keep the screen on while driving where the browser allows it.
+  useEffect(() => {
+    let cancelled = false;
+    let lock: { release: () => Promise<void> } | null = null;
+    const wakeLock = (navigator as Navigator & { wakeLock?: { request: (type: 'screen') => Promise<{ release: () => Promise<void> }> } }).wakeLock;
+    wakeLock?.request('screen').then((sentinel) => {
+      // Drive Mode closed while the request was pending
+      if (cancelled) {
+        void sentinel.release().catch(() => undefined);
+        return;
+      }
+      lock = sentinel;
+    }).catch(() => undefined);
+    return () => {
+      cancelled = true;
+      void lock?.release().catch(() => undefined);
+    };
+  }, []);
+
+  // Position → zone.
+  useEffect(() => {
+    if (!fix) return;
+    const next = matchTripZone(trip, fix);
+    setMatch(next);
+    if (next.index >= 0) {
+      lastLookupRef.current = null;
+      setCurrent(tripZone(next.index));
+      if (next.nextIndex >= 0 && next.milesToNext !== null && next.milesToNext <= PREFETCH_MILES) {
+        prefetchZone(next.nextIndex);
+      }
+      return;
+    }
+    void lookupCounty(fix);
+  }, [fix, trip, tripZone, prefetchZone, lookupCounty]);
+
+  // Announce zone changes (not the first zone shown).
+  useEffect(() => {
+    if (!current) return;
+    if (announcedKeyRef.current === current.key) return;
+    const isFirst = announcedKeyRef.current === null;
+    announcedKeyRef.current = current.key;
+    if (isFirst) return;
+    const message = current.index >= 0 ? `Entering ${current.label}` : `Off route. Now in ${current.label}`;
+    setBanner(message);
+    if (voiceOn) announce(message);
+    navigator.vibrate?.(200);
+    if (bannerTimerRef.current !== null) window.clearTimeout(bannerTimerRef.current);
+    bannerTimerRef.current = window.setTimeout(() => {
+      bannerTimerRef.current = null;
+      setBanner(null);
+    }, ZONE_BANNER_MS);
+  }, [current, voiceOn]);
+
+  useEffect(() => () => {
+    if (bannerTimerRef.current !== null) window.clearTimeout(bannerTimerRef.current);
+  }, []);
+
+  const toggleVoice = () => {
+    setVoiceOn(prev => {
+      localStorage.setItem(DRIVE_VOICE_KEY, prev ? 'off' : 'on');
+      if (prev && 'speechSynthesis' in window) window.speechSynthesis.cancel();
+      return !prev;
+    });
+  };
+
+  const nextZone = match && match.nextIndex >= 0 ? locations[match.nextIndex] : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black text-white overflow-y-auto" role="dialog" aria-label="Drive mode">
+      <div className="sticky top-0 z-10 bg-black/95 border-b border-slate-800 px-4 py-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="text-xs font-mono-tech uppercase tracking-widest text-slate-500">
+              {current
+                ? current.index >= 0 ? `Zone ${current.index + 1} of ${locations.length}` : 'Off route • cached county'
+                : 'Drive mode'}
+            </div>
+            <h2 className="text-3xl sm:text-5xl font-bold font-mono-tech truncate">
+              {current?.label ?? 'Acquiring GPS...'}
+            </h2>
+            <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-base font-mono-tech text-slate-400">
+              {fix && (
+                <span className="flex items-center gap-1">
+                  <Crosshair className="w-4 h-4 text-emerald-400" /> ±{Math.round(fix.accuracy)} m
+                </span>
+              )}
+              {fix?.speedMph !== null && fix?.speedMph !== undefined && <span>{Math.round(fix.speedMph)} mph</span>}
+              {match?.mile !== null && match?.mile !== undefined && match.offRouteMiles <= 10 && <span>Mile {match.mile.toFixed(1)}</span>}
+              {nextZone && match?.milesToNext !== null && (
+                <span className="flex items-center gap-1 text-amber-400">
+                  <Navigation className="w-4 h-4" /> Next: {nextZone.locationName} in {match!.milesToNext!.toFixed(1)} mi
+                </span>
+              )}
+              {lookingUp && (
+                <span className="flex items-center gap-1 text-cyan-400">
+                  <Loader2 className="w-4 h-4 animate-spin" /> Locating county...
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              type="button"
+              onClick={toggleVoice}
+              title={voiceOn ? 'Mute zone announcements' : 'Announce zone changes'}
+              className="p-3 rounded-lg border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500 transition-colors"
+            >
+              {voiceOn ? <Volume2 className="w-6 h-6" /> : <VolumeX className="w-6 h-6" />}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              title="Exit drive mode"
+              className="p-3 rounded-lg border border-slate-700 text-slate-300 hover:text-red-400 hover:border-red-500 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+        {gpsError && (
+          <div className="mt-2 text-base text-red-400 font-mono-tech">{gpsError}</div>
+        )}
+        {banner && (
+          <div role="status" className="mt-3 rounded-lg bg-amber-500 text-black text-2xl font-bold font-mono-tech px-4 py-3 animate-fade-in">
+            {banner}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4">
+        {current?.data ? (
+          <FrequencyDisplay data={current.data} layout="drive" />
+        ) : (
+          <div className="flex items-center justify-center gap-3 py-24 text-2xl text-slate-500 font-mono-tech">
+            <Loader2 className="w-8 h-8 animate-spin" />
+            {fix ? 'Finding your zone...' : 'Waiting for GPS fix...'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { FileDown } from 'lucide-react';
+import { EXPORTERS } from '../utils/exporters/registry';
+import type { ExporterAccent, RadioExporter } from '../utils/exporters/types';
+
+const ACCENT_CLASSES: Record<ExporterAccent, string> = {
+  emerald: 'bg-emerald-900/40 border-emerald-500/60 text-emerald-400 hover:bg-emerald-900/60 shadow-emerald-900/20',
+  violet:  'bg-violet-900/40 border-violet-500/60 text-violet-400 hover:bg-violet-900/60 shadow-violet-900/20',
+  sky:     'bg-sky-900/40 border-sky-500/60 text-sky-400 hover:bg-sky-900/60 shadow-sky-900/20',
+  orange:  'bg-orange-900/40 border-orange-500/60 text-orange-400 hover:bg-orange-900/60 shadow-orange-900/20',
+  rose:    'bg-rose-900/40 border-rose-500/60 text-rose-400 hover:bg-rose-900/60 shadow-rose-900/20',
+  slate:   'bg-slate-800/60 border-slate-600 text-slate-300 hover:bg-slate-700',
+};
+
+interface ExportButtonsProps {
+  onExport: (exporter: RadioExporter) => void;
+}
+
+/** One button per registered file exporter. */
+export const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport }) => (
+  <>
+    {EXPORTERS.map(exporter => (
+      <button
+        key={exporter.id}
+        onClick={() => onExport(exporter)}
+        className={`inline-flex items-center gap-2 px-4 sm:px-6 py-2 sm:py-2.5 rounded-full border hover:text-white transition-all shadow-lg hover:scale-105 ${ACCENT_CLASSES[exporter.accent]}`}
+        title={`${exporter.description} (${exporter.scannerModels.join(', ')})`}
+      >
+        <FileDown className="w-5 h-5" />
+        <span className="text-sm font-mono-tech font-bold uppercase tracking-wider">{exporter.label}</span>
+      </button>
+    ))}
+  </>
+);
+
+export default ExportButtons;
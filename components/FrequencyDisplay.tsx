@@ -1,11 +1,12 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { ScanResult, Agency, TrunkedSystem, FrequencyConfirmationCount } from '../types';
-import { Radio, Shield, Flame, Activity, Hash, Zap, CheckCircle2, AlertTriangle, SearchCheck, Signal, Ear, Loader2, SlidersHorizontal, X, Search, Download, ChevronDown, ChevronUp, Flag } from 'lucide-react';
+import { Radio, Shield, Flame, Activity, Hash, Zap, CheckCircle2, AlertTriangle, SearchCheck, Signal, Ear, Loader2, SlidersHorizontal, X, Search, Download, ChevronDown, ChevronUp, Flag, Landmark } from 'lucide-react';
 import { logConfirmation, getBatchConfirmationCounts, getBatchFlagCounts } from '../services/crowdsourceService';
 import { ReliabilityBadge } from './ReliabilityBadge';
 import { ReportWrongModal } from './ReportWrongModal';
 import { trackStat } from '../utils/achievements';
+import { bandFor } from '../utils/bandPlan';
 import {
   CONVENTIONAL_SYSTEM_FILTER_KEYS as CONV_FILTER_KEYS,
   TRUNKED_SYSTEM_FILTER_KEYS as SYS_FILTER_KEYS,
@@ -169,8 +170,78 @@ interface FrequencyDisplayProps {
   locationQuery?: string;
   isLoggedIn?: boolean;
   onStatus?: (notice: { tone: 'success' | 'warning'; message: string; detail?: string }) => void;
+  // 'drive': read-only, big-font glance layout used by Drive Mode
+  layout?: 'full' | 'drive';
 }
 
+const DRIVE_TALKGROUP_LIMIT = 8;
+
+const isControlChannel = (use?: string) => /^c$|control/i.test((use || '').trim());
+
+/** Glanceable view for a moving vehicle: large frequencies and tags, no controls. */
+const DriveGlance: React.FC<{ data: ScanResult }> = ({ data }) => {
+  const channels = (data.agencies || []).flatMap(agency => (agency.frequencies || []).map(freq => ({ agency: agency.name, freq })));
+  const systems = data.trunkedSystems || [];
+
+  return (
+    <div className="space-y-8">
+      {channels.length > 0 && (
+        <section>
+          <h3 className="text-sm text-slate-500 font-mono-tech uppercase tracking-widest mb-3">Conventional • {channels.length}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {channels.map(({ agency, freq }, idx) => (
+              <div key={`${agency}-${freq.freq}-${idx}`} className="bg-black border border-slate-800 rounded-lg px-4 py-3">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="text-4xl font-bold font-mono-tech text-amber-400 tabular-nums">{freq.freq}</span>
+                  <span className="text-lg font-mono-tech text-slate-400">{freq.mode}{freq.tone ? ` • ${freq.tone}` : ''}</span>
+                </div>
+                <div className="text-2xl text-white font-semibold truncate">{freq.alphaTag || freq.description}</div>
+                <div className="text-base text-slate-500 truncate">{agency}</div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {systems.length > 0 && (
+        <section>
+          <h3 className="text-sm text-slate-500 font-mono-tech uppercase tracking-widest mb-3">Trunked • {systems.length}</h3>
+          <div className="space-y-3">
+            {systems.map((system, idx) => {
+              const control = (system.frequencies || []).filter(f => isControlChannel(f.use));
+              const shown = (control.length > 0 ? control : system.frequencies || []).slice(0, 4);
+              const talkgroups = system.talkgroups || [];
+              return (
+                <div key={`${system.name}-${idx}`} className="bg-black border border-slate-800 rounded-lg px-4 py-3">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <span className="text-2xl text-white font-bold truncate">{system.name}</span>
+                    <span className="text-base font-mono-tech text-slate-400 shrink-0">{system.type}</span>
+                  </div>
+                  {shown.length > 0 && (
+                    <div className="mt-1 text-3xl font-bold font-mono-tech text-cyan-400 tabular-nums">
+                      {shown.map(f => f.freq).join('  ')}
+                    </div>
+                  )}
+                  {talkgroups.length > 0 && (
+                    <div className="mt-2 text-lg text-slate-300 font-mono-tech">
+                      {talkgroups.slice(0, DRIVE_TALKGROUP_LIMIT).map(tg => tg.alphaTag || tg.dec).join(' • ')}
+                      {talkgroups.length > DRIVE_TALKGROUP_LIMIT && <span className="text-slate-500"> +{talkgroups.length - DRIVE_TALKGROUP_LIMIT}</span>}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {channels.length === 0 && systems.length === 0 && (
+        <div className="p-8 text-center border border-dashed border-slate-700 rounded-lg text-2xl text-slate-500">No channels for the selected services here.</div>
+      )}
+    </div>
+  );
+};
+
 interface AgencyCardProps {
   agency: Agency;
   locationQuery: string;
@@ -268,6 +339,19 @@ const ReportWrongButton: React.FC<{
   </button>
 );
 
+const BandName: React.FC<{ freq: string }> = ({ freq }) => {
+  const band = bandFor(freq);
+  if (!band) return null;
+  return (
+    <span
+      className="block text-[10px] font-normal font-mono-tech text-slate-500 uppercase tracking-wide"
+      title={`Expected ${band.mode}, ${band.stepKhz} kHz steps`}
+    >
+      {band.name}
+    </span>
+  );
+};
+
 const AgencyCard: React.FC<AgencyCardProps> = ({ agency, locationQuery, counts, flagCounts, confirmedSet, onConfirm, onReportWrong, isLoggedIn }) => {
   const getIcon = (cat: string) => {
     const c = (cat || '').toLowerCase();
@@ -303,7 +387,10 @@ const AgencyCard: React.FC<AgencyCardProps> = ({ agency, locationQuery, counts,
               <React.Fragment key={idx}>
                 {/* Desktop Row */}
                 <tr className="hidden md:table-row hover:bg-slate-700/30 transition-colors">
-                  <td className="px-4 py-3 font-mono-tech text-amber-400 font-bold">{freq.freq}</td>
+                  <td className="px-4 py-3 font-mono-tech text-amber-400 font-bold">
+                    {freq.freq}
+                    <BandName freq={freq.freq} />
+                  </td>
                   <td className="px-4 py-3 font-mono-tech text-slate-400">
                     {freq.tone || 'CSQ'}
                     {/* Digital Badges */}
@@ -363,6 +450,7 @@ const AgencyCard: React.FC<AgencyCardProps> = ({ agency, locationQuery, counts,
                     <div className="flex justify-between items-start mb-2">
                       <div className="flex flex-col">
                         <span className="text-xl font-mono-tech font-bold text-amber-400">{freq.freq}</span>
+                        <BandName freq={freq.freq} />
                         <span className="text-xs font-mono-tech text-slate-500">{freq.mode} {freq.tone ? `• ${freq.tone}` : ''}</span>
                       </div>
                       <div className="flex flex-col items-end gap-1">
@@ -486,7 +574,10 @@ const TrunkedSystemCard: React.FC<{ system: TrunkedSystem }> = ({ system }) => {
           <Hash className="w-5 h-5 text-purple-400" title="Trunked System" />
           <div>
             <h3 className="text-lg font-bold text-slate-100 font-mono-tech uppercase tracking-wider">{system.name}</h3>
-            <p className="text-xs text-purple-300 font-mono-tech">{system.type} • {system.location}</p>
+            <p className="text-xs text-purple-300 font-mono-tech">
+              {system.type} • {system.location}
+              {(system.sites?.length ?? 0) > 1 && ` • ${system.sites!.length} sites`}
+            </p>
           </div>
         </div>
 
@@ -616,10 +707,11 @@ const TrunkedSystemCard: React.FC<{ system: TrunkedSystem }> = ({ system }) => {
   );
 };
 
-export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locationQuery = '', isLoggedIn = false, onStatus }) => {
+export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locationQuery = '', isLoggedIn = false, onStatus, layout = 'full' }) => {
   // Defensive checks: Ensure arrays exist
   const agencies = data.agencies || [];
   const systems = data.trunkedSystems || [];
+  const statewide = data.statewide;
 
   // Confirmation counts from DB
   const [counts, setCounts] = useState<Map<string, FrequencyConfirmationCount>>(new Map());
@@ -639,7 +731,8 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
 
   // --- Frequency range filter ---
   const freqBounds = useMemo(() => {
-    const vals = agencies.flatMap(a => a.frequencies.map(f => parseFloat(f.freq))).filter(v => !isNaN(v));
+    const vals = [...agencies, ...(statewide?.agencies || [])]
+      .flatMap(a => a.frequencies.map(f => parseFloat(f.freq))).filter(v => !isNaN(v));
     if (vals.length === 0) return null;
     const lo = Math.floor(Math.min(...vals) / 5) * 5;
     const hi = Math.ceil(Math.max(...vals) / 5) * 5;
@@ -672,12 +765,12 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
 
   const handleFilterClear = useCallback(() => setActiveFilters(new Set()), []);
 
-  // Compute filtered agencies: keep agencies that have at least one matching frequency
-  const filteredAgencies = useMemo(() => {
+  // Keep agencies that have at least one matching frequency
+  const filterAgencies = useCallback((list: Agency[]) => {
     const needle = searchText.trim().toLowerCase();
     const activeConvKeys = CONV_FILTER_KEYS.filter(k => activeFilters.has(k));
 
-    return agencies
+    return list
       .map(agency => {
         let freqs = agency.frequencies || [];
 
@@ -714,14 +807,13 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
         return { ...agency, frequencies: freqs };
       })
       .filter(a => a.frequencies.length > 0);
-  }, [agencies, activeFilters, searchText, activeLow, activeHigh, freqBounds]);
+  }, [activeFilters, searchText, activeLow, activeHigh, freqBounds]);
 
-  // Compute filtered trunked systems
-  const filteredSystems = useMemo(() => {
+  const filterSystems = useCallback((list: TrunkedSystem[]) => {
     const needle = searchText.trim().toLowerCase();
     const activeSysKeys = SYS_FILTER_KEYS.filter(k => activeFilters.has(k));
 
-    let filtered = systems;
+    let filtered = list;
 
     // Apply system-type filter
     if (activeFilters.size > 0) {
@@ -745,7 +837,14 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
     }
 
     return filtered;
-  }, [systems, activeFilters, searchText]);
+  }, [activeFilters, searchText]);
+
+  const filteredAgencies = useMemo(() => filterAgencies(agencies), [agencies, filterAgencies]);
+  const filteredSystems = useMemo(() => filterSystems(systems), [systems, filterSystems]);
+
+  // State Police, DOT, DNR and statewide systems, under the same filters
+  const statewideAgencies = useMemo(() => filterAgencies(statewide?.agencies || []), [statewide, filterAgencies]);
+  const statewideSystems = useMemo(() => filterSystems(statewide?.trunkedSystems || []), [statewide, filterSystems]);
 
   const visibleSystems = useMemo(
     () => filteredSystems.filter((system) => (system.talkgroups?.length ?? 0) > 0),
@@ -763,7 +862,8 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
   // Load batch counts when result changes
   useEffect(() => {
     if (!locationQuery) return;
-    const allRows = agencies.flatMap(a => a.frequencies.map(f => ({ frequency: f.freq, agencyName: a.name })));
+    const allRows = [...agencies, ...(statewide?.agencies || [])]
+      .flatMap(a => a.frequencies.map(f => ({ frequency: f.freq, agencyName: a.name })));
     if (allRows.length === 0) return;
     getBatchConfirmationCounts(allRows, locationQuery)
       .then(setCounts)
@@ -790,11 +890,18 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
         return updated;
       });
       trackStat({ confirms: 1 });
+    } else if (result === 'queued') {
+      setConfirmedSet(prev => new Set(prev).add(rowKey));
+      onStatus?.({
+        tone: 'success',
+        message: 'Heard It saved offline.',
+        detail: 'It will sync automatically when the connection comes back.',
+      });
     } else if (result === 'duplicate') {
       // Mark as confirmed this session — button shows confirmed state to prevent re-click confusion
       setConfirmedSet(prev => new Set(prev).add(rowKey));
     }
-  }, [locationQuery]);
+  }, [locationQuery, onStatus]);
 
   const handleSmartExport = useCallback(async (minConfirmations: number) => {
     const { generateSmartCSV } = await import('../utils/csvGenerator');
@@ -813,6 +920,10 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
     onStatus({ tone: 'warning', message: result.message });
   }, [data, counts, onStatus]);
 
+  if (layout === 'drive') {
+    return <DriveGlance data={data} />;
+  }
+
   return (
     <div className="space-y-8 animate-fade-in">
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 bg-slate-800/30 border border-slate-700/50 rounded-lg">
@@ -1150,6 +1261,36 @@ export const FrequencyDisplay: React.FC<FrequencyDisplayProps> = ({ data, locati
         </div>
       </div>
 
+      {statewide && (statewideAgencies.length > 0 || statewideSystems.length > 0) && (
+        <div className="space-y-6" data-testid="statewide-section">
+          <div className="flex items-center gap-2 mb-4 border-b border-slate-700 pb-2">
+            <Landmark className="w-5 h-5 text-slate-400" />
+            <h3 className="text-xl font-semibold text-slate-200">{statewide.name}</h3>
+            <span className="text-xs font-mono-tech text-slate-500 uppercase tracking-wider">State Police, DOT, DNR &amp; interop</span>
+          </div>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+            <div className="space-y-6">
+              {statewideAgencies.map((agency, i) => (
+                <AgencyCard
+                  key={i}
+                  agency={agency}
+                  locationQuery={locationQuery}
+                  counts={counts}
+                  flagCounts={flagCounts}
+                  confirmedSet={confirmedSet}
+                  onConfirm={handleConfirm}
+                  onReportWrong={(freq, agencyName) => setReportTarget({ freq, agencyName })}
+                  isLoggedIn={isLoggedIn}
+                />
+              ))}
+            </div>
+            <div className="space-y-6">
+              {statewideSystems.map((sys, i) => <TrunkedSystemCard key={i} system={sys} />)}
+            </div>
+          </div>
+        </div>
+      )}
+
       <ReportWrongModal
         open={Boolean(reportTarget)}
         onClose={() => setReportTarget(null)}
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Cpu, FileDown, Loader2, X } from 'lucide-react';
+import type { ScanResult, ServiceType, TripResult } from '../types';
+import { getBatchConfirmationCounts } from '../services/crowdsourceService';
+import { zonesOf } from '../utils/exporters/shared';
+import type { ExportSource } from '../utils/exporters/types';
+import {
+  DROP_REASON_TEXT,
+  MEMORY_BUDGET_PROFILES,
+  getMemoryBudgetProfile,
+  planMemoryBudget,
+  type BudgetMode,
+  type ConfirmationCount,
+  type DropReason,
+  type MemoryBudgetPlan,
+} from '../utils/memoryBudget';
+
+const BUDGET_PROFILE_KEY = 'memory_budget_profile';
+// Rows shown per drop reason before collapsing into "+N more".
+const REPORT_ROWS = 25;
+
+type BudgetNotice = { tone: 'success' | 'warning' | 'error'; message: string; detail?: string };
+
+interface MemoryBudgetPlannerProps {
+  data: ExportSource;
+  /** Services the user searched for; ranked ahead of the rest. */
+  priorities?: ServiceType[];
+  onClose: () => void;
+  onStatus?: (notice: BudgetNotice) => void;
+}
+
+async function exportPlan(plan: MemoryBudgetPlan): Promise<BudgetNotice> {
+  const { profile, data } = plan;
+  if (profile.exporterId === 'sds100') {
+    const { exportSentinelZip, exportTripSentinelZip } = await import('../utils/sentinelExporter');
+    const model = profile.id as Parameters<typeof exportTripSentinelZip>[1];
+    const summary = 'startLocation' in data
+      ? await exportTripSentinelZip(data as TripResult, model)
+      : await exportSentinelZip(data as ScanResult, undefined, model);
+    return { tone: 'success', message: `${profile.label} package ready: ${summary.listCount} favorites list${summary.listCount === 1 ? '' : 's'}.` };
+  }
+
+  const { getExporter, runExport } = await import('../utils/exporters/registry');
+  const exporter = getExporter(profile.exporterId);
+  if (!exporter) return { tone: 'error', message: `No exporter for ${profile.label}.` };
+  const result = await runExport(exporter, data);
+  if (result.ok === false) return { tone: result.empty ? 'warning' : 'error', message: result.message };
+  return {
+    tone: result.warnings.length > 0 ? 'warning' : 'success',
+    message: `${exporter.label} export ready: ${result.count} ${result.count === 1 ? 'entry' : 'entries'}.`,
+    detail: `Downloaded ${result.filename}.`,
+  };
+}
+
+/**
+ * Fits a result or trip to the memory of a chosen radio before exporting,
+ * and lists what had to be left out and why.
+ */
+export const MemoryBudgetPlanner: React.FC<MemoryBudgetPlannerProps> = ({ data, priorities, onClose, onStatus }) => {
+  const [profileId, setProfileId] = useState(() => {
+    const saved = localStorage.getItem(BUDGET_PROFILE_KEY);
+    return saved && getMemoryBudgetProfile(saved) ? saved : MEMORY_BUDGET_PROFILES[0].id;
+  });
+  const [mode, setMode] = useState<BudgetMode>('trim');
+  const [confirmations, setConfirmations] = useState<Array<Map<string, ConfirmationCount>>>([]);
+  const [exporting, setExporting] = useState(false);
+  const [notice, setNotice] = useState<BudgetNotice | null>(null);
+
+  // Community confirmations are stored per location, so fetch them zone by zone.
+  useEffect(() => {
+    let cancelled = false;
+    const zones = zonesOf(data);
+    Promise.all(zones.map(zone => {
+      const rows = (zone.data.agencies || []).flatMap(a => a.frequencies.map(f => ({ frequency: f.freq, agencyName: a.name })));
+      return rows.length > 0 ? getBatchConfirmationCounts(rows, zone.name) : Promise.resolve(new Map());
+    }))
+      .then(maps => { if (!cancelled) setConfirmations(maps); })
+      .catch(err => console.warn('Failed to load confirmation counts for budgeting:', err));
+    return () => { cancelled = true; };
+  }, [data]);
+
+  const profile = getMemoryBudgetProfile(profileId) ?? MEMORY_BUDGET_PROFILES[0];
+  const plan = useMemo(
+    () => planMemoryBudget(data, profile, { mode, priorities, confirmations }),
+    [data, profile, mode, priorities, confirmations]
+  );
+
+  const droppedByReason = useMemo(() => {
+    const groups = new Map<DropReason, MemoryBudgetPlan['dropped']>();
+    plan.dropped.forEach(entry => {
+      if (!groups.has(entry.reason)) groups.set(entry.reason, []);
+      groups.get(entry.reason)!.push(entry);
+    });
+    return Array.from(groups.entries());
+  }, [plan]);
+
+  const chooseProfile = (id: string) => {
+    setProfileId(id);
+    localStorage.setItem(BUDGET_PROFILE_KEY, id);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const result = await exportPlan(plan);
+      setNotice(result);
+      onStatus?.(result);
+    } catch (err) {
+      console.error('Budgeted export failed:', err);
+      setNotice({ tone: 'error', message: 'Failed to build the export. Please try again.' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const title = 'startLocation' in data ? `${data.startLocation} to ${data.endLocation}` : data.locationName;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/95 backdrop-blur-sm overflow-hidden flex flex-col animate-fade-in" role="dialog" aria-label="Memory budget">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700 bg-slate-900 shadow-xl">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-amber-400" />
+          Memory Budget: {title}
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+          title="Close"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="px-6 py-3 border-b border-slate-800 flex flex-wrap items-center gap-3">
+        <label className="text-xs font-mono-tech uppercase text-slate-400 flex items-center gap-2">
+          Radio
+          <select
+            value={profile.id}
+            onChange={(e) => chooseProfile(e.target.value)}
+            className="bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-slate-100 normal-case"
+          >
+            {MEMORY_BUDGET_PROFILES.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex rounded-full border border-slate-600 overflow-hidden text-xs font-mono-tech uppercase">
+          {(['trim', 'split'] as BudgetMode[]).map(m => (
+            <button
+              key={m}
+              type="button"
+              aria-pressed={mode === m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1.5 transition-colors ${mode === m ? 'bg-amber-500 text-black font-bold' : 'text-slate-300 hover:bg-slate-800'}`}
+            >
+              {m === 'trim' ? 'Trim to fit' : 'Split into lists'}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-slate-400 font-mono-tech">
+          {profile.channelsPerList} per list · {profile.maxLists} list{profile.maxLists === 1 ? '' : 's'} · {profile.totalChannels} total
+        </span>
+        <button
+          type="button"
+          onClick={() => { void handleExport(); }}
+          disabled={exporting || plan.kept === 0}
+          className="ml-auto inline-flex items-center gap-2 px-4 py-2 rounded-full border bg-emerald-900/40 border-emerald-500/60 text-emerald-300 hover:bg-emerald-900/60 hover:text-white text-sm font-mono-tech font-bold uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+          Export {plan.kept}
+        </button>
+      </div>
+
+      {notice && (
+        <div className={`px-6 py-2 border-b border-slate-800 text-xs font-mono-tech ${notice.tone === 'error' ? 'text-red-400' : notice.tone === 'warning' ? 'text-amber-300' : 'text-emerald-400'}`}>
+          {notice.message}{notice.detail ? ` ${notice.detail}` : ''}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-6">
+        <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+          <p className="text-sm text-slate-200 font-mono-tech" data-testid="budget-summary">
+            Keeping {plan.kept} of {plan.total} channels and talkgroups in {plan.lists.length} list{plan.lists.length === 1 ? '' : 's'}
+            {plan.dropped.length > 0 ? ` · ${plan.dropped.length} left out` : ' · everything fits'}
+          </p>
+          {plan.lists.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {plan.lists.map((list, idx) => (
+                <span key={idx} className="px-2.5 py-1 rounded-full border border-slate-600 bg-slate-900 text-[11px] font-mono-tech text-slate-300">
+                  {list.name}: {list.count}/{profile.channelsPerList}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {droppedByReason.map(([reason, entries]) => (
+          <div key={reason} className="bg-slate-800/50 rounded-xl border border-slate-700 p-4">
+            <h3 className="text-sm font-bold text-amber-300 flex items-center gap-2 mb-3">
+              <AlertTriangle className="w-4 h-4" />
+              {DROP_REASON_TEXT[reason]} ({entries.length})
+            </h3>
+            <table className="w-full text-xs font-mono-tech">
+              <thead>
+                <tr className="text-left text-slate-500 uppercase">
+                  <th className="py-1 pr-3">Zone</th>
+                  <th className="py-1 pr-3">Channel</th>
+                  <th className="py-1 pr-3">Freq / TGID</th>
+                  <th className="py-1 pr-3">Score</th>
+                  <th className="py-1">Why</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.slice(0, REPORT_ROWS).map((entry, idx) => (
+                  <tr key={idx} className="border-t border-slate-700/50 text-slate-300">
+                    <td className="py-1 pr-3">{entry.zone}</td>
+                    <td className="py-1 pr-3">{entry.label}</td>
+                    <td className="py-1 pr-3 text-amber-400">{entry.value}</td>
+                    <td className="py-1 pr-3">{entry.score}</td>
+                    <td className="py-1 text-slate-400">{entry.detail}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {entries.length > REPORT_ROWS && (
+              <p className="mt-2 text-xs text-slate-500">+{entries.length - REPORT_ROWS} more</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,345 @@
+import React, { useMemo, useState } from 'react';
+import { ScanResult, TrunkedSystem } from '../types';
+import { parseFavoritesImport, type ImportFile, type ParsedImport, type TrunkSystem } from '../utils/sds100';
+import { statewideResult } from '../utils/statewide';
+import { X, Upload, Hash, Shield, HardDrive, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface RadioImportViewProps {
+    result: ScanResult;
+    onClose: () => void;
+}
+
+function toHz(freqMhz: string): number | null {
+    const mhz = Number.parseFloat(freqMhz);
+    return Number.isFinite(mhz) ? Math.round(mhz * 1_000_000) : null;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function addHz(into: Set<number>, freqMhz: string) {
+    const hz = toHz(freqMhz);
+    if (hz !== null) into.add(hz);
+}
+
+interface SystemIndex {
+    name: string;
+    freqs: Set<number>;
+    tgids: Set<number>;
+}
+
+function indexResultSystem(sys: TrunkedSystem): SystemIndex {
+    const freqs = new Set<number>();
+    (sys.frequencies || []).forEach(f => addHz(freqs, f.freq));
+    (sys.sites || []).forEach(site => (site.channels || []).forEach(ch => addHz(freqs, ch.freq)));
+    const tgids = new Set<number>();
+    (sys.talkgroups || []).forEach(tg => {
+        const id = Number.parseInt(tg.dec, 10);
+        if (Number.isInteger(id)) tgids.add(id);
+    });
+    return { name: normalizeName(sys.name), freqs, tgids };
+}
+
+function indexRadioSystem(system: TrunkSystem): SystemIndex {
+    const freqs = new Set<number>();
+    system.sites.forEach(site => [...site.controlChannelsHz, ...(site.voiceChannelsHz || [])].forEach(hz => freqs.add(hz)));
+    const tgids = new Set<number>();
+    system.groups.forEach(group => group.talkgroups.forEach(tg => tgids.add(tg.tgid)));
+    return { name: normalizeName(system.name), freqs, tgids };
+}
+
+/** Same system when the names match or any site channel is shared; talkgroup ids only mean something within one system. */
+function sameSystem(a: SystemIndex, b: SystemIndex): boolean {
+    if (a.name && a.name === b.name) return true;
+    return Array.from(a.freqs).some(hz => b.freqs.has(hz));
+}
+
+function formatMhz(hz: number): string {
+    return (hz / 1_000_000).toFixed(4);
+}
+
+async function readImportFiles(fileList: FileList): Promise<ImportFile[]> {
+    const files: ImportFile[] = [];
+
+    for (const file of Array.from(fileList)) {
+        if (/\.zip$/i.test(file.name)) {
+            const { default: JSZip } = await import('jszip');
+            const zip = await JSZip.loadAsync(await file.arrayBuffer());
+            const entries = Object.values(zip.files).filter(entry => !entry.dir && /\.(hpd|cfg)$/i.test(entry.name));
+            for (const entry of entries) {
+                files.push({ path: entry.name, content: await entry.async('string') });
+            }
+            continue;
+        }
+        files.push({ path: file.name, content: await file.text() });
+    }
+
+    return files;
+}
+
+const MatchBadge: React.FC<{ matched: boolean; matchedLabel: string; missingLabel: string }> = ({ matched, matchedLabel, missingLabel }) => (
+    <span className={`px-1.5 py-0.5 rounded text-[10px] font-mono-tech uppercase ${matched
+        ? 'bg-emerald-900/40 text-emerald-300 border border-emerald-700/60'
+        : 'bg-slate-800 text-slate-500 border border-slate-700'
+        }`}>
+        {matched ? matchedLabel : missingLabel}
+    </span>
+);
+
+export const RadioImportView: React.FC<RadioImportViewProps> = ({ result, onClose }) => {
+    const [imported, setImported] = useState<ParsedImport | null>(null);
+    const [reading, setReading] = useState(false);
+    const [readError, setReadError] = useState<string | null>(null);
+
+    // The state's own agencies and systems are part of what the search found
+    const statewide = useMemo(() => statewideResult(result), [result]);
+    const resultAgencies = useMemo(() => [...(result.agencies || []), ...(statewide?.agencies || [])], [result, statewide]);
+    const resultSystems = useMemo(() => [...(result.trunkedSystems || []), ...(statewide?.trunkedSystems || [])], [result, statewide]);
+
+    const radioIndex = useMemo(() => {
+        const freqs = new Set<number>();
+        const systems = new Map<TrunkSystem, SystemIndex>();
+        imported?.job.favoritesLists.forEach(list => list.systems.forEach(system => {
+            if (system.kind === 'conventional') {
+                system.departments.forEach(dept => dept.channels.forEach(ch => freqs.add(ch.frequencyHz)));
+            } else {
+                const index = indexRadioSystem(system);
+                index.freqs.forEach(hz => freqs.add(hz));
+                systems.set(system, index);
+            }
+        }));
+        return { freqs, systems };
+    }, [imported]);
+
+    const resultIndex = useMemo(() => {
+        const freqs = new Set<number>();
+        const systems = new Map<TrunkedSystem, SystemIndex>();
+        resultAgencies.forEach(agency => agency.frequencies.forEach(f => addHz(freqs, f.freq)));
+        resultSystems.forEach(sys => {
+            const index = indexResultSystem(sys);
+            index.freqs.forEach(hz => freqs.add(hz));
+            systems.set(sys, index);
+        });
+        return { freqs, systems };
+    }, [resultAgencies, resultSystems]);
+
+    // Talkgroups each side's systems can match: those of the same system on the other side
+    const tgidScopes = useMemo(() => {
+        const radio = new Map<TrunkSystem, Set<number>>();
+        const found = new Map<TrunkedSystem, Set<number>>();
+        radioIndex.systems.forEach((_, system) => radio.set(system, new Set()));
+        resultIndex.systems.forEach((_, sys) => found.set(sys, new Set()));
+        radioIndex.systems.forEach((radioSys, system) => {
+            resultIndex.systems.forEach((resultSys, sys) => {
+                if (!sameSystem(radioSys, resultSys)) return;
+                resultSys.tgids.forEach(id => radio.get(system)!.add(id));
+                radioSys.tgids.forEach(id => found.get(sys)!.add(id));
+            });
+        });
+        return { radio, found };
+    }, [radioIndex, resultIndex]);
+
+    const missingFromRadio = useMemo(() => {
+        if (!imported) return 0;
+        let missing = Array.from(resultIndex.freqs).filter(hz => !radioIndex.freqs.has(hz)).length;
+        resultIndex.systems.forEach((index, sys) => {
+            const onRadio = tgidScopes.found.get(sys);
+            missing += Array.from(index.tgids).filter(id => !onRadio?.has(id)).length;
+        });
+        return missing;
+    }, [imported, radioIndex, resultIndex, tgidScopes]);
+
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const fileList = event.target.files;
+        if (!fileList || fileList.length === 0) return;
+
+        setReading(true);
+        setReadError(null);
+        try {
+            const files = await readImportFiles(fileList);
+            setImported(parseFavoritesImport(files));
+        } catch (err) {
+            console.error('Favorites import failed:', err);
+            setReadError('Could not read those files. Select f_list.cfg and its .hpd files, or a ZIP containing them.');
+        } finally {
+            setReading(false);
+            event.target.value = '';
+        }
+    };
+
+    const issues = imported?.issues || [];
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-slate-900/95 backdrop-blur-sm overflow-hidden flex flex-col animate-fade-in">
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700 bg-slate-900 shadow-xl">
+                <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                    <HardDrive className="w-5 h-5 text-amber-400" />
+                    Radio Favorites vs. {result.locationName}
+                </h2>
+                <button
+                    onClick={onClose}
+                    className="p-2 hover:bg-slate-800 rounded-full text-slate-400 hover:text-white transition-colors"
+                    title="Close"
+                >
+                    <X className="w-6 h-6" />
+                </button>
+            </div>
+
+            <div className="px-6 py-3 border-b border-slate-800 flex flex-wrap items-center gap-3">
+                <label className="inline-flex items-center gap-2 px-4 py-2 rounded-full border bg-amber-900/40 border-amber-500/60 text-amber-300 hover:bg-amber-900/60 cursor-pointer text-sm font-mono-tech font-bold uppercase tracking-wider">
+                    {reading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Load f_list.cfg / .hpd / ZIP
+                    <input
+                        type="file"
+                        multiple
+                        accept=".hpd,.cfg,.zip"
+                        onChange={handleFiles}
+                        className="hidden"
+                        aria-label="Favorites list files"
+                    />
+                </label>
+                <span className="text-xs text-slate-400">
+                    Files are read in your browser and never uploaded.
+                </span>
+                {imported && (
+                    <span className="text-xs font-mono-tech text-slate-300">
+                        {imported.job.favoritesLists.length} list{imported.job.favoritesLists.length === 1 ? '' : 's'} loaded · {missingFromRadio} result entr{missingFromRadio === 1 ? 'y' : 'ies'} missing from radio
+                    </span>
+                )}
+            </div>
+
+            {(readError || issues.length > 0) && (
+                <div className="px-6 py-2 border-b border-slate-800 text-xs text-amber-300 font-mono-tech space-y-1 max-h-28 overflow-y-auto">
+                    {readError && <div className="text-red-400">{readError}</div>}
+                    {issues.map((issue, idx) => (
+                        <div key={idx} className="flex items-start gap-1">
+                            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                            <span>{issue.path}: {issue.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 md:p-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 h-full">
+
+                    {/* Radio Column */}
+                    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 md:p-6 overflow-y-auto">
+                        <div className="mb-6 pb-4 border-b border-slate-700">
+                            <h3 className="text-2xl font-bold text-white mb-1">On Your Radio</h3>
+                            <p className="text-sm text-slate-400">Imported favorites lists</p>
+                        </div>
+
+                        {!imported && (
+                            <div className="text-slate-500 italic text-sm">Load your scanner's favorites_lists folder to compare.</div>
+                        )}
+
+                        {imported?.job.favoritesLists.map((list, li) => (
+                            <div key={li} className="mb-6">
+                                <h4 className="text-xs uppercase tracking-wider text-amber-400 font-bold mb-3">{list.listName}</h4>
+                                <div className="space-y-4">
+                                    {list.systems.map((system, si) => (
+                                        <div key={si} className="border-b border-slate-700/50 pb-2 last:border-0">
+                                            <h5 className="font-bold text-slate-300 text-sm flex items-center gap-1">
+                                                {system.kind === 'trunk' ? <Hash className="w-3 h-3" /> : <Shield className="w-3 h-3" />}
+                                                {system.name}
+                                                {system.kind === 'trunk' && <span className="text-xs text-slate-500 font-normal">({system.trunkType})</span>}
+                                            </h5>
+                                            {system.kind === 'conventional' ? system.departments.map((dept, di) => (
+                                                <div key={di} className="mt-2">
+                                                    <div className="text-xs text-slate-500 mb-1">{dept.name}</div>
+                                                    <div className="space-y-1">
+                                                        {dept.channels.map((ch, ci) => (
+                                                            <div key={ci} className="flex items-center gap-2 text-xs">
+                                                                <span className="text-amber-400 font-mono-tech w-20">{formatMhz(ch.frequencyHz)}</span>
+                                                                <span className="text-slate-300 truncate flex-1">{ch.name}</span>
+                                                                <MatchBadge matched={resultIndex.freqs.has(ch.frequencyHz)} matchedLabel="In results" missingLabel="Not in results" />
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )) : system.groups.map((group, gi) => (
+                                                <div key={gi} className="mt-2">
+                                                    <div className="text-xs text-slate-500 mb-1">{group.name}</div>
+                                                    <div className="space-y-1">
+                                                        {group.talkgroups.map((tg, ti) => (
+                                                            <div key={ti} className="flex items-center gap-2 text-xs">
+                                                                <span className="text-purple-300 font-mono-tech w-20">{tg.tgid}</span>
+                                                                <span className="text-slate-300 truncate flex-1">{tg.name}</span>
+                                                                <MatchBadge matched={Boolean(tgidScopes.radio.get(system)?.has(tg.tgid))} matchedLabel="In results" missingLabel="Not in results" />
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Search Result Column */}
+                    <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-4 md:p-6 overflow-y-auto">
+                        <div className="mb-6 pb-4 border-b border-slate-700">
+                            <h3 className="text-2xl font-bold text-white mb-1">{result.locationName}</h3>
+                            <p className="text-sm text-slate-400 line-clamp-2">{result.summary}</p>
+                        </div>
+
+                        <div className="mb-6">
+                            <h4 className="text-xs uppercase tracking-wider text-slate-500 font-bold mb-3 flex items-center gap-2">
+                                <Shield className="w-4 h-4" /> Conventional Agencies
+                            </h4>
+                            <div className="space-y-4">
+                                {resultAgencies.map((agency, ai) => (
+                                    <div key={ai} className="border-b border-slate-700/50 pb-2 last:border-0">
+                                        <h5 className="font-bold text-slate-300 text-sm">{agency.name}</h5>
+                                        <div className="space-y-1 mt-1">
+                                            {agency.frequencies.map((f, fi) => {
+                                                const hz = toHz(f.freq);
+                                                return (
+                                                    <div key={fi} className="flex items-center gap-2 text-xs">
+                                                        <span className="text-amber-400 font-mono-tech w-20">{f.freq}</span>
+                                                        <span className="text-slate-300 truncate flex-1">{f.alphaTag || f.description}</span>
+                                                        {imported && <MatchBadge matched={hz !== null && radioIndex.freqs.has(hz)} matchedLabel="On radio" missingLabel="Missing" />}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <h4 className="text-xs uppercase tracking-wider text-slate-500 font-bold mb-3 flex items-center gap-2">
+                                <Hash className="w-4 h-4" /> Trunked Systems
+                            </h4>
+                            <div className="space-y-4">
+                                {resultSystems.map((sys, si) => (
+                                    <div key={si} className="border-b border-slate-700/50 pb-2 last:border-0">
+                                        <h5 className="font-bold text-purple-300 text-sm">{sys.name} <span className="text-xs text-slate-500 font-normal">({sys.type})</span></h5>
+                                        <div className="space-y-1 mt-1">
+                                            {(sys.talkgroups || []).map((tg, ti) => {
+                                                const id = Number.parseInt(tg.dec, 10);
+                                                return (
+                                                    <div key={ti} className="flex items-center gap-2 text-xs">
+                                                        <span className="text-purple-300 font-mono-tech w-20">{tg.dec}</span>
+                                                        <span className="text-slate-300 truncate flex-1">{tg.alphaTag || tg.description}</span>
+                                                        {imported && <MatchBadge matched={Boolean(tgidScopes.found.get(sys)?.has(id))} matchedLabel="On radio" missingLabel="Missing" />}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                </div>
+            </div>
+        </div>
+    );
+};
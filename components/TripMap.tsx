@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CircleMarker, MapContainer, Polygon, Polyline, TileLayer, Tooltip, useMap } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Link as LinkIcon, Loader2 } from 'lucide-react';
+import type { CountyBoundary, ScanResult, TripResult } from '../types';
+import { fetchCountyBoundaries } from '../services/locationService';
+import type { SharedSystem } from '../utils/sharedSystems';
+
+// Matches the source badges: RR (API) green, AI amber, cloud cache purple.
+const SOURCE_COLORS: Record<ScanResult['source'], string> = {
+  API: '#10b981',
+  AI: '#f59e0b',
+  Cache: '#a855f7',
+};
+const SOURCE_LABELS: Record<ScanResult['source'], string> = {
+  API: 'RadioReference',
+  AI: 'AI',
+  Cache: 'Cache',
+};
+const SHARED_COLOR = '#22d3ee';
+const MAX_BOUNDARY_ZONES = 40;
+const MAX_SHARED_CHIPS = 8;
+
+type LatLngTuple = [number, number];
+
+interface TripMapProps {
+  trip: TripResult;
+  sharedSystems: SharedSystem[];
+  selectedZone: number | null;
+  onSelectZone: (index: number) => void;
+}
+
+const zonePoint = (trip: TripResult, index: number) => trip.locations[index].coords ?? trip.locations[index].data?.coords ?? null;
+
+// GeoJSON rings are [lng, lat]; Leaflet wants [lat, lng].
+function boundaryPositions(boundary: CountyBoundary): LatLngTuple[][] | LatLngTuple[][][] {
+  const ring = (coords: number[][]) => coords.map(([lng, lat]) => [lat, lng] as LatLngTuple);
+  if (boundary.geometry.type === 'Polygon') {
+    return (boundary.geometry.coordinates as number[][][]).map(ring);
+  }
+  return (boundary.geometry.coordinates as number[][][][]).map((polygon) => polygon.map(ring));
+}
+
+const FitTrip: React.FC<{ points: LatLngTuple[] }> = ({ points }) => {
+  const map = useMap();
+  const signature = points.map((p) => p.join(',')).join(';');
+  useEffect(() => {
+    if (points.length === 0) return;
+    if (points.length === 1) {
+      map.setView(points[0], 9);
+    } else {
+      map.fitBounds(points, { padding: [24, 24] });
+    }
+    // Refit only when the trip itself changes.
+  }, [signature, map]);
+  return null;
+};
+
+/**
+ * Route overview for a trip: each zone's county outline colored by where its
+ * data came from, with shared systems highlighted across the zones they span.
+ * Clicking a zone hands its index back so the planner can open its display.
+ */
+export const TripMap: React.FC<TripMapProps> = ({ trip, sharedSystems, selectedZone, onSelectZone }) => {
+  const [boundaries, setBoundaries] = useState<Array<CountyBoundary | null>>([]);
+  const [loadingBoundaries, setLoadingBoundaries] = useState(false);
+  const [activeShared, setActiveShared] = useState<string | null>(null);
+
+  const locations = trip.locations || [];
+  const path = useMemo<LatLngTuple[]>(() => (trip.route?.path || []).map((p) => [p.lat, p.lng]), [trip.route]);
+  const points = useMemo(() => locations.map((_, i) => zonePoint(trip, i)), [trip, locations]);
+
+  useEffect(() => {
+    const located = points.slice(0, MAX_BOUNDARY_ZONES).filter((p): p is { lat: number; lng: number } => p !== null);
+    if (located.length === 0) {
+      setBoundaries([]);
+      return;
+    }
+    const controller = new AbortController();
+    setLoadingBoundaries(true);
+    fetchCountyBoundaries(located, controller.signal)
+      .then((found) => {
+        if (controller.signal.aborted) return;
+        // Spread back over zone indexes, skipping zones without a point.
+        let next = 0;
+        setBoundaries(points.map((p, i) => (p && i < MAX_BOUNDARY_ZONES ? found[next++] : null)));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingBoundaries(false);
+      });
+    return () => controller.abort();
+  }, [points]);
+
+  const highlighted = useMemo(() => {
+    const system = sharedSystems.find((s) => s.key === activeShared);
+    return new Set(system?.zones ?? []);
+  }, [sharedSystems, activeShared]);
+
+  const fitPoints = useMemo<LatLngTuple[]>(() => {
+    if (path.length > 0) return path;
+    return points.filter((p): p is { lat: number; lng: number } => p !== null).map((p) => [p.lat, p.lng]);
+  }, [path, points]);
+
+  if (fitPoints.length === 0) return null;
+
+  const zoneStyle = (index: number) => {
+    const color = SOURCE_COLORS[locations[index].data?.source] ?? SOURCE_COLORS.AI;
+    const isHighlighted = highlighted.has(index);
+    const dimmed = activeShared !== null && !isHighlighted;
+    return {
+      color: isHighlighted ? SHARED_COLOR : color,
+      weight: isHighlighted || selectedZone === index ? 3 : 1.5,
+      dashArray: isHighlighted ? '6 4' : undefined,
+      fillColor: color,
+      fillOpacity: dimmed ? 0.05 : selectedZone === index ? 0.35 : 0.18,
+      opacity: dimmed ? 0.4 : 0.9,
+    };
+  };
+
+  const sources = Array.from(new Set(locations.map((loc) => loc.data?.source).filter(Boolean))) as ScanResult['source'][];
+
+  return (
+    <div className="rounded-lg overflow-hidden border border-slate-700 shadow-lg bg-slate-900">
+      <div className="h-80 w-full relative z-0">
+        <MapContainer center={fitPoints[0]} zoom={7} style={{ height: '100%', width: '100%' }} scrollWheelZoom={false}>
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+          />
+          {locations.map((loc, index) => {
+            const boundary = boundaries[index];
+            const point = points[index];
+            const handlers = { click: () => onSelectZone(index) };
+            const label = <Tooltip sticky>{`Zone ${index + 1}: ${loc.locationName}`}</Tooltip>;
+            if (boundary) {
+              return (
+                <Polygon key={`zone-${index}`} positions={boundaryPositions(boundary)} pathOptions={zoneStyle(index)} eventHandlers={handlers}>
+                  {label}
+                </Polygon>
+              );
+            }
+            // No outline yet (or the lookup failed): fall back to a dot at the zone point.
+            if (!point) return null;
+            return (
+              <CircleMarker key={`zone-${index}`} center={[point.lat, point.lng]} radius={9} pathOptions={zoneStyle(index)} eventHandlers={handlers}>
+                {label}
+              </CircleMarker>
+            );
+          })}
+          {path.length > 1 && <Polyline positions={path} pathOptions={{ color: '#f8fafc', weight: 3, opacity: 0.8 }} />}
+          <FitTrip points={fitPoints} />
+        </MapContainer>
+        {loadingBoundaries && (
+          <div className="absolute top-2 right-2 bg-slate-900/80 backdrop-blur px-2 py-1 rounded border border-slate-700 text-[10px] text-slate-400 font-mono-tech z-[400] pointer-events-none flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" /> Loading county outlines...
+          </div>
+        )}
+      </div>
+
+      <div className="px-3 py-2 border-t border-slate-800 flex flex-wrap items-center gap-x-4 gap-y-2 text-[10px] font-mono-tech uppercase">
+        {sources.map((source) => (
+          <span key={source} className="flex items-center gap-1.5 text-slate-400">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SOURCE_COLORS[source] }} />
+            {SOURCE_LABELS[source]}
+          </span>
+        ))}
+        <span className="text-slate-600 normal-case">Click a zone to open its frequencies</span>
+      </div>
+
+      {sharedSystems.length > 0 && (
+        <div className="px-3 pb-3 flex flex-wrap gap-2">
+          {sharedSystems.slice(0, MAX_SHARED_CHIPS).map((system) => {
+            const active = activeShared === system.key;
+            return (
+              <button
+                key={system.key}
+                type="button"
+                aria-pressed={active}
+                onClick={() => setActiveShared(active ? null : system.key)}
+                title={`Zones ${system.zones.map((z) => z + 1).join(', ')}`}
+                className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[10px] font-mono-tech font-bold uppercase transition-colors ${
+                  active
+                    ? 'border-cyan-400 bg-cyan-500/20 text-cyan-300'
+                    : 'border-cyan-600/40 bg-cyan-900/20 text-cyan-500 hover:text-cyan-300'
+                }`}
+              >
+                <LinkIcon className="w-3 h-3" />
+                {system.label}
+                <span className="text-slate-500">{system.kind} • {system.zones.length} zones</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
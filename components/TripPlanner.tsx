@@ -1,14 +1,33 @@
 
 import React, { Suspense, lazy, useEffect, useMemo, useRef, useState } from 'react';
 import { TripResult, ServiceType, ScanResult } from '../types';
-import { planTrip, filterTripByServices } from '../services/geminiService';
+import { planTrip, planTripFromRouteFile, filterTripByServices } from '../services/geminiService';
+import { parseRouteGeometry, polylineLengthMiles } from '../utils/route';
+import { findSharedSystems } from '../utils/sharedSystems';
+import type { RRCredentials } from '../services/rrApi';
 import { isValidLocationInput } from '../utils/security';
-import { Map as MapIcon, MapPin, Navigation, FileDown, Loader2, CheckSquare, Square, AlertTriangle, Zap, Bot, Timer, BookOpen, FileText, ArrowLeftRight, History, X, CheckCheck, LinkIcon } from 'lucide-react';
+import { Map as MapIcon, MapPin, Navigation, FileDown, Loader2, CheckSquare, Square, AlertTriangle, Zap, Bot, Timer, BookOpen, FileText, ArrowLeftRight, History, X, CheckCheck, LinkIcon, Route, Upload, Plus, Car, Cpu } from 'lucide-react';
 import { FrequencyDisplay } from './FrequencyDisplay';
+import { EXPORT_SCANNER_MODELS, getModelProfile } from '../utils/sds100/profiles';
+import type { ScannerModel } from '../utils/sds100/types';
 
 const ProgrammingManual = lazy(async () => ({ default: (await import('./ProgrammingManual')).ProgrammingManual }));
+const DriveMode = lazy(async () => ({ default: (await import('./DriveMode')).DriveMode }));
+const TripMap = lazy(async () => ({ default: (await import('./TripMap')).TripMap }));
+const MemoryBudgetPlanner = lazy(async () => ({ default: (await import('./MemoryBudgetPlanner')).MemoryBudgetPlanner }));
 
 const TRIP_HISTORY_KEY = 'trip_history';
+const MAX_VIA_STOPS = 8;
+const ROUTE_FILE_ACCEPT = '.gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json';
+
+type TripHistoryEntry = { start: string; end: string; via?: string[] };
+
+interface LoadedRouteFile {
+    name: string;
+    text: string;
+    points: number;
+    miles: number;
+}
 const LOAD_STEPS = [
     'Mapping driving route...',
     'Identifying scan zones...',
@@ -17,24 +36,41 @@ const LOAD_STEPS = [
     'Compiling trip manifest...',
 ];
 
-function loadTripHistory(): Array<{ start: string; end: string }> {
+function loadTripHistory(): TripHistoryEntry[] {
     try {
         const saved = localStorage.getItem(TRIP_HISTORY_KEY);
         return saved ? JSON.parse(saved) : [];
     } catch { return []; }
 }
 
-function saveTripToHistory(start: string, end: string) {
+const historyKey = (h: TripHistoryEntry) => [h.start, ...(h.via || []), h.end].join('|').toLowerCase();
+
+function saveTripToHistory(entry: TripHistoryEntry) {
     const history = loadTripHistory();
-    const key = `${start}|${end}`.toLowerCase();
-    const filtered = history.filter(h => `${h.start}|${h.end}`.toLowerCase() !== key);
-    filtered.unshift({ start, end });
+    const key = historyKey(entry);
+    const filtered = history.filter(h => historyKey(h) !== key);
+    filtered.unshift(entry);
     localStorage.setItem(TRIP_HISTORY_KEY, JSON.stringify(filtered.slice(0, 5)));
 }
 
-export const TripPlanner: React.FC = () => {
+function formatDuration(minutes: number): string {
+    const h = Math.floor(minutes / 60);
+    const m = Math.round(minutes % 60);
+    return h > 0 ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m`;
+}
+
+type ExportNotice = { tone: 'success' | 'warning' | 'error'; message: string; detail?: string };
+
+interface TripPlannerProps {
+    rrCredentials?: RRCredentials;
+}
+
+export const TripPlanner: React.FC<TripPlannerProps> = ({ rrCredentials }) => {
     const [start, setStart] = useState('');
     const [end, setEnd] = useState('');
+    const [via, setVia] = useState<string[]>([]);
+    const [routeFile, setRouteFile] = useState<LoadedRouteFile | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
     const [serviceTypes, setServiceTypes] = useState<ServiceType[]>(['Police', 'Fire', 'EMS']);
     const [loading, setLoading] = useState(false);
     const [trip, setTrip] = useState<TripResult | null>(null);
@@ -43,24 +79,39 @@ export const TripPlanner: React.FC = () => {
     const [inputWarning, setInputWarning] = useState<string | null>(null);
     const [searchTime, setSearchTime] = useState<number>(0);
     const [searchStep, setSearchStep] = useState<string>('');
-    const [tripHistory, setTripHistory] = useState<Array<{ start: string; end: string }>>([]);
+    const [tripHistory, setTripHistory] = useState<TripHistoryEntry[]>([]);
     const [showHistory, setShowHistory] = useState(false);
+    const [showDriveMode, setShowDriveMode] = useState(false);
+    const [showBudget, setShowBudget] = useState(false);
+    const [selectedZone, setSelectedZone] = useState<number | null>(null);
+    const [exportNotice, setExportNotice] = useState<ExportNotice | null>(null);
+    const [scannerModel, setScannerModel] = useState<ScannerModel>('SDS100');
     const stepIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
     // State for the manual modal in Trip View
     const [selectedManualData, setSelectedManualData] = useState<ScanResult | null>(null);
 
     const handleTripCsvExport = async (data: TripResult) => {
-        const { generateCSV } = await import('../utils/csvGenerator');
-        const result = generateCSV(data);
-        if (!result.ok) {
-            setError(result.message);
+        const { getExporter, runExport } = await import('../utils/exporters/registry');
+        const exporter = getExporter('csv');
+        if (!exporter) {
+            setExportNotice({ tone: 'error', message: 'CSV export is not available.' });
+            return;
+        }
+        const result = await runExport(exporter, data);
+        if (result.ok === false) {
+            setExportNotice({ tone: result.empty ? 'warning' : 'error', message: result.message });
         }
     };
 
     const handleTripZipExport = async (data: TripResult) => {
-        const { exportTripSentinelZip } = await import('../utils/sentinelExporter');
-        await exportTripSentinelZip(data);
+        try {
+            const { exportTripSentinelZip, describeSds100Package } = await import('../utils/sentinelExporter');
+            setExportNotice(describeSds100Package(await exportTripSentinelZip(data, scannerModel), scannerModel));
+        } catch (err) {
+            console.error('Trip SDS100 export failed:', err);
+            setExportNotice({ tone: 'error', message: `Failed to generate the ${getModelProfile(scannerModel).label} package. Please try again.` });
+        }
     };
 
     const handleTripPdfExport = async (data: TripResult) => {
@@ -123,7 +174,7 @@ export const TripPlanner: React.FC = () => {
         );
     };
 
-    const handleInputChange = (setter: React.Dispatch<React.SetStateAction<string>>, value: string) => {
+    const handleInputChange = (setter: (value: string) => void, value: string) => {
         // Real-time validation
         if (!isValidLocationInput(value)) {
             setInputWarning("Invalid characters detected. Please use letters, numbers, spaces, and commas only.");
@@ -134,22 +185,48 @@ export const TripPlanner: React.FC = () => {
         setter(value);
     };
 
+    const handleViaChange = (index: number, value: string) => {
+        handleInputChange(next => setVia(prev => prev.map((stop, i) => (i === index ? next : stop))), value);
+    };
+
+    const addViaStop = () => setVia(prev => (prev.length < MAX_VIA_STOPS ? [...prev, ''] : prev));
+    const removeViaStop = (index: number) => setVia(prev => prev.filter((_, i) => i !== index));
+
+    const handleRouteFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const text = await file.text();
+            const points = parseRouteGeometry(text);
+            setRouteFile({ name: file.name, text, points: points.length, miles: polylineLengthMiles(points) });
+            setError(null);
+        } catch (err: any) {
+            setRouteFile(null);
+            setError(err.message || 'Could not read that route file.');
+        }
+    };
+
     const handlePlan = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        // Security Check
-        if (!isValidLocationInput(start) || !isValidLocationInput(end)) {
-            setError("Security Alert: Input contains restricted characters. Remove special symbols.");
-            return;
-        }
+        const stops = via.map(stop => stop.trim()).filter(Boolean);
 
-        if (!start || !end) {
-            setError("Please enter both start and end locations.");
-            return;
-        }
-        if (start.trim().toLowerCase() === end.trim().toLowerCase()) {
-            setError("Start and end locations must be different.");
-            return;
+        if (!routeFile) {
+            // Security Check
+            if (![start, end, ...stops].every(isValidLocationInput)) {
+                setError("Security Alert: Input contains restricted characters. Remove special symbols.");
+                return;
+            }
+
+            if (!start || !end) {
+                setError("Please enter both start and end locations.");
+                return;
+            }
+            if (start.trim().toLowerCase() === end.trim().toLowerCase() && stops.length === 0) {
+                setError("Start and end locations must be different.");
+                return;
+            }
         }
         if (serviceTypes.length === 0) {
             setError("Please select at least one service type.");
@@ -160,19 +237,24 @@ export const TripPlanner: React.FC = () => {
         setError(null);
         setInputWarning(null);
         setTrip(null);
+        setSelectedZone(null);
         setSearchTime(0);
 
         const startTime = performance.now();
 
         try {
-            const result = await planTrip(start, end, serviceTypes);
+            const result = routeFile
+                ? await planTripFromRouteFile(routeFile.text, serviceTypes, rrCredentials)
+                : await planTrip(start, end, serviceTypes, rrCredentials, { via: stops });
             if (result.trip) {
                 // Store master (unfiltered) trip so re-filtering is instant
                 const master = result.trip as TripResult;
                 setMasterTrip(master);
                 setTrip(filterTripByServices(master, serviceTypes));
-                saveTripToHistory(start, end);
-                setTripHistory(loadTripHistory());
+                if (!routeFile) {
+                    saveTripToHistory(stops.length > 0 ? { start, end, via: stops } : { start, end });
+                    setTripHistory(loadTripHistory());
+                }
                 setShowHistory(false);
             } else {
                 setError("Could not generate a route plan. Please try different locations.");
@@ -189,6 +271,7 @@ export const TripPlanner: React.FC = () => {
     const handleSwap = () => {
         setStart(end);
         setEnd(start);
+        setVia(prev => [...prev].reverse());
     };
 
     const selectAllServices = () => setServiceTypes([...availableTypes]);
@@ -196,6 +279,23 @@ export const TripPlanner: React.FC = () => {
 
     // Helper for Badge
     const getSourceBadge = (isCached: boolean) => {
+        if (trip?.route) {
+            return (
+                <div className="flex items-center gap-4 flex-wrap">
+                    <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full border bg-emerald-900/30 border-emerald-500/50 text-emerald-400">
+                        <Route className="w-3 h-3" />
+                        <span className="text-[10px] font-mono-tech font-bold uppercase tracking-wider">Source: Route ({trip.route.provider})</span>
+                    </div>
+                    <div className="text-xs font-mono-tech text-slate-400">
+                        {trip.route.distanceMiles} mi • {formatDuration(trip.route.durationMinutes)} drive
+                    </div>
+                    <div className="text-xs font-mono-tech text-slate-500 flex items-center gap-1">
+                        <Timer className="w-3 h-3" />
+                        {searchTime.toFixed(2)}s
+                    </div>
+                </div>
+            );
+        }
         if (isCached) {
             return (
                 <div className="flex items-center gap-4">
@@ -231,44 +331,23 @@ export const TripPlanner: React.FC = () => {
     // Defensive: Ensure locations is an array
     const locations = trip?.locations || [];
 
-    // Cross-border coverage hints: find agencies/systems appearing in 2+ zones
+    // Systems, agencies and interop channels that carry across zone boundaries
+    const sharedSystems = useMemo(() => findSharedSystems(trip), [trip]);
+
+    // Cross-border coverage hints per zone, derived from the shared systems
     const crossBorderHints = useMemo<globalThis.Map<number, string[]>>(() => {
-        if (!trip || locations.length < 2) return new globalThis.Map();
-        // Normalize a name for comparison
-        const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-        // Build a map: normalizedName → set of zone indices where it appears
-        const nameToZones = new globalThis.Map<string, Set<number>>();
-        locations.forEach((loc, idx) => {
-            const names = [
-                ...loc.data.agencies.map(a => norm(a.name)),
-                ...loc.data.trunkedSystems.map(s => norm(s.name)),
-            ];
-            for (const n of names) {
-                if (!n) continue;
-                if (!nameToZones.has(n)) nameToZones.set(n, new Set());
-                nameToZones.get(n)!.add(idx);
-            }
-        });
-        // Collect hints per zone: list shared system names when appearing in multiple zones
         const result = new globalThis.Map<number, string[]>();
-        nameToZones.forEach((zones, normName) => {
-            if (zones.size < 2) return;
-            // Find the display name (search agencies first, then trunked)
-            let displayName = normName;
-            for (const loc of locations) {
-                const a = loc.data.agencies.find(a => norm(a.name) === normName);
-                if (a) { displayName = a.name; break; }
-                const t = loc.data.trunkedSystems.find(s => norm(s.name) === normName);
-                if (t) { displayName = t.name; break; }
-            }
-            zones.forEach(zoneIdx => {
+        sharedSystems.forEach(system => {
+            system.zones.forEach(zoneIdx => {
                 if (!result.has(zoneIdx)) result.set(zoneIdx, []);
-                const otherZones = [...zones].filter(z => z !== zoneIdx).map(z => `Zone ${z + 1}`).join(', ');
-                result.get(zoneIdx)!.push(`${displayName} (also in ${otherZones})`);
+                const otherZones = system.zones.filter(z => z !== zoneIdx).map(z => `Zone ${z + 1}`).join(', ');
+                result.get(zoneIdx)!.push(`${system.label} (also in ${otherZones})`);
             });
         });
         return result;
-    }, [trip, locations]);
+    }, [sharedSystems]);
+
+    const selectedZoneLoc = selectedZone !== null ? locations[selectedZone] : undefined;
 
     return (
         <div className="animate-fade-in max-w-5xl mx-auto">
@@ -297,11 +376,11 @@ export const TripPlanner: React.FC = () => {
                                         <button
                                             key={i}
                                             type="button"
-                                            onClick={() => { setStart(h.start); setEnd(h.end); setShowHistory(false); }}
+                                            onClick={() => { setStart(h.start); setEnd(h.end); setVia(h.via || []); setRouteFile(null); setShowHistory(false); }}
                                             className="w-full text-left px-4 py-2.5 text-sm text-slate-300 hover:bg-slate-800 hover:text-white transition-colors flex items-center gap-3 border-b border-slate-800 last:border-0"
                                         >
                                             <Navigation className="w-3 h-3 text-amber-400 shrink-0" />
-                                            <span className="font-mono-tech">{h.start} → {h.end}</span>
+                                            <span className="font-mono-tech">{[h.start, ...(h.via || []), h.end].join(' → ')}</span>
                                         </button>
                                     ))}
                                     <button
@@ -316,6 +395,26 @@ export const TripPlanner: React.FC = () => {
                         </div>
                     )}
 
+                    {routeFile ? (
+                        <div className="flex items-center gap-3 bg-[#1e293b] rounded border border-emerald-600/50 p-3">
+                            <Route className="w-4 h-4 text-emerald-400 shrink-0" />
+                            <div className="min-w-0 flex-1">
+                                <p className="text-sm text-white font-mono-tech truncate">{routeFile.name}</p>
+                                <p className="text-xs text-slate-400 font-mono-tech">
+                                    {routeFile.points.toLocaleString()} track points • {routeFile.miles.toFixed(1)} mi — zones follow this route exactly
+                                </p>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setRouteFile(null)}
+                                title="Remove route file"
+                                className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ) : (
+                    <>
                     <div className="flex flex-col md:flex-row gap-4 items-end">
                         <div className="flex-1">
                             <label className="block text-xs text-slate-400 font-mono-tech mb-1 uppercase">Origin</label>
@@ -359,6 +458,67 @@ export const TripPlanner: React.FC = () => {
                         </div>
                     </div>
 
+                    {via.length > 0 && (
+                        <div className="space-y-2">
+                            <label className="block text-xs text-slate-400 font-mono-tech uppercase">Via (in order)</label>
+                            {via.map((stop, idx) => (
+                                <div key={idx} className="flex items-center gap-2">
+                                    <div className="flex-1 flex items-center bg-[#1e293b] rounded border border-slate-600 p-1 focus-within:border-amber-500 transition-colors">
+                                        <span className="ml-2 text-[10px] text-amber-500 font-mono-tech font-bold">{idx + 1}</span>
+                                        <input
+                                            type="text"
+                                            value={stop}
+                                            onChange={e => handleViaChange(idx, e.target.value)}
+                                            className="w-full bg-transparent border-none focus:ring-0 text-white placeholder-slate-500 h-8 font-mono-tech"
+                                            placeholder="Stop: City, State or ZIP"
+                                            inputMode="search"
+                                            autoCorrect="off"
+                                            autoCapitalize="words"
+                                        />
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => removeViaStop(idx)}
+                                        title="Remove stop"
+                                        className="p-2 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    </>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-4">
+                        {!routeFile && (
+                            <button
+                                type="button"
+                                onClick={addViaStop}
+                                disabled={via.length >= MAX_VIA_STOPS}
+                                className="flex items-center gap-1 text-[10px] text-amber-400 hover:text-amber-300 font-mono-tech uppercase tracking-wider transition-colors disabled:opacity-40"
+                            >
+                                <Plus className="w-3 h-3" /> Add Stop
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex items-center gap-1 text-[10px] text-emerald-400 hover:text-emerald-300 font-mono-tech uppercase tracking-wider transition-colors"
+                        >
+                            <Upload className="w-3 h-3" /> {routeFile ? 'Replace Route File' : 'Import GPX / KML / GeoJSON'}
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={ROUTE_FILE_ACCEPT}
+                            onChange={e => { void handleRouteFile(e); }}
+                            className="hidden"
+                            data-testid="route-file-input"
+                        />
+                    </div>
+
                     {inputWarning && (
                         <div className="flex items-center gap-2 text-xs text-amber-400 bg-amber-900/20 p-2 rounded border border-amber-900/50">
                             <AlertTriangle className="w-3 h-3" />
@@ -436,6 +596,13 @@ export const TripPlanner: React.FC = () => {
                             {getSourceBadge(isTripCached)}
                         </div>
                         <div className="flex gap-2 flex-wrap">
+                            <button
+                                onClick={() => setShowDriveMode(true)}
+                                className="bg-slate-100 hover:bg-white text-slate-900 px-4 py-2 rounded flex items-center gap-2 font-mono-tech text-sm font-bold transition-colors shadow-lg"
+                            >
+                                <Car className="w-4 h-4" />
+                                DRIVE MODE
+                            </button>
                             <button
                                 onClick={() => { void handleTripCsvExport(trip); }}
                                 className="bg-emerald-900/30 hover:bg-emerald-800/50 border border-emerald-500/30 text-emerald-400 px-4 py-2 rounded flex items-center gap-2 font-mono-tech text-sm transition-colors shadow-lg"
@@ -443,12 +610,29 @@ export const TripPlanner: React.FC = () => {
                                 <FileText className="w-4 h-4" />
                                 EXPORT CSV
                             </button>
+                            <select
+                                value={scannerModel}
+                                onChange={(e) => setScannerModel(e.target.value as ScannerModel)}
+                                aria-label="Target radio"
+                                className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-slate-200 font-mono-tech text-sm"
+                            >
+                                {EXPORT_SCANNER_MODELS.map((model) => (
+                                    <option key={model} value={model}>{getModelProfile(model).label}</option>
+                                ))}
+                            </select>
                             <button
                                 onClick={() => { void handleTripZipExport(trip); }}
                                 className="bg-amber-900/30 hover:bg-amber-800/50 border border-amber-500/30 text-amber-400 px-4 py-2 rounded flex items-center gap-2 font-mono-tech text-sm transition-colors shadow-lg"
                             >
                                 <Zap className="w-4 h-4" />
-                                SDS100 EXPORT
+                                {scannerModel.toUpperCase()} EXPORT
+                            </button>
+                            <button
+                                onClick={() => setShowBudget(true)}
+                                className="bg-violet-900/30 hover:bg-violet-800/50 border border-violet-500/30 text-violet-300 px-4 py-2 rounded flex items-center gap-2 font-mono-tech text-sm transition-colors shadow-lg"
+                            >
+                                <Cpu className="w-4 h-4" />
+                                MEMORY BUDGET
                             </button>
                             <button
                                 onClick={() => { void handleTripPdfExport(trip); }}
@@ -460,6 +644,16 @@ export const TripPlanner: React.FC = () => {
                         </div>
                     </div>
 
+                    {exportNotice && (
+                        <div className={`p-3 border rounded text-sm font-mono-tech flex items-start gap-3 ${exportNotice.tone === 'error' ? 'bg-red-900/20 border-red-900/50 text-red-400' : exportNotice.tone === 'warning' ? 'bg-amber-900/20 border-amber-700/50 text-amber-300' : 'bg-emerald-900/20 border-emerald-700/50 text-emerald-300'}`}>
+                            <div className="flex-1">
+                                <div>{exportNotice.message}</div>
+                                {exportNotice.detail && <div className="mt-1 text-xs opacity-80">{exportNotice.detail}</div>}
+                            </div>
+                            <button onClick={() => setExportNotice(null)} className="opacity-70 hover:opacity-100 shrink-0" title="Dismiss"><X className="w-4 h-4" /></button>
+                        </div>
+                    )}
+
                     {masterTrip && (
                         <div className="text-xs text-slate-500 font-mono-tech flex items-center gap-2">
                             <CheckCheck className="w-3 h-3 text-emerald-500" />
@@ -467,6 +661,33 @@ export const TripPlanner: React.FC = () => {
                         </div>
                     )}
 
+                    <Suspense fallback={<div className="h-80 flex items-center justify-center text-slate-400 font-mono-tech text-sm gap-3 border border-slate-800 rounded-lg"><Loader2 className="w-5 h-5 animate-spin text-cyan-400" />Loading trip map...</div>}>
+                        <TripMap
+                            trip={trip}
+                            sharedSystems={sharedSystems}
+                            selectedZone={selectedZone}
+                            onSelectZone={setSelectedZone}
+                        />
+                    </Suspense>
+
+                    {selectedZoneLoc && (
+                        <div className="border border-cyan-700/40 rounded-lg bg-slate-900/60 p-4" data-testid="selected-zone">
+                            <div className="flex items-center justify-between gap-4 mb-4">
+                                <h4 className="text-lg font-bold text-slate-100 font-mono-tech uppercase">
+                                    <span className="text-cyan-400">ZONE {selectedZone! + 1}:</span> {selectedZoneLoc.locationName}
+                                </h4>
+                                <button
+                                    onClick={() => setSelectedZone(null)}
+                                    title="Close zone"
+                                    className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <FrequencyDisplay data={selectedZoneLoc.data} />
+                        </div>
+                    )}
+
                     <div className="space-y-12">
                         {locations.map((loc, idx) => (
                             <div key={idx} className="relative">
@@ -474,9 +695,21 @@ export const TripPlanner: React.FC = () => {
                                 <div className="absolute -left-4 top-0 w-2.5 h-2.5 rounded-full bg-amber-500"></div>
                                 <div className="pl-6">
                                     <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-4 gap-4">
-                                        <h4 className="text-2xl font-bold text-slate-100 font-mono-tech uppercase flex items-center gap-3">
-                                            <span className="text-amber-500">ZONE {idx + 1}:</span> {loc.locationName}
-                                        </h4>
+                                        <div>
+                                            <h4 className="text-2xl font-bold text-slate-100 font-mono-tech uppercase flex items-center gap-3">
+                                                <span className="text-amber-500">ZONE {idx + 1}:</span> {loc.locationName}
+                                            </h4>
+                                            {loc.entryMile !== undefined && (
+                                                <p className="text-xs text-slate-400 font-mono-tech mt-1">
+                                                    Mile {loc.entryMile} • ETA +{formatDuration(loc.etaMinutes ?? 0)} • {loc.distanceMiles ?? 0} mi in zone
+                                                </p>
+                                            )}
+                                            {loc.zips && loc.zips.length > 0 && (
+                                                <p className="text-[10px] text-slate-500 font-mono-tech mt-0.5">
+                                                    ZIPs along route: {loc.zips.join(', ')}
+                                                </p>
+                                            )}
+                                        </div>
 
                                         <div className="flex items-center gap-2 flex-wrap">
                                             {crossBorderHints.get(idx) && crossBorderHints.get(idx)!.length > 0 && (
@@ -523,7 +756,7 @@ export const TripPlanner: React.FC = () => {
                                 onClick={() => { void handleTripZipExport(trip!); }}
                                 className="bg-amber-900/30 hover:bg-amber-800/50 border border-amber-500/30 text-amber-400 px-4 py-2 rounded flex items-center gap-2 font-mono-tech text-sm transition-colors"
                             >
-                                <Zap className="w-4 h-4" /> SDS100
+                                <Zap className="w-4 h-4" /> {scannerModel}
                             </button>
                             <button
                                 onClick={() => { void handleTripPdfExport(trip!); }}
@@ -545,6 +778,27 @@ export const TripPlanner: React.FC = () => {
                     />
                 </Suspense>
             )}
+
+            {showDriveMode && trip && (
+                <Suspense fallback={<div className="fixed inset-0 z-50 bg-black flex items-center justify-center text-slate-400 font-mono-tech text-sm gap-3"><Loader2 className="w-5 h-5 animate-spin text-cyan-400" />Starting drive mode...</div>}>
+                    <DriveMode
+                        trip={trip}
+                        serviceTypes={serviceTypes}
+                        rrCredentials={rrCredentials}
+                        onClose={() => setShowDriveMode(false)}
+                    />
+                </Suspense>
+            )}
+
+            {showBudget && trip && (
+                <Suspense fallback={<div className="fixed inset-0 z-[100] bg-slate-900/95 flex items-center justify-center text-slate-400 font-mono-tech text-sm gap-3"><Loader2 className="w-5 h-5 animate-spin text-cyan-400" />Loading memory budget...</div>}>
+                    <MemoryBudgetPlanner
+                        data={trip}
+                        priorities={serviceTypes}
+                        onClose={() => setShowBudget(false)}
+                    />
+                </Suspense>
+            )}
         </div>
     );
 };
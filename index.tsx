@@ -55,6 +55,13 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Offline support: the service worker only runs on production builds so dev reloads stay fresh.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`/sw.js?v=${import.meta.env.VITE_BUILD_ID}`).catch((err) => console.warn('Service worker registration failed:', err));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
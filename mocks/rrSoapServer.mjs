@@ -0,0 +1,109 @@
+// Local stand-in for the RadioReference SOAP API (https://api.radioreference.com/soap2/).
+// Serves recorded <return> payloads from mocks/rr-soap/<method>/<id>.xml so
+// api/rrdb.ts can be developed and tested without an RR premium account:
+//
+//   npm run rr:mock                     # listens on http://127.0.0.1:8787/
+//   RR_SOAP_URL=http://127.0.0.1:8787/ RR_APP_KEY=dev vercel dev
+//
+// Sign in with MOCK_RR_USERNAME / MOCK_RR_PASSWORD; any other account gets the
+// same auth fault RR sends. A ZIP without a fixture answers "Invalid Zipcode".
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+export const MOCK_RR_USERNAME = 'demo';
+export const MOCK_RR_PASSWORD = 'demo';
+
+const FIXTURES_DIR = fileURLToPath(new URL('./rr-soap/', import.meta.url));
+
+// The parameter each method is looked up by
+const METHOD_KEYS = {
+    getZipcodeInfo: 'zipcode',
+    getCountyInfo: 'ctid',
+    getStateInfo: 'stid',
+    getSubcatFreqs: 'scid',
+    getTrsDetails: 'sid',
+    getTrsSites: 'sid',
+    getTrsTalkgroups: 'sid',
+};
+
+function field(xml, tag) {
+    const match = xml.match(new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`, 'i'));
+    return match ? match[1].trim() : '';
+}
+
+function envelope(method, payload) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ns1="http://api.radioreference.com/soap2" xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<SOAP-ENV:Body><ns1:${method}Response><return>${payload}</return></ns1:${method}Response></SOAP-ENV:Body>
+</SOAP-ENV:Envelope>`;
+}
+
+// SOAP 1.1 faults go out as HTTP 500, the way RR sends them
+function fault(message) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://schemas.xmlsoap.org/soap/envelope/">
+<SOAP-ENV:Body><SOAP-ENV:Fault><faultcode>SOAP-ENV:Server</faultcode><faultstring>${message}</faultstring></SOAP-ENV:Fault></SOAP-ENV:Body>
+</SOAP-ENV:Envelope>`;
+}
+
+async function readFixture(fixturesDir, method, id) {
+    if (!/^\d+$/.test(id)) return null;
+    try {
+        return await readFile(path.join(fixturesDir, method, `${id}.xml`), 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+/** Answers one SOAP request body: { status, body }. */
+export async function respond(requestXml, fixturesDir = FIXTURES_DIR) {
+    const method = requestXml.match(/<tns:(\w+)>/)?.[1] ?? '';
+    const key = METHOD_KEYS[method];
+    if (!key) return { status: 500, body: fault(`Unknown method ${method || '(none)'}`) };
+
+    if (field(requestXml, 'username') !== MOCK_RR_USERNAME || field(requestXml, 'password') !== MOCK_RR_PASSWORD) {
+        return { status: 500, body: fault('Invalid username or password') };
+    }
+
+    const id = field(requestXml, key);
+    const payload = await readFixture(fixturesDir, method, id);
+    if (payload === null) {
+        return { status: 500, body: fault(method === 'getZipcodeInfo' ? 'Invalid Zipcode' : `No record for ${key} ${id}`) };
+    }
+    return { status: 200, body: envelope(method, payload) };
+}
+
+/** Starts the mock on `port` (0 picks a free one). Resolves with its URL and a close(). */
+export function startRrMockServer({ port = 8787, fixturesDir = FIXTURES_DIR } = {}) {
+    const server = createServer((req, res) => {
+        let requestXml = '';
+        req.on('data', chunk => { requestXml += chunk; });
+        req.on('end', async () => {
+            const { status, body } = req.method === 'POST'
+                ? await respond(requestXml, fixturesDir)
+                : { status: 405, body: fault('POST a SOAP envelope') };
+            res.writeHead(status, { 'Content-Type': 'text/xml; charset=utf-8' });
+            res.end(body);
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            resolve({
+                url: `http://127.0.0.1:${server.address().port}/`,
+                close: () => new Promise(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    const port = Number(process.env.PORT) || 8787;
+    startRrMockServer({ port }).then(({ url }) => {
+        console.log(`RadioReference SOAP mock listening on ${url} (user ${MOCK_RR_USERNAME} / ${MOCK_RR_PASSWORD})`);
+    });
+}
@@ -35,6 +35,8 @@ const OPENROUTER_SITE_URL = process.env.OPENROUTER_SITE_URL || 'https://www.boya
 const OPENROUTER_APP_NAME = process.env.OPENROUTER_APP_NAME || 'Boy & A Scanner Precacher';
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_KEY = process.env.SUPABASE_ANON_KEY;
+// Only change alerts use the service role; notify_favorite_subscribers is not open to anon
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const DELAY_MS = (parseInt(process.env.DELAY_SECONDS) || 5) * 1000;
 const HOT_MAX_AGE_MS = (parseInt(process.env.HOT_MAX_AGE_HOURS) || parseInt(process.env.MAX_AGE_HOURS) || 24) * 60 * 60 * 1000;
 const WARM_MAX_AGE_MS = (parseInt(process.env.WARM_MAX_AGE_HOURS) || 168) * 60 * 60 * 1000;
@@ -88,6 +90,9 @@ if (AI_PROVIDER === 'openrouter' && !OPENROUTER_API_KEY) {
 
 const ai = AI_PROVIDER === 'gemini' ? new GoogleGenAI({ apiKey: GEMINI_API_KEY }) : null;
 const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+const alertsSupabase = SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null;
 
 function isApiResult(resultData) {
     return resultData?.source === 'API';
@@ -333,6 +338,20 @@ async function saveToCache(cacheKey, resultData, groundingChunks) {
     return true;
 }
 
+async function getCachedResult(cacheKey) {
+    try {
+        const { data, error } = await supabase
+            .from('search_cache')
+            .select('result_data')
+            .eq('search_key', cacheKey)
+            .maybeSingle();
+        if (error || !data) return null;
+        return data.result_data || null;
+    } catch {
+        return null;
+    }
+}
+
 function normalizeName(str) {
     return String(str || '').toLowerCase().replace(/[^a-z0-9]/g, '');
 }
@@ -392,6 +411,92 @@ async function fetchFromRadioReference(zip) {
     return payload?.data || null;
 }
 
+// ─── Change Alerts ────────────────────────────────────────────────────────────
+// Built here from the precacher's own RR refresh and sent with the service role.
+// Browsers cannot send alert text; they call notify_location_refresh instead.
+
+function freqKey(freq) {
+    const mhz = Number.parseFloat(freq);
+    return Number.isFinite(mhz) ? mhz.toFixed(5) : String(freq || '').trim();
+}
+
+function countNew(beforeItems, afterItems, keyOf) {
+    const before = new Set((beforeItems || []).map(keyOf));
+    return (afterItems || []).filter((item) => !before.has(keyOf(item))).length;
+}
+
+function plural(count, one, many) {
+    return `${count} ${count === 1 ? one : many}`;
+}
+
+function buildLocationAlert(zip, before, after) {
+    let newFreqs = 0;
+    let goneFreqs = 0;
+    let newTgs = 0;
+    const newSystems = [];
+    const rebanded = [];
+
+    const beforeAgencies = new Map((before.agencies || []).map((a) => [normalizeName(a.name), a]));
+    for (const agency of after.agencies || []) {
+        const prev = beforeAgencies.get(normalizeName(agency.name));
+        newFreqs += countNew(prev?.frequencies, agency.frequencies, (f) => freqKey(f.freq));
+        if (prev) goneFreqs += countNew(agency.frequencies, prev.frequencies, (f) => freqKey(f.freq));
+    }
+
+    const beforeSystems = new Map((before.trunkedSystems || []).map((s) => [normalizeName(s.name), s]));
+    for (const system of after.trunkedSystems || []) {
+        const prev = beforeSystems.get(normalizeName(system.name));
+        if (!prev) {
+            newSystems.push(system.name);
+            continue;
+        }
+        newTgs += countNew(prev.talkgroups, system.talkgroups, (tg) => String(tg.dec || '').trim());
+        const sitesAdded = countNew(prev.frequencies, system.frequencies, (f) => freqKey(f.freq));
+        const sitesRemoved = countNew(system.frequencies, prev.frequencies, (f) => freqKey(f.freq));
+        if (sitesAdded || sitesRemoved) rebanded.push(system.name);
+    }
+
+    const parts = [];
+    if (newFreqs) parts.push(plural(newFreqs, 'new frequency', 'new frequencies'));
+    if (goneFreqs) parts.push(plural(goneFreqs, 'removed frequency', 'removed frequencies'));
+    if (newTgs) parts.push(plural(newTgs, 'new talkgroup', 'new talkgroups'));
+    if (newSystems.length) {
+        parts.push(`${plural(newSystems.length, 'new trunked system', 'new trunked systems')} (${newSystems.slice(0, 2).join(', ')}${newSystems.length > 2 ? ', …' : ''})`);
+    }
+    if (rebanded.length) {
+        parts.push(`site frequencies changed on ${rebanded.slice(0, 2).join(', ')}${rebanded.length > 2 ? ', …' : ''}`);
+    }
+    if (!parts.length) return null;
+
+    return {
+        title: `Changes in ${after.locationName || zip}`,
+        body: `${parts.join(', ')}.`,
+        link: `/?q=${encodeURIComponent(zip)}`,
+    };
+}
+
+async function notifyFavoriteSubscribers(zip, before, after) {
+    if (!alertsSupabase) return 0;
+    const alert = buildLocationAlert(zip, before, after);
+    if (!alert) return 0;
+    try {
+        const { data, error } = await alertsSupabase.rpc('notify_favorite_subscribers', {
+            p_queries: [zip],
+            p_title: alert.title,
+            p_body: alert.body,
+            p_link: alert.link,
+        });
+        if (error) {
+            console.warn(`   └─ Change alert skipped: ${error.message}`);
+            return 0;
+        }
+        return typeof data === 'number' ? data : 0;
+    } catch (e) {
+        console.warn(`   └─ Change alert skipped: ${e.message}`);
+        return 0;
+    }
+}
+
 // ─── Gemini Prompt (mirrors api/search.ts) ────────────────────────────────────
 
 function buildPrompt(zip) {
@@ -780,11 +885,19 @@ async function run() {
                 }
 
                 if (masterData && (masterData.agencies?.length > 0 || masterData.trunkedSystems?.length > 0)) {
+                    // Alerts compare RR against RR only, like the app's write-through.
+                    const previous = isApiResult(masterData) ? await getCachedResult(cacheKey) : null;
                     const ok = await saveToCache(cacheKey, masterData, groundingChunks);
                     if (ok) {
                         const agencyCount = masterData.agencies?.length || 0;
                         const trsCount = masterData.trunkedSystems?.length || 0;
                         console.log(`   └─ ✅ Cached: ${masterData.locationName || zip} (${agencyCount} agencies, ${trsCount} trunked)`);
+                        if (isApiResult(previous)) {
+                            const notified = await notifyFavoriteSubscribers(zip, previous, masterData);
+                            if (notified > 0) {
+                                console.log(`   └─ 🔔 Change alert sent to ${notified} saved-location subscriber${notified === 1 ? '' : 's'}.`);
+                            }
+                        }
                         cached++;
                         priorityStats[priority].cached++;
                     } else {
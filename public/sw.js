@@ -0,0 +1,124 @@
+// Boy & A Scanner service worker.
+//
+// The app shell and every built chunk (exporters included) are precached so
+// the UI and file exports load offline. Scan/trip data lives in IndexedDB
+// (services/offlineStore.ts), so /api and Supabase calls are never cached here.
+
+// index.tsx registers /sw.js?v=<build id>. A new build therefore installs a new
+// worker, and activate deletes the caches holding the previous build's chunks.
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const SHELL_CACHE = `bas-shell-${VERSION}`;
+const RUNTIME_CACHE = `bas-runtime-${VERSION}`;
+const TILE_CACHE = 'bas-tiles';
+const MAX_TILES = 600;
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+const TILE_HOST_SUFFIX = '.basemaps.cartocdn.com';
+
+// Vite writes asset-manifest.json (build.manifest in vite.config.ts) listing every emitted chunk.
+async function builtAssetUrls() {
+  try {
+    const response = await fetch('/asset-manifest.json', { cache: 'no-store' });
+    if (!response.ok) return [];
+    const manifest = await response.json();
+    const urls = new Set();
+    for (const entry of Object.values(manifest)) {
+      urls.add(`/${entry.file}`);
+      (entry.css || []).forEach((file) => urls.add(`/${file}`));
+      (entry.assets || []).forEach((file) => urls.add(`/${file}`));
+    }
+    return [...urls];
+  } catch {
+    return [];
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+    const assets = await builtAssetUrls();
+    // One missing chunk should not fail the whole install.
+    await Promise.all(assets.map((url) => cache.add(url).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter((key) => key.startsWith('bas-') && key !== SHELL_CACHE && key !== RUNTIME_CACHE && key !== TILE_CACHE)
+      .map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    // Error pages must not replace the cached shell.
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+}
+
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cacheName, maxEntries);
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  }).catch(() => cached);
+  return cached || refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirstPage(request));
+      return;
+    }
+    event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+    return;
+  }
+
+  if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+    return;
+  }
+
+  // Map tiles viewed along a route stay available for the trip map offline.
+  if (url.hostname.endsWith(TILE_HOST_SUFFIX)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILES));
+  }
+});
@@ -0,0 +1,149 @@
+import { supabase } from './supabaseClient';
+import { rememberMissingOptionalTable, shouldSkipOptionalTable } from './supabaseOptionalTableGuard';
+import type { ScanResult, SearchMeta } from '../types';
+
+const HISTORY_TABLE = 'search_cache_history';
+
+export type SnapshotSource = 'API' | 'AI' | 'Cache' | 'Restore';
+
+export interface CacheSnapshot {
+  id: string;
+  searchKey: string;
+  source: SnapshotSource;
+  aiProvider: string | null;
+  aiModel: string | null;
+  pinned: boolean;
+  createdAt: string;
+  data: ScanResult;
+  groundingChunks: any;
+}
+
+interface SnapshotRow {
+  id: string;
+  search_key: string;
+  result_data: ScanResult;
+  grounding_chunks: any;
+  source: SnapshotSource;
+  ai_provider: string | null;
+  ai_model: string | null;
+  pinned: boolean;
+  created_at: string;
+}
+
+const SNAPSHOT_FIELDS = 'id, search_key, result_data, grounding_chunks, source, ai_provider, ai_model, pinned, created_at';
+
+function toSnapshot(row: SnapshotRow): CacheSnapshot {
+  return {
+    id: row.id,
+    searchKey: row.search_key,
+    source: row.source,
+    aiProvider: row.ai_provider,
+    aiModel: row.ai_model,
+    pinned: row.pinned,
+    createdAt: row.created_at,
+    data: row.result_data,
+    groundingChunks: row.grounding_chunks,
+  };
+}
+
+/** Appends an immutable snapshot of a cache write under its canonical key. */
+export async function recordCacheSnapshot(
+  searchKey: string,
+  result: ScanResult,
+  groundingChunks: any,
+  meta: Pick<SearchMeta, 'aiProvider' | 'aiModel'> = {},
+  source: SnapshotSource = result.source,
+): Promise<void> {
+  if (!supabase || shouldSkipOptionalTable(HISTORY_TABLE)) return;
+  try {
+    const { error } = await supabase.from(HISTORY_TABLE).insert({
+      search_key: searchKey,
+      result_data: result,
+      grounding_chunks: groundingChunks ?? null,
+      source,
+      ai_provider: meta.aiProvider ?? null,
+      ai_model: meta.aiModel ?? null,
+    });
+    if (!rememberMissingOptionalTable(HISTORY_TABLE, error) && error) {
+      console.warn('Cache history save error:', error);
+    }
+  } catch (e) {
+    console.warn('Cache history save error:', e);
+  }
+}
+
+/** Snapshots for a key, newest first. */
+export async function listCacheSnapshots(searchKey: string, limit = 20): Promise<CacheSnapshot[]> {
+  if (!supabase || shouldSkipOptionalTable(HISTORY_TABLE)) return [];
+  try {
+    const { data, error } = await supabase
+      .from(HISTORY_TABLE)
+      .select(SNAPSHOT_FIELDS)
+      .eq('search_key', searchKey)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (rememberMissingOptionalTable(HISTORY_TABLE, error)) return [];
+    if (error || !data) return [];
+    return (data as SnapshotRow[]).map(toSnapshot);
+  } catch (e) {
+    console.warn('Cache history fetch error:', e);
+    return [];
+  }
+}
+
+/** The snapshot pinned for a key, if any. */
+export async function getPinnedSnapshot(searchKey: string): Promise<CacheSnapshot | null> {
+  if (!supabase || shouldSkipOptionalTable(HISTORY_TABLE)) return null;
+  try {
+    const { data, error } = await supabase
+      .from(HISTORY_TABLE)
+      .select(SNAPSHOT_FIELDS)
+      .eq('search_key', searchKey)
+      .eq('pinned', true)
+      .maybeSingle();
+
+    if (rememberMissingOptionalTable(HISTORY_TABLE, error)) return null;
+    if (error || !data) return null;
+    return toSnapshot(data as SnapshotRow);
+  } catch (e) {
+    console.warn('Cache history fetch error:', e);
+    return null;
+  }
+}
+
+/**
+ * Whether `user` may pin snapshots. A pin freezes the shared cache row for
+ * everyone, so the table's RLS only lets app_metadata.role = 'admin' do it.
+ */
+export function isCacheAdmin(user: { app_metadata?: { role?: unknown } } | null | undefined): boolean {
+  return user?.app_metadata?.role === 'admin';
+}
+
+/**
+ * Pins one snapshot for its key (clearing any earlier pin) or unpins it.
+ * Returns false when the change could not be saved.
+ */
+export async function setSnapshotPinned(snapshot: Pick<CacheSnapshot, 'id' | 'searchKey'>, pinned: boolean): Promise<boolean> {
+  if (!supabase || shouldSkipOptionalTable(HISTORY_TABLE)) return false;
+  try {
+    if (pinned) {
+      const { error } = await supabase
+        .from(HISTORY_TABLE)
+        .update({ pinned: false })
+        .eq('search_key', snapshot.searchKey)
+        .eq('pinned', true);
+      if (rememberMissingOptionalTable(HISTORY_TABLE, error) || error) return false;
+    }
+
+    const { error } = await supabase
+      .from(HISTORY_TABLE)
+      .update({ pinned })
+      .eq('id', snapshot.id);
+    if (rememberMissingOptionalTable(HISTORY_TABLE, error)) return false;
+    return !error;
+  } catch (e) {
+    console.warn('Cache history pin error:', e);
+    return false;
+  }
+}
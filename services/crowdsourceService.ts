@@ -10,6 +10,14 @@ import {
   rememberMissingOptionalTable,
   shouldSkipOptionalTable,
 } from './supabaseOptionalTableGuard';
+import {
+  isNetworkError,
+  isOffline,
+  listQueuedReports,
+  queueReport,
+  removeQueuedReport,
+  type QueuedReport,
+} from './offlineStore';
 
 // ---------------------------------------------------------------------------
 // Points awarded for each action (mirrors DB trigger logic for display)
@@ -53,6 +61,18 @@ export function getBadgePercent(points: number): number {
   return Math.min(100, Math.round(((points - floor) / (next.min - floor)) * 100));
 }
 
+// ---------------------------------------------------------------------------
+// Offline queue: reports made without a connection are stored on the device
+// (signed-in users only) and replayed by syncQueuedReports() once back online.
+// ---------------------------------------------------------------------------
+async function queueIfSignedIn(report: QueuedReport): Promise<boolean> {
+  if (!supabase) return false;
+  // getSession() reads the stored session, so it works without a connection.
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return false;
+  return queueReport(session.user.id, report);
+}
+
 // ---------------------------------------------------------------------------
 // Log a "Heard It" confirmation for a specific frequency
 // ---------------------------------------------------------------------------
@@ -60,12 +80,30 @@ export async function logConfirmation(
   frequency: string,
   locationQuery: string,
   agencyName?: string
+): Promise<'confirmed' | 'duplicate' | 'queued' | 'error'> {
+  const report: QueuedReport = { kind: 'confirmation', frequency, locationQuery, agencyName };
+  if (isOffline()) return (await queueIfSignedIn(report)) ? 'queued' : 'error';
+
+  try {
+    return await sendConfirmation(frequency, locationQuery, agencyName);
+  } catch (e) {
+    if (isNetworkError(e)) return (await queueIfSignedIn(report)) ? 'queued' : 'error';
+    throw e;
+  }
+}
+
+async function sendConfirmation(
+  frequency: string,
+  locationQuery: string,
+  agencyName?: string
 ): Promise<'confirmed' | 'duplicate' | 'error'> {
   if (!supabase) return 'error';
 
   const {
     data: { user },
+    error: authError,
   } = await supabase.auth.getUser();
+  if (authError && isNetworkError(authError)) throw new TypeError(authError.message);
   if (!user) return 'error';
 
   // Prevent duplicate confirmations within a 1-hour window
@@ -96,6 +134,7 @@ export async function logConfirmation(
   });
 
   if (error) {
+    if (isNetworkError(error)) throw new TypeError(error.message);
     console.error('Error logging confirmation:', error.message);
     return 'error';
   }
@@ -108,18 +147,34 @@ export async function logConfirmation(
 // ---------------------------------------------------------------------------
 // Submit a new frequency found in the field
 // ---------------------------------------------------------------------------
-export async function submitFrequency(payload: {
+type SubmissionPayload = {
   frequency: string;
   locationQuery: string;
   agencyName: string;
   description: string;
   mode: string;
-}): Promise<boolean> {
+};
+
+export async function submitFrequency(payload: SubmissionPayload): Promise<'submitted' | 'queued' | 'error'> {
+  const report: QueuedReport = { kind: 'submission', ...payload };
+  if (isOffline()) return (await queueIfSignedIn(report)) ? 'queued' : 'error';
+
+  try {
+    return (await sendSubmission(payload)) ? 'submitted' : 'error';
+  } catch (e) {
+    if (isNetworkError(e)) return (await queueIfSignedIn(report)) ? 'queued' : 'error';
+    throw e;
+  }
+}
+
+async function sendSubmission(payload: SubmissionPayload): Promise<boolean> {
   if (!supabase) return false;
 
   const {
     data: { user },
+    error: authError,
   } = await supabase.auth.getUser();
+  if (authError && isNetworkError(authError)) throw new TypeError(authError.message);
   if (!user) return false;
 
   const { error } = await supabase.from('frequency_reports').insert({
@@ -133,6 +188,7 @@ export async function submitFrequency(payload: {
   });
 
   if (error) {
+    if (isNetworkError(error)) throw new TypeError(error.message);
     console.error('Error submitting frequency:', error.message);
     return false;
   }
@@ -141,6 +197,63 @@ export async function submitFrequency(payload: {
   return true;
 }
 
+type SyncResult = { synced: number; dropped: number; remaining: number };
+
+// The sync effect can fire twice at once (StrictMode, `online` together with a
+// session change); replaying the same outbox twice would double-post reports.
+let syncInFlight: { userId: string; promise: Promise<SyncResult> } | null = null;
+
+/**
+ * Replays the confirmations and submissions `userId` queued, oldest first.
+ * Stops at the first network failure and leaves the rest queued for the next
+ * attempt; rejected reports (duplicates, signed out) are dropped. Calls for
+ * the same user while a sync is running share it; another user's sync waits
+ * for it to finish.
+ */
+export function syncQueuedReports(userId: string): Promise<SyncResult> {
+  if (syncInFlight?.userId === userId) return syncInFlight.promise;
+
+  const previous = syncInFlight ? syncInFlight.promise.catch(() => undefined) : Promise.resolve();
+  const promise: Promise<SyncResult> = previous
+    .then(() => replayQueuedReports(userId))
+    .finally(() => {
+      if (syncInFlight?.promise === promise) syncInFlight = null;
+    });
+  syncInFlight = { userId, promise };
+  return promise;
+}
+
+async function replayQueuedReports(userId: string): Promise<SyncResult> {
+  const queued = await listQueuedReports(userId);
+  if (queued.length === 0 || !supabase) return { synced: 0, dropped: 0, remaining: queued.length };
+
+  // Reports are sent as whoever is signed in now, so only replay them for their owner.
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session?.user.id !== userId) return { synced: 0, dropped: 0, remaining: queued.length };
+
+  let synced = 0;
+  let dropped = 0;
+
+  for (let i = 0; i < queued.length; i++) {
+    const entry = queued[i];
+    let outcome: boolean;
+    try {
+      outcome = entry.kind === 'confirmation'
+        ? (await sendConfirmation(entry.frequency, entry.locationQuery, entry.agencyName)) === 'confirmed'
+        : await sendSubmission(entry);
+    } catch (e) {
+      if (isNetworkError(e)) return { synced, dropped, remaining: queued.length - i };
+      console.error('Error syncing queued report:', e);
+      outcome = false;
+    }
+    await removeQueuedReport(entry.id);
+    if (outcome) synced++;
+    else dropped++;
+  }
+
+  return { synced, dropped, remaining: 0 };
+}
+
 // ---------------------------------------------------------------------------
 // Get confirmation count for a specific frequency + location
 // ---------------------------------------------------------------------------
@@ -1,20 +1,30 @@
 
 import { supabase } from './supabaseClient';
+import { getOfflineFavorites, isOffline, saveOfflineFavorites } from './offlineStore';
 
 export interface Favorite {
     id: string;
     location_query: string;
     label: string | null;
+    /** Change alerts for this location; undefined before the location alerts migration (treated as on). */
+    alerts_enabled?: boolean;
     created_at: string;
 }
 
 /**
  * Fetch all favorites for the current authenticated user.
  * Returns empty array if Supabase is unavailable or user is not logged in.
+ * Falls back to the on-device copy when offline.
  */
 export async function getFavorites(): Promise<Favorite[]> {
     if (!supabase) return [];
 
+    // getSession() reads the stored session, so it works without a connection.
+    const { data: { session } } = await supabase.auth.getSession();
+    const userId = session?.user.id;
+    if (!userId) return [];
+    if (isOffline()) return getOfflineFavorites(userId);
+
     const { data, error } = await supabase
         .from('favorites')
         .select('*')
@@ -22,9 +32,10 @@ export async function getFavorites(): Promise<Favorite[]> {
 
     if (error) {
         console.error('Error fetching favorites:', error.message);
-        return [];
+        return getOfflineFavorites(userId);
     }
 
+    void saveOfflineFavorites(userId, data || []);
     return data || [];
 }
 
@@ -74,3 +85,22 @@ export async function removeFavorite(id: string): Promise<boolean> {
 
     return true;
 }
+
+/**
+ * Turn change alerts on or off for a saved location.
+ */
+export async function setFavoriteAlerts(id: string, enabled: boolean): Promise<boolean> {
+    if (!supabase) return false;
+
+    const { error } = await supabase
+        .from('favorites')
+        .update({ alerts_enabled: enabled })
+        .eq('id', id);
+
+    if (error) {
+        console.error('Error updating favorite alerts:', error.message);
+        return false;
+    }
+
+    return true;
+}
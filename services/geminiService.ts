@@ -1,9 +1,17 @@
 
-import { SearchMeta, SearchRefinementOption, SearchResponse, ScanResult, TripResult, ServiceType } from "../types";
+import { SearchMeta, SearchRefinementOption, SearchResponse, ScanResult, TripLocation, TripResult, TripRoute, ServiceType } from "../types";
 import { sanitizeForPrompt } from "../utils/security";
+import { matchesService } from "../utils/categoryTaxonomy";
+import { attachToneInfo } from "../utils/tones";
+import { bandFor, fillMissingModes, implausibleReason } from "../utils/bandPlan";
+import { statewideResult } from "../utils/statewide";
 import { supabase } from "./supabaseClient";
-import { fetchFromRadioReference, RRCredentials } from "./rrApi";
+import { fetchFromRadioReference, RRCredentials, RRLookupTarget } from "./rrApi";
+import { getPinnedSnapshot, recordCacheSnapshot, setSnapshotPinned, type CacheSnapshot } from "./cacheHistoryService";
+import { notifyFavoriteSubscribers } from "./locationAlertsService";
+import { getOfflineScan, getOfflineTrip, isOffline, saveOfflineScan, saveOfflineTrip } from "./offlineStore";
 import { createLocationCacheKeys, resolveLocationDetails, type ResolvedLocation } from "./locationService";
+import { mapWithConcurrency, parseRouteGeometry, simplifyPolyline, type RouteZone } from "../utils/route";
 
 const debugLog = (...args: unknown[]) => {
   if (import.meta.env.DEV) {
@@ -175,6 +183,28 @@ async function saveToCache(key: string, resultData: any, groundingChunks: any) {
   }
 }
 
+/**
+ * Writes a history snapshot back as the live cache row for every equivalent
+ * key, optionally pinning it so later runs do not replace it. Returns the
+ * snapshot filtered to the caller's services.
+ */
+export async function restoreCacheSnapshot(
+  snapshot: CacheSnapshot,
+  cacheKeys: string[],
+  userSelectedServices: ServiceType[],
+  options: { pin?: boolean } = {},
+): Promise<ScanResult | null> {
+  await Promise.all(cacheKeys.map((key) => saveToCache(key, snapshot.data, snapshot.groundingChunks)));
+  await recordCacheSnapshot(snapshot.searchKey, snapshot.data, snapshot.groundingChunks, {
+    aiProvider: snapshot.aiProvider as SearchMeta['aiProvider'],
+    aiModel: snapshot.aiModel ?? undefined,
+  }, 'Restore');
+  if (options.pin && !(await setSnapshotPinned(snapshot, true))) {
+    throw new Error('Could not pin this snapshot.');
+  }
+  return filterDataByServices(snapshot.data, userSelectedServices);
+}
+
 export async function getDatabaseStats(): Promise<number> {
   if (!supabase) return 0;
   try {
@@ -343,8 +373,24 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
   searchMeta.refinementOptions = buildRefinementOptions(resolvedLocation);
   const cacheKeys = createLocationCacheKeys(safeLocation, resolvedLocation);
   const cacheKey = resolvedLocation.canonicalKey;
-  const rrLookupZip = /^\d{5}$/.test(safeLocation) ? safeLocation : resolvedLocation.primaryZip;
-  const canFetchAuthoritativeData = Boolean(rrCredentials && rrLookupZip);
+  searchMeta.cacheKey = cacheKey;
+  searchMeta.cacheKeys = cacheKeys;
+  const rrLookup: RRLookupTarget | null = /^\d{5}$/.test(safeLocation)
+    ? { zipcode: safeLocation }
+    : resolvedLocation.rrLookup ?? (resolvedLocation.primaryZip ? { zipcode: resolvedLocation.primaryZip } : null);
+  const canFetchAuthoritativeData = Boolean(rrCredentials && rrLookup);
+
+  if (isOffline()) {
+    const stored = await getOfflineScan(cacheKeys);
+    if (!stored) {
+      throw new Error("You're offline and this location hasn't been saved on this device yet.");
+    }
+    debugLog(`[Offline] Returning on-device copy for ${safeLocation} saved ${stored.savedAt}.`);
+    searchMeta.servedOffline = true;
+    searchMeta.offlineSavedAt = stored.savedAt;
+    const filteredData = filterDataByServices(stored.data, userSelectedServices);
+    return { data: filteredData, groundingChunks: stored.groundingChunks, rawText: 'Retrieved from Offline Storage', searchMeta };
+  }
 
   const cached = options.bypassCache ? null : await getFromCacheCandidates(cacheKeys);
   if (cached) {
@@ -373,6 +419,7 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
         searchMeta.lastAuthoritativeRefreshAt = cached.updatedAt;
       }
       debugLog(`[Cache Hit] Returning cached result for ${safeLocation} via ${cached.cacheKey}.`);
+      void saveOfflineScan(cacheKeys, cached.data, cached.groundingChunks);
       const filteredData = filterDataByServices(cached.data, userSelectedServices);
       return { data: filteredData, groundingChunks: cached.groundingChunks, rawText: 'Retrieved from Cache', searchMeta };
     }
@@ -450,14 +497,14 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
   // 2. RadioReference Search (Run if credentials exist)
   let rrPromise: Promise<ScanResult | null> = Promise.resolve(null);
   let rrErrorMessage: string | undefined;
-  if (rrCredentials && rrLookupZip) {
+  if (rrCredentials && rrLookup) {
     rrPromise = (async () => {
       try {
-        debugLog(`[RR API] Fetching for ${rrLookupZip} (resolved from ${safeLocation})...`);
+        debugLog(`[RR API] Fetching for ${JSON.stringify(rrLookup)} (resolved from ${safeLocation})...`);
         let rrAttempts = 0;
         const data = await withRetry(async (attempt) => {
           rrAttempts = attempt + 1;
-          return await fetchFromRadioReference(rrLookupZip, rrCredentials, ALL_SERVICE_TYPES, signal);
+          return await fetchFromRadioReference(rrLookup, rrCredentials, ALL_SERVICE_TYPES, signal);
         }, {
           signal,
           // Credentials errors are permanent — don't keep hammering RR with bad auth.
@@ -465,7 +512,7 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
             if (isAbortError(err)) return false;
             const msg = ((err as { message?: string })?.message || '').toLowerCase();
             if (/auth|password|credentials|access denied|unauthor/i.test(msg)) return false;
-            if (/zip.*not found|not found.*zip|invalid zip/i.test(msg)) return false;
+            if (/not found|invalid zip|invalid radioreference/i.test(msg)) return false;
             return /timeout|timed out|network|fetch failed|socket|econn|5\d\d|gateway|temporar/i.test(msg);
           },
           onRetry: (attempt, reason) => debugLog(`[RR API] Retry ${attempt} after ${reason}`),
@@ -474,8 +521,10 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
         if (data) {
           data.source = 'API';
           // Mark inner items
-          if (data.agencies) data.agencies.forEach((a: any) => a.origin = 'RR');
-          if (data.trunkedSystems) data.trunkedSystems.forEach((s: any) => s.origin = 'RR');
+          [data, data.statewide].filter(Boolean).forEach((section: any) => {
+            if (section.agencies) section.agencies.forEach((a: any) => a.origin = 'RR');
+            if (section.trunkedSystems) section.trunkedSystems.forEach((s: any) => s.origin = 'RR');
+          });
         }
         return data;
       } catch (e: any) {
@@ -506,6 +555,7 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
   } else if (rrResult) {
     debugLog(`[Hybrid Results] RR Only`);
     masterData = rrResult;
+    normalizeChannels(masterData);
     if (searchMeta.autoBypassedStaleAuthoritativeCache || searchMeta.bypassedCache) {
       searchMeta.refreshedWithRadioReference = true;
     }
@@ -514,6 +564,7 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
   } else if (aiResult) {
     debugLog(`[Hybrid Results] AI Only`);
     masterData = aiResult;
+    normalizeChannels(masterData);
     rawText = rawText || 'AI Results';
   } else {
     debugLog(`[Hybrid Search] All fetches failed. Checking Cache as backup...`);
@@ -526,11 +577,21 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
       searchMeta.usedAuthoritativeCache = backupCached.isAuthoritative;
       return { data: filteredData, groundingChunks: backupCached.groundingChunks, rawText: "Retrieved from Cache (Offline Backup)", rrError: rrErrorMessage, searchMeta };
     }
+    const stored = await getOfflineScan(cacheKeys);
+    if (stored) {
+      debugLog(`[Offline Backup] Found on-device copy saved ${stored.savedAt}.`);
+      searchMeta.servedOffline = true;
+      searchMeta.offlineSavedAt = stored.savedAt;
+      const filteredData = filterDataByServices(stored.data, userSelectedServices);
+      return { data: filteredData, groundingChunks: stored.groundingChunks, rawText: "Retrieved from Offline Storage", rrError: rrErrorMessage, searchMeta };
+    }
     throw new Error("Unable to retrieve frequency data from any source.");
   }
 
   // 3. Save MASTER RECORD to Cache (Write-Through)
-  if (masterData && (masterData.agencies?.length > 0 || masterData.trunkedSystems?.length > 0)) {
+  // A listing the RR rate limit cut short is shown but not cached: it would replace the
+  // full listing and read as removed frequencies in change alerts.
+  if (masterData && !masterData.truncated && (masterData.agencies?.length > 0 || masterData.trunkedSystems?.length > 0)) {
     // Validate AI-sourced data before caching (RR data is authoritative, skip)
     if (masterData.source !== 'API') {
       const issues = validateResult(masterData);
@@ -538,8 +599,24 @@ export const searchFrequencies = async (locationQuery: string, userSelectedServi
     }
     // Annotate talkgroup types before caching so cache also has them
     annotateTalkgroups(masterData);
-    debugLog(`[Cache Save] Storing Master Record for ${cacheKeys.length} equivalent keys (primary ${cacheKey})`);
-    await Promise.all(cacheKeys.map((key) => saveToCache(key, masterData, masterGrounding)));
+    // A pinned snapshot keeps the live cache row; the new run only goes into history
+    const pinned = await getPinnedSnapshot(cacheKey);
+    if (pinned) {
+      searchMeta.pinnedSnapshotAt = pinned.createdAt;
+      debugLog(`[Cache Save] Snapshot from ${pinned.createdAt} is pinned for ${cacheKey}; recording history only`);
+    } else {
+      debugLog(`[Cache Save] Storing Master Record for ${cacheKeys.length} equivalent keys (primary ${cacheKey})`);
+      await Promise.all(cacheKeys.map((key) => saveToCache(key, masterData, masterGrounding)));
+    }
+    await recordCacheSnapshot(cacheKey, masterData, masterGrounding, searchMeta);
+    // The database diffs this snapshot against the previous one (RR against RR only) and writes the alert
+    if (!pinned && masterData.source === 'API') {
+      void notifyFavoriteSubscribers(
+        cacheKey,
+        [safeLocation, resolvedLocation.primaryZip, resolvedLocation.standardizedName, resolvedLocation.searchLabel],
+      );
+    }
+    void saveOfflineScan(cacheKeys, masterData, masterGrounding);
   }
 
   // 4. Return FILTERED data to user
@@ -560,8 +637,9 @@ function mergeResults(rr: ScanResult, ai: ScanResult): ScanResult {
     merged.coords = ai.coords;
   }
 
-  // 1. Merge Agencies
-  const existingNames = new Set(merged.agencies.map((a: any) => normalizeName(a.name)));
+  // 1. Merge Agencies (an AI "Highway Patrol" is usually RR's statewide listing)
+  const statewide = merged.statewide ?? { agencies: [], trunkedSystems: [] };
+  const existingNames = new Set([...merged.agencies, ...statewide.agencies].map((a: any) => normalizeName(a.name)));
 
   if (ai.agencies) {
     for (const aiAgency of ai.agencies) {
@@ -578,7 +656,7 @@ function mergeResults(rr: ScanResult, ai: ScanResult): ScanResult {
   }
 
   // 2. Merge Trunked Systems
-  const existingSystems = new Set(merged.trunkedSystems.map((s: any) => normalizeName(s.name)));
+  const existingSystems = new Set([...merged.trunkedSystems, ...statewide.trunkedSystems].map((s: any) => normalizeName(s.name)));
 
   if (ai.trunkedSystems) {
     for (const aiSys of ai.trunkedSystems) {
@@ -590,9 +668,20 @@ function mergeResults(rr: ScanResult, ai: ScanResult): ScanResult {
     }
   }
 
+  // Every channel leaves ingest with a mode and a structured tone, whichever source it came from
+  normalizeChannels(merged);
+
   return merged;
 }
 
+function normalizeChannels(result: ScanResult): void {
+  const statewide = statewideResult(result);
+  for (const section of statewide ? [result, statewide] : [result]) {
+    fillMissingModes(section);
+    attachToneInfo(section);
+  }
+}
+
 function normalizeName(str: string): string {
   return str.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
@@ -612,7 +701,7 @@ function inferTalkgroupTagType(tg: { alphaTag: string; description: string; tag:
 }
 
 function annotateTalkgroups(result: ScanResult): void {
-  for (const sys of result.trunkedSystems || []) {
+  for (const sys of [...(result.trunkedSystems || []), ...(result.statewide?.trunkedSystems || [])]) {
     for (const tg of sys.talkgroups || []) {
       if (!tg.tagType) {
         tg.tagType = inferTalkgroupTagType(tg);
@@ -624,47 +713,167 @@ function annotateTalkgroups(result: ScanResult): void {
 // ---------------------------------------------------------------------------
 // Data quality validation — flags suspicious AI-sourced data
 // ---------------------------------------------------------------------------
-const FREQ_RANGE = { min: 25, max: 3000 }; // MHz
-
 function validateResult(result: ScanResult): string[] {
   const issues: string[] = [];
   let badFreqs = 0;
   let longNames = 0;
+  let badTones = 0;
+  let implausible = 0;
 
   for (const agency of result.agencies || []) {
     if (agency.name && agency.name.length > 120) longNames++;
     for (const f of agency.frequencies || []) {
-      const v = parseFloat(f.freq);
-      if (isNaN(v) || v < FREQ_RANGE.min || v > FREQ_RANGE.max) badFreqs++;
+      if (!bandFor(f.freq)) badFreqs++;
+      else if (implausibleReason(f)) implausible++;
+      if (f.toneInfo?.kind === 'unknown') badTones++;
     }
   }
 
-  if (badFreqs > 0) issues.push(`${badFreqs} out-of-range frequency value${badFreqs > 1 ? 's' : ''} detected`);
+  if (badFreqs > 0) issues.push(`${badFreqs} frequency value${badFreqs > 1 ? 's' : ''} outside the US band plan`);
+  if (implausible > 0) issues.push(`${implausible} mode${implausible > 1 ? 's' : ''} implausible for the band (e.g. FM on the aircraft band)`);
+  if (badTones > 0) issues.push(`${badTones} unrecognized tone value${badTones > 1 ? 's' : ''} (not a standard CTCSS/DCS/NAC code)`);
   if (longNames > 0) issues.push(`${longNames} unusually long agency name${longNames > 1 ? 's' : ''} (possible hallucination)`);
   return issues;
 }
 
-export const planTrip = async (start: string, end: string, userSelectedServices: ServiceType[]): Promise<{ trip: TripResult | null, groundingChunks: any[] }> => {
+const ROUTE_REQUEST_TIMEOUT_MS = 60_000;
+const ROUTE_ZONE_CONCURRENCY = 3;
+
+type RoutePlanResponse = {
+  route: TripRoute & { startLocation: string; endLocation: string };
+  zones: RouteZone[];
+};
+
+async function fetchRoutePlan(body: Record<string, unknown>): Promise<RoutePlanResponse> {
+  const response = await fetchJsonWithTimeout('/api/route', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }, 'Routing timed out. Please try again.', ROUTE_REQUEST_TIMEOUT_MS);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Route request failed');
+  }
+  return response.json();
+}
+
+/**
+ * Turns the counties a route crosses into a trip by running each one through
+ * the regular location search (cache, RadioReference, AI), so every zone shares
+ * the LOCAL cache. Zones keep driving order; a county whose search fails is
+ * left out rather than failing the whole trip.
+ */
+async function buildRouteTrip(plan: RoutePlanResponse, rrCredentials?: RRCredentials): Promise<{ trip: TripResult, groundingChunks: any[] }> {
+  const searched = await mapWithConcurrency(plan.zones, ROUTE_ZONE_CONCURRENCY, async (zone) => {
+    try {
+      return { zone, response: await searchFrequencies(zone.name, ALL_SERVICE_TYPES, rrCredentials) };
+    } catch (e) {
+      console.warn(`Route zone search failed for ${zone.name}:`, e);
+      return { zone, response: null };
+    }
+  });
+
+  const locations: TripLocation[] = [];
+  const groundingChunks: any[] = [];
+  searched.forEach(({ zone, response }) => {
+    if (!response?.data) return;
+    locations.push({
+      locationName: zone.name,
+      data: response.data,
+      entryMile: zone.entryMile,
+      exitMile: zone.exitMile,
+      distanceMiles: zone.distanceMiles,
+      etaMinutes: zone.etaMinutes,
+      coords: zone.coords,
+      zips: zone.zips,
+    });
+    if (Array.isArray(response.groundingChunks)) groundingChunks.push(...response.groundingChunks);
+  });
+
+  if (locations.length === 0) {
+    throw new Error('No frequency data found for any county on this route.');
+  }
+
+  const { startLocation, endLocation, ...route } = plan.route;
+  return { trip: { startLocation, endLocation, locations, route }, groundingChunks };
+}
+
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Plans a trip along an imported GPX / KML / GeoJSON route, so multi-stop and
+ * backroad routes are scanned exactly as driven. The track is parsed and
+ * thinned here to keep the request small; there is no AI fallback because the
+ * route itself is the point.
+ */
+export const planTripFromRouteFile = async (fileText: string, userSelectedServices: ServiceType[], rrCredentials?: RRCredentials): Promise<{ trip: TripResult | null, groundingChunks: any[] }> => {
+  const points = simplifyPolyline(parseRouteGeometry(fileText), 0.05);
+  const geometry = JSON.stringify({ type: 'LineString', coordinates: points.map((p) => [Number(p.lng.toFixed(5)), Number(p.lat.toFixed(5))]) });
+  const cacheKey = `v7_trip_file_${hashText(geometry)}`;
+
+  if (isOffline()) {
+    const stored = await getOfflineTrip(cacheKey);
+    if (!stored) {
+      throw new Error("You're offline and this route hasn't been saved on this device yet.");
+    }
+    return { trip: filterTripByServices(stored.trip, userSelectedServices), groundingChunks: stored.groundingChunks };
+  }
+
+  const plan = await fetchRoutePlan({ geometry });
+  const routed = await buildRouteTrip(plan, rrCredentials);
+  void saveOfflineTrip(cacheKey, routed.trip, routed.groundingChunks);
+  return { trip: filterTripByServices(routed.trip, userSelectedServices), groundingChunks: routed.groundingChunks };
+};
+
+export const planTrip = async (start: string, end: string, userSelectedServices: ServiceType[], rrCredentials?: RRCredentials, options: { via?: string[] } = {}): Promise<{ trip: TripResult | null, groundingChunks: any[] }> => {
   const safeStart = sanitizeForPrompt(start);
   const safeEnd = sanitizeForPrompt(end);
+  const safeVia = (options.via || []).map(sanitizeForPrompt).filter(Boolean);
+
+  // Trip Cache is also location-pair based only (plus any intermediate stops).
+  const viaSuffix = safeVia.length > 0 ? `_via_${safeVia.join('_')}` : '';
+  const cacheKey = `v6_trip_${safeStart}_to_${safeEnd}${viaSuffix}`.toLowerCase().replace(/\s+/g, '');
+
+  if (isOffline()) {
+    const stored = await getOfflineTrip(cacheKey);
+    if (!stored) {
+      throw new Error("You're offline and this route hasn't been saved on this device yet.");
+    }
+    debugLog(`[Offline] Trip found on device, saved ${stored.savedAt}.`);
+    return { trip: filterTripByServices(stored.trip, userSelectedServices), groundingChunks: stored.groundingChunks };
+  }
 
-  // Trip Cache is also location-pair based only.
-  const cacheKey = `v6_trip_${safeStart}_to_${safeEnd}`.toLowerCase().replace(/\s+/g, '');
+  // 1. Route geometry: every county crossed, in order, through the per-location pipeline
+  try {
+    const plan = await fetchRoutePlan({ start: safeStart, end: safeEnd, via: safeVia });
+    debugLog(`[Trip Plan] Route via ${plan.route.provider}: ${plan.zones.length} counties over ${plan.route.distanceMiles} mi.`);
+    const routed = await buildRouteTrip(plan, rrCredentials);
+    void saveOfflineTrip(cacheKey, routed.trip, routed.groundingChunks);
+    return { trip: filterTripByServices(routed.trip, userSelectedServices), groundingChunks: routed.groundingChunks };
+  } catch (e) {
+    debugLog(`[Trip Plan] Route-based planning unavailable, falling back to AI zones:`, e);
+  }
 
-  // 1. Check Cache
+  // 2. Check Cache (AI-planned trips)
   const cached = await getFromCache(cacheKey);
   if (cached) {
     debugLog(`[Cache Hit] Trip found.`);
+    void saveOfflineTrip(cacheKey, cached.data, cached.groundingChunks);
     const filteredTrip = filterTripByServices(cached.data, userSelectedServices);
     return { trip: filteredTrip, groundingChunks: cached.groundingChunks };
   }
 
-  // 2. Fetch MASTER TRIP (All Services)
+  // 3. Fetch MASTER TRIP (All Services)
   debugLog(`[Trip Plan] Fetching Master Trip Record...`);
   const response = await fetchJsonWithTimeout('/api/trip', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ start: safeStart, end: safeEnd, serviceTypes: ALL_SERVICE_TYPES })
+    body: JSON.stringify({ start: safeStart, end: safeEnd, via: safeVia, serviceTypes: ALL_SERVICE_TYPES })
   }, 'Trip planning timed out. Please try again.');
 
   if (!response.ok) {
@@ -676,12 +885,14 @@ export const planTrip = async (start: string, end: string, userSelectedServices:
   const masterTrip = result.trip;
   const masterGrounding = result.groundingChunks;
 
-  // 3. Save MASTER TRIP to Cache
+  // 4. Save MASTER TRIP to Cache
   if (masterTrip && masterTrip.locations?.length > 0) {
+    masterTrip.locations.forEach((loc: { data: ScanResult }) => normalizeChannels(loc.data));
     await saveToCache(cacheKey, masterTrip, masterGrounding);
+    void saveOfflineTrip(cacheKey, masterTrip, masterGrounding);
   }
 
-  // 4. Return FILTERED trip
+  // 5. Return FILTERED trip
   const filteredTrip = filterTripByServices(masterTrip, userSelectedServices);
   return { trip: filteredTrip, groundingChunks: masterGrounding };
 };
@@ -695,32 +906,35 @@ function filterDataByServices(data: ScanResult | null, services: ServiceType[]):
   const result = JSON.parse(JSON.stringify(data));
   const allowedcats = new Set(services.map(s => s.toLowerCase()));
 
-  // 1. Filter Agencies
-  if (result.agencies) {
-    result.agencies = result.agencies.filter((agency: any) => {
-      // Heuristic: Check if agency category matches any selected service
-      // Map agency category (e.g. "Law Dispatch") to ServiceType (e.g. "Police")
-      // We'll use a loose match
-      const cat = (agency.category || '').toLowerCase();
-      return isCategoryAllowed(cat, allowedcats);
-    });
-  }
+  // The statewide section is filtered the same way as the county's own listings
+  [result, result.statewide].filter(Boolean).forEach((section: any) => {
+    // 1. Filter Agencies
+    if (section.agencies) {
+      section.agencies = section.agencies.filter((agency: any) => {
+        // Heuristic: Check if agency category matches any selected service
+        // Map agency category (e.g. "Law Dispatch") to ServiceType (e.g. "Police")
+        // We'll use a loose match
+        const cat = (agency.category || '').toLowerCase();
+        return isCategoryAllowed(cat, allowedcats);
+      });
+    }
 
-  // 2. Filter Trunked Systems? 
-  // Trunked systems often carry ALL traffic. It's safer to keep the system 
-  // but maybe filter its talkgroups. For now, strict filtering might hide 
-  // control channels needed for scanning.
-  // Strategy: Keep all Trunked Systems, but filter Talkgroups.
-  if (result.trunkedSystems) {
-    result.trunkedSystems.forEach((sys: any) => {
-      if (sys.talkgroups) {
-        sys.talkgroups = sys.talkgroups.filter((tg: any) => {
-          const tag = (tg.tag || tg.description || '').toLowerCase();
-          return isCategoryAllowed(tag, allowedcats);
-        });
-      }
-    });
-  }
+    // 2. Filter Trunked Systems? 
+    // Trunked systems often carry ALL traffic. It's safer to keep the system 
+    // but maybe filter its talkgroups. For now, strict filtering might hide 
+    // control channels needed for scanning.
+    // Strategy: Keep all Trunked Systems, but filter Talkgroups.
+    if (section.trunkedSystems) {
+      section.trunkedSystems.forEach((sys: any) => {
+        if (sys.talkgroups) {
+          sys.talkgroups = sys.talkgroups.filter((tg: any) => {
+            const tag = (tg.tag || tg.description || '').toLowerCase();
+            return isCategoryAllowed(tag, allowedcats);
+          });
+        }
+      });
+    }
+  });
 
   return result;
 }
@@ -740,87 +954,8 @@ export function filterTripByServices(trip: TripResult | null, services: ServiceT
 }
 
 function isCategoryAllowed(category: string, allowedSet: Set<string>): boolean {
-  const c = category.toLowerCase();
-
-  // Robust Keyword Matching for ALL 18 Service Types
-
-  if (allowedSet.has('police')) {
-    if (c.includes('law') || c.includes('police') || c.includes('sheriff') || c.includes('patrol') || c.includes('trooper') || c.includes('marshal') || c.includes('constable') || c.includes('detective') || c.includes('fbi') || c.includes('dea') || c.includes('atf')) return true;
-  }
-
-  if (allowedSet.has('fire')) {
-    if (c.includes('fire') || c.includes('rescue') || c.includes('engine') || c.includes('ladder') || c.includes('battalion') || c.includes('hazmat')) return true;
-  }
-
-  if (allowedSet.has('ems')) {
-    if (c.includes('ems') || c.includes('medic') || c.includes('ambulance') || c.includes('hospital') || c.includes('paramedic') || c.includes('life flight') || c.includes('rescue')) return true;
-  }
-
-  if (allowedSet.has('ham radio')) {
-    if (c.includes('ham') || c.includes('amateur') || c.includes('repeater') || c.includes('ares') || c.includes('races') || c.includes('skywarn')) return true;
-  }
-
-  if (allowedSet.has('railroad')) {
-    if (c.includes('rail') || c.includes('train') || c.includes('locomotive') || c.includes('yard') || c.includes('conductor') || c.includes('union pacific') || c.includes('bnsf') || c.includes('csx') || c.includes('amtrak')) return true;
-  }
-
-  if (allowedSet.has('air')) {
-    if (c.includes('air') || c.includes('aviation') || c.includes('control tower') || c.includes('approach') || c.includes('departure') || c.includes('ground') || c.includes('unicom') || c.includes('airport') || c.includes('pilot')) return true;
-  }
-
-  if (allowedSet.has('marine')) {
-    if (c.includes('marine') || c.includes('coast') || c.includes('boat') || c.includes('ship') || c.includes('vessel') || c.includes('port') || c.includes('harbor') || c.includes('marina')) return true;
-  }
-
-  if (allowedSet.has('federal')) {
-    if (c.includes('federal') || c.includes('fed') || c.includes('govt') || c.includes('government') || c.includes('us ') || c.includes('u.s.') || c.includes('forest service') || c.includes('park service') || c.includes('blm') || c.includes('fbi') || c.includes('tsa') || c.includes('customs') || c.includes('border patrol') || c.includes('ice ') || c.includes('dhs')) return true;
-  }
-
-  if (allowedSet.has('military')) {
-    if (c.includes('military') || c.includes('army') || c.includes('navy') || c.includes('air force') || c.includes('marines') || c.includes('coast guard') || c.includes('national guard') || c.includes('base') || c.includes('fort') || c.includes('camp ') || c.includes('afb') || c.includes('defense') || c.includes('squadron') || c.includes('wing')) return true;
-  }
-
-  if (allowedSet.has('public works')) {
-    if (c.includes('public works') || c.includes('dpw') || c.includes('street') || c.includes('road') || c.includes('highway') || c.includes('transportation') || c.includes('dot ') || c.includes('sanitation') || c.includes('garbage') || c.includes('trash') || c.includes('recycling') || c.includes('water') || c.includes('sewer') || c.includes('utility') || c.includes('engineering') || c.includes('maintenance')) return true;
-  }
-
-  if (allowedSet.has('utilities')) {
-    if (c.includes('utilit') || c.includes('power') || c.includes('electric') || c.includes('gas') || c.includes('energy') || c.includes('water') || c.includes('sewer') || c.includes('cable') || c.includes('internet') || c.includes('phone')) return true;
-  }
-
-  if (allowedSet.has('transportation')) {
-    if (c.includes('transport') || c.includes('transit') || c.includes('bus') || c.includes('taxi') || c.includes('shuttle') || c.includes('metro') || c.includes('subway') || c.includes('airport') || c.includes('uber') || c.includes('lyft') || c.includes('limo')) return true;
-  }
-
-  if (allowedSet.has('business')) {
-    if (c.includes('business') || c.includes('commercial') || c.includes('mall') || c.includes('store') || c.includes('shop') || c.includes('factory') || c.includes('plant') || c.includes('warehouse') || c.includes('hotel') || c.includes('motel') || c.includes('casino') || c.includes('resort') || c.includes('logistics') || c.includes('security')) return true;
-  }
-
-  if (allowedSet.has('hospitals')) {
-    if (c.includes('hospital') || c.includes('medical') || c.includes('clinic') || c.includes('center') || c.includes('health') || c.includes('care') || c.includes('nursing') || c.includes('trauma') || c.includes('er ') || c.includes('emergency room')) return true;
-  }
-
-  if (allowedSet.has('schools')) {
-    if (c.includes('school') || c.includes('university') || c.includes('college') || c.includes('campus') || c.includes('district') || c.includes('education') || c.includes('academy') || c.includes('student') || c.includes('faculty') || c.includes('bus barn')) return true;
-  }
-
-  if (allowedSet.has('corrections')) {
-    if (c.includes('correction') || c.includes('prison') || c.includes('jail') || c.includes('detention') || c.includes('penitentiary') || c.includes('warden') || c.includes('inmate') || c.includes('justice center')) return true;
-  }
-
-  if (allowedSet.has('security')) {
-    if (c.includes('security') || c.includes('patrol') || c.includes('guard') || c.includes('protection') || c.includes('loss prevention') || c.includes('safety')) return true;
-  }
-
-  if (allowedSet.has('multi-dispatch')) {
-    // Catch-all for dispatch centers that handle multiple agencies
-    if (c.includes('dispatch') || c.includes('communication') || c.includes('911') || c.includes('center') || c.includes('interop')) return true;
-  }
-
-  // Direct strict check as a fallback
   for (const allowed of allowedSet) {
-    if (c.includes(allowed)) return true;
+    if (matchesService(category, allowed)) return true;
   }
-
   return false;
 }
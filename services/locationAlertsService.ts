@@ -0,0 +1,35 @@
+import { supabase } from './supabaseClient';
+import { rememberMissingOptionalTable, shouldSkipOptionalTable } from './supabaseOptionalTableGuard';
+
+const NOTIFY_RPC = 'notify_location_refresh';
+
+/**
+ * Asks the database to alert everyone whose saved location matches one of
+ * `matchQueries` about an RR refresh of `searchKey`. The server diffs the two
+ * latest RR snapshots in search_cache_history and writes the alert text
+ * itself, so call this after the refresh's snapshot has been recorded. Only
+ * signed-in users can trigger it. Returns how many users were notified.
+ */
+export async function notifyFavoriteSubscribers(searchKey: string, matchQueries: string[]): Promise<number> {
+  if (!supabase || shouldSkipOptionalTable(NOTIFY_RPC)) return 0;
+
+  const queries = [...new Set(matchQueries.map(q => (q || '').trim().toLowerCase()).filter(Boolean))].slice(0, 8);
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return 0;
+
+    const { data, error } = await supabase.rpc(NOTIFY_RPC, {
+      p_search_key: searchKey,
+      p_queries: queries,
+    });
+    if (rememberMissingOptionalTable(NOTIFY_RPC, error)) return 0;
+    if (error) {
+      console.warn('Location alert error:', error);
+      return 0;
+    }
+    return typeof data === 'number' ? data : 0;
+  } catch (e) {
+    console.warn('Location alert error:', e);
+    return 0;
+  }
+}
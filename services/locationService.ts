@@ -1,7 +1,10 @@
+import type { CountyBoundary } from '../types';
+import type { RRLookupTarget } from './rrApi';
+import { parseStateCode, rrStateId } from '../utils/rrStateIds';
 import { sanitizeForPrompt } from '../utils/security';
 
 export interface ResolvedLocation {
-    type: 'zip' | 'county' | 'city' | 'unknown';
+    type: 'zip' | 'county' | 'city' | 'state' | 'unknown';
     standardizedName: string;
     canonicalName: string;
     canonicalKey: string;
@@ -14,6 +17,8 @@ export interface ResolvedLocation {
     zips: string[];
     aliases: string[];
     coords?: { lat: number; lng: number };
+    /** RadioReference lookup for this place, when one can be built. */
+    rrLookup?: RRLookupTarget | null;
 }
 
 type ResolverResponse = {
@@ -23,6 +28,11 @@ type ResolverResponse = {
 };
 
 const LOCATION_RESOLVE_TIMEOUT_MS = 12_000;
+const COUNTY_BOUNDARIES_TIMEOUT_MS = 30_000;
+
+// Outlines rarely change; keep them for the session, keyed by the rounded point.
+const boundaryCache = new Map<string, CountyBoundary | null>();
+const boundaryCacheKey = (point: { lat: number; lng: number }) => `${point.lat.toFixed(3)},${point.lng.toFixed(3)}`;
 
 function createRequestSignal(timeoutMs: number, signal?: AbortSignal) {
     const controller = new AbortController();
@@ -99,6 +109,47 @@ function slugify(value: string): string {
         .slice(0, 80) || 'unknown';
 }
 
+/**
+ * Maps a resolved place to RadioReference ids. ZIPs can straddle county
+ * lines, so a county search goes to the county itself (by state id + name,
+ * which the API resolves to a ctid); cities use their ZIP.
+ */
+export function radioReferenceLookupFor(location: Pick<ResolvedLocation, 'type' | 'primaryZip' | 'county' | 'stateCode'>): RRLookupTarget | null {
+    const stid = rrStateId(location.stateCode);
+    if (location.type === 'state') return stid ? { stid } : null;
+    if (location.type === 'county' && location.county && stid) return { stid, county: location.county };
+    if (location.primaryZip) return { zipcode: location.primaryZip };
+    if (location.county && stid) return { stid, county: location.county };
+    return null;
+}
+
+// "statewide TN" or "Tennessee statewide". The keyword is required: bare
+// names like "Washington", "Georgia", "IN" or "OR" are also places and words.
+function parseStatewideQuery(query: string): string | null {
+    const match = query.trim().match(/^(?:statewide\s+(.+)|(.+?)\s+statewide)$/i);
+    if (!match) return null;
+    return parseStateCode(match[1] || match[2] || '');
+}
+
+function buildStateResolution(stateCode: string): ResolvedLocation {
+    const name = `${stateCode} Statewide`;
+    return {
+        type: 'state',
+        standardizedName: name,
+        canonicalName: name,
+        canonicalKey: `v7_loc_state_${stateCode.toLowerCase()}`,
+        searchLabel: name,
+        isZip: false,
+        primaryZip: null,
+        city: null,
+        county: null,
+        stateCode,
+        zips: [],
+        aliases: [name, `Statewide ${stateCode}`],
+        rrLookup: radioReferenceLookupFor({ type: 'state', primaryZip: null, county: null, stateCode }),
+    };
+}
+
 export function createLegacyLocationCacheKey(query: string): string {
     return `v6_loc_${sanitizeForPrompt(query)}`.toLowerCase().replace(/\s+/g, '');
 }
@@ -186,7 +237,7 @@ function normalizeResolvedLocation(query: string, payload?: Partial<ResolvedLoca
     const primaryZip = typeof payload?.primaryZip === 'string' && /^\d{5}$/.test(payload.primaryZip)
         ? payload.primaryZip
         : fallback.primaryZip;
-    const type = payload?.type && ['zip', 'county', 'city', 'unknown'].includes(payload.type)
+    const type = payload?.type && ['zip', 'county', 'city', 'state', 'unknown'].includes(payload.type)
         ? payload.type
         : fallback.type;
     const standardizedName = typeof payload?.standardizedName === 'string' && payload.standardizedName.trim()
@@ -230,6 +281,7 @@ function normalizeResolvedLocation(query: string, payload?: Partial<ResolvedLoca
         zips: primaryZip ? [primaryZip] : [],
         aliases: Array.from(aliases).filter(Boolean),
         coords: payload?.coords,
+        rrLookup: radioReferenceLookupFor({ type, primaryZip, county, stateCode }),
     };
 }
 
@@ -257,6 +309,10 @@ export const resolveLocationDetails = async (query: string, signal?: AbortSignal
     const fallback = buildFallbackResolution(safeQuery);
     if (!safeQuery) return fallback;
 
+    // Whole-state searches need no geocoding, only the RR state id.
+    const statewide = parseStatewideQuery(safeQuery);
+    if (statewide) return buildStateResolution(statewide);
+
     const { signal: requestSignal, didTimeout, cleanup } = createRequestSignal(LOCATION_RESOLVE_TIMEOUT_MS, signal);
 
     try {
@@ -284,3 +340,73 @@ export const resolveLocationDetails = async (query: string, signal?: AbortSignal
         cleanup();
     }
 };
+
+/**
+ * County containing a GPS fix, via the resolver's reverse lookup. Resolves
+ * null when the lookup fails so callers can keep their current location.
+ */
+export const resolveCountyAtPoint = async (lat: number, lng: number, signal?: AbortSignal): Promise<ResolvedLocation | null> => {
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+    const { signal: requestSignal, cleanup } = createRequestSignal(LOCATION_RESOLVE_TIMEOUT_MS, signal);
+
+    try {
+        const response = await fetch('/api/location-resolve', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            signal: requestSignal,
+            body: JSON.stringify({ lat, lng }),
+        });
+
+        if (!response.ok) return null;
+
+        const json = await response.json() as ResolverResponse;
+        if (!json.resolved?.county || !json.resolved?.stateCode) return null;
+        return normalizeResolvedLocation(`${json.resolved.county} County, ${json.resolved.stateCode}`, json.resolved);
+    } catch (error: any) {
+        if (error?.name !== 'AbortError') {
+            console.warn('Reverse county lookup failed:', error);
+        }
+        return null;
+    } finally {
+        cleanup();
+    }
+};
+
+/**
+ * County outline around each point, in order. Entries are null where the
+ * lookup failed; the whole call never rejects so a map can still draw the
+ * route without polygons.
+ */
+export const fetchCountyBoundaries = async (points: Array<{ lat: number; lng: number }>, signal?: AbortSignal): Promise<Array<CountyBoundary | null>> => {
+    const missing = points.filter(point => !boundaryCache.has(boundaryCacheKey(point)));
+    const unique = Array.from(new Map(missing.map(point => [boundaryCacheKey(point), point])).values());
+
+    if (unique.length > 0) {
+        const { signal: requestSignal, cleanup } = createRequestSignal(COUNTY_BOUNDARIES_TIMEOUT_MS, signal);
+        try {
+            const response = await fetch('/api/county-boundaries', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                signal: requestSignal,
+                body: JSON.stringify({ points: unique }),
+            });
+            if (response.ok) {
+                const json = await response.json() as { boundaries?: Array<CountyBoundary | null> };
+                unique.forEach((point, i) => {
+                    const boundary = json.boundaries?.[i] ?? null;
+                    // Only cache hits so a transient upstream failure is retried next time.
+                    if (boundary) boundaryCache.set(boundaryCacheKey(point), boundary);
+                });
+            }
+        } catch (error: any) {
+            if (error?.name !== 'AbortError') {
+                console.warn('County boundary lookup failed:', error);
+            }
+        } finally {
+            cleanup();
+        }
+    }
+
+    return points.map(point => boundaryCache.get(boundaryCacheKey(point)) ?? null);
+};
@@ -7,6 +7,8 @@ export interface AppNotification {
   id: string;
   title: string;
   body: string | null;
+  /** In-app deep link (`/?q=...`) for change alerts; absent before the location alerts migration. */
+  link?: string | null;
   read: boolean;
   created_at: string;
 }
@@ -15,7 +17,8 @@ export async function getNotifications(userId: string, limit = 20): Promise<AppN
   if (!supabase || shouldSkipOptionalTable(NOTIFICATIONS_TABLE)) return [];
   const { data, error } = await supabase
     .from('notifications')
-    .select('id, title, body, read, created_at')
+    // '*' so the optional link column is picked up when the alerts migration has run
+    .select('*')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(limit);
@@ -49,8 +52,8 @@ export async function markAllRead(userId: string): Promise<void> {
   rememberMissingOptionalTable(NOTIFICATIONS_TABLE, error);
 }
 
-export async function addNotification(userId: string, title: string, body?: string): Promise<void> {
+export async function addNotification(userId: string, title: string, body?: string, link?: string): Promise<void> {
   if (!supabase || shouldSkipOptionalTable(NOTIFICATIONS_TABLE)) return;
-  const { error } = await supabase.from('notifications').insert({ user_id: userId, title, body: body ?? null });
+  const { error } = await supabase.from('notifications').insert({ user_id: userId, title, body: body ?? null, ...(link ? { link } : {}) });
   rememberMissingOptionalTable(NOTIFICATIONS_TABLE, error);
 }
@@ -0,0 +1,190 @@
+import type { ScanResult, TripResult } from '../types';
+import type { Favorite } from './favoritesService';
+
+/**
+ * On-device copy of everything the user has looked at, so LOCAL, TRIP and
+ * saved locations keep working without a connection. Backed by IndexedDB;
+ * every call resolves to an empty value where IndexedDB is unavailable
+ * (private mode, tests) instead of throwing.
+ *
+ * Exports need no separate copy: they are generated locally from the stored
+ * ScanResult, and the service worker precaches the exporter chunks.
+ */
+
+const DB_NAME = 'bas-offline';
+const DB_VERSION = 2;
+
+const SCANS = 'scans';
+const SCAN_ALIASES = 'scanAliases';
+const TRIPS = 'trips';
+const FAVORITES = 'favorites';
+const OUTBOX = 'outbox';
+
+export interface OfflineScan {
+  key: string;
+  data: ScanResult;
+  groundingChunks: any;
+  savedAt: string;
+}
+
+export interface OfflineTrip {
+  key: string;
+  trip: TripResult;
+  groundingChunks: any;
+  savedAt: string;
+}
+
+export type QueuedReport =
+  | { kind: 'confirmation'; frequency: string; locationQuery: string; agencyName?: string }
+  | { kind: 'submission'; frequency: string; locationQuery: string; agencyName: string; description: string; mode: string };
+
+export type QueuedReportEntry = QueuedReport & { id: number; userId: string; queuedAt: string };
+
+/** True only when the browser reports it has no connection. */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/** fetch() rejections surface as TypeErrors; supabase-js wraps them into the error message. */
+export function isNetworkError(error: unknown): boolean {
+  const message = String((error as { message?: string })?.message ?? error ?? '');
+  return error instanceof TypeError || /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCANS)) db.createObjectStore(SCANS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(SCAN_ALIASES)) db.createObjectStore(SCAN_ALIASES);
+        if (!db.objectStoreNames.contains(TRIPS)) db.createObjectStore(TRIPS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(FAVORITES)) db.createObjectStore(FAVORITES);
+        if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true });
+        // Version 1 kept favorites and queued reports without an owner, so
+        // they cannot be handed to whoever signs in next.
+        if (event.oldVersion === 1) {
+          request.transaction?.objectStore(FAVORITES).clear();
+          request.transaction?.objectStore(OUTBOX).clear();
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Offline store unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T>,
+  fallback: T,
+): Promise<T> {
+  try {
+    const db = await openDb();
+    if (!db) return fallback;
+    const tx = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const result = await run(tx);
+    await done;
+    return result;
+  } catch (e) {
+    console.warn('Offline store error:', e);
+    return fallback;
+  }
+}
+
+/**
+ * Stores an unfiltered ScanResult under its canonical cache key; every other
+ * equivalent key becomes an alias, so the offline lookup still matches when
+ * the location resolver is unreachable and falls back to the raw query.
+ */
+export async function saveOfflineScan(cacheKeys: string[], data: ScanResult, groundingChunks: any): Promise<void> {
+  const [key, ...aliases] = cacheKeys;
+  if (!key) return;
+  await withStore([SCANS, SCAN_ALIASES], 'readwrite', async (tx) => {
+    const record: OfflineScan = { key, data, groundingChunks: groundingChunks ?? null, savedAt: new Date().toISOString() };
+    tx.objectStore(SCANS).put(record);
+    aliases.forEach((alias) => tx.objectStore(SCAN_ALIASES).put(key, alias));
+  }, undefined);
+}
+
+export async function getOfflineScan(cacheKeys: string[]): Promise<OfflineScan | null> {
+  return withStore([SCANS, SCAN_ALIASES], 'readonly', async (tx) => {
+    for (const key of cacheKeys) {
+      const direct = await promisify<OfflineScan | undefined>(tx.objectStore(SCANS).get(key));
+      if (direct) return direct;
+      const target = await promisify<string | undefined>(tx.objectStore(SCAN_ALIASES).get(key));
+      if (target) {
+        const aliased = await promisify<OfflineScan | undefined>(tx.objectStore(SCANS).get(target));
+        if (aliased) return aliased;
+      }
+    }
+    return null;
+  }, null);
+}
+
+export async function saveOfflineTrip(key: string, trip: TripResult, groundingChunks: any): Promise<void> {
+  await withStore(TRIPS, 'readwrite', async (tx) => {
+    const record: OfflineTrip = { key, trip, groundingChunks: groundingChunks ?? null, savedAt: new Date().toISOString() };
+    tx.objectStore(TRIPS).put(record);
+  }, undefined);
+}
+
+export async function getOfflineTrip(key: string): Promise<OfflineTrip | null> {
+  return withStore(TRIPS, 'readonly', async (tx) => (
+    (await promisify<OfflineTrip | undefined>(tx.objectStore(TRIPS).get(key))) ?? null
+  ), null);
+}
+
+/** Favorites are kept per account, so a shared device never shows one user's list to another. */
+export async function saveOfflineFavorites(userId: string, favorites: Favorite[]): Promise<void> {
+  await withStore(FAVORITES, 'readwrite', async (tx) => {
+    tx.objectStore(FAVORITES).put(favorites, userId);
+  }, undefined);
+}
+
+export async function getOfflineFavorites(userId: string): Promise<Favorite[]> {
+  return withStore(FAVORITES, 'readonly', async (tx) => (
+    (await promisify<Favorite[] | undefined>(tx.objectStore(FAVORITES).get(userId))) ?? []
+  ), []);
+}
+
+export async function queueReport(userId: string, report: QueuedReport): Promise<boolean> {
+  return withStore(OUTBOX, 'readwrite', async (tx) => {
+    tx.objectStore(OUTBOX).add({ ...report, userId, queuedAt: new Date().toISOString() });
+    return true;
+  }, false);
+}
+
+/** Reports `userId` queued, oldest first. */
+export async function listQueuedReports(userId: string): Promise<QueuedReportEntry[]> {
+  return withStore(OUTBOX, 'readonly', async (tx) => (
+    (await promisify<QueuedReportEntry[]>(tx.objectStore(OUTBOX).getAll())).filter(entry => entry.userId === userId)
+  ), []);
+}
+
+export async function removeQueuedReport(id: number): Promise<void> {
+  await withStore(OUTBOX, 'readwrite', async (tx) => {
+    tx.objectStore(OUTBOX).delete(id);
+  }, undefined);
+}
@@ -13,6 +13,17 @@ export interface RRCredentials {
   password: string;
 }
 
+/**
+ * What to look up in RadioReference. A ZIP goes through getZipcodeInfo
+ * first; the others address the county (ctid), the state (stid, optionally
+ * narrowed to a county by name) or a single trunked system (sid) directly.
+ */
+export type RRLookupTarget =
+  | { zipcode: string }
+  | { ctid: string; stid?: string }
+  | { stid: string; county?: string }
+  | { sid: string };
+
 const RR_REQUEST_TIMEOUT_MS = 45_000;
 
 function createRequestSignal(timeoutMs: number, signal?: AbortSignal) {
@@ -40,10 +51,10 @@ function createRequestSignal(timeoutMs: number, signal?: AbortSignal) {
 
 /**
  * Fetch frequency data from RadioReference's database via our API route.
- * Requires a 5-digit US ZIP code and the user's RR premium credentials.
+ * Requires a ZIP, county, state or system target and the user's RR premium credentials.
  */
 export const fetchFromRadioReference = async (
-  zipcode: string,
+  target: RRLookupTarget,
   credentials: RRCredentials,
   serviceTypes: string[] = ['Police', 'Fire', 'EMS'],
   signal?: AbortSignal
@@ -57,7 +68,7 @@ export const fetchFromRadioReference = async (
       headers: { 'Content-Type': 'application/json' },
       signal: requestSignal,
       body: JSON.stringify({
-        zipcode,
+        ...target,
         rrUsername: credentials.username,
         rrPassword: credentials.password,
         serviceTypes
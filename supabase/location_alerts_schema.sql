@@ -0,0 +1,183 @@
+-- =============================================================================
+-- Boy & A Scanner — change alerts for saved locations
+-- Optional additive migration. Run in the Supabase SQL Editor.
+-- Safe to run multiple times (ADD COLUMN IF NOT EXISTS + CREATE OR REPLACE).
+-- Needs supabase/search_cache_history_schema.sql.
+--
+-- Alert text is never taken from a browser. Two definer functions write into
+-- other users' notification rows, which RLS otherwise forbids:
+--   * notify_location_refresh() — called by a signed-in client right after an
+--     RR refresh is recorded in search_cache_history. It diffs the two latest
+--     RR snapshots for the key itself and writes count-only alerts. Rate
+--     limited per location and per caller.
+--   * notify_favorite_subscribers() — service role only; the precacher sends
+--     the alerts it builds from its own RadioReference refreshes.
+-- =============================================================================
+
+ALTER TABLE public.favorites     ADD COLUMN IF NOT EXISTS alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS link TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_favorites_location_lower ON public.favorites (lower(trim(location_query)));
+
+-- One row per alert fan-out, for rate limiting. No policies: only the definer functions read it.
+CREATE TABLE IF NOT EXISTS public.location_alert_log (
+  id           BIGSERIAL PRIMARY KEY,
+  search_key   TEXT NOT NULL,
+  requested_by UUID,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_alert_log_key ON public.location_alert_log (search_key, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_location_alert_log_user ON public.location_alert_log (requested_by, created_at DESC);
+
+ALTER TABLE public.location_alert_log ENABLE ROW LEVEL SECURITY;
+
+-- Distinct comparison keys in a stored ScanResult: agency|frequency, system|talkgroup or system.
+-- Names are matched the way utils/scanDiff.ts matches them (lowercase alphanumerics).
+CREATE OR REPLACE FUNCTION public.scan_result_keys(p_data JSONB, p_kind TEXT)
+RETURNS TEXT[] LANGUAGE sql IMMUTABLE SET search_path = public AS $$
+  SELECT COALESCE(array_agg(DISTINCT k), '{}') FROM (
+    SELECT lower(regexp_replace(a->>'name', '[^a-zA-Z0-9]', '', 'g')) || '|' || trim(f->>'freq') AS k
+    FROM jsonb_array_elements(COALESCE(p_data->'agencies', '[]'::jsonb)) a,
+         jsonb_array_elements(COALESCE(a->'frequencies', '[]'::jsonb)) f
+    WHERE p_kind = 'frequency'
+    UNION ALL
+    SELECT lower(regexp_replace(s->>'name', '[^a-zA-Z0-9]', '', 'g')) || '|' || trim(t->>'dec')
+    FROM jsonb_array_elements(COALESCE(p_data->'trunkedSystems', '[]'::jsonb)) s,
+         jsonb_array_elements(COALESCE(s->'talkgroups', '[]'::jsonb)) t
+    WHERE p_kind = 'talkgroup'
+    UNION ALL
+    SELECT lower(regexp_replace(s->>'name', '[^a-zA-Z0-9]', '', 'g'))
+    FROM jsonb_array_elements(COALESCE(p_data->'trunkedSystems', '[]'::jsonb)) s
+    WHERE p_kind = 'system'
+  ) keys;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_location_refresh(
+  p_search_key TEXT,
+  p_queries    TEXT[]
+)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  latest      public.search_cache_history;
+  previous    public.search_cache_history;
+  new_freqs   INTEGER;
+  gone_freqs  INTEGER;
+  new_tgs     INTEGER;
+  new_systems INTEGER;
+  parts       TEXT[] := '{}';
+  place       TEXT;
+  inserted    INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'notify_location_refresh: sign-in required';
+  END IF;
+  IF cardinality(p_queries) > 8 THEN
+    RAISE EXCEPTION 'notify_location_refresh: at most 8 match queries';
+  END IF;
+
+  -- One fan-out per location every 6 hours, and at most 20 a day per caller
+  IF EXISTS (
+    SELECT 1 FROM location_alert_log
+    WHERE search_key = p_search_key AND created_at > NOW() - INTERVAL '6 hours'
+  ) THEN
+    RETURN 0;
+  END IF;
+  IF (SELECT count(*) FROM location_alert_log
+      WHERE requested_by = auth.uid() AND created_at > NOW() - INTERVAL '24 hours') >= 20 THEN
+    RAISE EXCEPTION 'notify_location_refresh: rate limit exceeded';
+  END IF;
+
+  -- The refresh must be the latest snapshot, just recorded, and RR is compared against RR only
+  SELECT * INTO latest FROM search_cache_history
+  WHERE search_key = p_search_key ORDER BY created_at DESC LIMIT 1;
+  IF NOT FOUND OR latest.source <> 'API' OR latest.created_at < NOW() - INTERVAL '10 minutes' THEN
+    RETURN 0;
+  END IF;
+  SELECT * INTO previous FROM search_cache_history
+  WHERE search_key = p_search_key AND created_at < latest.created_at ORDER BY created_at DESC LIMIT 1;
+  IF NOT FOUND OR previous.source <> 'API' THEN
+    RETURN 0;
+  END IF;
+
+  SELECT count(*) INTO new_freqs FROM (
+    SELECT unnest(scan_result_keys(latest.result_data, 'frequency'))
+    EXCEPT SELECT unnest(scan_result_keys(previous.result_data, 'frequency'))) d;
+  SELECT count(*) INTO gone_freqs FROM (
+    SELECT unnest(scan_result_keys(previous.result_data, 'frequency'))
+    EXCEPT SELECT unnest(scan_result_keys(latest.result_data, 'frequency'))) d;
+  SELECT count(*) INTO new_tgs FROM (
+    SELECT unnest(scan_result_keys(latest.result_data, 'talkgroup'))
+    EXCEPT SELECT unnest(scan_result_keys(previous.result_data, 'talkgroup'))) d;
+  SELECT count(*) INTO new_systems FROM (
+    SELECT unnest(scan_result_keys(latest.result_data, 'system'))
+    EXCEPT SELECT unnest(scan_result_keys(previous.result_data, 'system'))) d;
+
+  IF new_freqs > 0 THEN parts := parts || (new_freqs || CASE WHEN new_freqs = 1 THEN ' new frequency' ELSE ' new frequencies' END); END IF;
+  IF gone_freqs > 0 THEN parts := parts || (gone_freqs || CASE WHEN gone_freqs = 1 THEN ' removed frequency' ELSE ' removed frequencies' END); END IF;
+  IF new_tgs > 0 THEN parts := parts || (new_tgs || CASE WHEN new_tgs = 1 THEN ' new talkgroup' ELSE ' new talkgroups' END); END IF;
+  IF new_systems > 0 THEN parts := parts || (new_systems || CASE WHEN new_systems = 1 THEN ' new trunked system' ELSE ' new trunked systems' END); END IF;
+  IF cardinality(parts) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Snapshots can be appended by anyone, so the place name is reduced to plain words (no URLs)
+  place := NULLIF(trim(left(regexp_replace(COALESCE(latest.result_data->>'locationName', ''), '[^a-zA-Z0-9 ,.''-]', '', 'g'), 80)), '');
+
+  INSERT INTO public.notifications (user_id, title, body, link)
+  SELECT DISTINCT ON (f.user_id)
+    f.user_id,
+    'Changes in ' || COALESCE(place, 'a saved location'),
+    array_to_string(parts, ', ') || '.',
+    -- Each subscriber's link opens their own saved query
+    '/?q=' || replace(replace(replace(replace(trim(f.location_query), '%', '%25'), '&', '%26'), '#', '%23'), '+', '%2B')
+  FROM public.favorites f
+  WHERE f.alerts_enabled
+    AND lower(trim(f.location_query)) = ANY (SELECT lower(trim(q)) FROM unnest(p_queries) AS q)
+    AND f.user_id IS DISTINCT FROM auth.uid();
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  INSERT INTO location_alert_log (search_key, requested_by) VALUES (p_search_key, auth.uid());
+  RETURN inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_favorite_subscribers(
+  p_queries TEXT[],
+  p_title   TEXT,
+  p_body    TEXT,
+  p_link    TEXT
+)
+RETURNS INTEGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  -- Only in-app deep links (/?q=...) are accepted so the bell cannot be used to phish.
+  IF p_link IS NOT NULL AND p_link NOT LIKE '/?q=%' THEN
+    RAISE EXCEPTION 'notify_favorite_subscribers: link must be an in-app /?q= path';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, body, link)
+  SELECT DISTINCT f.user_id, left(p_title, 120), left(p_body, 500), p_link
+  FROM public.favorites f
+  WHERE f.alerts_enabled
+    AND lower(trim(f.location_query)) = ANY (SELECT lower(trim(q)) FROM unnest(p_queries) AS q)
+    -- At most one alert per location and subscriber every 6 hours
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = f.user_id
+        AND n.link IS NOT DISTINCT FROM p_link
+        AND n.created_at > NOW() - INTERVAL '6 hours'
+    );
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+-- CREATE OR REPLACE keeps existing grants, so take back what earlier versions handed out.
+REVOKE ALL ON FUNCTION public.notify_favorite_subscribers(TEXT[], TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_favorite_subscribers(TEXT[], TEXT, TEXT, TEXT) TO service_role;
+
+REVOKE ALL ON FUNCTION public.notify_location_refresh(TEXT, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.notify_location_refresh(TEXT, TEXT[]) TO authenticated;
@@ -0,0 +1,50 @@
+-- =============================================================================
+-- Boy & A Scanner — search_cache history schema
+-- Optional additive migration. Run in the Supabase SQL Editor.
+-- Safe to run multiple times (CREATE IF NOT EXISTS + DROP POLICY IF EXISTS).
+--
+-- Every write-through to search_cache also appends an immutable snapshot
+-- here under the canonical v7_loc_* key, so an RR refresh or AI rerun that
+-- drops data can be inspected and rolled back. Only the `pinned` flag can
+-- change after insert; a pinned snapshot stops new runs from replacing the
+-- live search_cache row for that key. Because a pin freezes that row for
+-- every user, only cache admins may pin or unpin: accounts whose
+-- app_metadata.role is 'admin' (set with the service role or the dashboard;
+-- users cannot edit app_metadata themselves).
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.search_cache_history (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  search_key       TEXT NOT NULL,
+  result_data      JSONB NOT NULL,
+  grounding_chunks JSONB,
+  source           TEXT NOT NULL CHECK (source IN ('API','AI','Cache','Restore')),
+  ai_provider      TEXT,
+  ai_model         TEXT,
+  pinned           BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cache_history_key_created ON public.search_cache_history (search_key, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cache_history_one_pin ON public.search_cache_history (search_key) WHERE pinned;
+
+ALTER TABLE public.search_cache_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cache history is viewable by everyone" ON public.search_cache_history;
+CREATE POLICY "Cache history is viewable by everyone"
+  ON public.search_cache_history FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Anyone can append cache history" ON public.search_cache_history;
+CREATE POLICY "Anyone can append cache history"
+  ON public.search_cache_history FOR INSERT WITH CHECK (pinned = FALSE);
+
+DROP POLICY IF EXISTS "Signed-in users can pin cache history" ON public.search_cache_history;
+DROP POLICY IF EXISTS "Cache admins can pin cache history" ON public.search_cache_history;
+CREATE POLICY "Cache admins can pin cache history"
+  ON public.search_cache_history FOR UPDATE
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+-- Snapshots are immutable: the pin flag is the only column clients may update.
+REVOKE UPDATE ON public.search_cache_history FROM anon, authenticated;
+GRANT UPDATE (pinned) ON public.search_cache_history TO authenticated;
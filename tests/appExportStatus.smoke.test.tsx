@@ -19,7 +19,7 @@ const searchResult: ScanResult = {
   trunkedSystems: [],
 };
 
-async function renderAppForExportTest(options?: { csvFailureMessage?: string; clipboardReject?: boolean }) {
+async function renderAppForExportTest(options?: { downloadFails?: boolean; clipboardReject?: boolean }) {
   vi.doMock('../services/supabaseClient', () => ({
     supabase: {
       auth: {
@@ -84,11 +84,10 @@ async function renderAppForExportTest(options?: { csvFailureMessage?: string; cl
     Auth: () => <div>auth screen</div>,
   }));
 
-  if (options?.csvFailureMessage) {
-    vi.doMock('../utils/csvGenerator', () => ({
-      generateCSV: vi.fn().mockReturnValue({ ok: false, message: options.csvFailureMessage }),
-      generateSmartCSV: vi.fn(),
-    }));
+  if (options?.downloadFails) {
+    vi.spyOn(URL, 'createObjectURL').mockImplementation(() => {
+      throw new Error('download failed');
+    });
   }
 
   Object.assign(navigator, {
@@ -111,6 +110,7 @@ async function renderAppForExportTest(options?: { csvFailureMessage?: string; cl
 describe('app export status notices', () => {
   beforeEach(() => {
     vi.resetModules();
+    vi.restoreAllMocks();
     vi.unstubAllGlobals();
     vi.spyOn(console, 'error').mockImplementation(() => undefined);
     sessionStorage.clear();
@@ -128,7 +128,7 @@ describe('app export status notices', () => {
   });
 
   it('shows an error notice when CSV download creation fails', async () => {
-    await renderAppForExportTest({ csvFailureMessage: 'Failed to start the CSV download. Please try again.' });
+    await renderAppForExportTest({ downloadFails: true });
 
     fireEvent.click(screen.getByText('CSV'));
 
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult } from '../types';
+import { bandFor, expectedModeFor, fillMissingModes, implausibleReason } from '../utils/bandPlan';
+
+describe('US band plan', () => {
+  it.each([
+    ['27.185', 'CB', 'AM'],
+    ['46.1000', 'VHF Low', 'FM'],
+    ['121.5', 'Aircraft', 'AM'],
+    ['146.520', '2m Ham', 'FM'],
+    ['151.820', 'MURS', 'NFM'],
+    ['156.800', 'Marine VHF', 'FM'],
+    ['162.550', 'NOAA Weather', 'FM'],
+    ['155.550', 'VHF High', 'NFM'],
+    ['225.300', 'Military Aircraft', 'AM'],
+    ['462.5625', 'GMRS/FRS', 'FM'],
+    ['453.250', 'UHF', 'NFM'],
+    ['483.3125', 'UHF T-Band', 'NFM'],
+    ['770.50625', '700 MHz', 'NFM'],
+    ['851.0125', '800 MHz', 'NFM'],
+    ['935.5125', '900 MHz', 'NFM'],
+  ])('places %s in %s (%s)', (freq, name, mode) => {
+    expect(bandFor(freq)?.name).toBe(name);
+    expect(expectedModeFor(freq)).toBe(mode);
+  });
+
+  it('returns null off the plan', () => {
+    expect(bandFor('600.000')).toBeNull();
+    expect(bandFor('abc')).toBeNull();
+    expect(expectedModeFor('600.000')).toBe('NFM');
+  });
+
+  it('flags modes that cannot be right for the band', () => {
+    expect(implausibleReason({ freq: '121.500', mode: 'FM' })).toBe('FM on the Aircraft band, which is AM only');
+    expect(implausibleReason({ freq: '255.400', mode: 'P25' })).toContain('Military Aircraft');
+    expect(implausibleReason({ freq: '155.550', mode: 'AM' })).toBe('AM on the VHF High band, which is FM');
+    expect(implausibleReason({ freq: '600.000', mode: 'FM' })).toContain('outside the US band plan');
+    expect(implausibleReason({ freq: '121.500', mode: 'AM' })).toBeNull();
+    expect(implausibleReason({ freq: '29.000', mode: 'AM' })).toBeNull();
+    expect(implausibleReason({ freq: '851.0125', mode: 'P25' })).toBeNull();
+  });
+
+  it('fills in missing modes only', () => {
+    const result: ScanResult = {
+      source: 'AI',
+      locationName: 'Test',
+      summary: '',
+      agencies: [{
+        name: 'Airport',
+        category: 'Aviation',
+        frequencies: [
+          { freq: '118.300', description: 'Tower', mode: '', tag: 'Aircraft' },
+          { freq: '460.100', description: 'Ops', mode: 'DMR', tag: 'Business' },
+          { freq: '600.000', description: 'Bogus', mode: '', tag: 'Other' },
+        ],
+      }],
+      trunkedSystems: [],
+    };
+
+    expect(fillMissingModes(result)).toBe(1);
+    expect(result.agencies[0].frequencies.map((f) => f.mode)).toEqual(['AM', 'DMR', '']);
+  });
+});
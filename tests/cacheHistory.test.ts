@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const row = {
+  id: 'snap-1',
+  search_key: 'v7_loc_zip_90210',
+  result_data: { source: 'API', locationName: 'Beverly Hills, CA', summary: '', crossRef: '', agencies: [], trunkedSystems: [] },
+  grounding_chunks: null,
+  source: 'API',
+  ai_provider: null,
+  ai_model: null,
+  pinned: false,
+  created_at: '2026-10-01T12:00:00Z',
+};
+
+describe('cache history service', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    sessionStorage.clear();
+  });
+
+  it('lists snapshots newest first and maps rows', async () => {
+    const order = vi.fn(() => ({ limit: async () => ({ data: [row], error: null }) }));
+    const eq = vi.fn(() => ({ order }));
+    const from = vi.fn(() => ({ select: vi.fn(() => ({ eq })) }));
+    vi.doMock('../services/supabaseClient', () => ({ supabase: { from } }));
+
+    const { listCacheSnapshots } = await import('../services/cacheHistoryService');
+    const snapshots = await listCacheSnapshots('v7_loc_zip_90210');
+
+    expect(from).toHaveBeenCalledWith('search_cache_history');
+    expect(eq).toHaveBeenCalledWith('search_key', 'v7_loc_zip_90210');
+    expect(order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(snapshots).toEqual([expect.objectContaining({
+      id: 'snap-1',
+      searchKey: 'v7_loc_zip_90210',
+      source: 'API',
+      pinned: false,
+      createdAt: '2026-10-01T12:00:00Z',
+    })]);
+  });
+
+  it('clears the existing pin for the key before pinning another snapshot', async () => {
+    const updates: Array<{ values: any; filters: Array<[string, unknown]> }> = [];
+    const from = vi.fn(() => ({
+      update: vi.fn((values: any) => {
+        const entry = { values, filters: [] as Array<[string, unknown]> };
+        updates.push(entry);
+        const chain: any = {
+          eq: (column: string, value: unknown) => {
+            entry.filters.push([column, value]);
+            return chain;
+          },
+          then: (resolve: (v: { error: null }) => void) => resolve({ error: null }),
+        };
+        return chain;
+      }),
+    }));
+    vi.doMock('../services/supabaseClient', () => ({ supabase: { from } }));
+
+    const { setSnapshotPinned } = await import('../services/cacheHistoryService');
+    await expect(setSnapshotPinned({ id: 'snap-1', searchKey: 'v7_loc_zip_90210' }, true)).resolves.toBe(true);
+
+    expect(updates).toEqual([
+      { values: { pinned: false }, filters: [['search_key', 'v7_loc_zip_90210'], ['pinned', true]] },
+      { values: { pinned: true }, filters: [['id', 'snap-1']] },
+    ]);
+  });
+
+  it('only treats app_metadata admins as able to pin', async () => {
+    vi.doMock('../services/supabaseClient', () => ({ supabase: null }));
+    const { isCacheAdmin } = await import('../services/cacheHistoryService');
+
+    expect(isCacheAdmin({ app_metadata: { role: 'admin' } })).toBe(true);
+    expect(isCacheAdmin({ app_metadata: {} })).toBe(false);
+    expect(isCacheAdmin(null)).toBe(false);
+  });
+
+  it('stops querying once the history table is reported missing', async () => {
+    const missing = { status: 404, code: 'PGRST205', message: 'Could not find the table public.search_cache_history in the schema cache' };
+    const from = vi.fn(() => ({
+      insert: vi.fn(async () => ({ error: missing })),
+      select: vi.fn(),
+    }));
+    vi.doMock('../services/supabaseClient', () => ({ supabase: { from } }));
+
+    const { getPinnedSnapshot, listCacheSnapshots, recordCacheSnapshot } = await import('../services/cacheHistoryService');
+    await recordCacheSnapshot('v7_loc_zip_90210', row.result_data as any, null);
+
+    await expect(listCacheSnapshots('v7_loc_zip_90210')).resolves.toEqual([]);
+    await expect(getPinnedSnapshot('v7_loc_zip_90210')).resolves.toBeNull();
+    expect(from).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { ServiceType } from '../types';
+import {
+  ALL_SERVICE_TYPES,
+  RR_TAGS,
+  SERVICE_CATEGORIES,
+  UNIDEN_SERVICE_TYPES,
+  chirpTagFor,
+  classifyRRCategory,
+  classifyService,
+  matchesService,
+  rrTagIdsForService,
+  rrTagName,
+  unidenServiceLabelFor,
+  unidenServiceTypeFor,
+} from '../utils/categoryTaxonomy';
+import { getModelProfile } from '../utils/sds100';
+
+// [ServiceType, Uniden service type, CHIRP tag, RR tag ids]
+const MATRIX: Array<[ServiceType, number, string, number[]]> = [
+  ['Police', 2, 'LAW', [1, 2, 3]],
+  ['Fire', 3, 'FIRE', [4, 5, 6]],
+  ['EMS', 4, 'EMS', [7, 8, 9]],
+  ['Federal', 16, 'FED', [16]],
+  ['Public Works', 14, 'PW', [12]],
+  ['Ham Radio', 13, 'HAM', [11]],
+  ['Railroad', 20, 'RAIL', [25]],
+  ['Air', 15, 'AIR', [23]],
+  ['Marine', 21, 'MAR', [26]],
+  ['Utilities', 34, 'UTIL', [22]],
+  ['Military', 30, 'MIL', [15]],
+  ['Transportation', 26, 'TRANS', [14]],
+  ['Business', 17, 'BUS', [29]],
+  ['Hospitals', 12, 'HOSP', [10]],
+  ['Schools', 32, 'SCHL', [20]],
+  ['Corrections', 37, 'CORR', [18]],
+  ['Security', 33, 'SEC', [21]],
+  ['Multi-Dispatch', 1, 'MULTI', [30]],
+];
+
+describe('category taxonomy', () => {
+  it('covers all 18 service types', () => {
+    expect(MATRIX.map(([service]) => service).sort()).toEqual([...ALL_SERVICE_TYPES].sort());
+  });
+
+  it.each(MATRIX)('maps %s to Uniden %i, CHIRP [%s] and RR tags %j', (service, uniden, chirp, rrTags) => {
+    expect(classifyService(service)).toBe(service);
+    expect(unidenServiceTypeFor(service)).toBe(uniden);
+    expect(chirpTagFor(service)).toBe(chirp);
+    expect(rrTagIdsForService(service)).toEqual(rrTags);
+    expect(rrTagIdsForService(service.toLowerCase())).toEqual(rrTags);
+    expect(matchesService(service, service)).toBe(true);
+    expect(getModelProfile('BCD436HP').serviceTypes[uniden]).toBe(UNIDEN_SERVICE_TYPES[uniden]);
+    expect(SERVICE_CATEGORIES[service].service).toBe(service);
+  });
+
+  it('maps every RR tag name back to the service that requests it', () => {
+    Object.entries(RR_TAGS).forEach(([id, name]) => {
+      const service = classifyService(name);
+      expect(service, name).not.toBeNull();
+      expect(rrTagIdsForService(service!)).toContain(Number(id));
+      expect(rrTagName(id)).toBe(name);
+    });
+    expect(rrTagName(999)).toBe('Other');
+    expect(rrTagIdsForService('Hospital')).toEqual([10]);
+  });
+
+  it.each([
+    ['Law Enforcement', 'Sheriff', 'Police'],
+    ['Fire/EMS', 'Volunteer Fire Department', 'Fire'],
+    ['Emergency Medical', 'County EMS', 'EMS'],
+    ['Aviation', 'Airport Tower', 'Air'],
+    ['Amateur Radio', 'Repeaters', 'Ham Radio'],
+    ['Railroads', 'Norfolk Southern', 'Railroad'],
+    ['Prisons', 'State Correctional Facility', 'Corrections'],
+    ['Power Utilities', 'Electric Co-op', 'Utilities'],
+    ['Multi-Agency', 'Countywide 911', 'Multi-Dispatch'],
+  ])('classifies RR category "%s" / "%s" as %s', (cat, subcat, expected) => {
+    expect(classifyService(cat, subcat)).toBe(expected);
+  });
+
+  // Buckets RR county listings landed in before the shared taxonomy
+  it.each([
+    ['Multi-Agency', 'Sheriff/Police Dispatch', 'Police'],
+    ['Multi-Agency', 'County Fire-EMS', 'Fire'],
+    ['Multi-Dispatch', 'Fire/Rescue Tac', 'Fire'],
+    ['Hospitals', 'EMS Dispatch', 'EMS'],
+    ['Schools', 'Campus Police', 'Police'],
+    ['Countywide', 'Paramedics', 'EMS'],
+    ['Airports', 'Airport Police', 'Police'],
+    ['Utilities', 'Water Department', 'Utilities'],
+    ['Multi-Agency', 'Countywide 911', 'Multi-Dispatch'],
+  ])('keeps RR listing "%s" / "%s" in %s', (cat, subcat, expected) => {
+    expect(classifyRRCategory(cat, subcat)).toBe(expected);
+  });
+
+  it('does not classify on word fragments', () => {
+    expect(classifyService('Trunked Systems')).toBeNull();
+    expect(classifyService('Repair Shop')).toBeNull();
+  });
+
+  it('prefers the agency category over a channel tag', () => {
+    expect(classifyService('Fire', 'Law Talk')).toBe('Fire');
+    expect(classifyService(undefined, 'Law Talk')).toBe('Police');
+    expect(classifyService('County Agencies', 'EMS Dispatch')).toBe('EMS');
+  });
+
+  it.each([
+    [undefined, 'Law Tac', 7],
+    [undefined, 'Law Talk', 23],
+    [undefined, 'Fire-Tac', 8],
+    [undefined, 'Fire-Talk', 24],
+    [undefined, 'EMS Tactical', 9],
+    [undefined, 'EMS-Talk', 25],
+    [undefined, 'Multi-Tac', 6],
+    [undefined, 'Multi-Talk', 22],
+    ['Police', 'Interop', 11],
+    ['Fire', 'Emergency Ops', 29],
+    [undefined, 'Media', 31],
+    ['Marine', 'Tac', 21],
+    [undefined, 'Something Else', 21],
+    [undefined, undefined, 21],
+  ])('maps category %s with tag "%s" to Uniden %i', (category, tag, expected) => {
+    expect(unidenServiceTypeFor(category, tag)).toBe(expected);
+  });
+
+  it('labels Uniden types with the names Sentinel shows', () => {
+    expect(unidenServiceLabelFor('Air')).toBe('Aircraft');
+    expect(unidenServiceLabelFor('Ham Radio')).toBe('Ham');
+    expect(unidenServiceLabelFor('Unknown')).toBe('Other');
+    expect(chirpTagFor('Unknown')).toBe('OTH');
+  });
+
+  it('filters AI category strings with the broad service keywords', () => {
+    expect(matchesService('Highway Patrol', 'police')).toBe(true);
+    expect(matchesService('Volunteer Rescue Squad', 'fire')).toBe(true);
+    expect(matchesService('Volunteer Rescue Squad', 'ems')).toBe(true);
+    expect(matchesService('Regional Medical Center', 'hospitals')).toBe(true);
+    expect(matchesService('Union Pacific Yard', 'railroad')).toBe(true);
+    expect(matchesService('County 911 Communications', 'multi-dispatch')).toBe(true);
+    expect(matchesService('County Sheriff', 'fire')).toBe(false);
+    expect(matchesService('Custom Stuff', 'custom')).toBe(true);
+  });
+});
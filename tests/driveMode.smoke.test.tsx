@@ -0,0 +1,140 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ScanResult, TripResult } from '../types';
+
+const searchFrequencies = vi.fn();
+const resolveCountyAtPoint = vi.fn();
+
+vi.mock('../services/geminiService', () => ({ searchFrequencies: (...args: unknown[]) => searchFrequencies(...args) }));
+vi.mock('../services/locationService', () => ({ resolveCountyAtPoint: (...args: unknown[]) => resolveCountyAtPoint(...args) }));
+vi.mock('../components/FrequencyDisplay', () => ({
+  FrequencyDisplay: ({ data, layout }: { data: ScanResult; layout?: string }) => (
+    <div data-testid="frequency-display" data-layout={layout}>{data.summary}</div>
+  ),
+}));
+
+function zoneData(summary: string): ScanResult {
+  return { source: 'Cache', locationName: summary, summary, agencies: [], trunkedSystems: [] };
+}
+
+const trip: TripResult = {
+  startLocation: 'Start',
+  endLocation: 'End',
+  locations: [
+    { locationName: 'West County, CO', entryMile: 0, exitMile: 53, data: zoneData('west data') },
+    { locationName: 'East County, CO', entryMile: 53, exitMile: 106, data: zoneData('east data') },
+  ],
+  route: { provider: 'mock', distanceMiles: 106, durationMinutes: 116, path: [{ lat: 40, lng: -105 }, { lat: 40, lng: -103 }] },
+};
+
+describe('drive mode smoke', () => {
+  let emit: (lat: number, lng: number) => void;
+
+  beforeEach(() => {
+    searchFrequencies.mockReset().mockResolvedValue({ data: zoneData('fresh data'), groundingChunks: [] });
+    resolveCountyAtPoint.mockReset();
+    localStorage.setItem('drive_mode_voice', 'off');
+    const watchPosition = vi.fn((onFix: PositionCallback) => {
+      emit = (lat, lng) => onFix({ coords: { latitude: lat, longitude: lng, accuracy: 8, speed: 26.8 } } as GeolocationPosition);
+      return 7;
+    });
+    Object.defineProperty(window.navigator, 'geolocation', {
+      configurable: true,
+      value: { watchPosition, clearWatch: vi.fn(), getCurrentPosition: vi.fn() },
+    });
+  });
+
+  it('follows the zone under the GPS fix, announces changes and prefetches the next zone', async () => {
+    const { DriveMode } = await import('../components/DriveMode');
+    render(<DriveMode trip={trip} serviceTypes={['Police']} onClose={() => {}} />);
+
+    expect(screen.getByText(/waiting for gps fix/i)).toBeInTheDocument();
+
+    // ~10 miles in: West zone, East is 43 miles out — no prefetch yet.
+    act(() => emit(40, -104.81));
+    expect(screen.getByRole('heading')).toHaveTextContent('West County, CO');
+    expect(screen.getByTestId('frequency-display')).toHaveAttribute('data-layout', 'drive');
+    expect(screen.getByTestId('frequency-display')).toHaveTextContent('west data');
+    expect(screen.getByText('60 mph')).toBeInTheDocument();
+    expect(searchFrequencies).not.toHaveBeenCalled();
+
+    // ~5 miles before the boundary: East is warmed through the normal search.
+    act(() => emit(40, -104.1));
+    await waitFor(() => expect(searchFrequencies).toHaveBeenCalledWith('East County, CO', ['Police'], undefined));
+
+    act(() => emit(40, -103.9));
+    expect(screen.getByRole('heading')).toHaveTextContent('East County, CO');
+    expect(screen.getByRole('status')).toHaveTextContent('Entering East County, CO');
+    await waitFor(() => expect(screen.getByTestId('frequency-display')).toHaveTextContent('fresh data'));
+  });
+
+  it('hides the zone banner even when more fixes arrive inside the new zone', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const { DriveMode } = await import('../components/DriveMode');
+      render(<DriveMode trip={trip} serviceTypes={['Police']} onClose={() => {}} />);
+
+      act(() => emit(40, -104.81));
+      act(() => emit(40, -103.9));
+      expect(screen.getByRole('status')).toHaveTextContent('Entering East County, CO');
+
+      // A second fix in the same zone must not cancel the hide timer.
+      act(() => emit(40, -103.8));
+      act(() => { vi.advanceTimersByTime(6000); });
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('falls back to the cached county when the vehicle leaves the route', async () => {
+    resolveCountyAtPoint.mockResolvedValue({ canonicalName: 'Weld County, CO', canonicalKey: 'v7_loc_county_weld_co' });
+    searchFrequencies.mockResolvedValue({ data: zoneData('weld data'), groundingChunks: [] });
+    const { DriveMode } = await import('../components/DriveMode');
+    render(<DriveMode trip={trip} serviceTypes={['Fire']} onClose={() => {}} />);
+
+    act(() => emit(40.5, -104.5));
+
+    await waitFor(() => expect(screen.getByRole('heading')).toHaveTextContent('Weld County, CO'));
+    expect(resolveCountyAtPoint).toHaveBeenCalledWith(40.5, -104.5);
+    expect(searchFrequencies).toHaveBeenCalledWith('Weld County, CO', ['Fire'], undefined);
+    expect(screen.getByText(/off route/i)).toBeInTheDocument();
+  });
+
+  it('retries a failed county lookup on the next fix without waiting for the car to move', async () => {
+    resolveCountyAtPoint
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue({ canonicalName: 'Weld County, CO', canonicalKey: 'v7_loc_county_weld_co' });
+    searchFrequencies.mockResolvedValue({ data: zoneData('weld data'), groundingChunks: [] });
+    const { DriveMode } = await import('../components/DriveMode');
+    render(<DriveMode trip={trip} serviceTypes={['Fire']} onClose={() => {}} />);
+
+    act(() => emit(40.5, -104.5));
+    await waitFor(() => expect(resolveCountyAtPoint).toHaveBeenCalledTimes(1));
+    await waitFor(() => expect(screen.queryByText(/locating county/i)).not.toBeInTheDocument());
+
+    act(() => emit(40.5001, -104.5));
+    await waitFor(() => expect(screen.getByRole('heading')).toHaveTextContent('Weld County, CO'));
+    expect(resolveCountyAtPoint).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases a wake lock that is granted after Drive Mode closes', async () => {
+    let grant: (sentinel: { release: () => Promise<void> }) => void = () => {};
+    const release = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(window.navigator, 'wakeLock', {
+      configurable: true,
+      value: { request: vi.fn(() => new Promise((resolve) => { grant = resolve; })) },
+    });
+    try {
+      const { DriveMode } = await import('../components/DriveMode');
+      const { unmount } = render(<DriveMode trip={trip} serviceTypes={['Fire']} onClose={() => {}} />);
+      unmount();
+
+      await act(async () => grant({ release }));
+      expect(release).toHaveBeenCalledTimes(1);
+    } finally {
+      delete (window.navigator as Navigator & { wakeLock?: unknown }).wakeLock;
+    }
+  });
+});
@@ -122,9 +122,10 @@ describe('geminiService hybrid flows', () => {
     expect(metroDmr?.talkgroups).toHaveLength(1);
     expect(metroDmr?.talkgroups[0].alphaTag).toBe('Police Tac');
     expect(metroDmr?.talkgroups[0].tagType).toBe('tactical');
+    expect(response.data?.agencies[0].frequencies[0].toneInfo).toEqual({ kind: 'none' });
 
     const fetchFromRadioReference = (await import('../services/rrApi')).fetchFromRadioReference as unknown as ReturnType<typeof vi.fn>;
-    expect(fetchFromRadioReference).toHaveBeenCalledWith('84770', { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
+    expect(fetchFromRadioReference).toHaveBeenCalledWith({ zipcode: '84770' }, { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
     expect(fetchMock).toHaveBeenCalledWith('/api/search', expect.objectContaining({
       method: 'POST',
       body: expect.stringContaining('Washington County, UT'),
@@ -241,7 +242,7 @@ describe('geminiService hybrid flows', () => {
     expect(response.rawText).toBe('Merged Hybrid Results (RR + cached AI)');
 
     const fetchFromRadioReference = (await import('../services/rrApi')).fetchFromRadioReference as unknown as ReturnType<typeof vi.fn>;
-    expect(fetchFromRadioReference).toHaveBeenCalledWith('84770', { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
+    expect(fetchFromRadioReference).toHaveBeenCalledWith({ zipcode: '84770' }, { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
   });
 
   it('reuses authoritative RR cache immediately even when RR credentials are present', async () => {
@@ -348,7 +349,7 @@ describe('geminiService hybrid flows', () => {
     expect(response.searchMeta?.bypassedCache).toBe(true);
 
     const fetchFromRadioReference = (await import('../services/rrApi')).fetchFromRadioReference as unknown as ReturnType<typeof vi.fn>;
-    expect(fetchFromRadioReference).toHaveBeenCalledWith('84770', { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
+    expect(fetchFromRadioReference).toHaveBeenCalledWith({ zipcode: '84770' }, { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
   });
 
   it('writes refreshed results through to all equivalent cache keys', async () => {
@@ -459,7 +460,7 @@ describe('geminiService hybrid flows', () => {
     expect(response.searchMeta?.lastAuthoritativeRefreshAt).toBeTruthy();
 
     const fetchFromRadioReference = (await import('../services/rrApi')).fetchFromRadioReference as unknown as ReturnType<typeof vi.fn>;
-    expect(fetchFromRadioReference).toHaveBeenCalledWith('84770', { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
+    expect(fetchFromRadioReference).toHaveBeenCalledWith({ zipcode: '84770' }, { username: 'demo', password: 'secret' }, expect.any(Array), undefined);
   });
 
   it('filters trip results without mutating the original trip payload', async () => {
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+function mockSupabase(session: unknown) {
+  const rpc = vi.fn(async () => ({ data: 2, error: null }));
+  const getSession = vi.fn(async () => ({ data: { session } }));
+  vi.doMock('../services/supabaseClient', () => ({ supabase: { rpc, auth: { getSession } } }));
+  return rpc;
+}
+
+describe('location change alerts', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    sessionStorage.clear();
+  });
+
+  it('asks the server to alert subscribers with the cache key and normalized match queries only', async () => {
+    const rpc = mockSupabase({ user: { id: 'u1' } });
+    const { notifyFavoriteSubscribers } = await import('../services/locationAlertsService');
+
+    const notified = await notifyFavoriteSubscribers('v7_loc_zip_78701', ['78701', 'Austin, TX', null as any, 'austin, tx']);
+
+    expect(notified).toBe(2);
+    // No title, body or link: the database builds the alert from the stored RR snapshots
+    expect(rpc).toHaveBeenCalledWith('notify_location_refresh', {
+      p_search_key: 'v7_loc_zip_78701',
+      p_queries: ['78701', 'austin, tx'],
+    });
+  });
+
+  it('does not call the RPC when nobody is signed in', async () => {
+    const rpc = mockSupabase(null);
+    const { notifyFavoriteSubscribers } = await import('../services/locationAlertsService');
+
+    expect(await notifyFavoriteSubscribers('v7_loc_zip_78701', ['78701'])).toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
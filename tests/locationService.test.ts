@@ -1,6 +1,6 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
-import { createLocationCacheKeys } from '../services/locationService';
+import { createLocationCacheKeys, radioReferenceLookupFor, resolveLocationDetails } from '../services/locationService';
 import type { ResolvedLocation } from '../services/locationService';
 
 describe('locationService cache key convergence', () => {
@@ -30,4 +30,48 @@ describe('locationService cache key convergence', () => {
     expect(keys).toContain('v6_loc_stgeorge,ut');
     expect(keys).toContain('v6_loc_saintgeorge,ut');
   });
-});
\ No newline at end of file
+});
+describe('locationService RadioReference ids', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks counties up by state id and name, cities by ZIP, and states by state id', () => {
+    expect(radioReferenceLookupFor({ type: 'county', primaryZip: '37201', county: 'Davidson', stateCode: 'TN' })).toEqual({ stid: '42', county: 'Davidson' });
+    expect(radioReferenceLookupFor({ type: 'city', primaryZip: '84770', county: 'Washington', stateCode: 'UT' })).toEqual({ zipcode: '84770' });
+    expect(radioReferenceLookupFor({ type: 'city', primaryZip: null, county: 'Washington', stateCode: 'UT' })).toEqual({ stid: '44', county: 'Washington' });
+    expect(radioReferenceLookupFor({ type: 'state', primaryZip: null, county: null, stateCode: 'TN' })).toEqual({ stid: '42' });
+    expect(radioReferenceLookupFor({ type: 'city', primaryZip: null, county: null, stateCode: 'TN' })).toBeNull();
+  });
+
+  it('resolves statewide searches without calling the resolver', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    for (const query of ['statewide TN', 'Tennessee statewide']) {
+      const resolved = await resolveLocationDetails(query);
+      expect(resolved).toMatchObject({ type: 'state', stateCode: 'TN', canonicalKey: 'v7_loc_state_tn', rrLookup: { stid: '42' } });
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('sends bare state names and codes to the resolver as places', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: false });
+    vi.stubGlobal('fetch', fetchMock);
+
+    for (const query of ['Washington', 'Georgia', 'IN', 'OR']) {
+      expect((await resolveLocationDetails(query)).type).not.toBe('state');
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('attaches the lookup to resolver results', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ resolved: { type: 'county', county: 'Davidson County', stateCode: 'TN', primaryZip: '37201' } }),
+    }));
+
+    const resolved = await resolveLocationDetails('Davidson County, TN');
+    expect(resolved.rrLookup).toEqual({ stid: '42', county: 'Davidson' });
+  });
+});
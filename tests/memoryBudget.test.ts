@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Agency, ScanResult, TripResult } from '../types';
+import { confirmationKey, getMemoryBudgetProfile, planMemoryBudget, type MemoryBudgetProfile } from '../utils/memoryBudget';
+
+const agency = (name: string, category: string, freqs: string[], origin: 'RR' | 'AI' = 'RR'): Agency => ({
+  name,
+  category,
+  origin,
+  frequencies: freqs.map((freq) => ({ freq, description: `${name} ${freq}`, mode: 'FM', tag: category })),
+});
+
+function result(locationName: string, agencies: Agency[], talkgroups: string[] = []): ScanResult {
+  return {
+    source: 'API',
+    locationName,
+    summary: '',
+    agencies,
+    trunkedSystems: talkgroups.length === 0 ? [] : [{
+      name: 'County P25',
+      type: 'Project 25 Phase II',
+      location: locationName,
+      frequencies: [{ freq: '851.0125', use: 'Control' }],
+      talkgroups: talkgroups.map((dec) => ({ dec, mode: 'D', alphaTag: `Law ${dec}`, description: '', tag: 'Law Dispatch', tagType: 'dispatch' })),
+      origin: 'RR',
+    }],
+  };
+}
+
+const tiny: MemoryBudgetProfile = { id: 'tiny', label: 'Tiny', channelsPerList: 2, maxLists: 3, totalChannels: 5, talkgroups: true, exporterId: 'csv' };
+
+const county = result('Adams County, CO', [
+  agency('Adams County Public Works', 'Public Works', ['453.1000']),
+  agency('Adams County Sheriff', 'Law Dispatch', ['155.1000', '155.2000']),
+  agency('Adams County Fire', 'Fire Dispatch', ['154.1000'], 'AI'),
+]);
+
+describe('memory budget planner', () => {
+  it('trims each list to its highest-ranked channels and keeps their original order', () => {
+    const plan = planMemoryBudget(county, tiny, { priorities: ['Police', 'Fire'] });
+
+    expect(plan.total).toBe(4);
+    expect(plan.kept).toBe(2);
+    expect(plan.lists).toEqual([{ name: 'Adams County, CO', count: 2 }]);
+    const data = plan.data as ScanResult;
+    expect(data.agencies.map((a) => a.name)).toEqual(['Adams County Sheriff']);
+    // The RR-listed Public Works channel outscores the AI-only Fire channel.
+    expect(plan.dropped.map((d) => [d.value, d.reason])).toEqual([
+      ['453.1000', 'list-full'],
+      ['154.1000', 'list-full'],
+    ]);
+  });
+
+  it('splits an overfull zone into extra lists until the radio runs out', () => {
+    const plan = planMemoryBudget(county, { ...tiny, maxLists: 1, totalChannels: 3 }, { mode: 'split' });
+
+    expect(plan.lists).toEqual([{ name: 'Adams County, CO', count: 2 }]);
+    expect(plan.dropped.map((d) => d.reason).sort()).toEqual(['list-limit', 'radio-full']);
+
+    const roomy = planMemoryBudget(county, tiny, { mode: 'split' });
+    expect(roomy.dropped).toEqual([]);
+    expect(roomy.lists.map((l) => l.name)).toEqual(['Adams County, CO', 'Adams County, CO (2)']);
+    const trip = roomy.data as TripResult;
+    expect(trip.locations.map((l) => l.data.agencies.flatMap((a) => a.frequencies.map((f) => f.freq)))).toEqual([
+      ['155.1000', '155.2000'],
+      ['453.1000', '154.1000'],
+    ]);
+  });
+
+  it('drops talkgroups on conventional-only radios and caps the whole trip', () => {
+    const trip: TripResult = {
+      startLocation: 'Denver',
+      endLocation: 'Greeley',
+      locations: [
+        { locationName: 'Adams County, CO', data: result('Adams County, CO', [agency('Adams County Sheriff', 'Law Dispatch', ['155.1000'])], ['100', '200']) },
+        { locationName: 'Weld County, CO', data: result('Weld County, CO', [agency('Weld County Sheriff', 'Law Dispatch', ['155.3000'])]) },
+      ],
+    };
+    const chirp = getMemoryBudgetProfile('chirp-128')!;
+    const plan = planMemoryBudget(trip, { ...chirp, totalChannels: 1 });
+
+    expect(plan.dropped.filter((d) => d.reason === 'unsupported').map((d) => d.value)).toEqual(['100', '200']);
+    expect(plan.dropped.filter((d) => d.reason === 'radio-full')).toHaveLength(1);
+    expect(plan.kept).toBe(1);
+    expect((plan.data as TripResult).locations).toHaveLength(1);
+  });
+
+  it('ranks community-confirmed channels ahead of unconfirmed ones', () => {
+    const data = result('Adams County, CO', [agency('Adams County Sheriff', 'Law Dispatch', ['155.1000', '155.2000'])]);
+    const single = { ...tiny, channelsPerList: 1 };
+
+    expect((planMemoryBudget(data, single).data as ScanResult).agencies[0].frequencies[0].freq).toBe('155.1000');
+
+    const confirmations = [new Map([[confirmationKey('155.2000', 'Adams County Sheriff'), { count: 4, last_heard: null }]])];
+    const plan = planMemoryBudget(data, single, { confirmations });
+    expect((plan.data as ScanResult).agencies[0].frequencies[0].freq).toBe('155.2000');
+    expect(plan.dropped[0].detail).toContain('0 heard');
+  });
+});
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ScanResult } from '../types';
+
+const storedResult: ScanResult = {
+  source: 'API',
+  locationName: 'Washington County, UT',
+  summary: 'RR data',
+  agencies: [
+    { name: 'County Sheriff', category: 'Police Dispatch', frequencies: [{ freq: '155.5500', description: 'Dispatch', mode: 'FM', tag: 'Dispatch' }] },
+    { name: 'County Fire', category: 'Fire Dispatch', frequencies: [{ freq: '154.4300', description: 'Fire', mode: 'FM', tag: 'Fire' }] },
+  ],
+  trunkedSystems: [],
+} as ScanResult;
+
+function setOnline(online: boolean) {
+  Object.defineProperty(window.navigator, 'onLine', { configurable: true, get: () => online });
+}
+
+function mockOfflineStore(overrides: Record<string, unknown> = {}) {
+  const store = {
+    isOffline: () => navigator.onLine === false,
+    isNetworkError: (e: any) => e instanceof TypeError || /failed to fetch/i.test(String(e?.message ?? '')),
+    getOfflineScan: vi.fn().mockResolvedValue(null),
+    saveOfflineScan: vi.fn().mockResolvedValue(undefined),
+    getOfflineTrip: vi.fn().mockResolvedValue(null),
+    saveOfflineTrip: vi.fn().mockResolvedValue(undefined),
+    queueReport: vi.fn().mockResolvedValue(true),
+    listQueuedReports: vi.fn().mockResolvedValue([]),
+    removeQueuedReport: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+  vi.doMock('../services/offlineStore', () => store);
+  return store;
+}
+
+describe('offline-first flows', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.unstubAllGlobals();
+    setOnline(true);
+  });
+
+  it('serves a saved location from the device when offline, filtered by service', async () => {
+    setOnline(false);
+    const store = mockOfflineStore({
+      getOfflineScan: vi.fn().mockResolvedValue({ key: 'v7_loc_zip_84770', data: storedResult, groundingChunks: null, savedAt: '2026-10-01T12:00:00Z' }),
+    });
+    vi.doMock('../services/supabaseClient', () => ({ supabase: null }));
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const { searchFrequencies } = await import('../services/geminiService');
+    const response = await searchFrequencies('84770', ['Fire']);
+
+    expect(store.getOfflineScan).toHaveBeenCalledWith(expect.arrayContaining(['v7_loc_zip_84770']));
+    expect(response.searchMeta?.servedOffline).toBe(true);
+    expect(response.searchMeta?.offlineSavedAt).toBe('2026-10-01T12:00:00Z');
+    expect(response.data?.agencies.map(a => a.name)).toEqual(['County Fire']);
+  });
+
+  it('explains when an unsaved location is searched offline', async () => {
+    setOnline(false);
+    mockOfflineStore();
+    vi.doMock('../services/supabaseClient', () => ({ supabase: null }));
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const { searchFrequencies } = await import('../services/geminiService');
+    await expect(searchFrequencies('84770', ['Fire'])).rejects.toThrow(/offline/i);
+  });
+
+  it('queues Heard It confirmations while offline for signed-in users', async () => {
+    setOnline(false);
+    const store = mockOfflineStore();
+    const getUser = vi.fn();
+    vi.doMock('../services/supabaseClient', () => ({
+      supabase: { auth: { getSession: vi.fn().mockResolvedValue({ data: { session: { user: { id: 'u1' } } } }), getUser } },
+    }));
+
+    const { logConfirmation } = await import('../services/crowdsourceService');
+    await expect(logConfirmation('155.5500', '84770', 'County Sheriff')).resolves.toBe('queued');
+
+    expect(getUser).not.toHaveBeenCalled();
+    expect(store.queueReport).toHaveBeenCalledWith('u1', {
+      kind: 'confirmation',
+      frequency: '155.5500',
+      locationQuery: '84770',
+      agencyName: 'County Sheriff',
+    });
+  });
+
+  it('replays queued reports and keeps the rest when the connection drops again', async () => {
+    const store = mockOfflineStore({
+      listQueuedReports: vi.fn().mockResolvedValue([
+        { id: 1, userId: 'u1', kind: 'submission', frequency: '460.1250', locationQuery: '84770', agencyName: 'County Fire', description: 'Fireground', mode: 'FM', queuedAt: '' },
+        { id: 2, userId: 'u1', kind: 'submission', frequency: '460.1500', locationQuery: '84770', agencyName: 'County Fire', description: 'Tac 2', mode: 'FM', queuedAt: '' },
+      ]),
+    });
+    const insert = vi.fn()
+      .mockResolvedValueOnce({ error: null })
+      .mockResolvedValueOnce({ error: { message: 'TypeError: Failed to fetch' } });
+    const statsQuery = { select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: null }) }) }), insert: vi.fn().mockResolvedValue({ error: null }) };
+    vi.doMock('../services/supabaseClient', () => ({
+      supabase: {
+        auth: {
+          getSession: vi.fn().mockResolvedValue({ data: { session: { user: { id: 'u1' } } } }),
+          getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'u1', email: 'op@example.com' } }, error: null }),
+        },
+        from: (table: string) => (table === 'frequency_reports' ? { insert } : statsQuery),
+      },
+    }));
+
+    const { syncQueuedReports } = await import('../services/crowdsourceService');
+    await expect(syncQueuedReports('u1')).resolves.toEqual({ synced: 1, dropped: 0, remaining: 1 });
+
+    expect(store.listQueuedReports).toHaveBeenCalledWith('u1');
+    expect(store.removeQueuedReport).toHaveBeenCalledTimes(1);
+    expect(store.removeQueuedReport).toHaveBeenCalledWith(1);
+  });
+
+  it('replays the outbox once when two syncs start together', async () => {
+    const queued = [
+      { id: 1, userId: 'u1', kind: 'submission', frequency: '460.1250', locationQuery: '84770', agencyName: 'County Fire', description: 'Fireground', mode: 'FM', queuedAt: '' },
+    ];
+    const store = mockOfflineStore({
+      listQueuedReports: vi.fn(async () => [...queued]),
+      removeQueuedReport: vi.fn(async (id: number) => { queued.splice(queued.findIndex(e => e.id === id), 1); }),
+    });
+    const insert = vi.fn().mockResolvedValue({ error: null });
+    const statsQuery = { select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: null }) }) }), insert: vi.fn().mockResolvedValue({ error: null }) };
+    vi.doMock('../services/supabaseClient', () => ({
+      supabase: {
+        auth: {
+          getSession: vi.fn().mockResolvedValue({ data: { session: { user: { id: 'u1' } } } }),
+          getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'u1' } }, error: null }),
+        },
+        from: (table: string) => (table === 'frequency_reports' ? { insert } : statsQuery),
+      },
+    }));
+
+    const { syncQueuedReports } = await import('../services/crowdsourceService');
+    const [first, second] = await Promise.all([syncQueuedReports('u1'), syncQueuedReports('u1')]);
+
+    expect(first).toEqual({ synced: 1, dropped: 0, remaining: 0 });
+    expect(second).toBe(first);
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(store.listQueuedReports).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves reports queued by another account untouched', async () => {
+    const store = mockOfflineStore({
+      listQueuedReports: vi.fn().mockResolvedValue([
+        { id: 1, userId: 'u1', kind: 'confirmation', frequency: '155.5500', locationQuery: '84770', queuedAt: '' },
+      ]),
+    });
+    const getUser = vi.fn();
+    vi.doMock('../services/supabaseClient', () => ({
+      supabase: { auth: { getSession: vi.fn().mockResolvedValue({ data: { session: { user: { id: 'u2' } } } }), getUser } },
+    }));
+
+    const { syncQueuedReports } = await import('../services/crowdsourceService');
+    await expect(syncQueuedReports('u1')).resolves.toEqual({ synced: 0, dropped: 0, remaining: 1 });
+
+    expect(getUser).not.toHaveBeenCalled();
+    expect(store.removeQueuedReport).not.toHaveBeenCalled();
+  });
+});
@@ -17,7 +17,7 @@ describe('optional Supabase tables', () => {
   it('stops retrying notification queries after the table is reported missing', async () => {
     const from = vi.fn(() => ({
       select: vi.fn((fields: string) => {
-        if (fields === 'id, title, body, read, created_at') {
+        if (fields === '*') {
           return {
             eq: () => ({
               order: () => ({
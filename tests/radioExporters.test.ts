@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult, TripResult } from '../types';
+import { EXPORTERS, getExporter } from '../utils/exporters';
+
+const scan: ScanResult = {
+  source: 'API',
+  locationName: 'Test County, TS',
+  summary: 'Exporter fixture',
+  agencies: [
+    {
+      name: 'County Sheriff',
+      category: 'Police',
+      frequencies: [
+        { freq: '155.5500', description: 'Dispatch', mode: 'FM', tag: 'Law Dispatch', alphaTag: 'SO Disp', tone: 'PL 100' },
+        { freq: '453.2500', description: 'Tac', mode: 'FMN', tag: 'Law Tac', tone: 'D023N' },
+        { freq: '460.1000', description: 'DMR Ops', mode: 'DMR', tag: 'Law Talk', colorCode: '3' },
+        { freq: '770.5000', description: 'P25 Ops', mode: 'P25', tag: 'Law Talk', nac: '293' },
+      ],
+    },
+  ],
+  trunkedSystems: [
+    {
+      name: 'County P25',
+      type: 'Project 25 Phase II',
+      location: 'Simulcast',
+      frequencies: [{ freq: '851.0125', use: 'Control' }],
+      talkgroups: [{ dec: '1001', mode: 'D', alphaTag: 'SO Main', description: 'Sheriff Dispatch', tag: 'Law Dispatch' }],
+    },
+  ],
+};
+
+const trip: TripResult = {
+  startLocation: 'A',
+  endLocation: 'B',
+  locations: [
+    { locationName: 'Zone One', data: scan },
+    { locationName: 'Zone Two', data: { ...scan, trunkedSystems: [] } },
+  ],
+};
+
+async function run(id: string, data: ScanResult | TripResult = scan) {
+  return getExporter(id)!.export(data);
+}
+
+describe('exporter registry', () => {
+  it('registers each format once with menu metadata', () => {
+    const ids = EXPORTERS.map((e) => e.id);
+    expect(ids).toEqual(['csv', 'chirp', 'whistler', 'anytone-878', 'kenwood-mcp', 'dmr-codeplug']);
+    EXPORTERS.forEach((e) => {
+      expect(e.label).toBeTruthy();
+      expect(e.scannerModels.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('wraps the CSV and CHIRP builders, including trips', async () => {
+    const csv = await run('csv', trip);
+    expect(csv.files[0].content.split('\n')).toHaveLength(1 + 6 + 4);
+
+    const chirp = await run('chirp', trip);
+    expect(chirp.count).toBe(9);
+  });
+
+  it('maps CHIRP tones to TSQL/DTCS/Tone modes with repeater offsets', async () => {
+    const out = await run('chirp', {
+      ...scan,
+      agencies: [
+        ...scan.agencies,
+        {
+          name: 'Ham Club',
+          category: 'Amateur Radio',
+          frequencies: [
+            { freq: '146.9400', description: 'Club repeater', mode: 'FM', tag: 'Ham', tone: '127.3 Hz' },
+            { freq: '146.5200', description: 'Calling', mode: 'FM', tag: 'Ham', tone: 'CSQ' },
+            { freq: '155.7000', description: 'Bad tone', mode: 'FM', tag: 'Ham', tone: '101.0' },
+          ],
+        },
+      ],
+    });
+    const cols = (i: number) => out.files[0].content.split('\n')[i].split(',').slice(3, 10);
+
+    expect(cols(1)).toEqual(['off', '0.000000', 'TSQL', '88.5', '100.0', '023', 'NN']);
+    expect(cols(2)).toEqual(['off', '0.000000', 'DTCS', '88.5', '88.5', '023', 'NN']);
+    expect(cols(3)).toEqual(['off', '0.000000', '', '88.5', '88.5', '023', 'NN']);
+    expect(out.files[0].content.split('\n')[4]).toContain('NAC 293');
+    expect(cols(5)).toEqual(['-', '0.600000', 'Tone', '127.3', '88.5', '023', 'NN']);
+    expect(cols(6)).toEqual(['', '0.000000', '', '88.5', '88.5', '023', 'NN']);
+    expect(cols(7)).toEqual(['off', '0.000000', '', '88.5', '88.5', '023', 'NN']);
+  });
+
+  it('writes Whistler rows for channels, sites and talkgroups', async () => {
+    const out = await run('whistler');
+    const lines = out.files[0].content.split('\r\n');
+
+    expect(out.count).toBe(5);
+    expect(lines[1]).toBe('Conventional,"Test County, TS","Test County, TS",County Sheriff,SO Disp,155.55000,FM,100.0,Police,2,Off,Off');
+    expect(lines).toContain('Conventional,"Test County, TS","Test County, TS",County Sheriff,P25 Ops,770.50000,P25,293,Police,2,Off,Off');
+    expect(lines).toContain('Site,"Test County, TS",County P25,Simulcast,Control,851.01250,P25,,,,Off,Off');
+    expect(lines).toContain('Talkgroup,"Test County, TS",County P25,Law Dispatch,SO Main,1001,P25,,Police,2,Off,Off');
+  });
+
+  it('writes a Whistler site block for every known site', async () => {
+    const out = await run('whistler', {
+      ...scan,
+      agencies: [],
+      trunkedSystems: [{
+        ...scan.trunkedSystems[0],
+        sites: [
+          { siteNumber: '001', name: 'North', nac: '293', channels: [{ freq: '851.0125', use: 'control' }, { freq: '852.5000', use: 'voice' }] },
+          { siteNumber: '002', name: 'South', channels: [{ freq: '853.1125', use: 'alternate' }] },
+          { siteNumber: '003', name: 'Voice Only', channels: [{ freq: '854.0000', use: 'voice' }] },
+        ],
+      }],
+    });
+    const sites = out.files[0].content.split('\r\n').filter((line) => line.startsWith('Site,'));
+
+    expect(sites).toEqual([
+      'Site,"Test County, TS",County P25,North,Control,851.01250,P25,293,,,Off,Off',
+      'Site,"Test County, TS",County P25,North,Voice,852.50000,P25,293,,,Off,Off',
+      'Site,"Test County, TS",County P25,South,Alternate,853.11250,P25,,,,Off,Off',
+    ]);
+    expect(out.warnings).toEqual(['County P25: site "Voice Only" has no control channels.']);
+  });
+
+  it('writes Anytone channels and zones, skipping what the 878 cannot receive', async () => {
+    const out = await run('anytone-878');
+    const [channels, zones] = out.files;
+    const rows = channels.content.split('\r\n');
+
+    expect(out.files.map((f) => f.filename)).toEqual(['Channel.CSV', 'Zone.CSV']);
+    expect(out.archiveName).toBe('Test_County_TS_anytone878.zip');
+    expect(out.count).toBe(3);
+    expect(rows[1].split(',').slice(0, 8)).toEqual(['"1"', '"SO Disp"', '"155.55000"', '"155.55000"', '"A-Analog"', '"Low"', '"25K"', '"100.0"']);
+    expect(rows[2]).toContain('"D023N"');
+    expect(rows[3]).toContain('"D-Digital"');
+    expect(zones.content.split('\r\n')[1]).toContain('"SO Disp|Tac|DMR Ops"');
+    expect(out.warnings).toEqual([
+      'County Sheriff: 770.5000 is outside the 878\'s receive bands.',
+      'County P25: trunked systems cannot be programmed into the 878.',
+    ]);
+  });
+
+  it('writes Kenwood zones with QT/DQT signaling and one zone per trip stop', async () => {
+    const out = await run('kenwood-mcp', trip);
+    const lines = out.files[0].content.split('\r\n');
+
+    expect(out.count).toBe(6);
+    expect(lines[1]).toBe('1,Zone One,1,SO Disp,Analog,155.55000,155.55000,QT,100.0,100.0,,25,Yes,Yes,County Sheriff - Dispatch');
+    expect(lines[2]).toContain(',DQT,D023N,D023N,,12.5,');
+    expect(lines[3]).toContain(',DMR,460.10000,460.10000,None,,,3,12.5,');
+    expect(lines[4].startsWith('2,Zone Two,1,')).toBe(true);
+    expect(out.warnings.some((w) => w.includes('P25'))).toBe(true);
+  });
+
+  it('writes a DMR codeplug with contacts, TG lists and a missing-parameter report', async () => {
+    const dmr: ScanResult = {
+      ...scan,
+      trunkedSystems: [
+        ...scan.trunkedSystems!,
+        {
+          name: 'City Cap Plus',
+          type: 'DMR Capacity Plus',
+          location: 'Site 1',
+          frequencies: [{ freq: '451.1250', use: 'Rest' }],
+          talkgroups: [
+            { dec: '1', mode: 'D', alphaTag: 'Public Works', description: 'Public Works', tag: 'Public Works', colorCode: '5' },
+            { dec: '2', mode: 'D', alphaTag: 'Transit', description: 'Transit Ops', tag: 'Transportation', colorCode: '5' },
+          ],
+        },
+      ],
+    };
+    const out = await run('dmr-codeplug', dmr);
+    const file = (name: string) => out.files.find((f) => f.filename === name)!.content.split('\r\n');
+
+    expect(out.files.map((f) => f.filename)).toEqual([
+      'Channels.csv', 'Contacts.csv', 'TG_Lists.csv', 'Zones.csv', 'P25_NXDN_Channels.csv', 'Export_Report.txt',
+    ]);
+    expect(out.archiveName).toBe('Test_County_TS_digital_codeplug.zip');
+
+    const channels = file('Channels.csv');
+    expect(channels).toHaveLength(1 + 3 + 2);
+    expect(channels[3].split(',').slice(0, 10)).toEqual(['3', 'DMR Ops', 'Digital', '460.10000', '460.10000', '', '3', '1', 'None', 'None']);
+    expect(channels[4].split(',').slice(1, 10)).toEqual(['City Cap Plus T1', 'Digital', '451.12500', '451.12500', '', '5', '1', 'None', 'City Cap Plus']);
+    expect(channels[5]).toContain(',5,2,None,City Cap Plus,');
+    expect(channels[2]).toContain(',D023N,');
+
+    expect(file('Contacts.csv').slice(1)).toEqual(['Public Works,1,Group,Disabled', 'Transit,2,Group,Disabled']);
+    expect(file('TG_Lists.csv')[1].startsWith('City Cap Plus,Public Works,Transit,,')).toBe(true);
+    expect(file('P25_NXDN_Channels.csv')[1]).toBe('P25 Ops,P25,770.50000,293,,County Sheriff,P25 Ops');
+
+    expect(out.warnings).toContain('County Sheriff: DMR channel 460.1000 has no timeslot on record; set to TS1.');
+    expect(out.warnings).toContain('County P25: Project 25 Phase II trunking needs a scanner; use the SDS100 export instead.');
+    expect(file('Export_Report.txt')).toContain('- County Sheriff: DMR channel 460.1000 has no timeslot on record; set to TS1.');
+  });
+});
@@ -0,0 +1,95 @@
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import type { ScanResult } from '../types';
+import { buildExport, type ExportJob } from '../utils/sds100';
+import { UNIDEN_OTHER_SERVICE_TYPE } from '../utils/categoryTaxonomy';
+import { RadioImportView } from '../components/RadioImportView';
+
+const result: ScanResult = {
+  source: 'API',
+  locationName: 'Davidson County, TN',
+  summary: 'Import fixture',
+  agencies: [],
+  trunkedSystems: [
+    {
+      name: 'Metro Nashville P25',
+      type: 'Project 25 Phase II',
+      location: 'Davidson',
+      frequencies: [],
+      sites: [{ siteNumber: '001', name: 'Simulcast', channels: [{ freq: '851.0125', use: 'control' }] }],
+      talkgroups: [{ dec: '1001', mode: 'D', alphaTag: 'MNPD Disp', description: 'Police Dispatch', tag: 'Law Dispatch' }],
+    },
+  ],
+  statewide: {
+    name: 'Tennessee Statewide',
+    agencies: [{ name: 'Tennessee Highway Patrol', category: 'Police', frequencies: [{ freq: '155.4750', description: 'THP Nashville', mode: 'FM', tag: 'Law Dispatch' }] }],
+    trunkedSystems: [
+      {
+        name: 'TACN',
+        type: 'Project 25 Phase II',
+        location: 'Statewide',
+        frequencies: [],
+        sites: [{ siteNumber: '101', name: 'Nashville', channels: [{ freq: '852.2000', use: 'control' }, { freq: '853.3000', use: 'voice' }] }],
+        talkgroups: [{ dec: '2002', mode: 'D', alphaTag: 'THP D3', description: 'THP District 3', tag: 'Law Dispatch' }],
+      },
+    ],
+  },
+};
+
+// The radio carries TACN (found by its voice channel) with both talkgroup ids, but not Metro
+const radio: ExportJob = {
+  scannerModel: 'SDS100',
+  formatVersion: '1.00',
+  favoritesLists: [
+    {
+      listName: 'Middle TN',
+      monitor: true,
+      download: true,
+      systems: [
+        {
+          kind: 'conventional',
+          name: 'State',
+          avoid: false,
+          departments: [{ name: 'THP', avoid: false, channels: [{ name: 'THP Nash', frequencyHz: 155475000, modulation: 'FM', toneMode: 'none', serviceType: 3, avoid: false, priority: false, attenuation: false, recording: false, delaySec: 2 }] }],
+        },
+        {
+          kind: 'trunk',
+          name: 'Tennessee Advanced Comms',
+          avoid: false,
+          trunkType: 'P25Standard',
+          idSearch: false,
+          sites: [{ name: 'Nashville', avoid: false, controlChannelsHz: [852700000], voiceChannelsHz: [853300000] }],
+          groups: [{ name: 'Law', avoid: false, talkgroups: [
+            { name: 'MNPD Disp', tgid: 1001, serviceType: 3, avoid: false, priority: false, alertTone: 'Off' },
+            { name: 'THP D3', tgid: 2002, serviceType: 3, avoid: false, priority: false, alertTone: 'Off' },
+          ] }],
+        },
+      ],
+    },
+  ],
+  options: { includeProfileChanges: false, mergeMode: 'append', defaultServiceType: UNIDEN_OTHER_SERVICE_TYPE },
+};
+
+describe('radio import smoke', () => {
+  it('compares statewide entries and matches talkgroup ids only within the same system', async () => {
+    render(<RadioImportView result={result} onClose={() => undefined} />);
+
+    const files = buildExport(structuredClone(radio)).files
+      .filter((file) => /\.(hpd|cfg)$/.test(file.path))
+      .map((file) => new File([file.content], file.path.split('/').pop()!));
+    fireEvent.change(screen.getByLabelText('Favorites list files'), { target: { files } });
+
+    const thp = await screen.findByText('THP Nashville');
+    expect(within(thp.parentElement!).getByText('On radio')).toBeInTheDocument();
+
+    const rowOf = (text: string) => screen.getAllByText(text).map((el) => el.parentElement!);
+    const [radioMetro, resultMetro] = rowOf('MNPD Disp');
+    expect(within(radioMetro).getByText('Not in results')).toBeInTheDocument();
+    expect(within(resultMetro).getByText('Missing')).toBeInTheDocument();
+
+    const [radioThp, resultThp] = rowOf('THP D3');
+    expect(within(radioThp).getByText('In results')).toBeInTheDocument();
+    expect(within(resultThp).getByText('On radio')).toBeInTheDocument();
+  });
+});
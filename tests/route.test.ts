@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ScanResult, TripResult } from '../types';
+import { createMockRoutingProvider, matchTripZone, parseRouteGeometry, routeZones, type CountyLookup } from '../utils/route';
+
+// Three counties split by meridians along a due-east drive at 40°N.
+const bandedLookup: CountyLookup = async ({ lng }) => {
+  if (lng < -104) return { county: 'West', stateCode: 'CO' };
+  if (lng < -103) return { county: 'Middle', stateCode: 'CO' };
+  return { county: 'East', stateCode: 'KS' };
+};
+
+function zoneResult(locationName: string): ScanResult {
+  return {
+    source: 'AI',
+    locationName,
+    summary: '',
+    agencies: [
+      { name: `${locationName} Sheriff`, category: 'Police Dispatch', frequencies: [{ freq: '155.5500', description: 'Dispatch', mode: 'FM', tag: 'Dispatch' }] },
+      { name: `${locationName} Fire`, category: 'Fire Dispatch', frequencies: [{ freq: '154.4300', description: 'Fire', mode: 'FM', tag: 'Fire' }] },
+    ],
+    trunkedSystems: [],
+  };
+}
+
+describe('route geometry trip planning', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.unstubAllGlobals();
+  });
+
+  it('reads GPX tracks and GeoJSON line strings', () => {
+    const gpx = `<?xml version="1.0"?><gpx><trk><trkseg>
+      <trkpt lon="-105.0" lat="40.0"><ele>1600</ele></trkpt>
+      <trkpt lat='40.1' lon='-104.5'></trkpt>
+    </trkseg></trk></gpx>`;
+    expect(parseRouteGeometry(gpx)).toEqual([{ lat: 40, lng: -105 }, { lat: 40.1, lng: -104.5 }]);
+
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: { type: 'LineString', coordinates: [[-105, 40], [-104, 40], [-103, 40]] } }],
+    });
+    expect(parseRouteGeometry(geojson)).toHaveLength(3);
+    expect(() => parseRouteGeometry('{"type":"Point","coordinates":[-105,40]}')).toThrow(/no usable track/i);
+
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark><LineString>
+      <coordinates>-105.0,40.0,0 -104.5,40.1,0
+        -104.0,40.2,0</coordinates>
+    </LineString></Placemark></Document></kml>`;
+    expect(parseRouteGeometry(kml)).toEqual([{ lat: 40, lng: -105 }, { lat: 40.1, lng: -104.5 }, { lat: 40.2, lng: -104 }]);
+  });
+
+  it('returns every county crossed in driving order with entry mile and ETA', async () => {
+    const route = await createMockRoutingProvider(60).route([{ lat: 40, lng: -104.6 }, { lat: 40, lng: -102.6 }]);
+    const zones = await routeZones(route, bandedLookup, { sampleMiles: 10, resolutionMiles: 0.25 });
+
+    expect(zones.map((zone) => zone.name)).toEqual(['West County, CO', 'Middle County, CO', 'East County, KS']);
+    expect(zones[0].entryMile).toBe(0);
+    // One degree of longitude at 40°N is ~53 miles.
+    expect(zones[1].entryMile).toBeGreaterThan(31);
+    expect(zones[1].entryMile).toBeLessThan(32.5);
+    expect(zones[2].entryMile).toBeGreaterThan(84.5);
+    expect(zones[2].entryMile).toBeLessThan(86);
+    expect(zones[1].etaMinutes).toBe(Math.round(zones[1].entryMile));
+    const covered = zones.reduce((sum, zone) => sum + zone.distanceMiles, 0);
+    expect(covered).toBeCloseTo(route.distanceMiles, 0);
+  });
+
+  it('keeps a re-entered county in its first slot and lists ZIPs in driving order', async () => {
+    // Out and back: West → Middle → West again.
+    const route = await createMockRoutingProvider().route([{ lat: 40, lng: -104.5 }, { lat: 40, lng: -103.5 }, { lat: 40, lng: -104.5 }]);
+    const zipped: CountyLookup = async (point) => {
+      const hit = await bandedLookup(point);
+      return hit && { ...hit, zip: point.lng < -104.25 ? '80001' : point.lng < -104 ? '80002' : '80003' };
+    };
+    const zones = await routeZones(route, zipped, { sampleMiles: 5 });
+
+    expect(zones.map((zone) => zone.name)).toEqual(['West County, CO', 'Middle County, CO']);
+    expect(zones[0].zips).toEqual(['80001', '80002']);
+    expect(zones[1].zips).toEqual(['80003']);
+    expect(zones[0].exitMile).toBeCloseTo(route.distanceMiles, 0);
+  });
+
+  it('matches a GPS position to the zone it is in and the zone ahead', () => {
+    const path = [{ lat: 40, lng: -105 }, { lat: 40, lng: -103 }];
+    const zone = (name: string, entryMile: number, exitMile: number) => ({
+      locationName: name, entryMile, exitMile, data: zoneResult(name),
+    });
+    // Middle is a short pass through a county that West surrounds on both sides.
+    const trip: TripResult = {
+      startLocation: 'A',
+      endLocation: 'B',
+      locations: [zone('West County, CO', 0, 60), zone('Middle County, CO', 20, 40), zone('East County, KS', 60, 106)],
+      route: { provider: 'mock', distanceMiles: 106, durationMinutes: 116, path },
+    };
+
+    const inMiddle = matchTripZone(trip, { lat: 40.01, lng: -104.45 });
+    expect(inMiddle.index).toBe(1);
+    expect(inMiddle.nextIndex).toBe(2);
+    expect(inMiddle.milesToNext).toBeGreaterThan(30);
+
+    expect(matchTripZone(trip, { lat: 40, lng: -104.1 }).index).toBe(0);
+    expect(matchTripZone(trip, { lat: 40, lng: -103.5 }).index).toBe(2);
+    expect(matchTripZone(trip, { lat: 41, lng: -104 }).index).toBe(-1);
+    expect(matchTripZone({ ...trip, route: undefined }, { lat: 40, lng: -104 }).index).toBe(-1);
+  });
+
+  it('searches each county through the location pipeline and keeps route order', async () => {
+    vi.doMock('../services/supabaseClient', () => ({ supabase: null }));
+    vi.doMock('../services/locationService', () => ({
+      resolveLocationDetails: vi.fn(async (query: string) => ({
+        type: 'county',
+        standardizedName: query,
+        canonicalName: query,
+        canonicalKey: `v7_loc_query_${query}`,
+        searchLabel: query,
+        isZip: false,
+        primaryZip: null,
+        city: null,
+        county: query.split(' County')[0],
+        stateCode: query.slice(-2),
+        zips: [],
+        aliases: [query],
+      })),
+      createLocationCacheKeys: vi.fn((resolved: { canonicalKey: string }) => [resolved.canonicalKey]),
+    }));
+
+    const zones = [
+      { name: 'Ada County, ID', county: 'Ada', stateCode: 'ID', entryMile: 0, exitMile: 20.4, distanceMiles: 20.4, etaMinutes: 0, coords: { lat: 43.6, lng: -116.2 } },
+      { name: 'Elmore County, ID', county: 'Elmore', stateCode: 'ID', entryMile: 20.4, exitMile: 75, distanceMiles: 54.6, etaMinutes: 19, coords: { lat: 43.1, lng: -115.6 } },
+    ];
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url === '/api/route') {
+        return {
+          ok: true,
+          json: async () => ({
+            route: { provider: 'mock', distanceMiles: 75, durationMinutes: 70, startLocation: 'Boise, ID', endLocation: 'Mountain Home, ID', path: [] },
+            zones,
+          }),
+        };
+      }
+      const { location } = JSON.parse(String(init.body));
+      return { ok: true, json: async () => ({ data: zoneResult(location), groundingChunks: [] }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { planTrip } = await import('../services/geminiService');
+    const { trip } = await planTrip('Boise, ID', 'Mountain Home, ID', ['Fire']);
+
+    expect(fetchMock).not.toHaveBeenCalledWith('/api/trip', expect.anything());
+    expect(trip?.route).toMatchObject({ provider: 'mock', distanceMiles: 75 });
+    expect(trip?.locations.map((loc) => [loc.locationName, loc.entryMile, loc.etaMinutes])).toEqual([
+      ['Ada County, ID', 0, 0],
+      ['Elmore County, ID', 20.4, 19],
+    ]);
+    expect(trip?.locations[1].data.agencies.map((agency) => agency.name)).toEqual(['Elmore County, ID Fire']);
+  });
+});
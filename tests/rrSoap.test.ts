@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { XmlParseError, childText, findElement, items, parseXml } from '../api/rrXml';
+import { RRSoapFault, readCountyInfo, readSoapReturn, readTrsSites, readZipInfo } from '../api/rrSoap';
+
+const envelope = (method: string, payload: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ns1="http://api.radioreference.com/soap2">
+<SOAP-ENV:Body><ns1:${method}Response><return xsi:type="tns:Result">${payload}</return></ns1:${method}Response></SOAP-ENV:Body>
+</SOAP-ENV:Envelope>`;
+
+describe('rrXml', () => {
+  it('drops namespace prefixes and decodes entities and CDATA', () => {
+    const doc = parseXml(`<?xml version="1.0"?><!-- note --><ns1:root a:type="x &amp; y">
+      <name>Fire &amp; Rescue &#8211; &#x41;&lt;&gt;</name>
+      <descr><![CDATA[Tac <2> & more]]></descr>
+      <empty/>
+    </ns1:root>`);
+    const root = doc.children[0];
+
+    expect(root.name).toBe('root');
+    expect(root.attributes.type).toBe('x & y');
+    expect(childText(root, 'name')).toBe('Fire & Rescue – A<>');
+    expect(childText(root, 'descr')).toBe('Tac <2> & more');
+    expect(childText(root, 'empty')).toBe('');
+    expect(childText(root, 'missing')).toBe('');
+  });
+
+  it('keeps nested <item> arrays under their own parent', () => {
+    const doc = parseXml(`<list>
+      <item><id>1</id><tags><item><id>9</id></item><item><id>8</id></item></tags></item>
+      <item><tags></tags><id>2</id></item>
+    </list>`);
+    const list = findElement(doc, 'list');
+
+    expect(items(list).map(i => childText(i, 'id'))).toEqual(['1', '2']);
+    expect(items(items(list)[0], 'tags').map(i => childText(i, 'id'))).toEqual(['9', '8']);
+  });
+
+  it('rejects markup it cannot read', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(XmlParseError);
+    expect(() => parseXml('<a>')).toThrow(/Unclosed <a>/);
+    expect(() => parseXml('<a><![CDATA[x</a>')).toThrow(XmlParseError);
+  });
+});
+
+describe('rrSoap', () => {
+  it('reports a fault body as RRSoapFault', () => {
+    const xml = `<SOAP-ENV:Envelope xmlns:SOAP-ENV="http://schemas.xmlsoap.org/soap/envelope/"><SOAP-ENV:Body>
+      <SOAP-ENV:Fault><faultcode>SOAP-ENV:Server</faultcode><faultstring>Invalid Zipcode</faultstring></SOAP-ENV:Fault>
+    </SOAP-ENV:Body></SOAP-ENV:Envelope>`;
+
+    let caught: unknown;
+    try {
+      readSoapReturn('getZipcodeInfo', xml);
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(RRSoapFault);
+    expect(caught).toMatchObject({ method: 'getZipcodeInfo', faultCode: 'SOAP-ENV:Server', faultString: 'Invalid Zipcode' });
+  });
+
+  it('throws XmlParseError for a response without <return>', () => {
+    expect(() => readSoapReturn('getCountyInfo', '<Envelope><Body><getCountyInfoResponse/></Body></Envelope>')).toThrow(XmlParseError);
+  });
+
+  it('reads ZIP records in both the item and bare forms', () => {
+    const listed = readSoapReturn('getZipcodeInfo', envelope('getZipcodeInfo', `
+      <item><ctid>0</ctid><stid>42</stid></item>
+      <item><city>Knoxville</city><ctid>2418</ctid><stid>42</stid></item>`));
+    expect(readZipInfo(listed)).toEqual([{ ctid: '2418', stid: '42', city: 'Knoxville' }]);
+
+    const bare = readSoapReturn('getZipcodeInfo', envelope('getZipcodeInfo', '<city>Jackson</city><ctid>2430</ctid><stid>24</stid>'));
+    expect(readZipInfo(bare)).toEqual([{ ctid: '2430', stid: '24', city: 'Jackson' }]);
+  });
+
+  it('reads county subcategories without mixing in nested fields', () => {
+    const ret = readSoapReturn('getCountyInfo', envelope('getCountyInfo', `
+      <ctid>2418</ctid><countyName>Knox</countyName><stid>42</stid>
+      <cats><item><cName>Knox &amp; Co</cName><subcats>
+        <item><scid>101</scid><scName>Sheriff</scName></item>
+        <item><scid>102</scid><scName></scName></item>
+        <item><scid>0</scid><scName>Empty</scName></item>
+      </subcats></item></cats>
+      <trsList><item><sid>5001</sid><sName>KRCS</sName></item></trsList>`));
+
+    expect(readCountyInfo(ret)).toEqual({
+      ctid: '2418',
+      countyName: 'Knox',
+      stid: '42',
+      subcats: [
+        { scid: '101', name: 'Sheriff', catName: 'Knox & Co' },
+        { scid: '102', name: 'Knox & Co', catName: 'Knox & Co' },
+      ],
+      trsList: [{ sid: '5001', sName: 'KRCS' }],
+    });
+  });
+
+  it('reads site fields from the site, not from its siteFreqs', () => {
+    const ret = readSoapReturn('getTrsSites', envelope('getTrsSites', `
+      <item><siteFreqs><item><lcn>3</lcn><freq>851.1</freq><use>c</use><lat>1</lat></item></siteFreqs>
+        <siteNumber>001</siteNumber><siteLocation>Hilltop</siteLocation><siteLat>36.1</siteLat></item>`));
+
+    const [site] = readTrsSites(ret);
+    expect(site).toMatchObject({ siteNumber: '001', descr: 'Hilltop', lat: '36.1', lon: '' });
+    expect(site.freqs).toEqual([{ freq: '851.1', use: 'c', lcn: '3' }]);
+  });
+});
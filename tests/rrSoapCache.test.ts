@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAccountRateLimiter, createSoapCache, createVerifiedAccounts, soapCallKey } from '../api/rrSoapCache';
+
+const auth = (username: string, password: string) => `
+    <authInfo xsi:type="tns:authInfo">
+      <appKey xsi:type="xsd:string">key</appKey>
+      <username xsi:type="xsd:string">${username}</username>
+      <password xsi:type="xsd:string">${password}</password>
+    </authInfo>`;
+
+describe('RR SOAP cache', () => {
+  it('keys calls by method and params without the credentials', () => {
+    const a = soapCallKey('getCountyInfo', `<ctid xsi:type="xsd:int">2094</ctid>\n${auth('Alice', 'one')}`);
+    const b = soapCallKey('getCountyInfo', `  <ctid xsi:type="xsd:int">2094</ctid> ${auth('bob', 'two')}`);
+
+    expect(a.key).toBe(b.key);
+    expect(a.key).not.toContain('one');
+    expect(a.account).toBe('alice');
+    expect(a.credential).not.toBe(b.credential);
+    expect(a.credential).not.toContain('one');
+    expect(soapCallKey('getStateInfo', '<stid xsi:type="xsd:int">2094</stid>').key).not.toBe(a.key);
+  });
+
+  it('serves repeats until the method TTL runs out and shares in-flight calls', async () => {
+    let clock = 0;
+    const cache = createSoapCache({ ttls: { getCountyInfo: 1000 }, now: () => clock });
+    const load = vi.fn().mockResolvedValue('<county/>');
+
+    await Promise.all([cache.get('getCountyInfo', 'k', load), cache.get('getCountyInfo', 'k', load)]);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    clock = 999;
+    await cache.get('getCountyInfo', 'k', load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    clock = 1000;
+    await cache.get('getCountyInfo', 'k', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failures and evicts the least recently used entry', async () => {
+    const cache = createSoapCache({ maxEntries: 2 });
+    await expect(cache.get('getZipcodeInfo', 'bad', () => Promise.reject(new Error('RR_SOAP_FAULT: Invalid Zipcode')))).rejects.toThrow();
+    expect(cache.size).toBe(0);
+
+    const load = vi.fn().mockResolvedValue('x');
+    await cache.get('m', 'a', load);
+    await cache.get('m', 'b', load);
+    await cache.get('m', 'a', load); // a is now the most recent
+    await cache.get('m', 'c', load);
+    await cache.get('m', 'a', load);
+    expect(load).toHaveBeenCalledTimes(3);
+    await cache.get('m', 'b', load);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('RR verified accounts', () => {
+  it('matches the exact credential until the TTL runs out', () => {
+    let clock = 0;
+    const verified = createVerifiedAccounts({ ttlMs: 1000, now: () => clock });
+    verified.add('alice', 'hash-1');
+
+    expect(verified.has('alice', 'hash-1')).toBe(true);
+    expect(verified.has('alice', 'hash-2')).toBe(false);
+    expect(verified.has('bob', 'hash-1')).toBe(false);
+
+    clock = 1000;
+    expect(verified.has('alice', 'hash-1')).toBe(false);
+  });
+});
+
+describe('RR account rate limiter', () => {
+  it('allows a burst, then spaces calls out per account', async () => {
+    let clock = 0;
+    const sleep = vi.fn(async (ms: number) => { clock += ms; });
+    const limiter = createAccountRateLimiter({ ratePerSecond: 2, burst: 2, now: () => clock, sleep });
+
+    await limiter.take('alice');
+    await limiter.take('alice');
+    expect(sleep).not.toHaveBeenCalled();
+
+    await limiter.take('alice');
+    expect(sleep).toHaveBeenLastCalledWith(500);
+
+    await limiter.take('bob');
+    expect(sleep).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a call that would wait longer than maxWaitMs', async () => {
+    const limiter = createAccountRateLimiter({ ratePerSecond: 1, burst: 1, maxWaitMs: 1500, now: () => 0, sleep: async () => {} });
+
+    await limiter.take('alice');
+    await limiter.take('alice'); // waits 1s
+    await expect(limiter.take('alice')).rejects.toThrow(/^RR_RATE_LIMITED: .*retry in 2s/);
+  });
+
+  it('refuses a wait that would run past the request deadline', async () => {
+    let clock = 0;
+    const sleep = vi.fn(async (ms: number) => { clock += ms; });
+    const limiter = createAccountRateLimiter({ ratePerSecond: 1, burst: 1, now: () => clock, sleep });
+
+    await limiter.take('alice', 1500);
+    await limiter.take('alice', 1500); // waits until 1000
+    await expect(limiter.take('alice', 1500)).rejects.toThrow(/^RR_RATE_LIMITED:/);
+    expect(sleep).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,281 @@
+// @vitest-environment node
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { ScanResult } from '../types';
+import handler, { inferStateIdFromZip } from '../api/rrdb';
+import { rrLoginRateLimiter, rrRateLimiter, rrSoapCache, rrVerifiedAccounts } from '../api/rrSoapCache';
+import { MOCK_RR_PASSWORD, MOCK_RR_USERNAME, respond, startRrMockServer } from '../mocks/rrSoapServer.mjs';
+
+let server: { url: string; close: () => Promise<void> };
+
+async function callRrdb(body: Record<string, unknown>) {
+  const res: any = { statusCode: 0, body: undefined, headers: {} as Record<string, string> };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: unknown) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name] = value; return res; };
+  await handler(
+    { method: 'POST', body: { rrUsername: MOCK_RR_USERNAME, rrPassword: MOCK_RR_PASSWORD, serviceTypes: ['Police', 'Fire'], ...body } } as VercelRequest,
+    res as VercelResponse
+  );
+  return res as { statusCode: number; body: any; headers: Record<string, string> };
+}
+
+describe('api/rrdb against the RadioReference SOAP mock', () => {
+  beforeAll(async () => {
+    server = await startRrMockServer({ port: 0 });
+    vi.stubEnv('RR_SOAP_URL', server.url);
+    vi.stubEnv('RR_APP_KEY', 'test-app-key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    rrSoapCache.clear();
+    rrVerifiedAccounts.clear();
+    rrRateLimiter.reset();
+    rrLoginRateLimiter.reset();
+  });
+
+  it('turns a ZIP into a verified ScanResult with county and statewide listings', async () => {
+    const res = await callRrdb({ zipcode: '37902' });
+    expect(res.statusCode).toBe(200);
+    const data: ScanResult = res.body.data;
+
+    expect(data.source).toBe('API');
+    expect(data.locationName).toBe('Knox, TN');
+    expect(data.agencies.map(a => [a.name, a.frequencies.map(f => f.freq)])).toEqual([
+      ['Sheriff', ['155.4750', '154.8000']], // Security tag filtered, output-less row skipped, untagged kept
+      ['Fire & Rescue', ['154.4300']], // entity-escaped name
+    ]);
+    expect(data.agencies[0].frequencies[0]).toMatchObject({ tone: '110.9 PL', alphaTag: 'KCSO Disp', tag: 'Law Dispatch' });
+    expect(data.agencies[1].frequencies[0].description).toBe('Fire Dispatch <Main>'); // CDATA
+    expect(data.agencies[0].frequencies[1].tag).toBe('Other');
+
+    expect(data.statewide?.name).toBe('TN Statewide');
+    expect(data.statewide?.agencies.map(a => a.name)).toEqual(['Tennessee Highway Patrol']);
+    // The county's own system is not repeated in the statewide section
+    expect(data.statewide?.trunkedSystems.map(s => s.name)).toEqual(['Tennessee Advanced Communications Network (TACN)']);
+  });
+
+  it('parses sites with the county site first and site channels by use', async () => {
+    const { body } = await callRrdb({ zipcode: '37902' });
+    const [system] = (body.data as ScanResult).trunkedSystems;
+
+    expect(system).toMatchObject({ sid: '5001', type: 'P25 Phase II', location: 'Knoxville Simulcast' });
+    expect(system.sites!.map(s => s.name)).toEqual(['Knoxville Simulcast', 'Anderson Simulcast']);
+    const [knox, anderson] = system.sites!;
+    expect(knox.channels).toEqual([
+      { freq: '851.5375', use: 'control', lcn: 1 },
+      { freq: '852.0375', use: 'alternate', lcn: 2 },
+      { freq: '853.1125', use: 'voice', lcn: undefined },
+    ]);
+    expect(knox).toMatchObject({ siteNumber: '002', countyId: '2418', lat: undefined, lon: undefined, rangeMiles: undefined });
+    expect(anderson).toMatchObject({ nac: '2D1', rfss: '1', lat: 36.1, lon: -84.1, rangeMiles: 20 });
+    expect(system.frequencies).toEqual([
+      { freq: '851.5375', use: 'Control' },
+      { freq: '852.0375', use: 'Alternate' },
+      { freq: '853.1125', use: 'Voice' },
+    ]);
+  });
+
+  it('parses talkgroup modes and drops unassigned and filtered talkgroups', async () => {
+    const { body } = await callRrdb({ zipcode: '37902' });
+    const [system] = (body.data as ScanResult).trunkedSystems;
+
+    expect(system.talkgroups.map(tg => [tg.dec, tg.mode, tg.tag])).toEqual([
+      ['1001', 'D', 'Law Dispatch'],
+      ['1002', 'TDMA', 'Law Tactical'],
+      ['1003', 'Encrypted', 'Law Tactical'],
+    ]);
+  });
+
+  it('prefers the ZIP record in the expected state and corrects a mislinked state', async () => {
+    const knox = await callRrdb({ zipcode: '37902' });
+    expect(knox.body.data.crossRef.notes).toContain('County ID: 2418, State ID: 42');
+
+    // RR lists 38301 under Mississippi; the ZIP prefix says Tennessee
+    const jackson = await callRrdb({ zipcode: '38301' });
+    expect(jackson.statusCode).toBe(200);
+    expect(jackson.body.data.locationName).toBe('Madison, TN');
+    expect(jackson.body.data.crossRef.notes).toContain('State ID: 42');
+    expect(jackson.body.data.statewide.name).toBe('TN Statewide');
+  });
+
+  it('looks up a county by name within a state', async () => {
+    const found = await callRrdb({ stid: '42', county: 'Madison County' });
+    expect(found.statusCode).toBe(200);
+    expect(found.body.data.agencies[0].frequencies[0].freq).toBe('155.6100');
+
+    const missing = await callRrdb({ stid: '42', county: 'Nowhere' });
+    expect(missing.statusCode).toBe(404);
+    expect(missing.body.errorCode).toBe('RR_LOCATION_NOT_FOUND');
+  });
+
+  it('reports RR faults for bad credentials and unknown ZIPs', async () => {
+    const auth = await callRrdb({ zipcode: '37902', rrPassword: 'wrong' });
+    expect(auth.statusCode).toBe(401);
+    expect(auth.body.errorCode).toBe('RR_AUTH_FAILED');
+
+    const zip = await callRrdb({ zipcode: '99999' });
+    expect(zip.statusCode).toBe(404);
+    expect(zip.body.errorCode).toBe('RR_ZIP_NOT_FOUND');
+  });
+
+  it('answers a repeat search from the SOAP cache', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    await callRrdb({ zipcode: '37902' });
+    const firstCalls = fetchSpy.mock.calls.length;
+    await callRrdb({ zipcode: '37902' });
+    expect(fetchSpy.mock.calls.length).toBe(firstCalls);
+    fetchSpy.mockRestore();
+  });
+
+  it('does not serve cached data to credentials RR has not accepted', async () => {
+    expect((await callRrdb({ zipcode: '37902' })).statusCode).toBe(200);
+
+    const forged = await callRrdb({ zipcode: '37902', rrUsername: 'attacker', rrPassword: 'nope' });
+    expect(forged.statusCode).toBe(401);
+    expect(forged.body.data).toBeUndefined();
+
+    // A known username with the wrong password is not let in either
+    const wrongPassword = await callRrdb({ zipcode: '37902', rrPassword: 'wrong' });
+    expect(wrongPassword.statusCode).toBe(401);
+  });
+});
+
+// Knox County at real-world size: 25 county and 60 state subcategories, three county
+// systems plus the statewide one. Extra ids are answered with the existing fixtures.
+const subcatItems = (from: number, count: number) => Array.from({ length: count }, (_, i) => (
+  `<item xsi:type="tns:SubCat"><scid>${from + i}</scid><scName>Subcat ${from + i}</scName></item>`
+)).join('');
+
+// Fixture reads are memoized so the fake-timer test below never waits on disk I/O
+const fixtureResponses = new Map<string, Promise<{ status: number; body: string }>>();
+
+async function realisticRrFetch(_url: string, init: { body: string }) {
+  const xml = init.body
+    .replace(/(<scid[^>]*>)1\d{3}</, '$1101<')
+    .replace(/(<scid[^>]*>)3\d{3}</, '$1201<')
+    .replace(/(<sid[^>]*>)500[23]</, '$15001<');
+  const method = xml.match(/<tns:(\w+)>/)?.[1];
+  if (!fixtureResponses.has(xml)) fixtureResponses.set(xml, respond(xml));
+  let { status, body } = await fixtureResponses.get(xml)!;
+  if (method === 'getCountyInfo') {
+    body = body
+      .replace('</subcats>', `${subcatItems(1000, 23)}</subcats>`)
+      .replace('</trsList>', '<item><sid>5002</sid><sName>Knox EMS</sName></item><item><sid>5003</sid><sName>Knox Schools</sName></item></trsList>');
+  }
+  if (method === 'getStateInfo') body = body.replace('</subcats>', `${subcatItems(3000, 59)}</subcats>`);
+  return new Response(body, { status });
+}
+
+describe('api/rrdb rate limits on a full-size county', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeAll(() => {
+    vi.stubEnv('RR_APP_KEY', 'test-app-key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    rrSoapCache.clear();
+    rrVerifiedAccounts.clear();
+    rrRateLimiter.reset();
+    rrLoginRateLimiter.reset();
+    fetchMock = vi.fn(realisticRrFetch);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('completes a cold-cache ZIP search within the account budget', async () => {
+    const res = await callRrdb({ zipcode: '37902' });
+
+    expect(res.statusCode).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(100);
+    const data: ScanResult = res.body.data;
+    expect(data.truncated).toBeUndefined();
+    expect(data.agencies).toHaveLength(25);
+    expect(data.trunkedSystems).toHaveLength(3);
+    expect(data.statewide?.agencies).toHaveLength(60);
+  });
+
+  it('does not let bad passwords spend the account budget', async () => {
+    for (let i = 0; i < 160; i++) {
+      const res = await callRrdb({ zipcode: '37902', rrPassword: `guess-${i}` });
+      expect(res.statusCode).toBe(401);
+    }
+
+    const res = await callRrdb({ zipcode: '37902' });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.truncated).toBeUndefined();
+  });
+
+  it('returns the listing fetched so far, marked truncated, when the budget runs out', async () => {
+    await callRrdb({ zipcode: '37902' });
+    rrSoapCache.clear();
+    rrVerifiedAccounts.clear();
+    rrRateLimiter.reset();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    try {
+      // Another search already spent this account's burst
+      for (let i = 0; i < 150; i++) await rrRateLimiter.take(MOCK_RR_USERNAME);
+
+      const pending = callRrdb({ zipcode: '37902' });
+      await vi.runAllTimersAsync();
+      const res = await pending;
+
+      expect(res.statusCode).toBe(200);
+      const data: ScanResult = res.body.data;
+      expect(data.truncated).toBe(true);
+      expect(data.summary).toMatch(/rate limit cut this listing short/);
+      expect(data.agencies.length).toBeGreaterThan(0);
+      expect(data.agencies.length + (data.statewide?.agencies.length ?? 0)).toBeLessThan(85);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('inferStateIdFromZip', () => {
+  it.each([
+    ['96813', '11'], // HI before CA
+    ['99501', '2'], // AK before WA
+    ['83001', '50'], // WY 830-831 inside ID's prefix
+    ['83201', '12'],
+    ['20001', '51'], // DC before MD
+    ['03801', '29'], // NH before ME
+    ['05401', '45'], // VT before MA
+    ['02901', '39'], // RI before MA
+    ['19901', '8'], // DE before PA
+    ['24701', '48'], // WV 247-249 inside VA's prefix
+    ['24011', '46'],
+    ['88001', '31'], // NM 880-884
+    ['88901', '28'], // NV 889+
+    ['38655', '24'], // MS 386-397 inside TN's prefix
+    ['38103', '42'],
+    ['39801', '10'], // GA 398-399 inside MS's prefix
+    ['71901', '4'], // AR 716-719 inside LA's prefix
+    ['70112', '18'],
+  ])('%s → %s', (zip, stid) => {
+    expect(inferStateIdFromZip(zip)).toBe(stid);
+  });
+
+  it('returns null when the prefix is unknown or too short', () => {
+    expect(inferStateIdFromZip('00501')).toBeNull();
+    expect(inferStateIdFromZip('12')).toBeNull();
+  });
+});
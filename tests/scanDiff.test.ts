@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult } from '../types';
+import { diffScanResults } from '../utils/scanDiff';
+
+const before: ScanResult = {
+  source: 'API',
+  locationName: 'Test County, TS',
+  summary: '',
+  agencies: [
+    {
+      name: 'County Sheriff',
+      category: 'Police',
+      frequencies: [
+        { freq: '155.5500', description: 'Dispatch', mode: 'FM', tag: 'Law Dispatch', alphaTag: 'SO Disp', tone: 'PL 100' },
+        { freq: '155.7000', description: 'Tac', mode: 'FM', tag: 'Law Tac' },
+      ],
+    },
+    { name: 'City Water', category: 'Utilities', frequencies: [{ freq: '453.1000', description: 'Ops', mode: 'FMN', tag: 'Utilities' }] },
+  ],
+  trunkedSystems: [
+    {
+      name: 'County P25',
+      type: 'Project 25 Phase I',
+      location: 'Simulcast',
+      frequencies: [{ freq: '851.0125', use: 'Control' }, { freq: '852.0125', use: 'Alternate' }],
+      talkgroups: [
+        { dec: '1001', mode: 'D', alphaTag: 'SO Main', description: 'Sheriff Dispatch', tag: 'Law Dispatch' },
+        { dec: '1002', mode: 'D', alphaTag: 'SO Tac', description: 'Sheriff Tac', tag: 'Law Tac' },
+      ],
+    },
+  ],
+};
+
+describe('diffScanResults', () => {
+  it('reports nothing for the same result in a different order', () => {
+    const reordered: ScanResult = {
+      ...before,
+      agencies: [...before.agencies].reverse().map((a) => ({ ...a, name: a.name.toUpperCase(), frequencies: [...a.frequencies].reverse() })),
+    };
+    expect(diffScanResults(before, reordered)).toEqual({ entries: [], counts: { added: 0, removed: 0, changed: 0 } });
+  });
+
+  it('classifies added, removed and changed channels, sites, talkgroups and agencies', () => {
+    const after: ScanResult = {
+      ...before,
+      agencies: [
+        {
+          name: 'County Sheriff',
+          category: 'Police',
+          frequencies: [
+            { freq: '155.550', description: 'Dispatch', mode: 'P25', tag: 'Law Dispatch', alphaTag: 'SO Dispatch', tone: '100.0' },
+            { freq: '154.8000', description: 'Car-to-car', mode: 'FM', tag: 'Law Talk' },
+          ],
+        },
+        { name: 'County Fire', category: 'Fire', frequencies: [{ freq: '154.4300', description: 'Dispatch', mode: 'FM', tag: 'Fire Dispatch' }] },
+      ],
+      trunkedSystems: [
+        {
+          ...before.trunkedSystems[0],
+          type: 'Project 25 Phase II',
+          frequencies: [{ freq: '851.0125', use: 'Control' }],
+          talkgroups: [
+            { dec: '1001', mode: 'T', alphaTag: 'SO Main', description: 'Sheriff Dispatch', tag: 'Law Dispatch' },
+            { dec: '1003', mode: 'D', alphaTag: 'SO Ops', description: 'Sheriff Ops', tag: 'Law Talk' },
+          ],
+        },
+      ],
+    };
+
+    const diff = diffScanResults(before, after);
+    const summary = diff.entries.map((e) => `${e.kind} ${e.entity} ${e.key}${e.changes.map((c) => ` ${c.field}:${c.before}>${c.after}`).join('')}`);
+
+    expect(summary).toEqual([
+      'removed agency City Water',
+      'added agency County Fire',
+      'removed frequency 155.7000',
+      'added frequency 154.8000',
+      'changed frequency 155.550 mode:FM>P25 alpha tag:SO Disp>SO Dispatch',
+      'changed system County P25 type:Project 25 Phase I>Project 25 Phase II',
+      'removed site 852.0125',
+      'removed talkgroup 1002',
+      'added talkgroup 1003',
+      'changed talkgroup 1001 mode:D>T',
+    ]);
+    expect(diff.counts).toEqual({ added: 3, removed: 4, changed: 3 });
+  });
+
+  it('reports tone changes using the normalized tone', () => {
+    const after: ScanResult = {
+      ...before,
+      agencies: before.agencies.map((a, i) => i === 0
+        ? { ...a, frequencies: [{ ...a.frequencies[0], tone: 'PL 103.5' }, a.frequencies[1]] }
+        : a),
+    };
+    const [entry] = diffScanResults(before, after).entries;
+    expect(entry.changes).toEqual([{ field: 'tone', before: '100.0', after: '103.5' }]);
+  });
+});
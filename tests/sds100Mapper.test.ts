@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import type { ScanResult, TripResult } from "../types";
+import { buildExport, scanResultToExportJob, tripResultToExportJob, validateExportJob } from "../utils/sds100";
+
+const scan: ScanResult = {
+  source: "API",
+  locationName: "Test County, TS",
+  summary: "Mapper fixture",
+  agencies: [
+    {
+      name: "County Sheriff",
+      category: "Police",
+      frequencies: [
+        { freq: "155.5500", description: "Dispatch", mode: "FM", tag: "Dispatch", alphaTag: "SO Disp", tone: "PL 100" },
+        { freq: "155.7000", description: "Tac", mode: "FMN", tag: "Tactical", tone: "DPL 023" },
+        { freq: "not-a-freq", description: "Broken row", mode: "FM", tag: "Dispatch" },
+      ],
+    },
+    {
+      name: "County Fire",
+      category: "Fire",
+      frequencies: [{ freq: "154.4300", description: "Fire Dispatch", mode: "P25", tag: "Fire Dispatch", nac: "293" }],
+    },
+  ],
+  trunkedSystems: [
+    {
+      name: "County P25",
+      type: "P25 Phase II",
+      location: "Simulcast",
+      frequencies: [
+        { freq: "851.0125", use: "Control" },
+        { freq: "852.5000", use: "Voice" },
+      ],
+      talkgroups: [
+        { dec: "1001", mode: "D", alphaTag: "SO Main", description: "Sheriff Dispatch", tag: "Law Dispatch" },
+        { dec: "2001", mode: "D", alphaTag: "FD Main", description: "Fire Dispatch", tag: "Fire Dispatch" },
+      ],
+    },
+    {
+      name: "AI Guess System",
+      type: "P25",
+      location: "Unknown",
+      frequencies: [],
+      talkgroups: [{ dec: "10", mode: "D", alphaTag: "Main", description: "Main", tag: "Law Dispatch" }],
+    },
+  ],
+};
+
+describe("SDS100 ScanResult mapper", () => {
+  it("maps agencies into departments and channels with tones and service types", () => {
+    const { job } = scanResultToExportJob(scan);
+    const conventional = job.favoritesLists[0].systems.find((s) => s.kind === "conventional");
+
+    expect(conventional?.kind).toBe("conventional");
+    if (conventional?.kind !== "conventional") return;
+
+    const [sheriff, fire] = conventional.departments;
+    expect(sheriff.name).toBe("County Sheriff");
+    expect(sheriff.channels).toHaveLength(2);
+    expect(sheriff.channels[0]).toMatchObject({
+      name: "SO Disp",
+      frequencyHz: 155550000,
+      modulation: "FM",
+      toneMode: "ctcss",
+      toneValue: "100.0",
+      serviceType: 2,
+    });
+    expect(sheriff.channels[1]).toMatchObject({ modulation: "NFM", toneMode: "dcs", toneValue: "023" });
+    expect(fire.channels[0]).toMatchObject({ modulation: "AUTO", toneMode: "nac", toneValue: "293", serviceType: 3 });
+  });
+
+  it("maps trunked systems into sites and tag-grouped talkgroups", () => {
+    const { job } = scanResultToExportJob(scan);
+    const trunk = job.favoritesLists[0].systems.find((s) => s.kind === "trunk");
+
+    expect(trunk?.kind).toBe("trunk");
+    if (trunk?.kind !== "trunk") return;
+
+    expect(trunk.trunkType).toBe("P25Standard");
+    expect(trunk.sites[0].controlChannelsHz).toEqual([851012500]);
+    expect(trunk.sites[0].voiceChannelsHz).toEqual([852500000]);
+    expect(trunk.groups.map((g) => g.name)).toEqual(["Law Dispatch", "Fire Dispatch"]);
+    expect(trunk.groups[0].talkgroups[0]).toMatchObject({ tgid: 1001, name: "SO Main", serviceType: 2 });
+  });
+
+  it("renders every RR site with its location and control channels", () => {
+    const multiSite: ScanResult = {
+      ...scan,
+      agencies: [],
+      trunkedSystems: [
+        {
+          ...scan.trunkedSystems[0],
+          sites: [
+            {
+              siteNumber: "001",
+              name: "Davidson Simulcast",
+              nac: "293",
+              lat: 36.1627,
+              lon: -86.7816,
+              rangeMiles: 25,
+              channels: [
+                { freq: "851.0125", use: "control" },
+                { freq: "851.5125", use: "alternate" },
+                { freq: "852.5000", use: "voice" },
+              ],
+            },
+            {
+              siteNumber: "002",
+              name: "Williamson",
+              lat: 35.9251,
+              lon: -86.8689,
+              rangeMiles: 18,
+              channels: [{ freq: "853.2375", use: "control" }],
+            },
+            { siteNumber: "003", name: "Voice Only", channels: [{ freq: "854.0000", use: "voice" }] },
+          ],
+        },
+      ],
+    };
+
+    const { job, skipped } = scanResultToExportJob(multiSite);
+    const trunk = job.favoritesLists[0].systems[0];
+    if (trunk.kind !== "trunk") throw new Error("expected a trunk system");
+
+    expect(trunk.sites.map((s) => [s.name, s.siteNumber, s.controlChannelsHz, s.voiceChannelsHz])).toEqual([
+      ["Davidson Simulcast", "001", [851012500, 851512500], [852500000]],
+      ["Williamson", "002", [853237500], undefined],
+    ]);
+    expect(skipped.map((x) => [x.code, x.path])).toEqual([["SKIPPED_SITE", "$.trunkedSystems[0].sites[2]"]]);
+
+    const hpd = buildExport(job).files.find((x) => x.path.endsWith(".hpd"))!.content;
+    expect(hpd).toContain("Site\t001 Davidson Simulcast\tOff\t36.162700\t-86.781600\t25\t");
+    expect(hpd).toContain("Site\t002 Williamson\tOff\t35.925100\t-86.868900\t18\t");
+    expect(hpd.match(/^T-Freq\t/gm)).toHaveLength(4);
+  });
+
+  it("falls back past blank alpha tags when naming channels and talkgroups", () => {
+    const blank: ScanResult = {
+      ...scan,
+      agencies: [{ name: "County Sheriff", category: "Police", frequencies: [{ freq: "155.5500", description: "Dispatch", mode: "FM", tag: "Dispatch", alphaTag: "   " }] }],
+      trunkedSystems: [{ ...scan.trunkedSystems[0], talkgroups: [{ dec: "1001", mode: "D", alphaTag: "   ", description: " \t ", tag: "Law Dispatch" }] }],
+    };
+
+    const { job } = scanResultToExportJob(blank);
+    const [conventional, trunk] = job.favoritesLists[0].systems;
+    if (conventional.kind !== "conventional" || trunk.kind !== "trunk") throw new Error("expected a conventional and a trunk system");
+
+    expect(conventional.departments[0].channels[0].name).toBe("Dispatch");
+    expect(trunk.groups[0].talkgroups[0].name).toBe("1001");
+    expect(() => buildExport(job)).not.toThrow();
+  });
+
+  it("reports rows the favorites list format cannot hold", () => {
+    const { skipped } = scanResultToExportJob(scan);
+
+    expect(skipped.map((x) => x.code)).toEqual(["SKIPPED_CHANNEL", "SKIPPED_SYSTEM"]);
+    expect(skipped[1].message).toContain("AI Guess System");
+  });
+
+  it("produces a job that validates and builds", () => {
+    const { job } = scanResultToExportJob(scan);
+
+    expect(validateExportJob(job).valid).toBe(true);
+    const output = buildExport(job);
+    const hpd = output.files.find((x) => x.path.endsWith(".hpd"));
+    expect(hpd?.content).toContain("C-Freq");
+    expect(hpd?.content).toContain("TGID\tSO Main");
+  });
+
+  it("maps each trip zone into its own favorites list", () => {
+    const trip: TripResult = {
+      startLocation: "A",
+      endLocation: "B",
+      locations: [
+        { locationName: "Zone One", data: scan },
+        { locationName: "Zone Two", data: { ...scan, trunkedSystems: [] } },
+      ],
+    };
+
+    const { job } = tripResultToExportJob(trip);
+    expect(job.favoritesLists.map((l) => l.listName)).toEqual(["Zone One", "Zone Two"]);
+  });
+
+  it("writes a system two zones share once, in the first zone's list, with both zones' sites", () => {
+    const statewideP25 = (siteNumber: string, name: string, control: string) => ({
+      sid: "6643",
+      name: "Statewide P25",
+      type: "Project 25 Phase I",
+      location: "Statewide",
+      frequencies: [],
+      sites: [{ siteNumber, name, countyId: siteNumber, channels: [{ freq: control, use: "control" as const }] }],
+      talkgroups: [{ dec: "100", mode: "D", alphaTag: "SP Disp", description: "State Police Dispatch", tag: "Law Dispatch" }],
+    });
+    const trip: TripResult = {
+      startLocation: "A",
+      endLocation: "B",
+      locations: [
+        { locationName: "Zone One", data: { ...scan, agencies: [], trunkedSystems: [statewideP25("011", "North", "851.1000")] } },
+        { locationName: "Zone Two", data: { ...scan, trunkedSystems: [statewideP25("012", "South", "852.2000")] } },
+      ],
+    };
+
+    const { job } = tripResultToExportJob(trip);
+    const trunksIn = (listName: string) =>
+      job.favoritesLists.find((l) => l.listName === listName)!.systems.filter((sys) => sys.kind === "trunk");
+
+    const zoneOne = trunksIn("Zone One");
+    expect(zoneOne.map((sys) => sys.name)).toEqual(["Statewide P25"]);
+    if (zoneOne[0].kind !== "trunk") throw new Error("expected a trunk system");
+    expect(zoneOne[0].sites.map((site) => site.siteNumber)).toEqual(["011", "012"]);
+    expect(trunksIn("Zone Two")).toEqual([]);
+    expect(buildExport(job).files.filter((x) => x.path.endsWith(".hpd")).map((x) => x.content.match(/^Trunk\t/gm)?.length ?? 0)).toEqual([1, 0]);
+  });
+});
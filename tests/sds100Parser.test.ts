@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { buildExport, parseFavoritesFile, parseFavoritesImport, parseFListCfg, type ExportJob } from "../utils/sds100";
+
+const fixture: ExportJob = {
+  scannerModel: "BCDx36HP",
+  formatVersion: "1.00",
+  favoritesLists: [
+    {
+      listName: "County Radio",
+      monitor: true,
+      download: false,
+      quickKey: 4,
+      systems: [
+        {
+          kind: "conventional",
+          name: "County Conventional",
+          avoid: false,
+          departments: [
+            {
+              name: "Fire Dispatch",
+              avoid: false,
+              lat: 36.1627,
+              lon: -86.7816,
+              rangeMiles: 15,
+              channels: [
+                {
+                  name: "Main Dispatch",
+                  frequencyHz: 154430000,
+                  modulation: "NFM",
+                  toneMode: "ctcss",
+                  toneValue: "100.0",
+                  serviceType: 3,
+                  avoid: false,
+                  priority: false,
+                  attenuation: false,
+                  recording: false,
+                  delaySec: 2,
+                },
+                {
+                  name: "Tac 2",
+                  frequencyHz: 154280000,
+                  modulation: "FM",
+                  toneMode: "dcs",
+                  toneValue: "023",
+                  serviceType: 8,
+                  avoid: true,
+                  priority: false,
+                  attenuation: false,
+                  recording: false,
+                  delaySec: 2,
+                },
+              ],
+            },
+          ],
+        },
+        {
+          kind: "trunk",
+          name: "Metro P25",
+          avoid: false,
+          trunkType: "P25Standard",
+          idSearch: false,
+          sites: [{ name: "Simulcast", avoid: false, nac: "293", controlChannelsHz: [851012500, 851262500], voiceChannelsHz: [852500000] }],
+          groups: [
+            {
+              name: "Law",
+              avoid: false,
+              talkgroups: [{ name: "PD Main", tgid: 1001, serviceType: 2, avoid: false, priority: true, alertTone: "Off" }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  options: {
+    includeProfileChanges: false,
+    mergeMode: "append",
+    defaultServiceType: 3,
+  },
+};
+
+function buildFiles() {
+  return buildExport(structuredClone(fixture)).files.map((file) => ({ path: file.path, content: file.content }));
+}
+
+describe("SDS100 favorites import", () => {
+  it("reads f_list.cfg entries", () => {
+    const cfg = buildFiles().find((file) => file.path.endsWith("f_list.cfg"));
+    const entries = parseFListCfg(cfg!.content);
+
+    expect(entries).toEqual([
+      { listName: "County Radio", fileName: "f_000001.hpd", monitor: true, download: false, quickKey: 4 },
+    ]);
+  });
+
+  it("round-trips rendered files back into the same lists, systems and channels", () => {
+    const { job, issues } = parseFavoritesImport(buildFiles());
+
+    expect(issues).toEqual([]);
+    expect(job.favoritesLists).toHaveLength(1);
+
+    const [list] = job.favoritesLists;
+    expect(list).toMatchObject({ listName: "County Radio", fileSlot: 1, monitor: true, download: false, quickKey: 4 });
+
+    const [conventional, trunk] = list.systems;
+    expect(conventional.kind).toBe("conventional");
+    if (conventional.kind !== "conventional") return;
+    expect(conventional.name).toBe("County Conventional");
+    expect(conventional.departments[0]).toMatchObject({ name: "Fire Dispatch", lat: 36.1627, lon: -86.7816, rangeMiles: 15 });
+    expect(conventional.departments[0].channels.map((ch) => [ch.name, ch.frequencyHz, ch.modulation, ch.toneMode, ch.toneValue, ch.serviceType, ch.avoid])).toEqual([
+      ["Main Dispatch", 154430000, "NFM", "ctcss", "100.0", 3, false],
+      ["Tac 2", 154280000, "FM", "dcs", "023", 8, true],
+    ]);
+
+    expect(trunk.kind).toBe("trunk");
+    if (trunk.kind !== "trunk") return;
+    expect(trunk.trunkType).toBe("P25Standard");
+    expect(trunk.sites[0]).toMatchObject({ nac: "293", controlChannelsHz: [851012500, 851262500], voiceChannelsHz: [852500000] });
+    expect(trunk.groups[0].talkgroups[0]).toMatchObject({ name: "PD Main", tgid: 1001, serviceType: 2, priority: true });
+  });
+
+  it("treats each .hpd as its own list when no f_list.cfg is given", () => {
+    const files = buildFiles().filter((file) => file.path.endsWith(".hpd"));
+    const { job } = parseFavoritesImport(files);
+
+    expect(job.favoritesLists.map((l) => l.listName)).toEqual(["f_000001"]);
+  });
+
+  it("reports orphaned and unknown lines instead of throwing", () => {
+    const issues: Parameters<typeof parseFavoritesFile>[2] = [];
+    const systems = parseFavoritesFile("TargetModel\tBCDx36HP\r\nC-Freq\tCFreqId=1\r\nDQKs_Status\tOn\r\n", "x.hpd", issues);
+
+    expect(systems).toEqual([]);
+    expect(issues.map((x) => x.code)).toEqual(["ORPHAN_LINE", "UNKNOWN_LINE"]);
+  });
+
+  it("fails with NO_LISTS when the index points at missing files", () => {
+    const cfg = buildFiles().filter((file) => file.path.endsWith("f_list.cfg"));
+    const { issues } = parseFavoritesImport(cfg);
+
+    expect(issues.map((x) => x.code)).toEqual(["LIST_FILE_MISSING", "NO_LISTS"]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  SCANNER_MODELS,
+  buildExport,
+  getModelProfile,
+  parseExportJobPayload,
+  validateExportJob,
+  type ExportJob,
+  type ScannerModel,
+} from "../utils/sds100";
+
+function jobFor(scannerModel: ScannerModel, channelName = "Main Dispatch", serviceType = 3): ExportJob {
+  return {
+    scannerModel,
+    formatVersion: "1.00",
+    favoritesLists: [
+      {
+        listName: "Profile List",
+        monitor: true,
+        download: true,
+        systems: [
+          {
+            kind: "conventional",
+            name: "Local",
+            avoid: false,
+            departments: [
+              {
+                name: "Fire",
+                avoid: false,
+                channels: [
+                  {
+                    name: channelName,
+                    frequencyHz: 154430000,
+                    modulation: "NFM",
+                    toneMode: "none",
+                    serviceType,
+                    avoid: false,
+                    priority: false,
+                    attenuation: false,
+                    recording: false,
+                    delaySec: 2,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    options: { includeProfileChanges: false, mergeMode: "append", defaultServiceType: 3 },
+  };
+}
+
+describe("SDS100 model profiles", () => {
+  it("builds every supported model into its profile's SD card layout", () => {
+    SCANNER_MODELS.forEach((model) => {
+      const profile = getModelProfile(model);
+      const output = buildExport(jobFor(model));
+      const hpd = output.files.find((x) => x.path.endsWith(".hpd"));
+
+      expect(hpd?.path).toBe(`${profile.rootDir}/${profile.favoritesDir}/f_000001.hpd`);
+      expect(hpd?.content.startsWith(`TargetModel\t${profile.targetModel}\r\nFormatVersion\t1.00\r\n`)).toBe(true);
+    });
+  });
+
+  it("truncates alpha tags to the model limit and reports it as a notice, not a warning", () => {
+    const longName = "Countywide Fire Dispatch Primary Channel";
+    const output = buildExport(jobFor("BCD436HP", longName));
+    const hpd = output.files.find((x) => x.path.endsWith(".hpd"))!;
+
+    expect(hpd.content).toContain(`\t${longName.slice(0, 16).trim()}\tOff\t154430000`);
+    expect(output.notices.map((x) => x.code)).toEqual(["ALPHA_TAG_LENGTH"]);
+    expect(output.warnings.map((x) => x.code)).not.toContain("ALPHA_TAG_LENGTH");
+    expect(buildExport(jobFor("SDS100", longName)).files.find((x) => x.path.endsWith(".hpd"))!.content).toContain(longName.slice(0, 32).trim());
+  });
+
+  it("checks service types against each model's table", () => {
+    expect(validateExportJob(jobFor("SDS200", "Pit Road", 216)).issues).toEqual([]);
+    expect(validateExportJob(jobFor("BCD536HP", "Pit Road", 216)).issues.map((x) => x.code)).toEqual(["SERVICE_TYPE_UNKNOWN"]);
+  });
+
+  it("accepts every profile model in API payloads and rejects unknown ones", () => {
+    expect(parseExportJobPayload(jobFor("SDS200")).success).toBe(true);
+    expect(parseExportJobPayload({ ...jobFor("SDS100"), scannerModel: "BCD996P2" }).success).toBe(false);
+    expect(parseExportJobPayload({ ...jobFor("SDS100"), formatVersion: "9.99" }).success).toBe(false);
+  });
+});
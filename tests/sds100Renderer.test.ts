@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { FavoriteList, TrunkSite, TrunkType } from "../utils/sds100";
+import { UNIDEN_OTHER_SERVICE_TYPE } from "../utils/categoryTaxonomy";
+import { IdAllocator } from "../utils/sds100/idAllocator";
+import { renderFavoritesFiles } from "../utils/sds100/renderer";
+import { getDefaultTemplates } from "../utils/sds100/templates";
+
+function renderSites(trunkType: TrunkType, sites: TrunkSite[]): string[][] {
+  const list: FavoriteList = {
+    listName: "Sites",
+    monitor: true,
+    download: true,
+    systems: [{ kind: "trunk", name: "Regional", avoid: false, trunkType, idSearch: false, sites, groups: [] }],
+  };
+  const [rendered] = renderFavoritesFiles(
+    { scannerModel: "SDS100", formatVersion: "1.00", favoritesLists: [list], options: { includeProfileChanges: false, mergeMode: "append", defaultServiceType: UNIDEN_OTHER_SERVICE_TYPE } },
+    { templates: getDefaultTemplates(), ids: new IdAllocator() },
+  );
+  return rendered.fileContent.split("\r\n").filter(Boolean).map((line) => line.split("\t"));
+}
+
+describe("SDS100 favorites renderer", () => {
+  it("writes the site number and NAC on the Site line", () => {
+    const rows = renderSites("P25Standard", [
+      { name: "Davidson Simulcast", siteNumber: "001", nac: "293", avoid: false, lat: 36.1627, lon: -86.7816, rangeMiles: 25, controlChannelsHz: [851012500] },
+      { name: "Site 002", siteNumber: "002", avoid: false, controlChannelsHz: [853237500] },
+    ]);
+
+    const sites = rows.filter((row) => row[0] === "Site");
+    expect(sites.map((row) => [row[1], row[3], row[4], row[5], row[15]])).toEqual([
+      ["001 Davidson Simulcast", "36.162700", "-86.781600", "25", "293"],
+      ["Site 002", "0.000000", "0.000000", "0", "0"],
+    ]);
+  });
+
+  it("writes voice channels after the control channels with their LCNs", () => {
+    const rows = renderSites("EDACS", [
+      { name: "Downtown", avoid: false, controlChannelsHz: [866037500], voiceChannelsHz: [866537500, 867037500] },
+    ]);
+
+    expect(rows.map((row) => row[0])).toEqual(["TargetModel", "FormatVersion", "Trunk", "Site", "T-Freq", "T-Freq", "T-Freq"]);
+    expect(rows.filter((row) => row[0] === "T-Freq").map((row) => [row[4], row[5]])).toEqual([
+      ["866037500", "0"],
+      ["866537500", "1"],
+      ["867037500", "2"],
+    ]);
+  });
+});
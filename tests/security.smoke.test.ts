@@ -81,7 +81,7 @@ describe('security hardening', () => {
     })));
 
     const { fetchFromRadioReference } = await import('../services/rrApi');
-    const promise = fetchFromRadioReference('12345', { username: 'demo', password: 'secret' }, ['Police']);
+    const promise = fetchFromRadioReference({ zipcode: '12345' }, { username: 'demo', password: 'secret' }, ['Police']);
     const expectation = expect(promise).rejects.toThrow('RadioReference request timed out');
 
     await vi.advanceTimersByTimeAsync(45_000);
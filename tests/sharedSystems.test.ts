@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { Agency, ScanResult, TripResult, TrunkedSystem } from '../types';
+import { findSharedSystems } from '../utils/sharedSystems';
+
+function zone(locationName: string, agencies: Agency[], trunkedSystems: TrunkedSystem[] = []) {
+  const data: ScanResult = { source: 'API', locationName, summary: '', agencies, trunkedSystems };
+  return { locationName, data };
+}
+
+function p25(name: string, control: string): TrunkedSystem {
+  return {
+    name,
+    type: 'Project 25 Phase I',
+    location: '',
+    frequencies: [{ freq: control, use: 'Control' }, { freq: '851.2375', use: 'Voice' }],
+    talkgroups: [],
+  };
+}
+
+describe('shared systems across trip zones', () => {
+  it('links a statewide system listed under different names by its control channel', () => {
+    const trip: TripResult = {
+      startLocation: 'A',
+      endLocation: 'B',
+      locations: [
+        zone('Adams County, CO', [], [p25('DTRS - Adams Site', '851.0125')]),
+        zone('Weld County, CO', [], [p25('Colorado DTRS', '851.01250'), p25('Weld County Fire', '770.10625')]),
+        zone('Morgan County, CO', [], [p25('Morgan Local', '769.40625')]),
+      ],
+    };
+
+    const shared = findSharedSystems(trip);
+    expect(shared).toEqual([{ key: expect.stringMatching(/^trunked:/), kind: 'trunked', label: 'DTRS - Adams Site', zones: [0, 1] }]);
+  });
+
+  it('reports interop channels by frequency and tone but not unrelated frequency reuse', () => {
+    const vtac = { freq: '151.1375', description: 'VTAC11', mode: 'FM', tag: 'Interop', tone: '156.7' };
+    const trip: TripResult = {
+      startLocation: 'A',
+      endLocation: 'B',
+      locations: [
+        zone('Ada County, ID', [
+          { name: 'Ada Sheriff', category: 'Police', frequencies: [vtac, { freq: '155.5500', description: 'Dispatch', mode: 'FM', tag: 'Law Dispatch', tone: '100.0' }] },
+        ]),
+        zone('Elmore County, ID', [
+          { name: 'Elmore Sheriff', category: 'Police', frequencies: [{ ...vtac }, { freq: '155.5500', description: 'Dispatch', mode: 'FM', tag: 'Law Dispatch', tone: '100.0' }] },
+        ]),
+        zone('Gooding County, ID', [
+          { name: 'Idaho State Police', category: 'Police', frequencies: [{ ...vtac, tone: '100.0' }] },
+        ]),
+      ],
+    };
+
+    const shared = findSharedSystems(trip);
+    expect(shared.map((s) => [s.kind, s.zones])).toEqual([['interop', [0, 1]]]);
+    expect(shared[0].label).toBe('VTAC11 151.1375');
+  });
+
+  it('keeps same-named agencies as shared and ignores single-zone trips', () => {
+    const isp = { name: 'Idaho State Police', category: 'Police', frequencies: [] };
+    const trip: TripResult = {
+      startLocation: 'A',
+      endLocation: 'B',
+      locations: [zone('Ada County, ID', [isp]), zone('Elmore County, ID', []), zone('Twin Falls County, ID', [{ ...isp, name: 'IDAHO STATE POLICE' }])],
+    };
+
+    expect(findSharedSystems(trip)).toEqual([{ key: 'agency:idahostatepolice', kind: 'agency', label: 'Idaho State Police', zones: [0, 2] }]);
+    expect(findSharedSystems({ ...trip, locations: trip.locations.slice(0, 1) })).toEqual([]);
+    expect(findSharedSystems(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { ScanResult, TripResult } from '../types';
+import { buildCSV } from '../utils/csvGenerator';
+import { zonesOf } from '../utils/exporters/shared';
+import { scanResultToExportJob, tripResultToExportJob } from '../utils/sds100';
+
+vi.mock('../services/crowdsourceService', () => ({
+  logConfirmation: vi.fn(),
+  getBatchConfirmationCounts: vi.fn().mockResolvedValue(new Map()),
+  getBatchFlagCounts: vi.fn().mockResolvedValue(new Map()),
+}));
+
+function county(name: string, sheriffFreq: string): ScanResult {
+  return {
+    source: 'API',
+    locationName: name,
+    summary: '',
+    agencies: [{ name: `${name} Sheriff`, category: 'Law Dispatch', frequencies: [{ freq: sheriffFreq, description: 'Dispatch', mode: 'FM', tag: 'Law Dispatch' }] }],
+    trunkedSystems: [],
+    statewide: {
+      name: 'TN Statewide',
+      stateCode: 'TN',
+      agencies: [{ name: 'Tennessee Highway Patrol', category: 'Law Dispatch', frequencies: [{ freq: '155.4750', description: 'District 1', mode: 'FM', tag: 'Law Dispatch' }] }],
+      trunkedSystems: [{
+        sid: '7000',
+        name: 'Tennessee Advanced Communications Network (TACN)',
+        type: 'Project 25 Phase II',
+        location: 'Knox Simulcast',
+        frequencies: [{ freq: '851.2500', use: 'Control' }],
+        talkgroups: [{ dec: '3001', mode: 'D', alphaTag: 'THP D1', description: 'Highway Patrol District 1', tag: 'Law Dispatch' }],
+      }],
+    },
+  };
+}
+
+const trip: TripResult = {
+  startLocation: 'Knoxville, TN',
+  endLocation: 'Nashville, TN',
+  locations: [
+    { locationName: 'Knox County, TN', data: county('Knox County, TN', '155.1000') },
+    { locationName: 'Davidson County, TN', data: county('Davidson County, TN', '155.2000') },
+  ],
+};
+
+describe('statewide section', () => {
+  it('exports the statewide section as one extra zone per state', () => {
+    expect(zonesOf(county('Knox County, TN', '155.1000')).map(z => z.name)).toEqual(['Knox County, TN', 'TN Statewide']);
+    expect(zonesOf(trip).map(z => z.name)).toEqual(['Knox County, TN', 'Davidson County, TN', 'TN Statewide']);
+  });
+
+  it('writes statewide rows once under their own location in CSVs', () => {
+    const single = buildCSV(county('Knox County, TN', '155.1000')).content.split('\n').slice(1);
+    expect(single.filter(row => row.startsWith('TN Statewide,'))).toHaveLength(3);
+
+    const rows = buildCSV(trip).content.split('\n').slice(1);
+    expect(rows.filter(row => row.includes('155.4750'))).toEqual([expect.stringMatching(/^TN Statewide,Conventional/)]);
+    expect(rows.filter(row => row.includes('3001'))).toHaveLength(1);
+  });
+
+  it('adds a statewide favorites list after the county lists', () => {
+    expect(scanResultToExportJob(county('Knox County, TN', '155.1000')).job.favoritesLists.map(l => l.listName))
+      .toEqual(['Knox County, TN', 'TN Statewide']);
+    expect(tripResultToExportJob(trip).job.favoritesLists.map(l => l.listName))
+      .toEqual(['Knox County, TN', 'Davidson County, TN', 'TN Statewide']);
+  });
+
+  it('shows a labeled statewide section that follows the search box', async () => {
+    const { FrequencyDisplay } = await import('../components/FrequencyDisplay');
+    render(<FrequencyDisplay data={county('Knox County, TN', '155.1000')} locationQuery="Knox County, TN" />);
+
+    const section = screen.getByTestId('statewide-section');
+    expect(within(section).getByText('TN Statewide')).toBeInTheDocument();
+    expect(within(section).getByText('Tennessee Highway Patrol')).toBeInTheDocument();
+    expect(within(section).getByText('Tennessee Advanced Communications Network (TACN)')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByPlaceholderText(/search agencies/i), { target: { value: 'sheriff' } });
+    expect(screen.queryByTestId('statewide-section')).not.toBeInTheDocument();
+  });
+});
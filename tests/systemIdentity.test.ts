@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult, TripResult, TrunkedSite, TrunkedSystem } from '../types';
+import { buildCSV } from '../utils/csvGenerator';
+import { dedupeTrunkedSystems, sameTrunkedSystem, trunkedSystemIdentity } from '../utils/systemIdentity';
+
+const site = (siteNumber: string, countyId: string, control: string): TrunkedSite => ({
+  siteNumber,
+  name: `Site ${siteNumber}`,
+  countyId,
+  channels: [{ freq: control, use: 'control' }, { freq: '851.5000', use: 'voice' }],
+});
+
+// RR lists every site of the system with the searched county's sites first.
+const statewide = (sites: TrunkedSite[], talkgroups: string[]): TrunkedSystem => ({
+  sid: '7117',
+  name: 'Colorado DTRS',
+  type: 'Project 25 Phase II',
+  location: sites[0].name,
+  frequencies: sites[0].channels.map((ch) => ({ freq: ch.freq, use: ch.use === 'control' ? 'Control' : 'Voice' })),
+  sites,
+  talkgroups: talkgroups.map((dec) => ({ dec, mode: 'D', alphaTag: `TG ${dec}`, description: '', tag: 'Law Dispatch' })),
+  origin: 'RR',
+});
+
+const a = site('001', '100', '851.0125');
+const b = site('002', '200', '852.0125');
+const c = site('003', '300', '853.0125');
+
+function zone(locationName: string, trunkedSystems: TrunkedSystem[]): TripResult['locations'][number] {
+  const data: ScanResult = { source: 'API', locationName, summary: '', agencies: [], trunkedSystems };
+  return { locationName, data };
+}
+
+describe('trunked system identity', () => {
+  it('uses the RR sid, otherwise a name + type + control channel fingerprint', () => {
+    const rr = statewide([a, b, c], []);
+    const ai: TrunkedSystem = { name: 'Colorado  DTRS', type: 'project 25 phase ii', location: '', frequencies: [{ freq: '852.01250', use: 'Control' }], talkgroups: [] };
+
+    expect(trunkedSystemIdentity(rr)).toBe('sid:7117');
+    expect(trunkedSystemIdentity(ai)).toBe('fp:coloradodtrs|project25phaseii|852.01250');
+    expect(sameTrunkedSystem(rr, ai)).toBe(true);
+    expect(sameTrunkedSystem(rr, { ...rr, sid: '9000' })).toBe(false);
+    expect(sameTrunkedSystem(ai, { ...ai, frequencies: [{ freq: '460.1000', use: 'Control' }] })).toBe(false);
+    expect(sameTrunkedSystem(ai, { ...ai, frequencies: [] })).toBe(true);
+  });
+
+  it('merges a statewide system across zones with the union of route sites and talkgroups', () => {
+    const local: TrunkedSystem = { name: 'Weld County Fire', type: 'Motorola Type II', location: '', frequencies: [], talkgroups: [] };
+    const merged = dedupeTrunkedSystems([
+      [statewide([a, b, c], ['100', '200'])],
+      [local, statewide([b, a, c], ['200', '300'])],
+    ]);
+
+    expect(merged.map((entry) => [entry.system.name, entry.zones])).toEqual([
+      ['Colorado DTRS', [0, 1]],
+      ['Weld County Fire', [1]],
+    ]);
+    // Site 003 sits in a county the route never enters.
+    expect(merged[0].system.sites?.map((s) => s.siteNumber)).toEqual(['001', '002']);
+    expect(merged[0].system.talkgroups.map((tg) => tg.dec)).toEqual(['100', '200', '300']);
+    expect(merged[0].system.frequencies.map((f) => f.freq)).toEqual(['851.0125', '851.5000', '852.0125']);
+  });
+
+  it('writes a shared system once in trip CSVs', () => {
+    const trip: TripResult = {
+      startLocation: 'Denver',
+      endLocation: 'Greeley',
+      locations: [
+        zone('Adams County, CO', [statewide([a, b, c], ['100'])]),
+        zone('Weld County, CO', [statewide([b, a, c], ['100'])]),
+      ],
+    };
+
+    const rows = buildCSV(trip).content.split('\n').slice(1);
+    expect(rows.filter((row) => row.includes('Trunked Talkgroup'))).toHaveLength(1);
+    const siteRows = rows.filter((row) => row.includes('Trunked Site'));
+    expect(siteRows.map((row) => row.match(/Site 00\d/)?.[0])).toEqual(['Site 001', 'Site 001', 'Site 002', 'Site 002']);
+    expect(siteRows.every((row) => row.startsWith('"Adams County, CO / Weld County, CO",'))).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { ScanResult } from '../types';
+import { attachToneInfo, formatTone, parseFrequencyTone, parseTone } from '../utils/tones';
+
+describe('tone parser', () => {
+  it.each([
+    ['100.0', { kind: 'ctcss', hz: '100.0' }],
+    ['PL 100', { kind: 'ctcss', hz: '100.0' }],
+    ['127.3 Hz', { kind: 'ctcss', hz: '127.3' }],
+    ['67', { kind: 'ctcss', hz: '67.0' }],
+    ['D023N', { kind: 'dcs', code: '023', inverted: false }],
+    ['DPL 023', { kind: 'dcs', code: '023', inverted: false }],
+    ['754I', { kind: 'dcs', code: '754', inverted: true }],
+    ['NAC 293', { kind: 'nac', nac: '293' }],
+    ['$f7e', { kind: 'nac', nac: 'F7E' }],
+    ['CC1', { kind: 'colorCode', colorCode: 1 }],
+    ['Color Code 12', { kind: 'colorCode', colorCode: 12 }],
+    ['RAN 5', { kind: 'ran', ran: 5 }],
+    ['CSQ', { kind: 'none' }],
+  ])('classifies %s', (raw, expected) => {
+    expect(parseTone(raw)).toEqual(expected);
+  });
+
+  it('rejects codes that are not in the tone tables', () => {
+    expect(parseTone('101.0')).toEqual({ kind: 'unknown', raw: '101.0' });
+    expect(parseTone('D024')).toEqual({ kind: 'unknown', raw: 'D024' });
+    expect(parseTone('CC 16')).toEqual({ kind: 'unknown', raw: 'CC 16' });
+    expect(parseTone('RAN 64')).toEqual({ kind: 'unknown', raw: 'RAN 64' });
+    expect(parseTone('')).toBeNull();
+  });
+
+  it('reads bare numbers in the channel digital context', () => {
+    expect(parseTone('293', 'P25')).toEqual({ kind: 'nac', nac: '293' });
+    expect(parseTone('3', 'DMR')).toEqual({ kind: 'colorCode', colorCode: 3 });
+    expect(parseTone('40', 'NXDN')).toEqual({ kind: 'ran', ran: 40 });
+    expect(parseFrequencyTone({ mode: 'P25', tone: '293' })).toEqual({ kind: 'nac', nac: '293' });
+  });
+
+  it('prefers the dedicated nac/colorCode/ran fields over the tone string', () => {
+    expect(parseFrequencyTone({ mode: 'P25', tone: '100.0', nac: '$2a' })).toEqual({ kind: 'nac', nac: '02A' });
+    expect(parseFrequencyTone({ mode: 'DMR', colorCode: '7' })).toEqual({ kind: 'colorCode', colorCode: 7 });
+    expect(parseFrequencyTone({ mode: 'FM' })).toEqual({ kind: 'none' });
+  });
+
+  it('formats each kind in its canonical form', () => {
+    expect(formatTone({ kind: 'ctcss', hz: '88.5' })).toBe('88.5');
+    expect(formatTone({ kind: 'dcs', code: '023', inverted: true })).toBe('D023I');
+    expect(formatTone({ kind: 'nac', nac: '293' })).toBe('NAC 293');
+    expect(formatTone({ kind: 'colorCode', colorCode: 1 })).toBe('CC 1');
+    expect(formatTone({ kind: 'none' })).toBe('');
+  });
+
+  it('attaches toneInfo to every channel and counts unknown tones', () => {
+    const result: ScanResult = {
+      source: 'AI',
+      locationName: 'Test',
+      summary: '',
+      agencies: [{
+        name: 'Fire',
+        category: 'Fire',
+        frequencies: [
+          { freq: '154.4300', description: 'Dispatch', mode: 'FM', tag: 'Fire', tone: 'PL 151.4' },
+          { freq: '154.2800', description: 'Tac', mode: 'FM', tag: 'Fire', tone: 'PL 152' },
+        ],
+      }],
+      trunkedSystems: [],
+    };
+
+    expect(attachToneInfo(result)).toBe(1);
+    expect(result.agencies[0].frequencies.map((f) => f.toneInfo)).toEqual([
+      { kind: 'ctcss', hz: '151.4' },
+      { kind: 'unknown', raw: 'PL 152' },
+    ]);
+  });
+});
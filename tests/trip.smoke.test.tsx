@@ -1,35 +1,50 @@
 import React from 'react';
 import { fireEvent, render, screen, waitFor } from '@testing-library/react';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 
-vi.mock('../services/geminiService', () => ({
-  planTrip: vi.fn().mockResolvedValue({
-    trip: {
-      startLocation: 'Boise, ID',
-      endLocation: 'Twin Falls, ID',
-      locations: [
-        {
+const tripResponse = {
+  trip: {
+    startLocation: 'Boise, ID',
+    endLocation: 'Twin Falls, ID',
+    locations: [
+      {
+        locationName: 'Ada County, ID',
+        data: {
+          source: 'Cache',
           locationName: 'Ada County, ID',
-          data: {
-            source: 'Cache',
-            locationName: 'Ada County, ID',
-            summary: 'Test route zone',
-            agencies: [],
-            trunkedSystems: [],
-          },
+          summary: 'Test route zone',
+          agencies: [],
+          trunkedSystems: [],
         },
-      ],
-    },
-    groundingChunks: [],
-  }),
+      },
+    ],
+  },
+  groundingChunks: [],
+};
+
+vi.mock('../services/geminiService', () => ({
+  planTrip: vi.fn().mockResolvedValue(tripResponse),
+  planTripFromRouteFile: vi.fn().mockResolvedValue(tripResponse),
   filterTripByServices: (trip: unknown) => trip,
 }));
 
+const exportTripSentinelZip = vi.fn();
+
+vi.mock('../utils/sentinelExporter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/sentinelExporter')>()),
+  exportTripSentinelZip,
+}));
+
 vi.mock('../components/FrequencyDisplay', () => ({
   FrequencyDisplay: ({ data }: { data: { locationName: string } }) => <div data-testid="frequency-display">{data.locationName}</div>,
 }));
 
 describe('trip smoke', () => {
+  // Load the exporter (and JSZip) up front so the export clicks settle quickly.
+  beforeAll(async () => {
+    await import('../utils/sentinelExporter');
+  });
+
   beforeEach(() => {
     localStorage.clear();
   });
@@ -51,4 +66,88 @@ describe('trip smoke', () => {
 
     expect(screen.getByTestId('frequency-display')).toHaveTextContent('Ada County, ID');
   });
-});
\ No newline at end of file
+
+  it('passes intermediate stops through to the planner in order', async () => {
+    const { TripPlanner } = await import('../components/TripPlanner');
+    const { planTrip } = await import('../services/geminiService');
+
+    render(<TripPlanner />);
+
+    const inputs = screen.getAllByPlaceholderText('City, State or ZIP');
+    fireEvent.change(inputs[0], { target: { value: 'Boise, ID' } });
+    fireEvent.change(inputs[1], { target: { value: 'Twin Falls, ID' } });
+    fireEvent.click(screen.getByRole('button', { name: /add stop/i }));
+    fireEvent.click(screen.getByRole('button', { name: /add stop/i }));
+    const stops = screen.getAllByPlaceholderText('Stop: City, State or ZIP');
+    fireEvent.change(stops[0], { target: { value: 'Idaho City, ID' } });
+    fireEvent.change(stops[1], { target: { value: 'Stanley, ID' } });
+
+    fireEvent.click(screen.getByRole('button', { name: /calculate route & scan/i }));
+
+    await waitFor(() => {
+      expect(planTrip).toHaveBeenCalledWith('Boise, ID', 'Twin Falls, ID', ['Police', 'Fire', 'EMS'], undefined, { via: ['Idaho City, ID', 'Stanley, ID'] });
+    });
+  });
+
+  it('plans from an imported GPX track instead of origin and destination', async () => {
+    const { TripPlanner } = await import('../components/TripPlanner');
+    const { planTripFromRouteFile } = await import('../services/geminiService');
+
+    render(<TripPlanner />);
+
+    const gpx = '<gpx><trk><trkseg><trkpt lat="43.61" lon="-116.20"/><trkpt lat="43.82" lon="-115.83"/><trkpt lat="44.22" lon="-114.93"/></trkseg></trk></gpx>';
+    const file = new File([gpx], 'backroads.gpx', { type: 'application/gpx+xml' });
+    fireEvent.change(screen.getByTestId('route-file-input'), { target: { files: [file] } });
+
+    await waitFor(() => {
+      expect(screen.getByText('backroads.gpx')).toBeInTheDocument();
+    });
+    expect(screen.queryByPlaceholderText('City, State or ZIP')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /calculate route & scan/i }));
+
+    await waitFor(() => {
+      expect(planTripFromRouteFile).toHaveBeenCalledWith(gpx, ['Police', 'Fire', 'EMS'], undefined);
+    });
+    expect(await screen.findByText(/trip manifest ready/i)).toBeInTheDocument();
+  });
+
+  it('reports a failed or empty SDS100 trip package instead of dropping it', async () => {
+    const { TripPlanner } = await import('../components/TripPlanner');
+
+    render(<TripPlanner />);
+
+    const inputs = screen.getAllByPlaceholderText('City, State or ZIP');
+    fireEvent.change(inputs[0], { target: { value: 'Boise, ID' } });
+    fireEvent.change(inputs[1], { target: { value: 'Twin Falls, ID' } });
+    fireEvent.click(screen.getByRole('button', { name: /calculate route & scan/i }));
+    await screen.findByText(/trip manifest ready/i);
+
+    exportTripSentinelZip.mockRejectedValueOnce(new Error('SDS100 export has no systems'));
+    fireEvent.click(screen.getByRole('button', { name: /sds100 export/i }));
+    expect(await screen.findByText(/failed to generate the uniden sds100 package/i)).toBeInTheDocument();
+
+    exportTripSentinelZip.mockResolvedValueOnce({ listCount: 0, sdCardDir: 'SDS100/favorites_lists', skipped: ['Ada County, ID: nothing to program'], truncated: [] });
+    fireEvent.click(screen.getByRole('button', { name: /sds100 export/i }));
+    expect(await screen.findByText(/generated without favorites list files/i)).toBeInTheDocument();
+  });
+
+  it('exports the trip package for the radio picked next to the button', async () => {
+    const { TripPlanner } = await import('../components/TripPlanner');
+
+    render(<TripPlanner />);
+
+    const inputs = screen.getAllByPlaceholderText('City, State or ZIP');
+    fireEvent.change(inputs[0], { target: { value: 'Boise, ID' } });
+    fireEvent.change(inputs[1], { target: { value: 'Twin Falls, ID' } });
+    fireEvent.click(screen.getByRole('button', { name: /calculate route & scan/i }));
+    await screen.findByText(/trip manifest ready/i);
+
+    fireEvent.change(screen.getByRole('combobox', { name: /target radio/i }), { target: { value: 'BCD536HP' } });
+    exportTripSentinelZip.mockResolvedValueOnce({ listCount: 2, sdCardDir: 'BCD536HP/favorites_lists', skipped: [], truncated: [] });
+    fireEvent.click(screen.getByRole('button', { name: /bcd536hp export/i }));
+
+    expect(await screen.findByText('Uniden BCD536HP package generated.')).toBeInTheDocument();
+    expect(exportTripSentinelZip).toHaveBeenCalledWith(expect.objectContaining({ startLocation: 'Boise, ID' }), 'BCD536HP');
+  });
+});
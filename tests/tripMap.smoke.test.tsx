@@ -0,0 +1,104 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CountyBoundary, ScanResult, TripResult } from '../types';
+import type { SharedSystem } from '../utils/sharedSystems';
+
+const fetchCountyBoundaries = vi.fn();
+
+vi.mock('../services/locationService', () => ({ fetchCountyBoundaries: (...args: unknown[]) => fetchCountyBoundaries(...args) }));
+
+type PathProps = {
+  children?: React.ReactNode;
+  pathOptions?: { color?: string; fillColor?: string; dashArray?: string };
+  eventHandlers?: { click?: () => void };
+};
+
+const pathElement = (testId: string) => ({ children, pathOptions, eventHandlers }: PathProps) => (
+  <button
+    type="button"
+    data-testid={testId}
+    data-color={pathOptions?.color}
+    data-fill={pathOptions?.fillColor}
+    data-dash={pathOptions?.dashArray ?? ''}
+    onClick={() => eventHandlers?.click?.()}
+  >
+    {children}
+  </button>
+);
+
+vi.mock('react-leaflet', () => ({
+  MapContainer: ({ children }: { children: React.ReactNode }) => <div data-testid="map-container">{children}</div>,
+  TileLayer: () => <div data-testid="tile-layer" />,
+  Polygon: pathElement('zone-polygon'),
+  CircleMarker: pathElement('zone-point'),
+  Polyline: () => <div data-testid="route-line" />,
+  Tooltip: ({ children }: { children: React.ReactNode }) => <span>{children}</span>,
+  useMap: () => ({ fitBounds: vi.fn(), setView: vi.fn() }),
+}));
+
+function zoneData(locationName: string, source: ScanResult['source']): ScanResult {
+  return { source, locationName, summary: '', agencies: [], trunkedSystems: [] };
+}
+
+const square = (lng: number): CountyBoundary => ({
+  geoid: String(lng),
+  name: 'County',
+  stateFips: '08',
+  geometry: { type: 'Polygon', coordinates: [[[lng, 39.5], [lng + 1, 39.5], [lng + 1, 40.5], [lng, 40.5], [lng, 39.5]]] },
+});
+
+const trip: TripResult = {
+  startLocation: 'Start',
+  endLocation: 'End',
+  locations: [
+    { locationName: 'West County, CO', coords: { lat: 40, lng: -104.5 }, data: zoneData('West County, CO', 'API') },
+    { locationName: 'Middle County, CO', coords: { lat: 40, lng: -103.5 }, data: zoneData('Middle County, CO', 'AI') },
+    { locationName: 'East County, KS', coords: { lat: 40, lng: -102.5 }, data: zoneData('East County, KS', 'Cache') },
+  ],
+  route: { provider: 'mock', distanceMiles: 106, durationMinutes: 116, path: [{ lat: 40, lng: -105 }, { lat: 40, lng: -102 }] },
+};
+
+const shared: SharedSystem[] = [{ key: 'trunked:statewide', kind: 'trunked', label: 'Statewide P25', zones: [0, 2] }];
+
+describe('trip map smoke', () => {
+  beforeEach(() => {
+    // The middle county outline failed to load; it falls back to a point.
+    fetchCountyBoundaries.mockReset().mockResolvedValue([square(-105), null, square(-103)]);
+  });
+
+  it('draws county outlines colored by data source and opens a zone on click', async () => {
+    const onSelectZone = vi.fn();
+    const { TripMap } = await import('../components/TripMap');
+    render(<TripMap trip={trip} sharedSystems={shared} selectedZone={null} onSelectZone={onSelectZone} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('zone-polygon')).toHaveLength(2));
+    expect(fetchCountyBoundaries).toHaveBeenCalledWith(trip.locations.map((loc) => loc.coords), expect.anything());
+    expect(screen.getByTestId('route-line')).toBeInTheDocument();
+
+    const [west, east] = screen.getAllByTestId('zone-polygon');
+    expect(west).toHaveAttribute('data-fill', '#10b981');
+    expect(east).toHaveAttribute('data-fill', '#a855f7');
+    expect(screen.getByTestId('zone-point')).toHaveAttribute('data-fill', '#f59e0b');
+    expect(screen.getByText('RadioReference')).toBeInTheDocument();
+
+    fireEvent.click(east);
+    expect(onSelectZone).toHaveBeenCalledWith(2);
+  });
+
+  it('highlights every zone a shared system spans', async () => {
+    const { TripMap } = await import('../components/TripMap');
+    render(<TripMap trip={trip} sharedSystems={shared} selectedZone={null} onSelectZone={() => {}} />);
+    await waitFor(() => expect(screen.getAllByTestId('zone-polygon')).toHaveLength(2));
+
+    const chip = screen.getByRole('button', { name: /statewide p25/i });
+    fireEvent.click(chip);
+
+    expect(chip).toHaveAttribute('aria-pressed', 'true');
+    screen.getAllByTestId('zone-polygon').forEach((polygon) => {
+      expect(polygon).toHaveAttribute('data-color', '#22d3ee');
+      expect(polygon).toHaveAttribute('data-dash', '6 4');
+    });
+    expect(screen.getByTestId('zone-point')).toHaveAttribute('data-dash', '');
+  });
+});
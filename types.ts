@@ -9,8 +9,18 @@ export interface Frequency {
   colorCode?: string; // DMR Color Code
   ran?: string; // NXDN RAN
   nac?: string; // P25 NAC
+  toneInfo?: ToneInfo; // Structured tone/NAC/CC/RAN, filled in at ingest
 }
 
+export type ToneInfo =
+  | { kind: 'none' } // carrier squelch
+  | { kind: 'ctcss'; hz: string } // "100.0"
+  | { kind: 'dcs'; code: string; inverted: boolean } // "023"
+  | { kind: 'nac'; nac: string } // 3 hex digits, "293"
+  | { kind: 'colorCode'; colorCode: number } // DMR 0-15
+  | { kind: 'ran'; ran: number } // NXDN 0-63
+  | { kind: 'unknown'; raw: string }; // present but not a valid code
+
 export interface Agency {
   name: string;
   category: string;
@@ -36,11 +46,33 @@ export interface TrunkedSystemFreq {
   use?: string; // e.g. "Control", "Alt", "Voice"
 }
 
+export type TrunkedSiteChannelUse = 'control' | 'alternate' | 'voice';
+
+export interface TrunkedSiteChannel {
+  freq: string;
+  use: TrunkedSiteChannelUse;
+  lcn?: number;
+}
+
+export interface TrunkedSite {
+  siteNumber?: string; // RR site number, e.g. "001"
+  name: string;
+  rfss?: string;
+  nac?: string;
+  countyId?: string; // RR ctid the site sits in
+  lat?: number;
+  lon?: number;
+  rangeMiles?: number;
+  channels: TrunkedSiteChannel[];
+}
+
 export interface TrunkedSystem {
+  sid?: string; // RR system id, when the system came from RadioReference
   name: string;
   type: string;
   location: string;
-  frequencies: TrunkedSystemFreq[];
+  frequencies: TrunkedSystemFreq[]; // Primary site, flattened
+  sites?: TrunkedSite[]; // Every known site, when the source provides them
   talkgroups: Talkgroup[];
   origin?: 'RR' | 'AI'; // Track source of data
 }
@@ -60,18 +92,52 @@ export interface ScanResult {
   crossRef?: CrossRefData;
   agencies: Agency[];
   trunkedSystems: TrunkedSystem[];
+  statewide?: StatewideSection; // RR county searches: the state's own agencies and systems
   dataQualityWarnings?: string[]; // Set post-merge when AI data has suspicious values
+  truncated?: boolean; // RR rate limit stopped the lookup before every subcategory and system was fetched
+}
+
+// State Police, DOT, DNR, statewide interop and statewide trunked systems,
+// kept apart from the county's own listings.
+export interface StatewideSection {
+  name: string; // e.g. "TN Statewide"
+  stateCode?: string;
+  agencies: Agency[];
+  trunkedSystems: TrunkedSystem[];
 }
 
 export interface TripLocation {
   locationName: string;
   data: ScanResult;
+  // Route-based trips only: where along the route this zone starts.
+  entryMile?: number;
+  exitMile?: number; // Last mile inside the zone (a re-entered county spans its passes)
+  distanceMiles?: number; // Miles driven inside the zone
+  etaMinutes?: number; // Minutes from departure to the zone boundary
+  coords?: { lat: number, lng: number };
+  zips?: string[]; // ZIPs the route passes through inside the zone, in order
+}
+
+export interface TripRoute {
+  provider: string; // 'osrm' | 'mock' | 'file'
+  distanceMiles: number;
+  durationMinutes: number;
+  path: Array<{ lat: number, lng: number }>;
 }
 
 export interface TripResult {
   startLocation: string;
   endLocation: string;
   locations: TripLocation[];
+  route?: TripRoute; // Absent on AI-planned trips
+}
+
+export interface CountyBoundary {
+  geoid: string; // Census state+county FIPS, e.g. "08031"
+  name: string; // "Denver County"
+  stateFips: string;
+  // GeoJSON Polygon or MultiPolygon in lng/lat order, generalized for display
+  geometry: { type: 'Polygon' | 'MultiPolygon'; coordinates: number[][][] | number[][][][] };
 }
 
 export interface GroundingChunk {
@@ -107,6 +173,16 @@ export interface SearchMeta {
   aiRetriesUsed?: number;
   /** Number of retry attempts used by the RadioReference fetch. */
   rrRetriesUsed?: number;
+  /** Canonical search_cache key; history snapshots are recorded under it. */
+  cacheKey?: string;
+  /** Every equivalent search_cache key (canonical first), for restoring a snapshot. */
+  cacheKeys?: string[];
+  /** Set when a pinned snapshot kept this run from replacing the cached result. */
+  pinnedSnapshotAt?: string;
+  /** Served from the on-device store because the network was unavailable. */
+  servedOffline?: boolean;
+  /** When the on-device copy was saved. */
+  offlineSavedAt?: string;
 }
 
 export interface SearchResponse {
@@ -0,0 +1,111 @@
+import type { Frequency, ScanResult } from '../types';
+
+/**
+ * US band plan used to name a frequency's band and to know what modulation
+ * and channel step to expect there. Exporters use it for missing modes,
+ * search validation uses it to flag AI rows that cannot be right (FM on the
+ * aircraft band), and the results view shows the band name.
+ */
+
+export type BandModulation = 'AM' | 'FM' | 'NFM' | 'WFM';
+
+export interface BandPlanEntry {
+  id: string;
+  name: string;
+  lo: number; // MHz, inclusive
+  hi: number; // MHz, inclusive
+  mode: BandModulation;
+  stepKhz: number;
+}
+
+// Narrow allocations come before the wide bands they sit inside, so the
+// first match is always the most specific one.
+export const US_BAND_PLAN: BandPlanEntry[] = [
+  { id: 'cb', name: 'CB', lo: 26.965, hi: 27.405, mode: 'AM', stepKhz: 10 },
+  { id: 'ham-10m', name: '10m Ham', lo: 28.0, hi: 29.7, mode: 'FM', stepKhz: 10 },
+  { id: 'ham-6m', name: '6m Ham', lo: 50.0, hi: 54.0, mode: 'FM', stepKhz: 5 },
+  { id: 'vhf-low', name: 'VHF Low', lo: 25.0, hi: 50.0, mode: 'FM', stepKhz: 5 },
+  { id: 'broadcast-fm', name: 'FM Broadcast', lo: 88.0, hi: 108.0, mode: 'WFM', stepKhz: 200 },
+  { id: 'aircraft', name: 'Aircraft', lo: 108.0, hi: 137.0, mode: 'AM', stepKhz: 25 },
+  { id: 'ham-2m', name: '2m Ham', lo: 144.0, hi: 148.0, mode: 'FM', stepKhz: 5 },
+  { id: 'murs', name: 'MURS', lo: 151.82, hi: 151.94, mode: 'NFM', stepKhz: 60 },
+  { id: 'murs', name: 'MURS', lo: 154.57, hi: 154.6, mode: 'FM', stepKhz: 30 },
+  { id: 'marine', name: 'Marine VHF', lo: 156.0, hi: 157.425, mode: 'FM', stepKhz: 25 },
+  { id: 'marine', name: 'Marine VHF', lo: 160.6, hi: 162.0, mode: 'FM', stepKhz: 25 },
+  { id: 'noaa', name: 'NOAA Weather', lo: 162.4, hi: 162.55, mode: 'FM', stepKhz: 25 },
+  { id: 'vhf-high', name: 'VHF High', lo: 137.0, hi: 174.0, mode: 'NFM', stepKhz: 2.5 },
+  { id: 'ham-220', name: '1.25m Ham', lo: 222.0, hi: 225.0, mode: 'FM', stepKhz: 5 },
+  { id: '220', name: '220 MHz', lo: 216.0, hi: 222.0, mode: 'NFM', stepKhz: 5 },
+  { id: 'mil-air', name: 'Military Aircraft', lo: 225.0, hi: 400.0, mode: 'AM', stepKhz: 25 },
+  { id: 'federal-uhf', name: 'Federal UHF', lo: 406.0, hi: 420.0, mode: 'NFM', stepKhz: 12.5 },
+  { id: 'ham-70cm', name: '70cm Ham', lo: 420.0, hi: 450.0, mode: 'FM', stepKhz: 25 },
+  { id: 'gmrs-frs', name: 'GMRS/FRS', lo: 462.55, hi: 462.725, mode: 'FM', stepKhz: 12.5 },
+  { id: 'gmrs-frs', name: 'GMRS/FRS', lo: 467.5625, hi: 467.725, mode: 'NFM', stepKhz: 12.5 },
+  { id: 'uhf', name: 'UHF', lo: 450.0, hi: 470.0, mode: 'NFM', stepKhz: 6.25 },
+  { id: 't-band', name: 'UHF T-Band', lo: 470.0, hi: 512.0, mode: 'NFM', stepKhz: 6.25 },
+  { id: '700', name: '700 MHz', lo: 758.0, hi: 806.0, mode: 'NFM', stepKhz: 6.25 },
+  { id: '800', name: '800 MHz', lo: 806.0, hi: 870.0, mode: 'NFM', stepKhz: 6.25 },
+  { id: '900', name: '900 MHz', lo: 896.0, hi: 902.0, mode: 'NFM', stepKhz: 12.5 },
+  { id: 'ham-33cm', name: '33cm Ham', lo: 902.0, hi: 928.0, mode: 'FM', stepKhz: 12.5 },
+  { id: '900', name: '900 MHz', lo: 928.0, hi: 960.0, mode: 'NFM', stepKhz: 12.5 },
+  { id: 'ham-23cm', name: '23cm Ham', lo: 1240.0, hi: 1300.0, mode: 'FM', stepKhz: 25 },
+];
+
+const DIGITAL_MODE = /P25|DMR|TRBO|NXDN|D-?STAR|YSF|FUSION|DIGITAL/i;
+
+/** The most specific band a frequency (MHz, number or string) falls in, or null. */
+export function bandFor(freq: string | number): BandPlanEntry | null {
+  const mhz = typeof freq === 'number' ? freq : Number.parseFloat(freq);
+  if (!Number.isFinite(mhz)) return null;
+  return US_BAND_PLAN.find(b => mhz >= b.lo && mhz <= b.hi) || null;
+}
+
+/** Modulation the band plan expects at a frequency; NFM when it is off-plan. */
+export function expectedModeFor(freq: string | number): BandModulation {
+  return bandFor(freq)?.mode || 'NFM';
+}
+
+/** Normalizes free-form mode text to an analog modulation, or null for digital/unknown. */
+export function analogModulationOf(mode: string | undefined): BandModulation | null {
+  const m = (mode || '').trim().toUpperCase();
+  if (!m || DIGITAL_MODE.test(m)) return null;
+  if (/^AM\b/.test(m)) return 'AM';
+  if (/NFM|FMN|NARROW/.test(m)) return 'NFM';
+  if (/WFM|FMW|BROADCAST/.test(m)) return 'WFM';
+  if (/\bFM\b/.test(m)) return 'FM';
+  return null;
+}
+
+/**
+ * Why a channel's frequency/mode pair cannot be right, or null when it is
+ * plausible. Only flags clear conflicts: the AM aviation bands carry no FM
+ * or digital voice, and AM does not appear outside them, CB and ham bands.
+ */
+export function implausibleReason(freq: Pick<Frequency, 'freq' | 'mode'>): string | null {
+  const band = bandFor(freq.freq);
+  if (!band) return `${freq.freq} MHz is outside the US band plan`;
+
+  const analog = analogModulationOf(freq.mode);
+  const digital = DIGITAL_MODE.test(freq.mode || '');
+  if (band.mode === 'AM' && (digital || (analog && analog !== 'AM'))) {
+    return `${(freq.mode || '').toUpperCase()} on the ${band.name} band, which is AM only`;
+  }
+  if (band.mode !== 'AM' && analog === 'AM' && !band.id.startsWith('ham-')) {
+    return `AM on the ${band.name} band, which is FM`;
+  }
+  return null;
+}
+
+/** Fills in `mode` from the band plan wherever a channel has none. Returns how many were filled. */
+export function fillMissingModes(result: ScanResult): number {
+  let filled = 0;
+  for (const agency of result.agencies || []) {
+    for (const freq of agency.frequencies || []) {
+      if (!(freq.mode || '').trim() && bandFor(freq.freq)) {
+        freq.mode = expectedModeFor(freq.freq);
+        filled++;
+      }
+    }
+  }
+  return filled;
+}
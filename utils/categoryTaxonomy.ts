@@ -0,0 +1,380 @@
+import type { ServiceType } from '../types';
+
+/**
+ * Single category taxonomy shared by search filtering, RadioReference
+ * parsing and every exporter. RR category/subcategory names, AI category
+ * strings and talkgroup tags all resolve through here to one of our 18
+ * ServiceTypes, a Uniden numeric service type and a CHIRP comment tag.
+ */
+
+/** Uniden service type ids with the names Sentinel and the radios display. */
+export const UNIDEN_SERVICE_TYPES: Record<number, string> = {
+  1: 'Multi Dispatch',
+  2: 'Law Dispatch',
+  3: 'Fire Dispatch',
+  4: 'EMS Dispatch',
+  6: 'Multi Tac',
+  7: 'Law Tac',
+  8: 'Fire-Tac',
+  9: 'EMS-Tac',
+  11: 'Interop',
+  12: 'Hospital',
+  13: 'Ham',
+  14: 'Public Works',
+  15: 'Aircraft',
+  16: 'Federal',
+  17: 'Business',
+  20: 'Railroad',
+  21: 'Other',
+  22: 'Multi-Talk',
+  23: 'Law Talk',
+  24: 'Fire-Talk',
+  25: 'EMS-Talk',
+  26: 'Transportation',
+  29: 'Emergency Ops',
+  30: 'Military',
+  31: 'Media',
+  32: 'Schools',
+  33: 'Security',
+  34: 'Utilities',
+  37: 'Corrections',
+  208: 'Custom 1',
+  209: 'Custom 2',
+  210: 'Custom 3',
+  211: 'Custom 4',
+  212: 'Custom 5',
+  213: 'Custom 6',
+  214: 'Custom 7',
+  215: 'Custom 8',
+};
+
+export const UNIDEN_OTHER_SERVICE_TYPE = 21;
+
+/** RadioReference tag ids, as used by getSubcatFreqs / getTrsTalkgroups. */
+export const RR_TAGS: Record<number, string> = {
+  1: 'Law Dispatch',
+  2: 'Law Talk',
+  3: 'Law Tactical',
+  4: 'Fire Dispatch',
+  5: 'Fire Talk',
+  6: 'Fire Tactical',
+  7: 'EMS Dispatch',
+  8: 'EMS Talk',
+  9: 'EMS Tactical',
+  10: 'Hospital',
+  11: 'Ham',
+  12: 'Public Works',
+  14: 'Transportation',
+  15: 'Military',
+  16: 'Federal',
+  18: 'Corrections',
+  20: 'Schools',
+  21: 'Security',
+  22: 'Utilities',
+  23: 'Air',
+  25: 'Railroad',
+  26: 'Marine',
+  29: 'Business',
+  30: 'Multi-Dispatch',
+};
+
+export interface ServiceCategory {
+  service: ServiceType;
+  /** Uniden service type for dispatch traffic in this category. */
+  unidenServiceType: number;
+  /** Uniden types for tactical / talk-around traffic, where the radio has them. */
+  unidenTac?: number;
+  unidenTalk?: number;
+  /** Short tag prefixed to CHIRP comments. */
+  chirpTag: string;
+  rrTagIds: number[];
+  /** Words that identify a name as belonging to this category. */
+  classifyKeywords: string[];
+  /** Broader words used when filtering results by a selected service. */
+  filterKeywords: string[];
+}
+
+export const SERVICE_CATEGORIES: Record<ServiceType, ServiceCategory> = {
+  'Police': {
+    service: 'Police',
+    unidenServiceType: 2,
+    unidenTac: 7,
+    unidenTalk: 23,
+    chirpTag: 'LAW',
+    rrTagIds: [1, 2, 3],
+    classifyKeywords: ['police', 'sheriff', 'law'],
+    filterKeywords: ['law', 'police', 'sheriff', 'patrol', 'trooper', 'marshal', 'constable', 'detective', 'fbi', 'dea', 'atf'],
+  },
+  'Fire': {
+    service: 'Fire',
+    unidenServiceType: 3,
+    unidenTac: 8,
+    unidenTalk: 24,
+    chirpTag: 'FIRE',
+    rrTagIds: [4, 5, 6],
+    classifyKeywords: ['fire', 'rescue'],
+    filterKeywords: ['fire', 'rescue', 'engine', 'ladder', 'battalion', 'hazmat'],
+  },
+  'EMS': {
+    service: 'EMS',
+    unidenServiceType: 4,
+    unidenTac: 9,
+    unidenTalk: 25,
+    chirpTag: 'EMS',
+    rrTagIds: [7, 8, 9],
+    classifyKeywords: ['ems', 'medic', 'paramedic', 'ambulance'],
+    filterKeywords: ['ems', 'medic', 'ambulance', 'hospital', 'paramedic', 'life flight', 'rescue'],
+  },
+  'Federal': {
+    service: 'Federal',
+    unidenServiceType: 16,
+    chirpTag: 'FED',
+    rrTagIds: [16],
+    classifyKeywords: ['federal'],
+    filterKeywords: ['federal', 'fed', 'govt', 'government', 'us ', 'u.s.', 'forest service', 'park service', 'blm', 'fbi', 'tsa', 'customs', 'border patrol', 'ice ', 'dhs'],
+  },
+  'Public Works': {
+    service: 'Public Works',
+    unidenServiceType: 14,
+    chirpTag: 'PW',
+    rrTagIds: [12],
+    classifyKeywords: ['public works'],
+    filterKeywords: ['public works', 'dpw', 'street', 'road', 'highway', 'transportation', 'dot ', 'sanitation', 'garbage', 'trash', 'recycling', 'water', 'sewer', 'utility', 'engineering', 'maintenance'],
+  },
+  'Ham Radio': {
+    service: 'Ham Radio',
+    unidenServiceType: 13,
+    chirpTag: 'HAM',
+    rrTagIds: [11],
+    classifyKeywords: ['ham', 'amateur'],
+    filterKeywords: ['ham', 'amateur', 'repeater', 'ares', 'races', 'skywarn'],
+  },
+  'Railroad': {
+    service: 'Railroad',
+    unidenServiceType: 20,
+    chirpTag: 'RAIL',
+    rrTagIds: [25],
+    classifyKeywords: ['railroad', 'rail'],
+    filterKeywords: ['rail', 'train', 'locomotive', 'yard', 'conductor', 'union pacific', 'bnsf', 'csx', 'amtrak'],
+  },
+  'Air': {
+    service: 'Air',
+    unidenServiceType: 15,
+    chirpTag: 'AIR',
+    rrTagIds: [23],
+    classifyKeywords: ['air', 'aviation'],
+    filterKeywords: ['air', 'aviation', 'control tower', 'approach', 'departure', 'ground', 'unicom', 'airport', 'pilot'],
+  },
+  'Marine': {
+    service: 'Marine',
+    unidenServiceType: UNIDEN_OTHER_SERVICE_TYPE,
+    chirpTag: 'MAR',
+    rrTagIds: [26],
+    classifyKeywords: ['marine'],
+    filterKeywords: ['marine', 'coast', 'boat', 'ship', 'vessel', 'port', 'harbor', 'marina'],
+  },
+  'Utilities': {
+    service: 'Utilities',
+    unidenServiceType: 34,
+    chirpTag: 'UTIL',
+    rrTagIds: [22],
+    classifyKeywords: ['utility', 'utilities', 'power'],
+    filterKeywords: ['utilit', 'power', 'electric', 'gas', 'energy', 'water', 'sewer', 'cable', 'internet', 'phone'],
+  },
+  'Military': {
+    service: 'Military',
+    unidenServiceType: 30,
+    chirpTag: 'MIL',
+    rrTagIds: [15],
+    classifyKeywords: ['military'],
+    filterKeywords: ['military', 'army', 'navy', 'air force', 'marines', 'coast guard', 'national guard', 'base', 'fort', 'camp ', 'afb', 'defense', 'squadron', 'wing'],
+  },
+  'Transportation': {
+    service: 'Transportation',
+    unidenServiceType: 26,
+    chirpTag: 'TRANS',
+    rrTagIds: [14],
+    classifyKeywords: ['transport'],
+    filterKeywords: ['transport', 'transit', 'bus', 'taxi', 'shuttle', 'metro', 'subway', 'airport', 'uber', 'lyft', 'limo'],
+  },
+  'Business': {
+    service: 'Business',
+    unidenServiceType: 17,
+    chirpTag: 'BUS',
+    rrTagIds: [29],
+    classifyKeywords: ['business'],
+    filterKeywords: ['business', 'commercial', 'mall', 'store', 'shop', 'factory', 'plant', 'warehouse', 'hotel', 'motel', 'casino', 'resort', 'logistics', 'security'],
+  },
+  'Hospitals': {
+    service: 'Hospitals',
+    unidenServiceType: 12,
+    chirpTag: 'HOSP',
+    rrTagIds: [10],
+    classifyKeywords: ['hospital'],
+    filterKeywords: ['hospital', 'medical', 'clinic', 'center', 'health', 'care', 'nursing', 'trauma', 'er ', 'emergency room'],
+  },
+  'Schools': {
+    service: 'Schools',
+    unidenServiceType: 32,
+    chirpTag: 'SCHL',
+    rrTagIds: [20],
+    classifyKeywords: ['school'],
+    filterKeywords: ['school', 'university', 'college', 'campus', 'district', 'education', 'academy', 'student', 'faculty', 'bus barn'],
+  },
+  'Corrections': {
+    service: 'Corrections',
+    unidenServiceType: 37,
+    chirpTag: 'CORR',
+    rrTagIds: [18],
+    classifyKeywords: ['correction', 'prison', 'jail'],
+    filterKeywords: ['correction', 'prison', 'jail', 'detention', 'penitentiary', 'warden', 'inmate', 'justice center'],
+  },
+  'Security': {
+    service: 'Security',
+    unidenServiceType: 33,
+    chirpTag: 'SEC',
+    rrTagIds: [21],
+    classifyKeywords: ['security'],
+    filterKeywords: ['security', 'patrol', 'guard', 'protection', 'loss prevention', 'safety'],
+  },
+  'Multi-Dispatch': {
+    service: 'Multi-Dispatch',
+    unidenServiceType: 1,
+    unidenTac: 6,
+    unidenTalk: 22,
+    chirpTag: 'MULTI',
+    rrTagIds: [30],
+    classifyKeywords: ['multi'],
+    // Catch-all for dispatch centers that handle multiple agencies
+    filterKeywords: ['dispatch', 'communication', '911', 'center', 'interop'],
+  },
+};
+
+export const ALL_SERVICE_TYPES = Object.keys(SERVICE_CATEGORIES) as ServiceType[];
+
+/**
+ * Order in which classification is attempted; earlier entries win when a
+ * name matches several categories (e.g. "Fire/EMS" is Fire).
+ */
+const CLASSIFY_ORDER: ServiceType[] = [
+  'Multi-Dispatch',
+  'Police',
+  'Fire',
+  'EMS',
+  'Federal',
+  'Military',
+  'Air',
+  'Marine',
+  'Railroad',
+  'Ham Radio',
+  'Public Works',
+  'Utilities',
+  'Transportation',
+  'Hospitals',
+  'Schools',
+  'Corrections',
+  'Security',
+  'Business',
+];
+
+// Keywords match at the start of a word so "Systems" is not EMS and "Repair" is not Air
+function startsWord(text: string, word: string): boolean {
+  let idx = text.indexOf(word);
+  while (idx !== -1) {
+    if (idx === 0 || !/[a-z0-9]/.test(text[idx - 1])) return true;
+    idx = text.indexOf(word, idx + 1);
+  }
+  return false;
+}
+
+function classifyText(text: string, order: ServiceType[]): ServiceType | null {
+  for (const service of order) {
+    if (SERVICE_CATEGORIES[service].classifyKeywords.some(word => startsWord(text, word))) {
+      return service;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a category, subcategory, AI category string or tag to one of our
+ * ServiceTypes. Names are tried in order, so an agency category outranks a
+ * per-channel tag. Returns null when nothing matches.
+ */
+export function classifyService(...names: Array<string | undefined>): ServiceType | null {
+  for (const name of names) {
+    const text = (name || '').toLowerCase();
+    if (!text.trim()) continue;
+
+    const service = classifyText(text, CLASSIFY_ORDER);
+    if (service) return service;
+  }
+  return null;
+}
+
+const RR_CATEGORY_ORDER: ServiceType[] = [...CLASSIFY_ORDER.filter(s => s !== 'Multi-Dispatch'), 'Multi-Dispatch'];
+
+/**
+ * Buckets an RR county category/subcategory pair. Both names are read as
+ * one, and Multi-Dispatch only applies when no single service matches, so
+ * "Multi-Agency" / "Sheriff/Police Dispatch" stays Police as it always has.
+ */
+export function classifyRRCategory(catName: string | undefined, subcatName: string | undefined): ServiceType | null {
+  const text = `${catName || ''} ${subcatName || ''}`.toLowerCase();
+  return text.trim() ? classifyText(text, RR_CATEGORY_ORDER) : null;
+}
+
+/**
+ * True when a category string belongs to the given service for filtering.
+ * Deliberately looser than classifyService: "rescue" counts as both Fire and EMS.
+ */
+export function matchesService(category: string, service: ServiceType | string): boolean {
+  const c = category.toLowerCase();
+  const key = service.toLowerCase();
+  const entry = ALL_SERVICE_TYPES.find(s => s.toLowerCase() === key);
+
+  if (entry && SERVICE_CATEGORIES[entry].filterKeywords.some(word => c.includes(word))) {
+    return true;
+  }
+  // Direct strict check as a fallback
+  return c.includes(key);
+}
+
+/**
+ * Uniden numeric service type for a channel or talkgroup. The tag refines
+ * dispatch into tactical / talk types and picks up interop, EOC and media.
+ */
+export function unidenServiceTypeFor(category?: string, tag?: string): number {
+  const t = (tag || '').toLowerCase();
+  if (t.includes('interop')) return 11;
+  if (t.includes('emergency op') || /\beoc\b/.test(t)) return 29;
+  if (t.includes('media') || t.includes('news')) return 31;
+
+  const service = classifyService(category, tag);
+  if (!service) return UNIDEN_OTHER_SERVICE_TYPE;
+
+  const entry = SERVICE_CATEGORIES[service];
+  if (entry.unidenTac && /\btac/.test(t)) return entry.unidenTac;
+  if (entry.unidenTalk && /\btalk/.test(t)) return entry.unidenTalk;
+  return entry.unidenServiceType;
+}
+
+export function unidenServiceLabelFor(category?: string, tag?: string): string {
+  return UNIDEN_SERVICE_TYPES[unidenServiceTypeFor(category, tag)];
+}
+
+export function chirpTagFor(category?: string, tag?: string): string {
+  const service = classifyService(category, tag);
+  return service ? SERVICE_CATEGORIES[service].chirpTag : 'OTH';
+}
+
+export function rrTagIdsForService(service: string): number[] {
+  const key = service.toLowerCase();
+  // RR's own wording is "Hospital"; the app says "Hospitals"
+  const entry = ALL_SERVICE_TYPES.find(s => s.toLowerCase() === key || (key === 'hospital' && s === 'Hospitals'));
+  return entry ? SERVICE_CATEGORIES[entry].rrTagIds : [];
+}
+
+export function rrTagName(tagId: number | string): string {
+  return RR_TAGS[Number(tagId)] ?? 'Other';
+}
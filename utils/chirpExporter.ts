@@ -6,7 +6,11 @@
  * Format spec: https://chirp.danplanet.com/projects/chirp/wiki/MemoryEditorColumns
  */
 
-import { ScanResult, Agency } from '../types';
+import { ScanResult, Frequency } from '../types';
+import { analogModulationOf, expectedModeFor } from './bandPlan';
+import { chirpTagFor } from './categoryTaxonomy';
+import { analogToneOf, digitalModeOf } from './exporters/shared';
+import { formatTone, toneOf } from './tones';
 
 export type ExportResult =
   | { ok: true; filename: string; count: number }
@@ -35,10 +39,9 @@ function formatFreq(raw: string): string {
   return n.toFixed(6);
 }
 
-function inferMode(freqMhz: number): string {
-  // P25 systems commonly operated in NFM bandwidth channels on UHF/700/800
-  if (freqMhz >= 380) return 'NFM';
-  return 'FM';
+function inferMode(freqMhz: number, mode?: string): string {
+  // Keep an explicit analog mode; otherwise use what the band plan expects there
+  return analogModulationOf(mode) || expectedModeFor(freqMhz);
 }
 
 function agencyShortName(name: string): string {
@@ -53,7 +56,71 @@ function agencyShortName(name: string): string {
   return abbrev;
 }
 
-export function exportChirpCSV(data: ScanResult): ExportResult {
+// US repeater output sub-bands (MHz) and the input offset each one uses
+const REPEATER_BANDS: Array<{ lo: number; hi: number; offset: number }> = [
+  { lo: 51.62, hi: 51.98, offset: -0.5 },
+  { lo: 52.5, hi: 52.98, offset: -0.5 },
+  { lo: 53.0, hi: 53.98, offset: -1.0 },
+  { lo: 145.1, hi: 145.5, offset: -0.6 },
+  { lo: 146.61, hi: 146.99, offset: -0.6 },
+  { lo: 147.0, hi: 147.39, offset: 0.6 },
+  { lo: 147.6, hi: 147.99, offset: -0.6 },
+  { lo: 223.85, hi: 224.98, offset: -1.6 },
+  { lo: 442.0, hi: 445.0, offset: 5.0 },
+  { lo: 447.0, hi: 450.0, offset: -5.0 },
+  { lo: 462.55, hi: 462.725, offset: 5.0 }, // GMRS
+  { lo: 927.0, hi: 928.0, offset: -25.0 },
+];
+
+// Amateur allocations where simplex transmit is fine
+const AMATEUR_BANDS: Array<[number, number]> = [[50, 54], [144, 148], [222, 225], [420, 450], [902, 928]];
+
+/**
+ * Duplex/Offset columns. Repeater outputs get their standard split, amateur
+ * simplex stays blank, and everything else is receive-only ("off") since
+ * public-safety and business channels are monitor-only on these radios.
+ */
+function duplexFor(freqMhz: number): { duplex: '' | '+' | '-' | 'off'; offset: string } {
+  const band = REPEATER_BANDS.find(b => freqMhz >= b.lo && freqMhz <= b.hi);
+  if (band) return { duplex: band.offset > 0 ? '+' : '-', offset: Math.abs(band.offset).toFixed(6) };
+  if (AMATEUR_BANDS.some(([lo, hi]) => freqMhz >= lo && freqMhz <= hi)) return { duplex: '', offset: '0.000000' };
+  return { duplex: 'off', offset: '0.000000' };
+}
+
+/**
+ * Tone,rToneFreq,cToneFreq,DtcsCode,DtcsPolarity columns. Repeaters get
+ * encode-only "Tone" so the radio can key them up; monitored channels get
+ * "TSQL" so only the tone opens squelch. Digital channels carry no analog
+ * tone, and unused columns keep CHIRP's defaults.
+ */
+function toneColumns(freq: Frequency, repeater: boolean): string {
+  const tone = digitalModeOf(freq) ? null : analogToneOf(freq);
+  if (tone?.kind === 'ctcss') {
+    return repeater ? `Tone,${tone.hz},88.5,023,NN` : `TSQL,88.5,${tone.hz},023,NN`;
+  }
+  if (tone?.kind === 'dcs') {
+    const polarity = tone.inverted ? 'RR' : 'NN';
+    return `DTCS,88.5,88.5,${tone.code},${polarity}`;
+  }
+  return ',88.5,88.5,023,NN';
+}
+
+// CHIRP has no column for digital access codes, so keep them in the comment
+function digitalCodeNote(freq: Frequency): string {
+  const tone = toneOf(freq);
+  return digitalModeOf(freq) && (tone.kind === 'nac' || tone.kind === 'colorCode' || tone.kind === 'ran') ? formatTone(tone) : '';
+}
+
+export interface ChirpContent {
+  filename: string;
+  content: string;
+  count: number;
+}
+
+/**
+ * Builds CHIRP memory rows for a result; null when nothing is exportable.
+ */
+export function buildChirpCSV(data: ScanResult): ChirpContent | null {
   const rows: string[] = [CHIRP_HEADER];
   let location = 0;
 
@@ -64,16 +131,18 @@ export function exportChirpCSV(data: ScanResult): ExportResult {
       const freqStr = formatFreq(freq.freq);
       if (!freqStr) continue;
       const freqMhz = parseFloat(freq.freq);
-      const mode = inferMode(freqMhz);
+      const mode = inferMode(freqMhz, freq.mode);
+      const { duplex, offset } = duplexFor(freqMhz);
       const comment = defuseFormula(
-        [agency.name, freq.description, freq.alphaTag]
+        `[${chirpTagFor(agency.category, freq.tag)}] ` +
+        [agency.name, freq.description, freq.alphaTag, digitalCodeNote(freq)]
           .filter(Boolean)
           .join(' — ')
           .replace(/"/g, "'")
           .slice(0, 200)
       );
       rows.push(
-        `${location},${nameTag},${freqStr},,0.000000,,88.5,88.5,023,NN,${mode},5.00,,"${comment}",,,,`
+        `${location},${nameTag},${freqStr},${duplex},${offset},${toneColumns(freq, duplex === '+' || duplex === '-')},${mode},5.00,,"${comment}",,,,`
       );
       location++;
     }
@@ -90,20 +159,32 @@ export function exportChirpCSV(data: ScanResult): ExportResult {
       const mode = inferMode(freqMhz);
       const comment = defuseFormula(`${sys.name} Control Channel`.replace(/"/g, "'").slice(0, 200));
       rows.push(
-        `${location},${nameTag},${freqStr},,0.000000,,88.5,88.5,023,NN,${mode},5.00,,"${comment}",,,,`
+        `${location},${nameTag},${freqStr},off,0.000000,,88.5,88.5,023,NN,${mode},5.00,,"${comment}",,,,`
       );
       location++;
     }
   }
 
   if (location === 0) {
+    return null;
+  }
+
+  return {
+    filename: `${data.locationName.replace(/[^a-z0-9]/gi, '_')}_chirp.csv`,
+    content: rows.join('\n'),
+    count: location,
+  };
+}
+
+export function exportChirpCSV(data: ScanResult): ExportResult {
+  const built = buildChirpCSV(data);
+  if (!built) {
     return { ok: false, message: 'No frequencies to export in CHIRP format.' };
   }
 
-  const csv = rows.join('\n');
+  const { filename, content: csv, count } = built;
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   const a = document.createElement('a');
-  const filename = `${data.locationName.replace(/[^a-z0-9]/gi, '_')}_chirp.csv`;
   if (a.download === undefined || typeof URL.createObjectURL !== 'function') {
     return { ok: false, message: 'CHIRP export is not supported in this browser.' };
   }
@@ -125,5 +206,5 @@ export function exportChirpCSV(data: ScanResult): ExportResult {
     }
   }
 
-  return { ok: true, filename, count: location };
+  return { ok: true, filename, count };
 }
@@ -1,5 +1,8 @@
 
-import { ScanResult, TripResult } from '../types';
+import { ScanResult, TripResult, TrunkedSystem } from '../types';
+import { classifyService, unidenServiceTypeFor } from './categoryTaxonomy';
+import { distinctStatewideResults, statewideResult } from './statewide';
+import { dedupeTrunkedSystems } from './systemIdentity';
 
 export type ExportResult =
   | { ok: true; filename: string; count: number }
@@ -21,7 +24,9 @@ const CSV_HEADERS = [
   'Tone_NAC_CC',
   'Mode',
   'Alpha_Tag',
-  'Description'
+  'Description',
+  'Service_Type',
+  'Uniden_Service_Type'
 ];
 
 /**
@@ -43,13 +48,12 @@ const escapeCsv = (str: string | undefined): string => {
 };
 
 /**
- * Flattens a single ScanResult into CSV rows
+ * Conventional agency rows for one result
  */
-const processScanResult = (data: ScanResult): string[][] => {
+const processConventional = (data: ScanResult): string[][] => {
   const rows: string[][] = [];
   const location = data.locationName;
 
-  // 1. Process Conventional Agencies
   (data.agencies || []).forEach(agency => {
     (agency.frequencies || []).forEach(freq => {
       rows.push([
@@ -61,44 +65,115 @@ const processScanResult = (data: ScanResult): string[][] => {
         freq.tone || freq.nac || freq.colorCode || '',
         freq.mode,
         freq.alphaTag || '',
-        freq.description
+        freq.description,
+        classifyService(agency.category, freq.tag) || '',
+        String(unidenServiceTypeFor(agency.category, freq.tag))
       ]);
     });
   });
 
-  // 2. Process Trunked Systems
-  (data.trunkedSystems || []).forEach(sys => {
-    // Add Control Channels as rows (marked as Site Freqs)
-    if (sys.frequencies) {
-      sys.frequencies.forEach(f => {
+  return rows;
+};
+
+/**
+ * Site frequency and talkgroup rows for one trunked system. With `bySite`,
+ * every listed site gets its own rows instead of the flattened primary site.
+ */
+const processTrunkedSystem = (sys: TrunkedSystem, location: string, bySite = false): string[][] => {
+  const rows: string[][] = [];
+
+  // Add Control Channels as rows (marked as Site Freqs)
+  if (bySite && sys.sites && sys.sites.length > 0) {
+    sys.sites.forEach(site => {
+      site.channels.forEach(ch => {
         rows.push([
           location,
           'Trunked Site',
           sys.name,
-          sys.location, // Site Name
-          f.freq,
+          site.name,
+          ch.freq,
+          site.nac || '',
+          sys.type,
+          ch.use,
+          `Site Frequency (${ch.use})`,
           '',
-          sys.type, // Mode context
-          f.use || 'Control',
-          `Site Frequency (${f.use || 'Control'})`
+          ''
         ]);
       });
-    }
-
-    // Add Talkgroups
-    sys.talkgroups.forEach(tg => {
+    });
+  } else if (sys.frequencies) {
+    sys.frequencies.forEach(f => {
       rows.push([
         location,
-        'Trunked Talkgroup',
+        'Trunked Site',
         sys.name,
-        tg.tag || 'Talkgroup', // Department context
-        tg.dec,
-        tg.colorCode || '',
-        tg.mode,
-        tg.alphaTag,
-        tg.description
+        sys.location, // Site Name
+        f.freq,
+        '',
+        sys.type, // Mode context
+        f.use || 'Control',
+        `Site Frequency (${f.use || 'Control'})`,
+        '',
+        ''
       ]);
     });
+  }
+
+  // Add Talkgroups
+  sys.talkgroups.forEach(tg => {
+    rows.push([
+      location,
+      'Trunked Talkgroup',
+      sys.name,
+      tg.tag || 'Talkgroup', // Department context
+      tg.dec,
+      tg.colorCode || '',
+      tg.mode,
+      tg.alphaTag,
+      tg.description,
+      classifyService(tg.tag) || '',
+      String(unidenServiceTypeFor(undefined, tg.tag))
+    ]);
+  });
+
+  return rows;
+};
+
+/**
+ * Flattens a single ScanResult into CSV rows, with its statewide section
+ * last under its own Location label
+ */
+const processScanResult = (data: ScanResult): string[][] => {
+  const statewide = statewideResult(data);
+  return [data, ...(statewide ? [statewide] : [])].flatMap(result => [
+    ...processConventional(result),
+    ...(result.trunkedSystems || []).flatMap(sys => processTrunkedSystem(sys, result.locationName)),
+  ]);
+};
+
+/**
+ * Flattens a trip zone by zone, then each state's statewide section once.
+ * A trunked system seen in several zones is written once, after the zone
+ * it first appears in, with the union of the sites and talkgroups from
+ * every zone.
+ */
+const processTripResult = (trip: TripResult): string[][] => {
+  const stops = trip.locations || [];
+  const locations = [
+    ...stops,
+    ...distinctStatewideResults(stops.map(loc => loc.data)).map(data => ({ locationName: data.locationName, data })),
+  ];
+  const systems = dedupeTrunkedSystems(locations.map(loc => loc.data.trunkedSystems || []));
+  const rows: string[][] = [];
+
+  locations.forEach((loc, idx) => {
+    rows.push(...processConventional(loc.data));
+    systems
+      .filter(entry => entry.zones[0] === idx)
+      .forEach(entry => {
+        const location = entry.zones.map(z => locations[z].locationName).join(' / ');
+        rows.push(...processTrunkedSystem(entry.system, location, entry.zones.length > 1));
+      });
   });
 
   return rows;
@@ -135,10 +210,16 @@ const downloadCsv = (content: string, filename: string, count: number): ExportRe
   }
 };
 
+export interface CsvContent {
+  filename: string;
+  content: string;
+  count: number;
+}
+
 /**
- * Main Export Function
+ * Builds the CSV text for a single result or a whole trip without downloading it
  */
-export const generateCSV = (data: ScanResult | TripResult): ExportResult => {
+export const buildCSV = (data: ScanResult | TripResult): CsvContent => {
   let allRows: string[][] = [];
   let filename = 'scanner_data.csv';
 
@@ -148,10 +229,7 @@ export const generateCSV = (data: ScanResult | TripResult): ExportResult => {
     const trip = data as TripResult;
     filename = `Trip_${trip.startLocation}_to_${trip.endLocation}.csv`.replace(/\s+/g, '_');
 
-    trip.locations.forEach(loc => {
-      const locRows = processScanResult(loc.data);
-      allRows = [...allRows, ...locRows];
-    });
+    allRows = processTripResult(trip);
 
   } else {
     // It's a single ScanResult
@@ -161,12 +239,20 @@ export const generateCSV = (data: ScanResult | TripResult): ExportResult => {
   }
 
   // Combine Headers and Rows
-  const csvContent = [
+  const content = [
     CSV_HEADERS.join(','),
     ...allRows.map(row => row.map(escapeCsv).join(','))
   ].join('\n');
 
-  return downloadCsv(csvContent, filename, allRows.length);
+  return { filename, content, count: allRows.length };
+};
+
+/**
+ * Main Export Function
+ */
+export const generateCSV = (data: ScanResult | TripResult): ExportResult => {
+  const { filename, content, count } = buildCSV(data);
+  return downloadCsv(content, filename, count);
 };
 
 /**
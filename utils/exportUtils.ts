@@ -1,4 +1,5 @@
 import { ScanResult, Agency, Frequency } from "../types";
+import { unidenServiceLabelFor } from "./categoryTaxonomy";
 
 /**
  * Generates a tab-delimited string compatible with Uniden Sentinel "Paste" feature.
@@ -59,7 +60,7 @@ export function generateSentinelExport(data: ScanResult | null): string {
 
             // 5. Service Type
             // Map our category to Uniden Service Types
-            const serviceType = mapToUnidenServiceType(agency.category);
+            const serviceType = unidenServiceLabelFor(agency.category, freq.tag);
 
             // 6. Delay
             const delay = "2";
@@ -88,28 +89,3 @@ export function generateSentinelExport(data: ScanResult | null): string {
 
     return exportText;
 }
-
-function mapToUnidenServiceType(category: string): string {
-    const c = category.toLowerCase();
-
-    if (c.includes("police") || c.includes("law") || c.includes("sheriff")) return "Law Dispatch";
-    if (c.includes("fire")) return "Fire Dispatch";
-    if (c.includes("ems") || c.includes("medic")) return "EMS Dispatch";
-    if (c.includes("public works")) return "Public Works";
-    if (c.includes("multi")) return "Multi-Dispatch";
-    if (c.includes("rail")) return "Railroad";
-    if (c.includes("air")) return "Aviation";
-    if (c.includes("marine")) return "Marine";
-    if (c.includes("ham")) return "Ham Radio";
-    if (c.includes("school")) return "Schools";
-    if (c.includes("security")) return "Security";
-    if (c.includes("utility") || c.includes("power")) return "Utilities";
-    if (c.includes("hospital")) return "Hospital";
-    if (c.includes("trans")) return "Transportation";
-    if (c.includes("business")) return "Business";
-    if (c.includes("correction")) return "Corrections";
-    if (c.includes("federal")) return "Federal";
-    if (c.includes("military")) return "Military";
-
-    return "Custom 1"; // Default
-}
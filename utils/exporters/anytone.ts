@@ -0,0 +1,158 @@
+/**
+ * Anytone AT-D878UV channel and zone CSVs for the Anytone CPS
+ * (Tool > Import). Every channel is written receive-only with PTT
+ * prohibited. Contact "Local" and the first Radio ID must already exist
+ * in the codeplug; the CPS rejects rows that reference missing entries.
+ */
+
+import { formatTone } from '../tones';
+import { analogToneOf, digitalModeOf, exportBaseName, shortName, toMhz, zonesOf } from './shared';
+import type { ExportOutput, ExportSource } from './types';
+
+const NAME_MAX = 16;
+const MAX_CHANNELS = 4000;
+const MAX_ZONE_MEMBERS = 250;
+
+// The 878UV receives 136-174 and 400-480 MHz
+const BANDS: Array<[number, number]> = [[136, 174], [400, 480]];
+
+const CHANNEL_HEADER = [
+  'No.', 'Channel Name', 'Receive Frequency', 'Transmit Frequency', 'Channel Type', 'Transmit Power',
+  'Band Width', 'CTCSS/DCS Decode', 'CTCSS/DCS Encode', 'Contact', 'Contact Call Type', 'Contact TG/DMR ID',
+  'Radio ID', 'Busy Lock/TX Permit', 'Squelch Mode', 'Optional Signal', 'DTMF ID', '2Tone ID', '5Tone ID',
+  'PTT ID', 'Color Code', 'Slot', 'Scan List', 'Receive Group List', 'PTT Prohibit', 'Reverse',
+  'Simplex TDMA', 'Slot Suit', 'AES Digital Encryption', 'Digital Encryption', 'Call Confirmation',
+  'Talk Around(Simplex)', 'Work Alone', 'Custom CTCSS', '2TONE Decode', 'Ranging', 'Through Mode',
+  'APRS RX', 'Analog APRS PTT Mode', 'Digital APRS PTT Mode', 'APRS Report Type',
+  'Digital APRS Report Channel', 'Correct Frequency[Hz]', 'SMS Confirmation', 'Exclude channel from roaming',
+  'DMR MODE', 'DataACK Disable', 'R5toneBot', 'R5ToneEot',
+];
+
+const ZONE_HEADER = [
+  'No.', 'Zone Name', 'Zone Channel Member', 'Zone Channel Member RX Frequency', 'Zone Channel Member TX Frequency',
+  'A Channel', 'A Channel RX Frequency', 'A Channel TX Frequency', 'B Channel', 'B Channel RX Frequency', 'B Channel TX Frequency',
+];
+
+interface ZoneBucket {
+  name: string;
+  members: Array<{ name: string; freq: string }>;
+}
+
+const inBand = (mhz: number) => BANDS.some(([lo, hi]) => mhz >= lo && mhz <= hi);
+
+// The CPS quotes every field; formula characters are defused like the other exporters
+const quoted = (values: Array<string | number>) => values
+  .map(v => String(v))
+  .map(v => (/^[=+\-@]/.test(v) ? "'" + v : v))
+  .map(v => `"${v.replace(/"/g, '""')}"`)
+  .join(',');
+
+function uniqueName(base: string, used: Set<string>): string {
+  const root = base || 'CH';
+  let name = root;
+  for (let n = 2; used.has(name); n++) {
+    const suffix = ` ${n}`;
+    name = `${root.slice(0, NAME_MAX - suffix.length)}${suffix}`;
+  }
+  used.add(name);
+  return name;
+}
+
+export async function exportAnytoneCSV(data: ExportSource): Promise<ExportOutput> {
+  const channelLines = [quoted(CHANNEL_HEADER)];
+  const zones: ZoneBucket[] = [];
+  const warnings: string[] = [];
+  const usedNames = new Set<string>();
+  const isTrip = 'startLocation' in data;
+  let count = 0;
+
+  for (const zone of zonesOf(data)) {
+    const tripZone: ZoneBucket = { name: shortName(zone.name, NAME_MAX), members: [] };
+
+    for (const agency of zone.data.agencies || []) {
+      const agencyZone: ZoneBucket = { name: shortName(agency.name, NAME_MAX), members: [] };
+
+      for (const freq of agency.frequencies || []) {
+        const mhz = toMhz(freq.freq);
+        if (mhz === null || !inBand(mhz)) {
+          warnings.push(`${agency.name}: ${freq.freq} is outside the 878's receive bands.`);
+          continue;
+        }
+
+        const digital = digitalModeOf(freq);
+        if (digital === 'P25' || digital === 'NXDN') {
+          warnings.push(`${agency.name}: ${freq.freq} is ${digital}, which the 878 cannot decode.`);
+          continue;
+        }
+        if (count >= MAX_CHANNELS) {
+          warnings.push(`${agency.name}: ${freq.freq} skipped; the 878 holds ${MAX_CHANNELS} channels.`);
+          continue;
+        }
+
+        const tone = analogToneOf(freq);
+        const decode = tone ? formatTone(tone) : 'Off';
+        const wide = !digital && /\bFM\b/i.test(freq.mode) && !/NFM|FMN/i.test(freq.mode) && mhz < 300;
+        const colorCode = Math.min(15, Math.max(0, parseInt(freq.colorCode || '1', 10) || 0));
+        const rx = mhz.toFixed(5);
+        const name = uniqueName(shortName(freq.alphaTag || freq.description || agency.name, NAME_MAX), usedNames);
+
+        count++;
+        channelLines.push(quoted([
+          count, name, rx, rx, digital ? 'D-Digital' : 'A-Analog', 'Low',
+          wide ? '25K' : '12.5K', decode, 'Off', 'Local', 'Group Call', 9,
+          'My Radio', 'Off', 'Carrier', 'Off', 1, 1, 1,
+          'Off', colorCode, 1, 'None', 'None', 'On', 'Off',
+          'Off', 'Off', 'Normal Encryption', 'Off', 'Off',
+          'Off', 'Off', '251.1', 'Off', 'Off', 'Off',
+          'Off', 'Off', 'Off', 'Off',
+          1, 0, 'Off', 0,
+          1, 0, 0, 0,
+        ]));
+
+        const member = { name, freq: rx };
+        (isTrip ? tripZone : agencyZone).members.push(member);
+      }
+
+      if (!isTrip && agencyZone.members.length) zones.push(agencyZone);
+    }
+
+    if (isTrip && tripZone.members.length) zones.push(tripZone);
+
+    for (const system of zone.data.trunkedSystems || []) {
+      warnings.push(`${system.name}: trunked systems cannot be programmed into the 878.`);
+    }
+  }
+
+  const zoneLines = [quoted(ZONE_HEADER)];
+  let zoneNo = 0;
+  for (const zone of zones) {
+    // Split oversized zones so the CPS accepts them
+    for (let i = 0; i < zone.members.length; i += MAX_ZONE_MEMBERS) {
+      const members = zone.members.slice(i, i + MAX_ZONE_MEMBERS);
+      const part = ` ${i / MAX_ZONE_MEMBERS + 1}`;
+      const name = i === 0 ? zone.name : `${zone.name.slice(0, NAME_MAX - part.length)}${part}`;
+      const first = members[0];
+      zoneNo++;
+      zoneLines.push(quoted([
+        zoneNo,
+        name,
+        members.map(m => m.name).join('|'),
+        members.map(m => m.freq).join('|'),
+        members.map(m => m.freq).join('|'),
+        first.name, first.freq, first.freq,
+        first.name, first.freq, first.freq,
+      ]));
+    }
+  }
+
+  const base = exportBaseName(data);
+  return {
+    files: [
+      { filename: 'Channel.CSV', content: channelLines.join('\r\n'), mimeType: 'text/csv;charset=utf-8;' },
+      { filename: 'Zone.CSV', content: zoneLines.join('\r\n'), mimeType: 'text/csv;charset=utf-8;' },
+    ],
+    count,
+    warnings,
+    archiveName: `${base}_anytone878.zip`,
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Digital-aware codeplug export in the OpenGD77 CPS CSV layout
+ * (Channels / Contacts / TG_Lists / Zones), which most DMR handheld CPS
+ * tools and converters read. DMR channels carry color code and timeslot,
+ * DMR talkgroups become group-call contacts, and P25/NXDN channels go to a
+ * separate sheet with their NAC/RAN so nothing digital is silently dropped.
+ * Every channel is receive-only. Export_Report.txt lists what was missing.
+ */
+
+import type { Frequency, TrunkedSystem } from '../../types';
+import { formatTone, toneOf } from '../tones';
+import { analogToneOf, csvLine, digitalModeOf, exportBaseName, shortName, toMhz, zonesOf } from './shared';
+import type { ExportOutput, ExportSource } from './types';
+
+const NAME_MAX = 16;
+const ZONE_MAX = 80;
+const TG_LIST_MAX = 32;
+const DEFAULT_COLOR_CODE = 1;
+const DEFAULT_TIMESLOT = 1;
+
+// GD-77 / MD-UV380 class handhelds
+const BANDS: Array<[number, number]> = [[136, 174], [400, 480]];
+
+const CHANNEL_HEADER = [
+  'Channel Number', 'Channel Name', 'Channel Type', 'Rx Frequency', 'Tx Frequency', 'Bandwidth (kHz)',
+  'Colour Code', 'Timeslot', 'Contact', 'TG List', 'DMR ID', 'TS1_TA_Tx', 'TS2_TA_Tx ID', 'RX Tone', 'TX Tone',
+  'Squelch', 'Power', 'Rx Only', 'Zone Skip', 'All Skip', 'TOT', 'VOX', 'No Beep', 'No Eco', 'APRS',
+  'Latitude', 'Longitude', 'Roaming', 'Use location',
+];
+
+const DIGITAL_SHEET_HEADER = ['Channel Name', 'Mode', 'Rx Frequency', 'NAC', 'RAN', 'Agency', 'Description'];
+
+interface CodeplugChannel {
+  name: string;
+  digital: boolean;
+  rx: string;
+  bandwidth: string;
+  colorCode: number | '';
+  timeslot: number | '';
+  tgList: string;
+  tone: string;
+}
+
+const inBand = (mhz: number) => BANDS.some(([lo, hi]) => mhz >= lo && mhz <= hi);
+
+function isDmrSystem(system: TrunkedSystem): boolean {
+  return /dmr|capacity|connect plus|tier iii|trbo/i.test(system.type);
+}
+
+function uniqueName(base: string, used: Set<string>): string {
+  const root = base || 'CH';
+  let name = root;
+  for (let n = 2; used.has(name); n++) {
+    const suffix = ` ${n}`;
+    name = `${root.slice(0, NAME_MAX - suffix.length)}${suffix}`;
+  }
+  used.add(name);
+  return name;
+}
+
+function parseColorCode(raw: string | undefined): number | null {
+  const cc = Number.parseInt(raw || '', 10);
+  return Number.isInteger(cc) && cc >= 0 && cc <= 15 ? cc : null;
+}
+
+function analogTone(freq: Frequency): string {
+  const tone = analogToneOf(freq);
+  return tone ? formatTone(tone) : 'None';
+}
+
+function channelRow(no: number, ch: CodeplugChannel): string {
+  return csvLine([
+    no, ch.name, ch.digital ? 'Digital' : 'Analogue', ch.rx, ch.rx, ch.bandwidth,
+    ch.colorCode, ch.timeslot, ch.digital ? 'None' : '', ch.tgList, '', ch.digital ? 'Off' : '', ch.digital ? 'Off' : '',
+    ch.tone, ch.digital ? '' : 'None',
+    ch.digital ? '' : 'Master', 'Master', 'Yes', 'No', 'No', 0, 'Off', 'No', 'No', 'None',
+    '', '', 'No', 'No',
+  ]);
+}
+
+function padRow(name: string, members: string[], width: number): string {
+  return csvLine([name, ...members, ...Array(Math.max(0, width - members.length)).fill('')]);
+}
+
+export async function exportDmrCodeplug(data: ExportSource): Promise<ExportOutput> {
+  const channels: CodeplugChannel[] = [];
+  const zones: Array<{ name: string; channels: string[] }> = [];
+  const contacts = new Map<string, { name: string; id: string }>();
+  const tgLists: Array<{ name: string; contacts: string[] }> = [];
+  const digitalRows: string[] = [csvLine(DIGITAL_SHEET_HEADER)];
+  const warnings: string[] = [];
+  const channelNames = new Set<string>();
+  const contactNames = new Set<string>();
+  const listNames = new Set<string>();
+  const isTrip = 'startLocation' in data;
+  let digitalSheetCount = 0;
+
+  const addZone = (name: string, members: string[]) => {
+    for (let i = 0; i < members.length; i += ZONE_MAX) {
+      const part = i === 0 ? '' : ` ${i / ZONE_MAX + 1}`;
+      zones.push({ name: `${shortName(name, NAME_MAX - part.length)}${part}`, channels: members.slice(i, i + ZONE_MAX) });
+    }
+  };
+
+  for (const zone of zonesOf(data)) {
+    const tripMembers: string[] = [];
+
+    for (const agency of zone.data.agencies || []) {
+      const members: string[] = [];
+
+      for (const freq of agency.frequencies || []) {
+        const mhz = toMhz(freq.freq);
+        if (mhz === null) {
+          warnings.push(`${agency.name}: "${freq.freq}" is not a frequency.`);
+          continue;
+        }
+        const mode = digitalModeOf(freq);
+        const label = freq.alphaTag || freq.description || agency.name;
+
+        if (mode === 'P25' || mode === 'NXDN') {
+          const tone = toneOf(freq);
+          const nac = mode === 'P25' && tone.kind === 'nac' ? tone.nac : '';
+          const ran = mode === 'NXDN' && tone.kind === 'ran' ? String(tone.ran) : '';
+          if (mode === 'P25' && !nac) warnings.push(`${agency.name}: P25 channel ${freq.freq} has no NAC; use $293 (default) or F7E (any) on the radio.`);
+          if (mode === 'NXDN' && !ran) warnings.push(`${agency.name}: NXDN channel ${freq.freq} has no RAN.`);
+          digitalRows.push(csvLine([shortName(label, NAME_MAX), mode, mhz.toFixed(5), nac, ran, agency.name, freq.description]));
+          digitalSheetCount++;
+          continue;
+        }
+
+        if (!inBand(mhz)) {
+          warnings.push(`${agency.name}: ${freq.freq} is outside the 136-174 / 400-480 MHz handheld bands.`);
+          continue;
+        }
+
+        const name = uniqueName(shortName(label, NAME_MAX), channelNames);
+        if (mode === 'DMR') {
+          const tone = toneOf(freq);
+          let colorCode = tone.kind === 'colorCode' ? tone.colorCode : null;
+          if (colorCode === null) {
+            warnings.push(`${agency.name}: DMR channel ${freq.freq} has no color code; set to ${DEFAULT_COLOR_CODE}.`);
+            colorCode = DEFAULT_COLOR_CODE;
+          }
+          warnings.push(`${agency.name}: DMR channel ${freq.freq} has no timeslot on record; set to TS${DEFAULT_TIMESLOT}.`);
+          channels.push({ name, digital: true, rx: mhz.toFixed(5), bandwidth: '', colorCode, timeslot: DEFAULT_TIMESLOT, tgList: 'None', tone: '' });
+        } else {
+          const wide = /\bFM\b/i.test(freq.mode) && !/NFM|FMN/i.test(freq.mode) && mhz < 300;
+          channels.push({ name, digital: false, rx: mhz.toFixed(5), bandwidth: wide ? '25' : '12.5', colorCode: '', timeslot: '', tgList: '', tone: analogTone(freq) });
+        }
+        (isTrip ? tripMembers : members).push(name);
+      }
+
+      if (!isTrip && members.length) addZone(agency.name, members);
+    }
+
+    if (isTrip && tripMembers.length) addZone(zone.name, tripMembers);
+
+    for (const system of zone.data.trunkedSystems || []) {
+      if (!isDmrSystem(system)) {
+        warnings.push(`${system.name}: ${system.type} trunking needs a scanner; use the SDS100 export instead.`);
+        continue;
+      }
+
+      // DMR talkgroups become group-call contacts collected into one TG list per system
+      const listContacts: string[] = [];
+      const colorCodes = new Set<number>();
+      for (const tg of system.talkgroups || []) {
+        if (!/^\d+$/.test(tg.dec)) {
+          warnings.push(`${system.name}: talkgroup "${tg.dec}" is not a decimal ID.`);
+          continue;
+        }
+        const cc = parseColorCode(tg.colorCode);
+        if (cc !== null) colorCodes.add(cc);
+
+        let contact = contacts.get(tg.dec);
+        if (!contact) {
+          contact = { name: uniqueName(shortName(tg.alphaTag || tg.description || `TG ${tg.dec}`, NAME_MAX), contactNames), id: tg.dec };
+          contacts.set(tg.dec, contact);
+        }
+        if (listContacts.length < TG_LIST_MAX) {
+          listContacts.push(contact.name);
+        } else {
+          warnings.push(`${system.name}: TG list is full (${TG_LIST_MAX}); ${contact.name} is a contact but not in the list.`);
+        }
+      }
+
+      const listName = uniqueName(shortName(system.name, NAME_MAX), listNames);
+      if (listContacts.length) tgLists.push({ name: listName, contacts: listContacts });
+
+      let colorCode = colorCodes.size === 1 ? [...colorCodes][0] : null;
+      if (colorCode === null) {
+        warnings.push(`${system.name}: ${colorCodes.size > 1 ? 'talkgroups disagree on the color code' : 'no color code on record'}; site channels set to ${DEFAULT_COLOR_CODE}.`);
+        colorCode = DEFAULT_COLOR_CODE;
+      }
+
+      const members: string[] = [];
+      for (const f of system.frequencies || []) {
+        const mhz = toMhz(f.freq);
+        if (mhz === null || !inBand(mhz)) {
+          warnings.push(`${system.name}: site frequency ${f.freq} is outside the handheld bands.`);
+          continue;
+        }
+        // Both slots carry traffic on a DMR site, so each frequency gets a channel per timeslot
+        for (const ts of [1, 2]) {
+          const name = uniqueName(`${shortName(system.name, NAME_MAX - 3)} T${ts}`, channelNames);
+          channels.push({ name, digital: true, rx: mhz.toFixed(5), bandwidth: '', colorCode, timeslot: ts, tgList: listContacts.length ? listName : 'None', tone: '' });
+          members.push(name);
+        }
+      }
+      if (!members.length) {
+        warnings.push(`${system.name}: no site frequencies; only its contacts were exported.`);
+      } else {
+        addZone(system.name, members);
+      }
+    }
+  }
+
+  const channelLines = [csvLine(CHANNEL_HEADER), ...channels.map((ch, i) => channelRow(i + 1, ch))];
+  const contactLines = [
+    csvLine(['Contact Name', 'ID', 'ID Type', 'TS Override']),
+    ...[...contacts.values()].map(c => csvLine([c.name, c.id, 'Group', 'Disabled'])),
+  ];
+  const tgListLines = [
+    csvLine(['TG List Name', ...Array.from({ length: TG_LIST_MAX }, (_, i) => `Contact${i + 1}`)]),
+    ...tgLists.map(l => padRow(l.name, l.contacts, TG_LIST_MAX)),
+  ];
+  const zoneLines = [
+    csvLine(['Zone Name', ...Array.from({ length: ZONE_MAX }, (_, i) => `Channel${i + 1}`)]),
+    ...zones.map(z => padRow(z.name, z.channels, ZONE_MAX)),
+  ];
+
+  const report = [
+    'DIGITAL CODEPLUG EXPORT REPORT',
+    `Channels: ${channels.length}  Contacts: ${contacts.size}  TG lists: ${tgLists.length}  Zones: ${zones.length}  P25/NXDN: ${digitalSheetCount}`,
+    '',
+    warnings.length ? 'Check these before writing the codeplug:' : 'No missing digital parameters.',
+    ...warnings.map(w => `- ${w}`),
+  ];
+
+  const csv = 'text/csv;charset=utf-8;';
+  const files = [
+    { filename: 'Channels.csv', content: channelLines.join('\r\n'), mimeType: csv },
+    { filename: 'Contacts.csv', content: contactLines.join('\r\n'), mimeType: csv },
+    { filename: 'TG_Lists.csv', content: tgListLines.join('\r\n'), mimeType: csv },
+    { filename: 'Zones.csv', content: zoneLines.join('\r\n'), mimeType: csv },
+  ];
+  if (digitalSheetCount) {
+    files.push({ filename: 'P25_NXDN_Channels.csv', content: digitalRows.join('\r\n'), mimeType: csv });
+  }
+  files.push({ filename: 'Export_Report.txt', content: report.join('\r\n'), mimeType: 'text/plain;charset=utf-8;' });
+
+  return {
+    files,
+    count: channels.length + contacts.size + digitalSheetCount,
+    warnings,
+    archiveName: `${exportBaseName(data)}_digital_codeplug.zip`,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Kenwood MCP-style zone/channel CSV for the TK and NX series programming
+ * software. Channels are grouped into zones (one per agency, or one per
+ * stop on a trip) and written receive-only; TX frequency repeats RX.
+ */
+
+import { formatTone } from '../tones';
+import { analogToneOf, csvLine, digitalModeOf, exportBaseName, shortName, toMhz, zonesOf } from './shared';
+import type { ExportOutput, ExportSource } from './types';
+
+const NAME_MAX = 14;
+const MAX_ZONE_CHANNELS = 250;
+
+const HEADER = [
+  'Zone',
+  'Zone Name',
+  'Channel',
+  'Channel Name',
+  'Channel Type',
+  'RX Frequency',
+  'TX Frequency',
+  'Signaling Type',
+  'RX QT/DQT',
+  'TX QT/DQT',
+  'RAN/CC',
+  'Channel Spacing',
+  'Scan Add',
+  'TX Inhibit',
+  'Comment',
+];
+
+interface KenwoodRow {
+  name: string;
+  type: 'Analog' | 'NXDN' | 'DMR';
+  rx: string;
+  signaling: 'None' | 'QT' | 'DQT';
+  qt: string;
+  ranCc: string;
+  spacing: string;
+  comment: string;
+}
+
+export async function exportKenwoodCSV(data: ExportSource): Promise<ExportOutput> {
+  const zones: Array<{ name: string; rows: KenwoodRow[] }> = [];
+  const warnings: string[] = [];
+  const isTrip = 'startLocation' in data;
+  let count = 0;
+
+  for (const zone of zonesOf(data)) {
+    const tripRows: KenwoodRow[] = [];
+
+    for (const agency of zone.data.agencies || []) {
+      const agencyRows: KenwoodRow[] = [];
+
+      for (const freq of agency.frequencies || []) {
+        const mhz = toMhz(freq.freq);
+        if (mhz === null) {
+          warnings.push(`${agency.name}: "${freq.freq}" is not a frequency.`);
+          continue;
+        }
+
+        const digital = digitalModeOf(freq);
+        if (digital === 'P25') {
+          warnings.push(`${agency.name}: ${freq.freq} is P25, which MCP conventional channels cannot hold.`);
+          continue;
+        }
+
+        const tone = analogToneOf(freq);
+        const qt = tone ? formatTone(tone) : '';
+
+        (isTrip ? tripRows : agencyRows).push({
+          name: shortName(freq.alphaTag || freq.description || agency.name, NAME_MAX),
+          type: digital || 'Analog',
+          rx: mhz.toFixed(5),
+          signaling: digital || !tone ? 'None' : tone.kind === 'ctcss' ? 'QT' : 'DQT',
+          qt: digital ? '' : qt,
+          ranCc: digital === 'NXDN' ? freq.ran || '' : digital === 'DMR' ? freq.colorCode || '' : '',
+          spacing: digital || /NFM|FMN/i.test(freq.mode) || mhz >= 300 ? '12.5' : '25',
+          comment: [agency.name, freq.description].filter(Boolean).join(' - '),
+        });
+        count++;
+      }
+
+      if (!isTrip && agencyRows.length) zones.push({ name: agency.name, rows: agencyRows });
+    }
+
+    if (isTrip && tripRows.length) zones.push({ name: zone.name, rows: tripRows });
+
+    for (const system of zone.data.trunkedSystems || []) {
+      warnings.push(`${system.name}: trunked systems are not included in the MCP channel CSV.`);
+    }
+  }
+
+  const lines = [csvLine(HEADER)];
+  let zoneNo = 0;
+  for (const zone of zones) {
+    for (let i = 0; i < zone.rows.length; i += MAX_ZONE_CHANNELS) {
+      zoneNo++;
+      zone.rows.slice(i, i + MAX_ZONE_CHANNELS).forEach((row, ci) => {
+        lines.push(csvLine([
+          zoneNo,
+          shortName(zone.name, NAME_MAX),
+          ci + 1,
+          row.name,
+          row.type,
+          row.rx,
+          row.rx,
+          row.signaling,
+          row.qt,
+          row.qt,
+          row.ranCc,
+          row.spacing,
+          'Yes',
+          'Yes',
+          row.comment,
+        ]));
+      });
+    }
+  }
+
+  return {
+    files: [{ filename: `${exportBaseName(data)}_kenwood_mcp.csv`, content: lines.join('\r\n'), mimeType: 'text/csv;charset=utf-8;' }],
+    count,
+    warnings,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Registry of file exporters. The export menu is built from this list, so a
+ * new format only needs an entry here. Implementations are imported lazily
+ * to keep them out of the main bundle.
+ */
+
+import type { ScanResult } from '../../types';
+import { zonesOf } from './shared';
+import type { ExportFile, ExportOutput, ExportSource, RadioExporter } from './types';
+
+export type RunExportResult =
+  | { ok: true; filename: string; count: number; warnings: string[] }
+  | { ok: false; message: string; empty?: boolean };
+
+const CSV_MIME = 'text/csv;charset=utf-8;';
+
+// CHIRP has no notion of zones, so a trip becomes one memory list
+function flatten(data: ExportSource): ScanResult {
+  if (!('startLocation' in data)) return data;
+  const zones = zonesOf(data);
+  return {
+    source: zones[0]?.data.source ?? 'AI',
+    locationName: `${data.startLocation} to ${data.endLocation}`,
+    summary: '',
+    agencies: zones.flatMap(z => z.data.agencies || []),
+    trunkedSystems: zones.flatMap(z => z.data.trunkedSystems || []),
+  };
+}
+
+export const EXPORTERS: RadioExporter[] = [
+  {
+    id: 'csv',
+    label: 'CSV',
+    description: 'Spreadsheet of every channel, site frequency and talkgroup',
+    scannerModels: ['Any'],
+    accent: 'emerald',
+    emptyMessage: 'No frequencies or talkgroups to export.',
+    async export(data) {
+      const { buildCSV } = await import('../csvGenerator');
+      const { filename, content, count } = buildCSV(data);
+      return { files: [{ filename, content, mimeType: CSV_MIME }], count, warnings: [] };
+    },
+  },
+  {
+    id: 'chirp',
+    label: 'CHIRP',
+    description: 'CHIRP-format CSV for programming handhelds',
+    scannerModels: ['Baofeng', 'Yaesu', 'Icom', 'Kenwood', 'Radtel', 'Retevis'],
+    accent: 'violet',
+    emptyMessage: 'No frequencies to export in CHIRP format.',
+    async export(data) {
+      const { buildChirpCSV } = await import('../chirpExporter');
+      const built = buildChirpCSV(flatten(data));
+      if (!built) return { files: [], count: 0, warnings: [] };
+      return { files: [{ filename: built.filename, content: built.content, mimeType: CSV_MIME }], count: built.count, warnings: [] };
+    },
+  },
+  {
+    id: 'whistler',
+    label: 'Whistler',
+    description: 'Whistler TRX-1/TRX-2 scan-list CSV for EZ Scan',
+    scannerModels: ['TRX-1', 'TRX-2'],
+    accent: 'sky',
+    emptyMessage: 'Nothing in these results fits the Whistler TRX format.',
+    async export(data) {
+      return (await import('./whistler')).exportWhistlerCSV(data);
+    },
+  },
+  {
+    id: 'anytone-878',
+    label: 'Anytone',
+    description: 'AT-D878UV channel and zone CSVs for the Anytone CPS',
+    scannerModels: ['AT-D878UV', 'AT-D878UVII'],
+    accent: 'orange',
+    emptyMessage: 'No analog or DMR channels in the 878 bands to export.',
+    async export(data) {
+      return (await import('./anytone')).exportAnytoneCSV(data);
+    },
+  },
+  {
+    id: 'kenwood-mcp',
+    label: 'Kenwood',
+    description: 'Kenwood MCP-style zone/channel CSV',
+    scannerModels: ['TK series', 'NX series'],
+    accent: 'rose',
+    emptyMessage: 'No conventional channels to export in Kenwood format.',
+    async export(data) {
+      return (await import('./kenwood')).exportKenwoodCSV(data);
+    },
+  },
+  {
+    id: 'dmr-codeplug',
+    label: 'Digital',
+    description: 'DMR codeplug CSVs (channels, contacts, TG lists, zones) with P25 NAC / NXDN RAN sheet and a missing-parameter report',
+    scannerModels: ['OpenGD77', 'TYT MD-UV380', 'Retevis RT3S', 'Radioddity GD-77'],
+    accent: 'slate',
+    emptyMessage: 'No DMR, NXDN or P25 channels or talkgroups to export.',
+    async export(data) {
+      return (await import('./dmrCodeplug')).exportDmrCodeplug(data);
+    },
+  },
+];
+
+export function getExporter(id: string): RadioExporter | undefined {
+  return EXPORTERS.find(e => e.id === id);
+}
+
+async function toDownload(files: ExportFile[], archiveName: string | undefined): Promise<{ filename: string; blob: Blob }> {
+  if (files.length === 1) {
+    return { filename: files[0].filename, blob: new Blob([files[0].content], { type: files[0].mimeType }) };
+  }
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  files.forEach(f => zip.file(f.filename, f.content));
+  return { filename: archiveName || 'export.zip', blob: await zip.generateAsync({ type: 'blob' }) };
+}
+
+/**
+ * Runs an exporter and starts the browser download. Failures come back as
+ * messages for the status notice rather than exceptions.
+ */
+export async function runExport(exporter: RadioExporter, data: ExportSource): Promise<RunExportResult> {
+  let output: ExportOutput;
+  try {
+    output = await exporter.export(data);
+  } catch (err) {
+    console.error(`${exporter.label} export failed:`, err);
+    return { ok: false, message: `Failed to build the ${exporter.label} export. Please try again.` };
+  }
+
+  if (output.count === 0 || output.files.length === 0) {
+    return { ok: false, message: exporter.emptyMessage, empty: true };
+  }
+
+  const link = document.createElement('a');
+  if (link.download === undefined || typeof URL.createObjectURL !== 'function') {
+    return { ok: false, message: `${exporter.label} export is not supported in this browser.` };
+  }
+
+  let url: string | null = null;
+  try {
+    const { filename, blob } = await toDownload(output.files, output.archiveName);
+    url = URL.createObjectURL(blob);
+    link.href = url;
+    link.download = filename;
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    return { ok: true, filename, count: output.count, warnings: output.warnings };
+  } catch {
+    return { ok: false, message: `Failed to start the ${exporter.label} download. Please try again.` };
+  } finally {
+    if (url) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
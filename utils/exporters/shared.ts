@@ -0,0 +1,74 @@
+import type { Frequency, ScanResult, ToneInfo } from '../../types';
+import { distinctStatewideResults } from '../statewide';
+import { toneOf } from '../tones';
+import type { ExportSource } from './types';
+
+export interface ExportZone {
+  name: string;
+  data: ScanResult;
+}
+
+/**
+ * A single result is one zone; a trip is one zone per stop. Statewide
+ * sections follow as zones of their own, one per state.
+ */
+export function zonesOf(data: ExportSource): ExportZone[] {
+  const zones = 'startLocation' in data
+    ? data.locations.map(loc => ({ name: loc.locationName, data: loc.data }))
+    : [{ name: data.locationName, data }];
+  const statewide = distinctStatewideResults(zones.map(zone => zone.data))
+    .map(result => ({ name: result.locationName, data: result }));
+  return [...zones, ...statewide];
+}
+
+export function exportBaseName(data: ExportSource): string {
+  const raw = 'startLocation' in data
+    ? `Trip_${data.startLocation}_to_${data.endLocation}`
+    : data.locationName;
+  return raw.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'scanner_data';
+}
+
+/**
+ * Quotes a CSV cell and defuses formula injection the same way the other
+ * exporters do.
+ */
+export function csvCell(value: string | number | undefined): string {
+  let s = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(s)) s = "'" + s;
+  if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+}
+
+export function csvLine(values: Array<string | number | undefined>): string {
+  return values.map(csvCell).join(',');
+}
+
+export function toMhz(raw: string): number | null {
+  const n = parseFloat(raw);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return n;
+}
+
+/** Trims a channel name to what the radio's display can hold. */
+export function shortName(raw: string | undefined, max: number): string {
+  return (raw || '').replace(/[^\x20-\x7E]/g, '').replace(/\s+/g, ' ').trim().slice(0, max).trim();
+}
+
+export type AnalogTone = Extract<ToneInfo, { kind: 'ctcss' | 'dcs' }>;
+
+/** The channel's CTCSS/DCS squelch tone; null for carrier squelch and digital codes. */
+export function analogToneOf(freq: Frequency): AnalogTone | null {
+  const tone = toneOf(freq);
+  return tone.kind === 'ctcss' || tone.kind === 'dcs' ? tone : null;
+}
+
+export type DigitalMode = 'P25' | 'DMR' | 'NXDN' | null;
+
+export function digitalModeOf(freq: Pick<Frequency, 'mode' | 'nac' | 'colorCode' | 'ran' | 'toneInfo'>): DigitalMode {
+  const m = (freq.mode || '').toUpperCase();
+  const kind = freq.toneInfo?.kind;
+  if (m.includes('P25') || freq.nac || kind === 'nac') return 'P25';
+  if (m.includes('DMR') || m.includes('TRBO') || freq.colorCode || kind === 'colorCode') return 'DMR';
+  if (m.includes('NXDN') || freq.ran || kind === 'ran') return 'NXDN';
+  return null;
+}
@@ -0,0 +1,33 @@
+import type { ScanResult, TripResult } from '../../types';
+
+export type ExportSource = ScanResult | TripResult;
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface ExportOutput {
+  files: ExportFile[];
+  /** Channels, rows or memories written, for the status notice. */
+  count: number;
+  /** Rows the target format could not hold, in plain words. */
+  warnings: string[];
+  /** ZIP name used when more than one file is produced. */
+  archiveName?: string;
+}
+
+export type ExporterAccent = 'emerald' | 'violet' | 'sky' | 'orange' | 'rose' | 'slate';
+
+export interface RadioExporter {
+  id: string;
+  /** Short button label. */
+  label: string;
+  description: string;
+  scannerModels: string[];
+  accent: ExporterAccent;
+  /** Message shown when the result holds nothing this format can carry. */
+  emptyMessage: string;
+  export(data: ExportSource): Promise<ExportOutput>;
+}
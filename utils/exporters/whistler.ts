@@ -0,0 +1,157 @@
+/**
+ * Whistler TRX-1 / TRX-2 export, laid out for the scan-list spreadsheet
+ * import in Whistler EZ Scan. Conventional channels, trunked site
+ * frequencies and talkgroups share one file, distinguished by Type.
+ */
+
+import { classifyService } from '../categoryTaxonomy';
+import { toneOf } from '../tones';
+import { csvLine, digitalModeOf, exportBaseName, shortName, toMhz, zonesOf } from './shared';
+import type { TrunkedSiteChannelUse, TrunkedSystem } from '../../types';
+import type { ExportOutput, ExportSource } from './types';
+
+const ALPHA_TAG_MAX = 16;
+
+const HEADER = [
+  'Type',
+  'Scan List',
+  'System',
+  'Department',
+  'Alpha Tag',
+  'Frequency/TGID',
+  'Modulation',
+  'Tone/NAC/CC',
+  'Service Type',
+  'Delay',
+  'Lockout',
+  'Priority',
+];
+
+function trunkingOf(type: string): string | null {
+  const t = type.toLowerCase();
+  if (t.includes('p25') || t.includes('project 25') || t.includes('apco')) return 'P25';
+  if (t.includes('motorola')) return 'Motorola';
+  if (t.includes('edacs')) return 'EDACS';
+  if (t.includes('ltr')) return 'LTR';
+  if (t.includes('dmr') || t.includes('capacity') || t.includes('connect plus')) return 'DMR';
+  if (t.includes('nxdn') || t.includes('nexedge')) return 'NXDN';
+  return null;
+}
+
+const SITE_CHANNEL_USE: Record<TrunkedSiteChannelUse, string> = {
+  control: 'Control',
+  alternate: 'Alternate',
+  voice: 'Voice',
+};
+
+interface SiteRow {
+  site: string;
+  use: string;
+  freq: string;
+  nac: string;
+}
+
+// Every known site when the source lists them (as utils/sds100/mapper.ts does);
+// systems without site data fall back to the flattened primary site.
+function siteRowsOf(system: TrunkedSystem, warnings: string[]): SiteRow[] {
+  if (!system.sites?.length) {
+    return (system.frequencies || []).map(f => ({ site: system.location, use: f.use || 'Control', freq: f.freq, nac: '' }));
+  }
+
+  return system.sites.flatMap((site, si) => {
+    const name = site.name.trim() || `Site ${site.siteNumber || si + 1}`;
+    if (!site.channels.some(ch => ch.use !== 'voice')) {
+      warnings.push(`${system.name}: site "${name}" has no control channels.`);
+      return [];
+    }
+    return site.channels.map(ch => ({ site: name, use: SITE_CHANNEL_USE[ch.use], freq: ch.freq, nac: site.nac || '' }));
+  });
+}
+
+export async function exportWhistlerCSV(data: ExportSource): Promise<ExportOutput> {
+  const lines: string[] = [csvLine(HEADER)];
+  const warnings: string[] = [];
+  let count = 0;
+
+  for (const zone of zonesOf(data)) {
+    const scanList = shortName(zone.name, ALPHA_TAG_MAX);
+
+    for (const agency of zone.data.agencies || []) {
+      for (const freq of agency.frequencies || []) {
+        const mhz = toMhz(freq.freq);
+        if (mhz === null) {
+          warnings.push(`${agency.name}: "${freq.freq}" is not a frequency.`);
+          continue;
+        }
+
+        const digital = digitalModeOf(freq);
+        const tone = toneOf(freq);
+        const toneText = tone.kind === 'nac' ? tone.nac
+          : tone.kind === 'colorCode' ? String(tone.colorCode)
+          : tone.kind === 'ran' ? String(tone.ran)
+          : !digital && tone.kind === 'ctcss' ? tone.hz
+          : !digital && tone.kind === 'dcs' ? `D${tone.code}${tone.inverted ? 'I' : 'N'}`
+          : '';
+        const modulation = digital || (/\bAM\b/i.test(freq.mode) ? 'AM' : /NFM|FMN/i.test(freq.mode) ? 'NFM' : 'FM');
+
+        lines.push(csvLine([
+          'Conventional',
+          scanList,
+          zone.data.locationName,
+          agency.name,
+          shortName(freq.alphaTag || freq.description, ALPHA_TAG_MAX),
+          mhz.toFixed(5),
+          modulation,
+          toneText,
+          classifyService(agency.category, freq.tag) || 'Other',
+          '2',
+          'Off',
+          'Off',
+        ]));
+        count++;
+      }
+    }
+
+    for (const system of zone.data.trunkedSystems || []) {
+      const trunking = trunkingOf(system.type);
+      if (!trunking) {
+        warnings.push(`${system.name}: ${system.type} systems are not supported by the TRX radios.`);
+        continue;
+      }
+
+      for (const row of siteRowsOf(system, warnings)) {
+        const mhz = toMhz(row.freq);
+        if (mhz === null) continue;
+        lines.push(csvLine(['Site', scanList, system.name, row.site, row.use, mhz.toFixed(5), trunking, row.nac, '', '', 'Off', 'Off']));
+      }
+
+      for (const tg of system.talkgroups || []) {
+        if (!/^\d+$/.test(tg.dec)) {
+          warnings.push(`${system.name}: talkgroup "${tg.dec}" is not a decimal ID.`);
+          continue;
+        }
+        lines.push(csvLine([
+          'Talkgroup',
+          scanList,
+          system.name,
+          tg.tag || 'Talkgroups',
+          shortName(tg.alphaTag || tg.description, ALPHA_TAG_MAX),
+          tg.dec,
+          trunking,
+          tg.colorCode || '',
+          classifyService(undefined, tg.tag) || 'Other',
+          '2',
+          'Off',
+          'Off',
+        ]));
+        count++;
+      }
+    }
+  }
+
+  return {
+    files: [{ filename: `${exportBaseName(data)}_whistler.csv`, content: lines.join('\r\n'), mimeType: 'text/csv;charset=utf-8;' }],
+    count,
+    warnings,
+  };
+}
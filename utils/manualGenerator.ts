@@ -1,5 +1,6 @@
 
 import { ScanResult, GeneratedManual, ManualSection, ManualStep, TrunkedSystem, Agency } from '../types';
+import { unidenServiceLabelFor } from './categoryTaxonomy';
 
 /**
  * Maps RadioReference System Types to Uniden SDS Menu Names
@@ -110,6 +111,9 @@ const generateConventionalSection = (agencies: Agency[]): ManualSection | null =
          }
       }
 
+      // Service Type
+      channelSteps.push({ text: "Select 'Set Service Type'. Choose:", value: unidenServiceLabelFor(agency.category, freq.tag) });
+
       // Exit Channel
       channelSteps.push({ text: "Press [Menu] once to go back to Department." });
 
@@ -204,7 +208,7 @@ const generateTrunkedSection = (systems: TrunkedSystem[], startingIndex: number)
                     { text: "Select 'New Channel'." },
                     { text: "Enter TGID:", value: tg.dec },
                     { text: "Select 'Edit Name'. Enter:", value: tg.alphaTag },
-                    { text: "Select 'Set Service Type'. Choose:", value: tg.tag },
+                    { text: "Select 'Set Service Type'. Choose:", value: unidenServiceLabelFor(undefined, tg.tag) },
                     { text: "Press [Menu] to return to Department." }
                 ]
             });
@@ -0,0 +1,288 @@
+/**
+ * Scanner memory budgeting. Ranks every channel and talkgroup in a result or
+ * trip by service priority, reliability and community confirmations, then
+ * trims (or splits) the export so it fits the target radio's favorites lists
+ * or memory banks. Everything left out is reported with the reason.
+ */
+
+import { zonesOf } from './exporters/shared';
+import type { ExportSource } from './exporters/types';
+import type { ScanResult, ServiceType, TripLocation, TripResult } from '../types';
+import { classifyService } from './categoryTaxonomy';
+import { assessReliability } from './reliability';
+import { getModelProfile } from './sds100/profiles';
+import type { ScannerModel } from './sds100/types';
+
+export interface MemoryBudgetProfile {
+  id: string;
+  label: string;
+  /** Channels plus talkgroups one favorites list, bank or zone holds. */
+  channelsPerList: number;
+  maxLists: number;
+  /** Whole-radio memory, shared by every list. */
+  totalChannels: number;
+  /** Whether the radio can hold trunked talkgroups at all. */
+  talkgroups: boolean;
+  /** 'sds100' for the Uniden package, otherwise a file exporter id from the registry. */
+  exporterId: string;
+}
+
+export type BudgetMode = 'trim' | 'split';
+
+export type DropReason = 'unsupported' | 'list-full' | 'radio-full' | 'list-limit';
+
+export interface DroppedEntry {
+  zone: string;
+  kind: 'channel' | 'talkgroup';
+  /** Agency or system name plus the channel's alpha tag/description. */
+  label: string;
+  /** Frequency (MHz) or talkgroup id. */
+  value: string;
+  score: number;
+  reason: DropReason;
+  /** Why it ranked where it did, e.g. "Public Works, AI, 0 heard". */
+  detail: string;
+}
+
+export interface BudgetList {
+  name: string;
+  count: number;
+}
+
+export interface MemoryBudgetPlan {
+  profile: MemoryBudgetProfile;
+  mode: BudgetMode;
+  /** Trimmed or split copy of the input, ready for the exporters. One zone per list. */
+  data: ExportSource;
+  lists: BudgetList[];
+  total: number;
+  kept: number;
+  dropped: DroppedEntry[];
+}
+
+export interface ConfirmationCount {
+  count: number;
+  last_heard: string | null;
+}
+
+export interface MemoryBudgetOptions {
+  mode?: BudgetMode;
+  /** Service order to favor, most important first. Defaults to public safety first. */
+  priorities?: ServiceType[];
+  /** Per-zone community confirmations keyed by confirmationKey(). */
+  confirmations?: Array<Map<string, ConfirmationCount> | undefined>;
+}
+
+export const DROP_REASON_TEXT: Record<DropReason, string> = {
+  'unsupported': 'Radio cannot store trunked talkgroups',
+  'list-full': 'Lower priority than the channels that filled this list',
+  'radio-full': 'Radio memory is full',
+  'list-limit': 'No favorites lists or banks left',
+};
+
+const DEFAULT_PRIORITIES: ServiceType[] = [
+  'Police', 'Fire', 'EMS', 'Multi-Dispatch', 'Hospitals', 'Federal', 'Transportation', 'Public Works',
+  'Corrections', 'Schools', 'Utilities', 'Air', 'Railroad', 'Marine', 'Military', 'Security', 'Business', 'Ham Radio',
+];
+
+function unidenProfile(model: ScannerModel): MemoryBudgetProfile {
+  const { label, limits } = getModelProfile(model);
+  return {
+    id: model,
+    label,
+    channelsPerList: limits.maxChannelsPerList,
+    maxLists: limits.maxLists,
+    totalChannels: limits.maxChannelsPerList * limits.maxLists,
+    talkgroups: true,
+    exporterId: 'sds100',
+  };
+}
+
+export const MEMORY_BUDGET_PROFILES: MemoryBudgetProfile[] = [
+  unidenProfile('SDS100'),
+  unidenProfile('SDS200'),
+  unidenProfile('BCD436HP'),
+  unidenProfile('BCD536HP'),
+  { id: 'at-d878uv', label: 'Anytone AT-D878UV', channelsPerList: 250, maxLists: 250, totalChannels: 4000, talkgroups: false, exporterId: 'anytone-878' },
+  { id: 'chirp-1000', label: 'CHIRP radio, 1000 memories (e.g. Yaesu FT-60R)', channelsPerList: 1000, maxLists: 1, totalChannels: 1000, talkgroups: false, exporterId: 'chirp' },
+  { id: 'chirp-128', label: 'CHIRP radio, 128 memories (e.g. Baofeng UV-5R)', channelsPerList: 128, maxLists: 1, totalChannels: 128, talkgroups: false, exporterId: 'chirp' },
+];
+
+export function getMemoryBudgetProfile(id: string): MemoryBudgetProfile | undefined {
+  return MEMORY_BUDGET_PROFILES.find(p => p.id === id);
+}
+
+/** Same row key getBatchConfirmationCounts() returns. */
+export function confirmationKey(freq: string, agencyName: string): string {
+  return `${(agencyName || '').trim().toLowerCase()}::${freq.trim()}`;
+}
+
+// --- Ranking ---
+
+interface BudgetItem {
+  zone: number;
+  kind: 'channel' | 'talkgroup';
+  /** agencies[] or trunkedSystems[] index, then frequencies[] or talkgroups[] index. */
+  group: number;
+  index: number;
+  label: string;
+  value: string;
+  score: number;
+  detail: string;
+}
+
+function servicePoints(service: ServiceType | null, priorities: ServiceType[]): number {
+  if (!service) return 0;
+  const rank = priorities.indexOf(service);
+  if (rank < 0) return 5;
+  return Math.round(40 * (1 - rank / priorities.length));
+}
+
+function rankItem(
+  service: ServiceType | null,
+  origin: 'RR' | 'AI' | undefined,
+  heard: ConfirmationCount | undefined,
+  priorities: ServiceType[],
+  bonus = 0,
+): { score: number; detail: string } {
+  const count = heard?.count ?? 0;
+  const reliability = assessReliability({ origin, communityCount: count, lastHeard: heard?.last_heard ?? null });
+  const score = servicePoints(service, priorities) + Math.round(reliability.score / 2) + Math.min(10, count) + bonus;
+  return { score, detail: `${service ?? 'Uncategorized'}, ${reliability.label}, ${count} heard` };
+}
+
+function collectItems(zone: number, data: ScanResult, priorities: ServiceType[], heard: Map<string, ConfirmationCount> | undefined): BudgetItem[] {
+  const items: BudgetItem[] = [];
+  (data.agencies || []).forEach((agency, group) => {
+    (agency.frequencies || []).forEach((freq, index) => {
+      const service = classifyService(agency.category, freq.tag, agency.name);
+      const ranked = rankItem(service, agency.origin, heard?.get(confirmationKey(freq.freq, agency.name)), priorities);
+      items.push({
+        zone, kind: 'channel', group, index,
+        label: `${agency.name} - ${freq.alphaTag || freq.description || freq.tag || 'Channel'}`,
+        value: freq.freq,
+        ...ranked,
+      });
+    });
+  });
+  (data.trunkedSystems || []).forEach((system, group) => {
+    (system.talkgroups || []).forEach((tg, index) => {
+      const service = classifyService(tg.tag, tg.description, tg.alphaTag);
+      // Dispatch talkgroups carry most of the traffic worth hearing.
+      const ranked = rankItem(service, system.origin, undefined, priorities, tg.tagType === 'dispatch' ? 5 : 0);
+      items.push({
+        zone, kind: 'talkgroup', group, index,
+        label: `${system.name} - ${tg.alphaTag || tg.description || 'Talkgroup'}`,
+        value: tg.dec,
+        ...ranked,
+      });
+    });
+  });
+  return items;
+}
+
+const byScore = (a: BudgetItem, b: BudgetItem) => b.score - a.score;
+
+// --- Rebuilding the export ---
+
+function pruneResult(data: ScanResult, items: BudgetItem[], name: string): ScanResult {
+  const keep = new Set(items.map(item => `${item.kind}:${item.group}:${item.index}`));
+  return {
+    ...data,
+    locationName: name,
+    statewide: undefined, // exported as a zone of its own
+    agencies: (data.agencies || [])
+      .map((agency, group) => ({ ...agency, frequencies: (agency.frequencies || []).filter((_, i) => keep.has(`channel:${group}:${i}`)) }))
+      .filter(agency => agency.frequencies.length > 0),
+    trunkedSystems: (data.trunkedSystems || [])
+      .map((system, group) => ({ ...system, talkgroups: (system.talkgroups || []).filter((_, i) => keep.has(`talkgroup:${group}:${i}`)) }))
+      .filter(system => system.talkgroups.length > 0),
+  };
+}
+
+/**
+ * Fits a result or trip to a radio. Each zone becomes one list; in 'split'
+ * mode an overfull zone continues in extra lists ("Zone (2)") instead of
+ * losing its lowest-ranked channels. Returns the export-ready copy plus a
+ * report of everything dropped.
+ */
+export function planMemoryBudget(data: ExportSource, profile: MemoryBudgetProfile, options: MemoryBudgetOptions = {}): MemoryBudgetPlan {
+  const mode = options.mode ?? 'trim';
+  const priorities = options.priorities && options.priorities.length > 0
+    ? [...options.priorities, ...DEFAULT_PRIORITIES.filter(s => !options.priorities!.includes(s))]
+    : DEFAULT_PRIORITIES;
+  const zones = zonesOf(data);
+  const dropped: DroppedEntry[] = [];
+  const drop = (item: BudgetItem, reason: DropReason) => dropped.push({
+    zone: zones[item.zone].name, kind: item.kind, label: item.label, value: item.value, score: item.score, reason, detail: item.detail,
+  });
+
+  let total = 0;
+  const perZone = zones.map((zone, z) => {
+    const items = collectItems(z, zone.data, priorities, options.confirmations?.[z]);
+    total += items.length;
+    const supported: BudgetItem[] = [];
+    items.forEach(item => {
+      if (profile.talkgroups || item.kind !== 'talkgroup') supported.push(item);
+      else drop(item, 'unsupported');
+    });
+    return supported.sort(byScore);
+  });
+
+  // Per-list limit: trim keeps the top of each zone, split carries the rest over.
+  const candidates: BudgetItem[][] = perZone.map(items => {
+    if (mode === 'split') return items;
+    items.slice(profile.channelsPerList).forEach(item => drop(item, 'list-full'));
+    return items.slice(0, profile.channelsPerList);
+  });
+
+  // Whole-radio limit: drop the lowest-ranked entries across every zone.
+  const flat = candidates.flat().sort(byScore);
+  const overflow = new Set(flat.slice(profile.totalChannels));
+  overflow.forEach(item => drop(item, 'radio-full'));
+
+  // Lay the survivors out in lists, in zone order.
+  const lists: Array<{ name: string; zone: number; items: BudgetItem[] }> = [];
+  candidates.forEach((items, z) => {
+    const fitting = items.filter(item => !overflow.has(item));
+    if (fitting.length === 0) return;
+    const chunks: BudgetItem[][] = [];
+    for (let i = 0; i < fitting.length; i += profile.channelsPerList) {
+      chunks.push(fitting.slice(i, i + profile.channelsPerList));
+    }
+    chunks.forEach((chunk, c) => {
+      if (lists.length >= profile.maxLists) {
+        chunk.forEach(item => drop(item, 'list-limit'));
+        return;
+      }
+      lists.push({ name: c === 0 ? zones[z].name : `${zones[z].name} (${c + 1})`, zone: z, items: chunk });
+    });
+  });
+
+  const tripLocations = 'startLocation' in data ? data.locations : [];
+  const locations: TripLocation[] = lists.map(list => ({
+    ...(tripLocations[list.zone] ?? {}),
+    locationName: list.name,
+    data: pruneResult(zones[list.zone].data, list.items, list.name),
+  }));
+
+  let planned: ExportSource;
+  if ('startLocation' in data) {
+    planned = { ...(data as TripResult), locations };
+  } else if (locations.length <= 1) {
+    planned = locations[0]?.data ?? pruneResult(data, [], data.locationName);
+  } else {
+    planned = { startLocation: data.locationName, endLocation: data.locationName, locations };
+  }
+
+  const kept = lists.reduce((sum, list) => sum + list.items.length, 0);
+  return {
+    profile,
+    mode,
+    data: planned,
+    lists: lists.map(list => ({ name: list.name, count: list.items.length })),
+    total,
+    kept,
+    dropped: dropped.sort((a, b) => b.score - a.score),
+  };
+}
@@ -1,7 +1,9 @@
 
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { TripResult } from '../types';
+import { TripLocation, TripResult } from '../types';
+import { distinctStatewideResults } from './statewide';
+import { dedupeTrunkedSystems } from './systemIdentity';
 
 export const generateTripPDF = (trip: TripResult) => {
     const doc = new jsPDF();
@@ -18,10 +20,25 @@ export const generateTripPDF = (trip: TripResult) => {
     doc.setFontSize(12);
     doc.setTextColor(34, 211, 238); // Cyan-400
     doc.text(`${trip.startLocation} -> ${trip.endLocation}`, 14, 30);
+    if (trip.route) {
+        doc.setFontSize(9);
+        doc.setTextColor(148, 163, 184);
+        doc.text(`${trip.route.distanceMiles} mi  |  ~${Math.round(trip.route.durationMinutes)} min drive  |  ${trip.locations.length} counties`, 14, 35);
+    }
 
     let yPos = 40;
 
-    trip.locations.forEach((loc) => {
+    // Each state's statewide section (State Police, DOT...) prints once, after the route's zones
+    const sections: Array<Pick<TripLocation, 'locationName' | 'data' | 'entryMile' | 'etaMinutes' | 'distanceMiles'>> = [
+        ...trip.locations,
+        ...distinctStatewideResults(trip.locations.map(loc => loc.data)).map(data => ({ locationName: data.locationName, data })),
+    ];
+    const zoneLabel = (z: number) => z < trip.locations.length ? `Zone ${z + 1}` : sections[z].locationName;
+
+    // Statewide/regional systems repeat in every zone; print each one once.
+    const systems = dedupeTrunkedSystems(sections.map(loc => loc.data.trunkedSystems || []));
+
+    sections.forEach((loc, locIdx) => {
         // Check if we need a new page
         if (yPos > 250) {
             doc.addPage();
@@ -33,9 +50,16 @@ export const generateTripPDF = (trip: TripResult) => {
         // Location Header
         doc.setFontSize(16);
         doc.setTextColor(251, 191, 36); // Amber-400
-        doc.text(`LOCATION: ${loc.locationName}`, 14, yPos);
+        doc.text(`${locIdx < trip.locations.length ? 'LOCATION' : 'STATEWIDE'}: ${loc.locationName}`, 14, yPos);
         yPos += 8;
 
+        if (loc.entryMile !== undefined) {
+            doc.setFontSize(9);
+            doc.setTextColor(148, 163, 184); // slate-400
+            doc.text(`Mile ${loc.entryMile}  |  ETA +${Math.round(loc.etaMinutes ?? 0)} min  |  ${loc.distanceMiles ?? 0} mi in zone`, 14, yPos - 2);
+            yPos += 4;
+        }
+
         // Conventional Frequencies
         const convRows = loc.data.agencies.flatMap(agency =>
             agency.frequencies.map(f => [
@@ -67,7 +91,7 @@ export const generateTripPDF = (trip: TripResult) => {
         }
 
         // Trunked Systems
-        loc.data.trunkedSystems.forEach(sys => {
+        systems.filter(entry => entry.zones.includes(locIdx)).forEach(({ system: sys, zones }) => {
             if (yPos > 250) {
                 doc.addPage();
                 doc.setFillColor(15, 23, 42);
@@ -75,18 +99,36 @@ export const generateTripPDF = (trip: TripResult) => {
                 yPos = 20;
             }
 
+            // Already printed under an earlier zone: point back to it.
+            if (zones[0] !== locIdx) {
+                doc.setFontSize(9);
+                doc.setTextColor(148, 163, 184);
+                doc.text(`System: ${sys.name} - see ${zoneLabel(zones[0])}`, 14, yPos);
+                yPos += 7;
+                return;
+            }
+
             doc.setFontSize(10);
             doc.setTextColor(168, 85, 247); // Purple-400
             doc.text(`System: ${sys.name} (${sys.type})`, 14, yPos);
             yPos += 5;
 
+            if (zones.length > 1) {
+                doc.setFontSize(9);
+                doc.setTextColor(148, 163, 184);
+                doc.text(`Shared across ${zones.map(zoneLabel).join(', ')}`, 14, yPos);
+                yPos += 5;
+            }
+
             // Frequencies (New)
             if (sys.frequencies && sys.frequencies.length > 0) {
                 doc.setFontSize(9);
                 doc.setTextColor(150, 150, 150);
                 const freqStr = sys.frequencies.map(f => `${f.freq}${f.use ? `(${f.use.substring(0, 1)})` : ''}`).join(', ');
-                doc.text(`Control/Site Frequencies: ${freqStr}`, 14, yPos);
-                yPos += 5;
+                // A merged statewide system can carry many sites' worth of channels
+                const freqLines: string[] = doc.splitTextToSize(`Control/Site Frequencies: ${freqStr}`, 182);
+                doc.text(freqLines, 14, yPos);
+                yPos += 4 * freqLines.length + 1;
             }
 
             const sysRows = sys.talkgroups.map(tg => [
@@ -0,0 +1,441 @@
+import type { TripResult } from '../types';
+
+/**
+ * Route geometry for trip planning: polyline parsing (GeoJSON, GPX, KML), a
+ * pluggable routing provider interface with a straight-line mock, and the
+ * walk that turns a polyline into the ordered list of counties it crosses.
+ * Pure code — shared by `api/route.ts` and the client.
+ */
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteGeometry {
+  points: RoutePoint[];
+  distanceMiles: number;
+  durationMinutes: number;
+  provider: string;
+}
+
+/** Anything that can turn ordered waypoints into a drivable polyline. */
+export interface RoutingProvider {
+  name: string;
+  route(waypoints: RoutePoint[]): Promise<RouteGeometry>;
+}
+
+export interface CountyHit {
+  county: string;
+  stateCode: string;
+  zip?: string | null;
+}
+
+/** Point-in-county lookup; resolves null when the point is outside any county (water, lookup failure). */
+export type CountyLookup = (point: RoutePoint) => Promise<CountyHit | null>;
+
+export interface RouteZone {
+  /** Search query for the per-location pipeline, e.g. "Ada County, ID". */
+  name: string;
+  county: string;
+  stateCode: string;
+  /** Miles from the start of the route where the zone is first entered. */
+  entryMile: number;
+  exitMile: number;
+  /** Miles driven inside the zone (all passes combined). */
+  distanceMiles: number;
+  /** Minutes from departure until the zone is first entered. */
+  etaMinutes: number;
+  coords: RoutePoint;
+  /** ZIPs seen along the route inside the zone, in driving order. */
+  zips: string[];
+}
+
+export interface RouteZoneOptions {
+  /** Spacing of the coarse county samples along the route. */
+  sampleMiles?: number;
+  /** Boundary crossings are located to within this many miles. */
+  resolutionMiles?: number;
+  /** Hard cap on county lookups for one route. */
+  maxLookups?: number;
+  concurrency?: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+export const DEFAULT_ROUTE_SPEED_MPH = 55;
+
+export function haversineMiles(a: RoutePoint, b: RoutePoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function isValidPoint(point: RoutePoint): boolean {
+  return Number.isFinite(point.lat) && Number.isFinite(point.lng)
+    && Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+}
+
+/** Cumulative distance (miles) at each vertex. */
+export function cumulativeMiles(points: RoutePoint[]): number[] {
+  const miles = [0];
+  for (let i = 1; i < points.length; i++) {
+    miles.push(miles[i - 1] + haversineMiles(points[i - 1], points[i]));
+  }
+  return miles;
+}
+
+export function polylineLengthMiles(points: RoutePoint[]): number {
+  const miles = cumulativeMiles(points);
+  return miles[miles.length - 1] ?? 0;
+}
+
+/** Linear interpolation along the polyline; `mile` is clamped to the route. */
+export function pointAtMile(points: RoutePoint[], miles: number[], mile: number): RoutePoint {
+  if (points.length === 0) throw new Error('Route has no points');
+  if (mile <= 0) return points[0];
+  const total = miles[miles.length - 1];
+  if (mile >= total) return points[points.length - 1];
+  let lo = 0;
+  let hi = miles.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (miles[mid] <= mile) lo = mid; else hi = mid;
+  }
+  const span = miles[hi] - miles[lo];
+  const t = span > 0 ? (mile - miles[lo]) / span : 0;
+  return {
+    lat: points[lo].lat + (points[hi].lat - points[lo].lat) * t,
+    lng: points[lo].lng + (points[hi].lng - points[lo].lng) * t,
+  };
+}
+
+/** Drops vertices closer than `minMiles` to the last kept one; endpoints are always kept. */
+export function simplifyPolyline(points: RoutePoint[], minMiles: number): RoutePoint[] {
+  if (points.length <= 2) return points.slice();
+  const kept = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    if (haversineMiles(kept[kept.length - 1], points[i]) >= minMiles) kept.push(points[i]);
+  }
+  kept.push(points[points.length - 1]);
+  return kept;
+}
+
+// ─── Route files ────────────────────────────────────────────────────
+
+function pointsFromGeoJson(json: any): RoutePoint[] {
+  const points: RoutePoint[] = [];
+  const fromCoords = (coords: any) => {
+    if (!Array.isArray(coords)) return;
+    coords.forEach((pair: any) => {
+      if (Array.isArray(pair) && pair.length >= 2) points.push({ lng: Number(pair[0]), lat: Number(pair[1]) });
+    });
+  };
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    switch (node.type) {
+      case 'FeatureCollection':
+        (Array.isArray(node.features) ? node.features : []).forEach(visit);
+        break;
+      case 'Feature':
+        visit(node.geometry);
+        break;
+      case 'GeometryCollection':
+        (Array.isArray(node.geometries) ? node.geometries : []).forEach(visit);
+        break;
+      case 'LineString':
+        fromCoords(node.coordinates);
+        break;
+      case 'MultiLineString':
+        (Array.isArray(node.coordinates) ? node.coordinates : []).forEach(fromCoords);
+        break;
+      default:
+        break;
+    }
+  };
+  visit(json);
+  return points;
+}
+
+function readXmlAttr(tag: string, name: string): number {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`, 'i'));
+  return match ? Number(match[1]) : NaN;
+}
+
+function pointsFromGpx(xml: string): RoutePoint[] {
+  // Track points win over route points; a file exported with both repeats the route.
+  const collect = (element: 'trkpt' | 'rtept') => Array.from(xml.matchAll(new RegExp(`<${element}\\b[^>]*>`, 'gi')))
+    .map(([tag]) => ({ lat: readXmlAttr(tag, 'lat'), lng: readXmlAttr(tag, 'lon') }));
+  const track = collect('trkpt');
+  return track.length > 0 ? track : collect('rtept');
+}
+
+function pointsFromKml(xml: string): RoutePoint[] {
+  const points: RoutePoint[] = [];
+  // <LineString><coordinates>lng,lat[,alt] ...</coordinates> (Google Maps, Google Earth)
+  Array.from(xml.matchAll(/<LineString\b[^>]*>[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/gi)).forEach(([, body]) => {
+    body.trim().split(/\s+/).forEach((tuple) => {
+      const [lng, lat] = tuple.split(',').map(Number);
+      points.push({ lat, lng });
+    });
+  });
+  if (points.length > 0) return points;
+  // <gx:Track><gx:coord>lng lat alt</gx:coord> (recorded tracks)
+  Array.from(xml.matchAll(/<gx:coord>([^<]+)<\/gx:coord>/gi)).forEach(([, body]) => {
+    const [lng, lat] = body.trim().split(/\s+/).map(Number);
+    points.push({ lat, lng });
+  });
+  return points;
+}
+
+/**
+ * Reads a route polyline from GeoJSON (LineString / MultiLineString, bare or
+ * inside Features), GPX (track or route points) or KML (LineString or
+ * gx:Track). Throws when the text holds fewer than two usable points.
+ */
+export function parseRouteGeometry(text: string): RoutePoint[] {
+  const trimmed = String(text || '').trim();
+  let points: RoutePoint[] = [];
+
+  if (trimmed.startsWith('{')) {
+    try {
+      points = pointsFromGeoJson(JSON.parse(trimmed));
+    } catch {
+      throw new Error('Route file is not valid GeoJSON.');
+    }
+  } else if (trimmed.startsWith('<')) {
+    points = /<kml\b/i.test(trimmed) ? pointsFromKml(trimmed) : pointsFromGpx(trimmed);
+  }
+
+  points = points.filter(isValidPoint);
+  if (points.length < 2) {
+    throw new Error('Route file has no usable track. Use a GPX track, a KML path or a GeoJSON LineString.');
+  }
+  return points;
+}
+
+// ─── Routing providers ──────────────────────────────────────────────
+
+/**
+ * Local routing provider: straight lines between the waypoints, densified to
+ * roughly one vertex per mile, at a flat average speed. Used for development,
+ * tests and as the fallback when no routing service is reachable.
+ */
+export function createMockRoutingProvider(speedMph = DEFAULT_ROUTE_SPEED_MPH): RoutingProvider {
+  return {
+    name: 'mock',
+    async route(waypoints) {
+      const valid = waypoints.filter(isValidPoint);
+      if (valid.length < 2) throw new Error('At least two waypoints are required');
+      const points: RoutePoint[] = [valid[0]];
+      for (let i = 1; i < valid.length; i++) {
+        const from = valid[i - 1];
+        const to = valid[i];
+        const steps = Math.max(1, Math.ceil(haversineMiles(from, to)));
+        for (let s = 1; s <= steps; s++) {
+          points.push({ lat: from.lat + ((to.lat - from.lat) * s) / steps, lng: from.lng + ((to.lng - from.lng) * s) / steps });
+        }
+      }
+      const distanceMiles = polylineLengthMiles(points);
+      return { points, distanceMiles, durationMinutes: (distanceMiles / speedMph) * 60, provider: 'mock' };
+    },
+  };
+}
+
+// ─── County crossings ───────────────────────────────────────────────
+
+const hitKey = (hit: CountyHit | null) => (hit ? `${hit.county}|${hit.stateCode}`.toLowerCase() : '');
+
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, run: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Walks the polyline and returns every county it passes through, in driving
+ * order. The route is sampled every `sampleMiles`; wherever two neighbouring
+ * samples fall in different counties the gap is bisected down to
+ * `resolutionMiles`, which pins the crossing and catches short clips through
+ * a third county in between. A county that is left and re-entered keeps its
+ * first position and accumulates the miles of every pass.
+ */
+export async function routeZones(route: RouteGeometry, lookup: CountyLookup, options: RouteZoneOptions = {}): Promise<RouteZone[]> {
+  const { points } = route;
+  if (points.length < 2) return [];
+  const sampleMiles = options.sampleMiles ?? 5;
+  const resolutionMiles = options.resolutionMiles ?? 0.5;
+  const maxLookups = options.maxLookups ?? 200;
+  const miles = cumulativeMiles(points);
+  const total = miles[miles.length - 1];
+
+  let lookups = 0;
+  const hits = new Map<number, CountyHit | null>();
+  const lookupAt = async (mile: number): Promise<CountyHit | null> => {
+    if (hits.has(mile)) return hits.get(mile) ?? null;
+    lookups++;
+    let hit: CountyHit | null = null;
+    try {
+      hit = await lookup(pointAtMile(points, miles, mile));
+    } catch {
+      hit = null;
+    }
+    hits.set(mile, hit);
+    return hit;
+  };
+
+  const sampleCount = Math.max(1, Math.ceil(total / sampleMiles));
+  const sampleMilesList = Array.from({ length: sampleCount + 1 }, (_, i) => Math.min(total, i * (total / sampleCount)));
+  const samples = await mapWithConcurrency(sampleMilesList, options.concurrency ?? 4, async (mile) => ({ mile, hit: await lookupAt(mile) }));
+  const known = samples.filter((sample) => sample.hit);
+  if (known.length === 0) return [];
+
+  // Each transition marks the mile where `hit` begins.
+  const transitions: Array<{ mile: number; hit: CountyHit }> = [{ mile: 0, hit: known[0].hit! }];
+  const refine = async (fromMile: number, from: CountyHit, toMile: number, to: CountyHit): Promise<void> => {
+    if (hitKey(from) === hitKey(to)) return;
+    if (toMile - fromMile <= resolutionMiles || lookups >= maxLookups) {
+      transitions.push({ mile: (fromMile + toMile) / 2, hit: to });
+      return;
+    }
+    const midMile = (fromMile + toMile) / 2;
+    const mid = await lookupAt(midMile);
+    if (!mid) {
+      transitions.push({ mile: midMile, hit: to });
+      return;
+    }
+    await refine(fromMile, from, midMile, mid);
+    await refine(midMile, mid, toMile, to);
+  };
+  for (let i = 1; i < known.length; i++) {
+    await refine(known[i - 1].mile, known[i - 1].hit!, known[i].mile, known[i].hit!);
+  }
+
+  const zones = new Map<string, RouteZone>();
+  transitions.forEach(({ mile, hit }, index) => {
+    const exitMile = transitions[index + 1]?.mile ?? total;
+    const key = hitKey(hit);
+    const existing = zones.get(key);
+    if (existing) {
+      existing.distanceMiles += exitMile - mile;
+      existing.exitMile = exitMile;
+      return;
+    }
+    zones.set(key, {
+      name: `${hit.county} County, ${hit.stateCode}`,
+      county: hit.county,
+      stateCode: hit.stateCode,
+      entryMile: mile,
+      exitMile,
+      distanceMiles: exitMile - mile,
+      etaMinutes: total > 0 ? (mile / total) * route.durationMinutes : 0,
+      coords: pointAtMile(points, miles, (mile + exitMile) / 2),
+      zips: [],
+    });
+  });
+
+  Array.from(hits.entries())
+    .sort(([a], [b]) => a - b)
+    .forEach(([, hit]) => {
+      const zone = hit?.zip ? zones.get(hitKey(hit)) : undefined;
+      if (zone && !zone.zips.includes(hit!.zip!)) zone.zips.push(hit!.zip!);
+    });
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return Array.from(zones.values()).map((zone) => ({
+    ...zone,
+    entryMile: round(zone.entryMile),
+    exitMile: round(zone.exitMile),
+    distanceMiles: round(zone.distanceMiles),
+    etaMinutes: Math.round(zone.etaMinutes),
+  }));
+}
+
+// ─── Position along a trip ──────────────────────────────────────────
+
+/**
+ * Projects a position onto the polyline: the mile marker of the closest point
+ * on the route and how far the position is from it.
+ */
+export function locateOnRoute(points: RoutePoint[], point: RoutePoint): { mile: number; offRouteMiles: number } {
+  if (points.length === 0) return { mile: 0, offRouteMiles: Infinity };
+  if (points.length === 1) return { mile: 0, offRouteMiles: haversineMiles(points[0], point) };
+  const miles = cumulativeMiles(points);
+  // Local equirectangular projection is plenty for picking the nearest segment.
+  const scale = Math.cos((point.lat * Math.PI) / 180);
+  let best = { mile: 0, offRouteMiles: Infinity };
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const dx = (b.lng - a.lng) * scale;
+    const dy = b.lat - a.lat;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0
+      ? Math.max(0, Math.min(1, (((point.lng - a.lng) * scale) * dx + (point.lat - a.lat) * dy) / lengthSq))
+      : 0;
+    const nearest = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+    const offRouteMiles = haversineMiles(nearest, point);
+    if (offRouteMiles < best.offRouteMiles) {
+      best = { mile: miles[i - 1] + (miles[i] - miles[i - 1]) * t, offRouteMiles };
+    }
+  }
+  return best;
+}
+
+export interface TripZoneMatch {
+  /** Index into `trip.locations`, or -1 when the position is off the route. */
+  index: number;
+  /** Mile marker along the route, when the trip has route geometry. */
+  mile: number | null;
+  offRouteMiles: number;
+  /** The zone ahead of the current position, if any. */
+  nextIndex: number;
+  milesToNext: number | null;
+}
+
+/**
+ * Which zone of a route-based trip a position is in. Among the zones whose
+ * mile range covers the position the most recently entered wins, so a short
+ * pass through a neighbouring county beats the county on either side of it.
+ * Trips without route geometry (AI-planned) always return index -1; callers
+ * fall back to a county lookup for those.
+ */
+export function matchTripZone(trip: TripResult, point: RoutePoint, maxOffRouteMiles = 10): TripZoneMatch {
+  const path = trip.route?.path || [];
+  const locations = trip.locations || [];
+  if (path.length < 2 || !locations.some((loc) => loc.entryMile !== undefined)) {
+    return { index: -1, mile: null, offRouteMiles: Infinity, nextIndex: -1, milesToNext: null };
+  }
+
+  const { mile, offRouteMiles } = locateOnRoute(path, point);
+  let index = -1;
+  locations.forEach((loc, i) => {
+    if (loc.entryMile === undefined) return;
+    const exitMile = loc.exitMile ?? Infinity;
+    if (loc.entryMile <= mile && mile <= exitMile && (index === -1 || loc.entryMile >= (locations[index].entryMile ?? 0))) {
+      index = i;
+    }
+  });
+
+  let nextIndex = -1;
+  locations.forEach((loc, i) => {
+    if (i === index || loc.entryMile === undefined || loc.entryMile <= mile) return;
+    if (nextIndex === -1 || loc.entryMile < (locations[nextIndex].entryMile ?? Infinity)) nextIndex = i;
+  });
+
+  return {
+    index: offRouteMiles <= maxOffRouteMiles ? index : -1,
+    mile,
+    offRouteMiles,
+    nextIndex,
+    milesToNext: nextIndex >= 0 ? (locations[nextIndex].entryMile ?? mile) - mile : null,
+  };
+}
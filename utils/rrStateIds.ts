@@ -0,0 +1,48 @@
+/**
+ * RadioReference state ids. RR numbers the states alphabetically by name
+ * (DC last), which is neither FIPS nor postal order, so lookups by state
+ * or county need this table to build a getStateInfo call.
+ */
+
+export const RR_STATE_IDS: Record<string, string> = {
+  AL: '1', AK: '2', AZ: '3', AR: '4', CA: '5', CO: '6', CT: '7',
+  DE: '8', FL: '9', GA: '10', HI: '11', ID: '12', IL: '13',
+  IN: '14', IA: '15', KS: '16', KY: '17', LA: '18', ME: '19',
+  MD: '20', MA: '21', MI: '22', MN: '23', MS: '24', MO: '25',
+  MT: '26', NE: '27', NV: '28', NH: '29', NJ: '30', NM: '31',
+  NY: '32', NC: '33', ND: '34', OH: '35', OK: '36', OR: '37',
+  PA: '38', RI: '39', SC: '40', SD: '41', TN: '42', TX: '43',
+  UT: '44', VT: '45', VA: '46', WA: '47', WV: '48', WI: '49',
+  WY: '50', DC: '51',
+};
+
+const STATE_CODES_BY_NAME: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID',
+  illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA',
+  maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS',
+  missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ',
+  'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH',
+  oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+  'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT', virginia: 'VA',
+  washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY', 'district of columbia': 'DC',
+};
+
+export function rrStateId(stateCode: string | null | undefined): string | null {
+  return RR_STATE_IDS[(stateCode || '').trim().toUpperCase()] ?? null;
+}
+
+/** Postal code for an RR state id, e.g. "42" → "TN". */
+export function stateCodeForRrId(stid: string): string | null {
+  return Object.keys(RR_STATE_IDS).find(code => RR_STATE_IDS[code] === stid) ?? null;
+}
+
+/** "TN", "tn" or "Tennessee" → "TN". */
+export function parseStateCode(value: string): string | null {
+  const trimmed = value.trim().replace(/\./g, '');
+  if (/^[A-Za-z]{2}$/.test(trimmed)) {
+    const code = trimmed.toUpperCase();
+    return RR_STATE_IDS[code] ? code : null;
+  }
+  return STATE_CODES_BY_NAME[trimmed.toLowerCase().replace(/\s+/g, ' ')] ?? null;
+}
@@ -0,0 +1,178 @@
+import type { Agency, Frequency, ScanResult, Talkgroup, TrunkedSystem } from '../types';
+import { formatTone, toneOf } from './tones';
+
+/**
+ * Semantic diff between two ScanResults. Agencies and trunked systems are
+ * matched by normalized name, channels by frequency and talkgroups by
+ * decimal TGID, so reordering or renamed punctuation is not a change. Used
+ * by the comparison view and to report what a "Refresh RR" changed.
+ */
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export type DiffEntity = 'agency' | 'frequency' | 'system' | 'site' | 'talkgroup';
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface DiffEntry {
+  kind: ChangeKind;
+  entity: DiffEntity;
+  /** Agency or system the entry belongs to; the entry's own name for agency/system entries. */
+  parent: string;
+  /** Frequency, TGID, or name for agency/system entries. */
+  key: string;
+  label: string;
+  changes: FieldChange[];
+}
+
+export interface ScanDiff {
+  entries: DiffEntry[];
+  counts: Record<ChangeKind, number>;
+}
+
+function normalizeName(name: string): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function freqKey(freq: string): string {
+  const mhz = Number.parseFloat(freq);
+  return Number.isFinite(mhz) ? mhz.toFixed(5) : (freq || '').trim();
+}
+
+function clean(value: string | undefined): string {
+  return (value || '').trim();
+}
+
+function fieldChanges(pairs: Array<[string, string, string]>): FieldChange[] {
+  return pairs
+    .filter(([, before, after]) => before.toLowerCase() !== after.toLowerCase())
+    .map(([field, before, after]) => ({ field, before, after }));
+}
+
+/**
+ * Pairs items by key. Duplicate keys on one side (the same frequency listed
+ * twice) pair off in order, and any surplus counts as added/removed.
+ */
+function pairBy<T>(before: T[], after: T[], keyOf: (item: T) => string): {
+  pairs: Array<[T, T]>;
+  removed: T[];
+  added: T[];
+} {
+  const pending = new Map<string, T[]>();
+  for (const item of before) {
+    const key = keyOf(item);
+    pending.set(key, [...(pending.get(key) || []), item]);
+  }
+  const pairs: Array<[T, T]> = [];
+  const added: T[] = [];
+  for (const item of after) {
+    const match = pending.get(keyOf(item))?.shift();
+    if (match) pairs.push([match, item]);
+    else added.push(item);
+  }
+  const removed = [...pending.values()].flat();
+  return { pairs, removed, added };
+}
+
+function frequencyLabel(freq: Frequency): string {
+  return clean(freq.alphaTag) || clean(freq.description) || freq.freq;
+}
+
+function diffAgency(before: Agency, after: Agency, out: DiffEntry[]): void {
+  const changes = fieldChanges([['category', clean(before.category), clean(after.category)]]);
+  if (changes.length) {
+    out.push({ kind: 'changed', entity: 'agency', parent: after.name, key: after.name, label: after.name, changes });
+  }
+
+  const { pairs, removed, added } = pairBy(before.frequencies || [], after.frequencies || [], f => freqKey(f.freq));
+  for (const f of removed) {
+    out.push({ kind: 'removed', entity: 'frequency', parent: after.name, key: f.freq, label: frequencyLabel(f), changes: [] });
+  }
+  for (const f of added) {
+    out.push({ kind: 'added', entity: 'frequency', parent: after.name, key: f.freq, label: frequencyLabel(f), changes: [] });
+  }
+  for (const [b, a] of pairs) {
+    const fields = fieldChanges([
+      ['tone', formatTone(toneOf(b)), formatTone(toneOf(a))],
+      ['mode', clean(b.mode), clean(a.mode)],
+      ['alpha tag', clean(b.alphaTag), clean(a.alphaTag)],
+    ]);
+    if (fields.length) {
+      out.push({ kind: 'changed', entity: 'frequency', parent: after.name, key: a.freq, label: frequencyLabel(a), changes: fields });
+    }
+  }
+}
+
+function talkgroupLabel(tg: Talkgroup): string {
+  return clean(tg.alphaTag) || clean(tg.description) || tg.dec;
+}
+
+function diffSystem(before: TrunkedSystem, after: TrunkedSystem, out: DiffEntry[]): void {
+  const changes = fieldChanges([['type', clean(before.type), clean(after.type)]]);
+  if (changes.length) {
+    out.push({ kind: 'changed', entity: 'system', parent: after.name, key: after.name, label: after.name, changes });
+  }
+
+  const sites = pairBy(before.frequencies || [], after.frequencies || [], f => freqKey(f.freq));
+  for (const f of sites.removed) {
+    out.push({ kind: 'removed', entity: 'site', parent: after.name, key: f.freq, label: clean(f.use) || 'Site frequency', changes: [] });
+  }
+  for (const f of sites.added) {
+    out.push({ kind: 'added', entity: 'site', parent: after.name, key: f.freq, label: clean(f.use) || 'Site frequency', changes: [] });
+  }
+  for (const [b, a] of sites.pairs) {
+    const fields = fieldChanges([['use', clean(b.use), clean(a.use)]]);
+    if (fields.length) {
+      out.push({ kind: 'changed', entity: 'site', parent: after.name, key: a.freq, label: clean(a.use) || 'Site frequency', changes: fields });
+    }
+  }
+
+  const tgs = pairBy(before.talkgroups || [], after.talkgroups || [], tg => clean(tg.dec));
+  for (const tg of tgs.removed) {
+    out.push({ kind: 'removed', entity: 'talkgroup', parent: after.name, key: tg.dec, label: talkgroupLabel(tg), changes: [] });
+  }
+  for (const tg of tgs.added) {
+    out.push({ kind: 'added', entity: 'talkgroup', parent: after.name, key: tg.dec, label: talkgroupLabel(tg), changes: [] });
+  }
+  for (const [b, a] of tgs.pairs) {
+    const fields = fieldChanges([
+      ['mode', clean(b.mode), clean(a.mode)],
+      ['alpha tag', clean(b.alphaTag), clean(a.alphaTag)],
+      ['description', clean(b.description), clean(a.description)],
+    ]);
+    if (fields.length) {
+      out.push({ kind: 'changed', entity: 'talkgroup', parent: after.name, key: a.dec, label: talkgroupLabel(a), changes: fields });
+    }
+  }
+}
+
+/** Everything that differs going from `before` to `after`, agencies first, then trunked systems. */
+export function diffScanResults(before: ScanResult, after: ScanResult): ScanDiff {
+  const entries: DiffEntry[] = [];
+
+  const agencies = pairBy(before.agencies || [], after.agencies || [], a => normalizeName(a.name));
+  for (const a of agencies.removed) {
+    entries.push({ kind: 'removed', entity: 'agency', parent: a.name, key: a.name, label: `${a.frequencies?.length || 0} channels`, changes: [] });
+  }
+  for (const a of agencies.added) {
+    entries.push({ kind: 'added', entity: 'agency', parent: a.name, key: a.name, label: `${a.frequencies?.length || 0} channels`, changes: [] });
+  }
+  for (const [b, a] of agencies.pairs) diffAgency(b, a, entries);
+
+  const systems = pairBy(before.trunkedSystems || [], after.trunkedSystems || [], s => normalizeName(s.name));
+  for (const s of systems.removed) {
+    entries.push({ kind: 'removed', entity: 'system', parent: s.name, key: s.name, label: `${s.talkgroups?.length || 0} talkgroups`, changes: [] });
+  }
+  for (const s of systems.added) {
+    entries.push({ kind: 'added', entity: 'system', parent: s.name, key: s.name, label: `${s.talkgroups?.length || 0} talkgroups`, changes: [] });
+  }
+  for (const [b, a] of systems.pairs) diffSystem(b, a, entries);
+
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  entries.forEach(e => counts[e.kind]++);
+  return { entries, counts };
+}
@@ -1,7 +1,8 @@
 import JSZip from "jszip";
 import type { BuildFile, BuildOutput, ExportJob } from "./types";
 import { validateExportJob } from "./validation";
-import { getDefaultTemplates } from "./templates";
+import { getProfileTemplates } from "./templates";
+import { getModelProfile } from "./profiles";
 import { IdAllocator } from "./idAllocator";
 import { renderFListCfg, renderFavoritesFiles } from "./renderer";
 
@@ -13,28 +14,31 @@ export function buildExport(job: ExportJob): BuildOutput {
     throw new Error(`Validation failed: ${msg}`);
   }
 
-  const templates = getDefaultTemplates();
+  const profile = getModelProfile(job.scannerModel);
+  const templates = getProfileTemplates(profile, job.formatVersion);
+  const listDir = `${profile.rootDir}/${profile.favoritesDir}`;
   const ids = new IdAllocator(
     job.favoritesLists.map((x) => x.fileSlot).filter((x): x is number => typeof x === "number"),
   );
 
-  const rendered = renderFavoritesFiles(job, { templates, ids });
+  const rendered = renderFavoritesFiles(job, { templates, ids, alphaTagMax: profile.limits.alphaTagMax });
   const files: BuildFile[] = rendered.map((item) => ({
-    path: `BCDx36HP/favorites_lists/${item.fileName}`,
+    path: `${listDir}/${item.fileName}`,
     content: item.fileContent,
   }));
 
   files.push({
-    path: "BCDx36HP/favorites_lists/f_list.cfg",
+    path: `${listDir}/f_list.cfg`,
     content: renderFListCfg(rendered, templates),
   });
 
   files.push({
-    path: "BCDx36HP/export_manifest.json",
+    path: `${profile.rootDir}/export_manifest.json`,
     content: JSON.stringify(
       {
         createdAt: new Date().toISOString(),
         scannerModel: job.scannerModel,
+        targetModel: profile.targetModel,
         formatVersion: job.formatVersion,
         listCount: job.favoritesLists.length,
         files: rendered.map((x) => x.fileName),
@@ -47,6 +51,7 @@ export function buildExport(job: ExportJob): BuildOutput {
   return {
     files,
     warnings: result.issues.filter((x) => x.severity === "warning"),
+    notices: result.notices,
   };
 }
 
@@ -1,3 +1,6 @@
 export * from "./types";
 export * from "./validation";
 export * from "./builder";
+export * from "./mapper";
+export * from "./parser";
+export * from "./profiles";
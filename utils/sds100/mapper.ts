@@ -0,0 +1,350 @@
+import type { Agency, Frequency, ScanResult, TripResult, TrunkedSystem } from "../../types";
+import type {
+  ConventionalChannel,
+  ConventionalDepartment,
+  ConventionalSystem,
+  ExportJob,
+  FavoriteList,
+  Modulation,
+  ScannerModel,
+  SystemRecord,
+  Talkgroup,
+  ToneMode,
+  TrunkGroup,
+  TrunkSite,
+  TrunkSystem,
+  TrunkType,
+  ValidationIssue,
+} from "./types";
+import { distinctStatewideResults, statewideResult } from "../statewide";
+import { dedupeTrunkedSystems } from "../systemIdentity";
+import { cleanText } from "./normalize";
+import { getModelProfile } from "./profiles";
+import { toneOf } from "../tones";
+import { UNIDEN_OTHER_SERVICE_TYPE, unidenServiceTypeFor } from "../categoryTaxonomy";
+
+const DEFAULT_SERVICE_TYPE = UNIDEN_OTHER_SERVICE_TYPE;
+const MIN_FREQ_HZ = 25_000_000;
+const MAX_FREQ_HZ = 1_300_000_000;
+const MAX_LIST_NAME = 64;
+
+export interface MappedExportJob {
+  job: ExportJob;
+  skipped: ValidationIssue[];
+}
+
+export interface MapOptions {
+  /** Radio the job is built for; defaults to the SDS100. */
+  scannerModel?: ScannerModel;
+}
+
+function skip(skipped: ValidationIssue[], code: string, path: string, message: string): void {
+  skipped.push({ code, severity: "warning", path, message });
+}
+
+function toHz(freqMhz: string | undefined): number | null {
+  const mhz = Number.parseFloat(freqMhz ?? "");
+  if (!Number.isFinite(mhz)) {
+    return null;
+  }
+  const hz = Math.round(mhz * 1_000_000);
+  return hz >= MIN_FREQ_HZ && hz <= MAX_FREQ_HZ ? hz : null;
+}
+
+function toModulation(mode: string | undefined): Modulation {
+  const m = (mode || "").toUpperCase().trim();
+  if (m === "AM") return "AM";
+  if (m === "FM") return "FM";
+  if (m === "NFM" || m === "FMN") return "NFM";
+  if (m === "WFM") return "WFM";
+  if (m === "FMB") return "FMB";
+  // Digital and unknown modes are left for the scanner to detect
+  return "AUTO";
+}
+
+function toTone(freq: Frequency): { toneMode: ToneMode; toneValue?: string } {
+  const tone = toneOf(freq);
+  if (tone.kind === "nac") return { toneMode: "nac", toneValue: tone.nac };
+  if (tone.kind === "dcs") return { toneMode: "dcs", toneValue: tone.code };
+  if (tone.kind === "ctcss") return { toneMode: "ctcss", toneValue: tone.hz };
+  return { toneMode: "none" };
+}
+
+function toTrunkType(type: string): TrunkType | null {
+  const t = (type || "").toLowerCase();
+  if (/p25|project 25|apco/.test(t)) return "P25Standard";
+  if (/motorola|type\s*i/.test(t)) return "Motorola";
+  if (/\bdmr\b|capacity|connect plus|tier\s*iii/.test(t)) return "DmrOneFrequency";
+  if (/nxdn|nexedge/.test(t)) return "NXDN";
+  if (/edacs/.test(t)) return "EDACS";
+  if (/\bltr\b/.test(t)) return "LTR";
+  return null;
+}
+
+/** First value that is still non-empty once cleaned, so a blank alpha tag falls through. */
+function firstText(...values: Array<string | undefined>): string {
+  return values.map((value) => cleanText(value || "")).find(Boolean) ?? "";
+}
+
+function channelName(freq: Frequency): string {
+  return firstText(freq.alphaTag, freq.description, freq.freq);
+}
+
+function mapChannel(freq: Frequency, serviceType: number): ConventionalChannel | null {
+  const frequencyHz = toHz(freq.freq);
+  if (frequencyHz === null) {
+    return null;
+  }
+
+  return {
+    name: channelName(freq),
+    frequencyHz,
+    modulation: toModulation(freq.mode),
+    ...toTone(freq),
+    serviceType,
+    avoid: false,
+    priority: false,
+    attenuation: false,
+    recording: false,
+    delaySec: 2,
+  };
+}
+
+function mapAgencies(agencies: Agency[], systemName: string, path: string, skipped: ValidationIssue[]): ConventionalSystem | null {
+  const departments: ConventionalDepartment[] = [];
+
+  agencies.forEach((agency, ai) => {
+    const channels: ConventionalChannel[] = [];
+
+    (agency.frequencies || []).forEach((freq, fi) => {
+      const channel = mapChannel(freq, unidenServiceTypeFor(agency.category, freq.tag));
+      if (!channel) {
+        skip(skipped, "SKIPPED_CHANNEL", `${path}.agencies[${ai}].frequencies[${fi}]`, `${agency.name}: "${freq.freq}" is not a scannable frequency.`);
+        return;
+      }
+      channels.push(channel);
+    });
+
+    if (!channels.length) {
+      skip(skipped, "SKIPPED_DEPARTMENT", `${path}.agencies[${ai}]`, `${agency.name}: no exportable channels.`);
+      return;
+    }
+
+    departments.push({
+      name: cleanText(agency.name) || "Department",
+      avoid: false,
+      channels,
+    });
+  });
+
+  if (!departments.length) {
+    return null;
+  }
+
+  return {
+    kind: "conventional",
+    name: systemName,
+    avoid: false,
+    departments,
+  };
+}
+
+function mapTalkgroupGroups(system: TrunkedSystem): TrunkGroup[] {
+  const byTag = new Map<string, Talkgroup[]>();
+
+  (system.talkgroups || []).forEach((tg) => {
+    const tgid = Number.parseInt(tg.dec, 10);
+    if (!Number.isInteger(tgid) || tgid < 1 || tgid > 16_777_215) {
+      return;
+    }
+
+    const groupName = cleanText(tg.tag || "") || "Talkgroups";
+    const bucket = byTag.get(groupName) ?? [];
+    bucket.push({
+      name: firstText(tg.alphaTag, tg.description, tg.dec),
+      tgid,
+      serviceType: unidenServiceTypeFor(undefined, tg.tag),
+      avoid: false,
+      priority: false,
+      alertTone: "Off",
+    });
+    byTag.set(groupName, bucket);
+  });
+
+  return Array.from(byTag.entries()).map(([name, talkgroups]) => ({
+    name,
+    avoid: false,
+    talkgroups,
+  }));
+}
+
+function splitChannels(channels: Array<{ freq: string; voice: boolean }>): Pick<TrunkSite, "controlChannelsHz" | "voiceChannelsHz"> {
+  const controlChannelsHz: number[] = [];
+  const voiceChannelsHz: number[] = [];
+  channels.forEach((ch) => {
+    const hz = toHz(ch.freq);
+    if (hz === null) return;
+    (ch.voice ? voiceChannelsHz : controlChannelsHz).push(hz);
+  });
+  return { controlChannelsHz, voiceChannelsHz: voiceChannelsHz.length ? voiceChannelsHz : undefined };
+}
+
+// Systems without site data (AI results, older caches) become one site built from the flat list
+function mapFlatSite(system: TrunkedSystem): TrunkSite[] {
+  const channels = splitChannels((system.frequencies || []).map((f) => ({ freq: f.freq, voice: /voice/i.test(f.use || "") })));
+  if (!channels.controlChannelsHz.length) return [];
+
+  return [{ name: firstText(system.location, system.name) || "Site", avoid: false, ...channels }];
+}
+
+// Alternate control channels are control channels as far as the radio is concerned
+function mapSites(system: TrunkedSystem, path: string, skipped: ValidationIssue[]): TrunkSite[] {
+  const sites: TrunkSite[] = [];
+
+  (system.sites || []).forEach((site, si) => {
+    const channels = splitChannels(site.channels.map((ch) => ({ freq: ch.freq, voice: ch.use === "voice" })));
+    if (!channels.controlChannelsHz.length) {
+      skip(skipped, "SKIPPED_SITE", `${path}.sites[${si}]`, `${system.name}: site "${site.name}" has no control channels.`);
+      return;
+    }
+
+    sites.push({
+      name: cleanText(site.name) || `Site ${site.siteNumber || si + 1}`,
+      avoid: false,
+      siteNumber: site.siteNumber,
+      nac: site.nac,
+      lat: site.lat,
+      lon: site.lon,
+      rangeMiles: site.rangeMiles,
+      ...channels,
+    });
+  });
+
+  return sites;
+}
+
+function mapTrunkedSystem(system: TrunkedSystem, path: string, skipped: ValidationIssue[]): TrunkSystem | null {
+  const trunkType = toTrunkType(system.type);
+  if (!trunkType) {
+    skip(skipped, "SKIPPED_SYSTEM", path, `${system.name}: system type "${system.type}" is not supported by the favorites list format.`);
+    return null;
+  }
+
+  const sites = system.sites?.length
+    ? mapSites(system, path, skipped)
+    : mapFlatSite(system);
+
+  if (!sites.length) {
+    skip(skipped, "SKIPPED_SYSTEM", path, `${system.name}: no control channel frequencies are known.`);
+    return null;
+  }
+
+  const groups = mapTalkgroupGroups(system);
+  if (!groups.length) {
+    skip(skipped, "SKIPPED_SYSTEM", path, `${system.name}: no valid talkgroups are known.`);
+    return null;
+  }
+
+  return {
+    kind: "trunk",
+    name: cleanText(system.name) || "Trunked System",
+    avoid: false,
+    trunkType,
+    idSearch: false,
+    sites,
+    groups,
+  };
+}
+
+function mapScanToList(data: ScanResult, path: string, skipped: ValidationIssue[]): FavoriteList | null {
+  const listName = cleanText(data.locationName).slice(0, MAX_LIST_NAME) || "Boy & A Scanner";
+  const systems: SystemRecord[] = [];
+
+  const conventional = mapAgencies(data.agencies || [], listName, path, skipped);
+  if (conventional) {
+    systems.push(conventional);
+  }
+
+  (data.trunkedSystems || []).forEach((system, si) => {
+    const mapped = mapTrunkedSystem(system, `${path}.trunkedSystems[${si}]`, skipped);
+    if (mapped) {
+      systems.push(mapped);
+    }
+  });
+
+  if (!systems.length) {
+    skip(skipped, "SKIPPED_LIST", path, `${data.locationName}: nothing to export.`);
+    return null;
+  }
+
+  return {
+    listName,
+    monitor: true,
+    download: true,
+    quickKey: null,
+    systems,
+  };
+}
+
+function toJob(favoritesLists: FavoriteList[], options: MapOptions): ExportJob {
+  const profile = getModelProfile(options.scannerModel ?? "SDS100");
+  return {
+    scannerModel: profile.model,
+    formatVersion: profile.formatVersions[0],
+    favoritesLists,
+    options: {
+      includeProfileChanges: false,
+      mergeMode: "append",
+      defaultServiceType: DEFAULT_SERVICE_TYPE,
+    },
+  };
+}
+
+/**
+ * Maps a single search result into one favorites list, plus a second for
+ * its statewide section. Rows that the HPD format cannot represent are
+ * dropped and reported in `skipped`.
+ */
+export function scanResultToExportJob(data: ScanResult, options: MapOptions = {}): MappedExportJob {
+  const skipped: ValidationIssue[] = [];
+  const list = mapScanToList(data, "$", skipped);
+  const statewide = statewideResult(data);
+  const statewideList = statewide ? mapScanToList(statewide, "$.statewide", skipped) : null;
+  return { job: toJob([list, statewideList].filter((l): l is FavoriteList => l !== null), options), skipped };
+}
+
+/**
+ * Maps a trip into one favorites list per zone, in route order, then one
+ * per state for the statewide sections.
+ */
+export function tripResultToExportJob(trip: TripResult, options: MapOptions = {}): MappedExportJob {
+  const skipped: ValidationIssue[] = [];
+  const lists: FavoriteList[] = [];
+  const locations = trip.locations || [];
+  const statewides = distinctStatewideResults(locations.map(loc => loc.data));
+
+  // Shared and statewide systems go in the list of the first zone (or state)
+  // they appear in, carrying the sites of every zone, rather than in each one
+  const systems = dedupeTrunkedSystems([
+    ...locations.map(loc => loc.data.trunkedSystems || []),
+    ...statewides.map(statewide => statewide.trunkedSystems),
+  ]);
+  const systemsFirstIn = (zone: number) => systems.filter(entry => entry.zones[0] === zone).map(entry => entry.system);
+
+  locations.forEach((loc, li) => {
+    const list = mapScanToList({ ...loc.data, locationName: loc.locationName, trunkedSystems: systemsFirstIn(li) }, `locations[${li}]`, skipped);
+    if (list) {
+      lists.push(list);
+    }
+  });
+
+  // Each state's statewide section once, after the trip's own lists
+  statewides.forEach((statewide, si) => {
+    const list = mapScanToList({ ...statewide, trunkedSystems: systemsFirstIn(locations.length + si) }, `statewide[${si}]`, skipped);
+    if (list) {
+      lists.push(list);
+    }
+  });
+
+  return { job: toJob(lists, options), skipped };
+}
@@ -22,3 +22,17 @@ export function toneToken(mode: "none" | "ctcss" | "dcs" | "nac", value?: string
 export function linesToCrlf(lines: string[]): string {
   return lines.join("\r\n") + "\r\n";
 }
+
+export function parseToneToken(token: string): { toneMode: "none" | "ctcss" | "dcs" | "nac"; toneValue?: string } {
+  const value = token.trim();
+  if (value.startsWith("TONE=C")) {
+    return { toneMode: "ctcss", toneValue: value.slice("TONE=C".length) };
+  }
+  if (value.startsWith("DCS=")) {
+    return { toneMode: "dcs", toneValue: value.slice("DCS=".length) };
+  }
+  if (value.startsWith("NAC=")) {
+    return { toneMode: "nac", toneValue: value.slice("NAC=".length) };
+  }
+  return { toneMode: "none" };
+}
@@ -0,0 +1,340 @@
+import type {
+  ConventionalChannel,
+  ConventionalDepartment,
+  ConventionalSystem,
+  ExportJob,
+  FavoriteList,
+  Modulation,
+  ScannerModel,
+  SystemRecord,
+  TrunkGroup,
+  TrunkSite,
+  TrunkSystem,
+  TrunkType,
+  ValidationIssue,
+} from "./types";
+import { parseToneToken } from "./normalize";
+import { getModelProfile, KNOWN_FORMAT_VERSIONS, KNOWN_TARGET_MODELS } from "./profiles";
+import { UNIDEN_OTHER_SERVICE_TYPE } from "../categoryTaxonomy";
+
+const MODULATIONS: Modulation[] = ["AUTO", "AM", "FM", "NFM", "WFM", "FMB"];
+const TRUNK_TYPES: TrunkType[] = ["P25Standard", "Motorola", "DmrOneFrequency", "NXDN", "EDACS", "LTR"];
+
+export interface FListEntry {
+  listName: string;
+  fileName: string;
+  monitor: boolean;
+  download: boolean;
+  quickKey: number | null;
+}
+
+export interface ImportFile {
+  path: string;
+  content: string;
+}
+
+export interface ParsedImport {
+  job: ExportJob;
+  issues: ValidationIssue[];
+}
+
+function push(issues: ValidationIssue[], severity: "error" | "warning", code: string, path: string, message: string): void {
+  issues.push({ severity, code, path, message });
+}
+
+function splitLines(content: string): string[][] {
+  return content
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map((line) => line.split("\t"));
+}
+
+function onOff(token: string | undefined): boolean {
+  return (token || "").trim() === "On";
+}
+
+function num(token: string | undefined): number | undefined {
+  const n = Number.parseFloat(token ?? "");
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function coord(token: string | undefined): number | undefined {
+  const n = num(token);
+  // The renderer writes 0.000000 when a location is unset
+  return n === undefined || n === 0 ? undefined : n;
+}
+
+function refId(token: string | undefined, key: string): number | undefined {
+  const match = (token || "").match(new RegExp(`^${key}=(\\d+)$`));
+  return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+function headerCheck(rows: string[][], path: string, issues: ValidationIssue[]): void {
+  const model = rows.find((row) => row[0] === "TargetModel")?.[1];
+  const version = rows.find((row) => row[0] === "FormatVersion")?.[1];
+  if (!model) {
+    push(issues, "warning", "NO_TARGET_MODEL", path, "File has no TargetModel header.");
+  } else if (!KNOWN_TARGET_MODELS.includes(model)) {
+    push(issues, "warning", "MODEL_UNSUPPORTED", path, `TargetModel ${model} is not a supported model; fields may be misread.`);
+  }
+  if (version && !KNOWN_FORMAT_VERSIONS.includes(version)) {
+    push(issues, "warning", "FORMAT_UNSUPPORTED", path, `FormatVersion ${version} is not a supported version; fields may be misread.`);
+  }
+}
+
+/**
+ * Reads the F-List rows of an f_list.cfg index.
+ */
+export function parseFListCfg(content: string, path = "f_list.cfg", issues: ValidationIssue[] = []): FListEntry[] {
+  const rows = splitLines(content);
+  headerCheck(rows, path, issues);
+
+  return rows
+    .filter((row) => row[0] === "F-List")
+    .map((row) => {
+      const qk = (row[5] || "").trim();
+      return {
+        listName: (row[1] || "").trim(),
+        fileName: (row[2] || "").trim(),
+        monitor: onOff(row[3]),
+        download: onOff(row[4]),
+        quickKey: /^\d+$/.test(qk) ? Number.parseInt(qk, 10) : null,
+      };
+    });
+}
+
+/**
+ * Reads the systems of one favorites list (.hpd) file.
+ */
+export function parseFavoritesFile(content: string, path = "favorites.hpd", issues: ValidationIssue[] = []): SystemRecord[] {
+  const rows = splitLines(content);
+  headerCheck(rows, path, issues);
+
+  const systems: SystemRecord[] = [];
+  let conventional: ConventionalSystem | null = null;
+  let trunk: TrunkSystem | null = null;
+  let dept: ConventionalDepartment | null = null;
+  let site: TrunkSite | null = null;
+  let group: TrunkGroup | null = null;
+
+  rows.forEach((row, index) => {
+    const linePath = `${path}:${index + 1}`;
+
+    switch (row[0]) {
+      case "TargetModel":
+      case "FormatVersion":
+        return;
+
+      case "Conventional":
+        conventional = { kind: "conventional", name: (row[3] || "").trim(), avoid: onOff(row[4]), departments: [] };
+        trunk = null;
+        dept = null;
+        systems.push(conventional);
+        return;
+
+      case "C-Group":
+        if (!conventional) {
+          push(issues, "warning", "ORPHAN_LINE", linePath, "C-Group line appears before any Conventional system.");
+          return;
+        }
+        dept = {
+          id: refId(row[1], "CGroupId"),
+          name: (row[3] || "").trim(),
+          avoid: onOff(row[4]),
+          lat: coord(row[5]),
+          lon: coord(row[6]),
+          rangeMiles: num(row[7]) || undefined,
+          channels: [],
+        };
+        conventional.departments.push(dept);
+        return;
+
+      case "C-Freq": {
+        if (!dept) {
+          push(issues, "warning", "ORPHAN_LINE", linePath, "C-Freq line appears before any C-Group.");
+          return;
+        }
+        const frequencyHz = Number.parseInt(row[5] || "", 10);
+        if (!Number.isInteger(frequencyHz)) {
+          push(issues, "warning", "BAD_FREQUENCY", linePath, `Frequency "${row[5] ?? ""}" is not an integer Hz value.`);
+          return;
+        }
+        const modulation = (row[6] || "").trim().toUpperCase() as Modulation;
+        const channel: ConventionalChannel = {
+          id: refId(row[1], "CFreqId"),
+          name: (row[3] || "").trim(),
+          avoid: onOff(row[4]),
+          frequencyHz,
+          modulation: MODULATIONS.includes(modulation) ? modulation : "AUTO",
+          ...parseToneToken(row[7] || ""),
+          serviceType: num(row[8]) ?? 0,
+          priority: false,
+          attenuation: false,
+          recording: false,
+          delaySec: 2,
+        };
+        dept.channels.push(channel);
+        return;
+      }
+
+      case "Trunk": {
+        const trunkType = (row[5] || "").trim() as TrunkType;
+        if (!TRUNK_TYPES.includes(trunkType)) {
+          push(issues, "warning", "TRUNK_TYPE_UNKNOWN", linePath, `Trunk type "${row[5] ?? ""}" is not recognized; reading as P25Standard.`);
+        }
+        trunk = {
+          kind: "trunk",
+          name: (row[3] || "").trim(),
+          avoid: onOff(row[4]),
+          trunkType: TRUNK_TYPES.includes(trunkType) ? trunkType : "P25Standard",
+          idSearch: false,
+          sites: [],
+          groups: [],
+        };
+        conventional = null;
+        dept = null;
+        site = null;
+        group = null;
+        systems.push(trunk);
+        return;
+      }
+
+      case "Site": {
+        if (!trunk) {
+          push(issues, "warning", "ORPHAN_LINE", linePath, "Site line appears before any Trunk system.");
+          return;
+        }
+        const nac = (row[15] || "").trim();
+        site = {
+          name: (row[1] || "").trim(),
+          avoid: onOff(row[2]),
+          lat: coord(row[3]),
+          lon: coord(row[4]),
+          rangeMiles: num(row[5]) || undefined,
+          nac: nac && nac !== "0" ? nac : undefined,
+          controlChannelsHz: [],
+        };
+        trunk.sites.push(site);
+        return;
+      }
+
+      case "T-Freq": {
+        if (!site) {
+          push(issues, "warning", "ORPHAN_LINE", linePath, "T-Freq line appears before any Site.");
+          return;
+        }
+        const freqHz = Number.parseInt(row[4] || "", 10);
+        if (!Number.isInteger(freqHz)) return;
+        // Voice channels are written with an LCN; control channels with 0
+        if ((num(row[5]) ?? 0) > 0) {
+          site.voiceChannelsHz = [...(site.voiceChannelsHz || []), freqHz];
+        } else {
+          site.controlChannelsHz.push(freqHz);
+        }
+        return;
+      }
+
+      case "T-Group":
+        if (!trunk) {
+          push(issues, "warning", "ORPHAN_LINE", linePath, "T-Group line appears before any Trunk system.");
+          return;
+        }
+        group = { name: (row[1] || "").trim(), avoid: onOff(row[2]), talkgroups: [] };
+        trunk.groups.push(group);
+        return;
+
+      case "TGID": {
+        if (!group) {
+          push(issues, "warning", "ORPHAN_LINE", linePath, "TGID line appears before any T-Group.");
+          return;
+        }
+        const tgid = Number.parseInt(row[3] || "", 10);
+        if (!Number.isInteger(tgid)) {
+          push(issues, "warning", "BAD_TGID", linePath, `Talkgroup id "${row[3] ?? ""}" is not a number.`);
+          return;
+        }
+        group.talkgroups.push({
+          name: (row[1] || "").trim(),
+          avoid: onOff(row[2]),
+          tgid,
+          serviceType: num(row[5]) ?? 0,
+          alertTone: (row[9] || "").trim() === "Auto" ? "Auto" : "Off",
+          priority: onOff(row[11]),
+        });
+        return;
+      }
+
+      default:
+        push(issues, "warning", "UNKNOWN_LINE", linePath, `Skipped unrecognized "${row[0]}" line.`);
+    }
+  });
+
+  return systems;
+}
+
+/**
+ * Rebuilds an ExportJob from an f_list.cfg index and its .hpd files. Without
+ * an index, every .hpd file becomes its own list named after the file. The
+ * files do not say which radio wrote them, so the caller picks the model.
+ */
+export function parseFavoritesImport(files: ImportFile[], scannerModel: ScannerModel = "BCDx36HP"): ParsedImport {
+  const issues: ValidationIssue[] = [];
+  const hpdFiles = new Map<string, ImportFile>();
+  files
+    .filter((file) => /\.hpd$/i.test(file.path))
+    .forEach((file) => hpdFiles.set(baseName(file.path).toLowerCase(), file));
+
+  const cfg = files.find((file) => baseName(file.path).toLowerCase() === "f_list.cfg");
+  const entries: FListEntry[] = cfg
+    ? parseFListCfg(cfg.content, cfg.path, issues)
+    : Array.from(hpdFiles.values()).map((file) => ({
+        listName: baseName(file.path).replace(/\.hpd$/i, ""),
+        fileName: baseName(file.path),
+        monitor: true,
+        download: true,
+        quickKey: null,
+      }));
+
+  const favoritesLists: FavoriteList[] = [];
+  entries.forEach((entry) => {
+    const file = hpdFiles.get(entry.fileName.toLowerCase());
+    if (!file) {
+      push(issues, "warning", "LIST_FILE_MISSING", entry.fileName, `"${entry.listName}" points to ${entry.fileName}, which was not provided.`);
+      return;
+    }
+
+    const slot = entry.fileName.match(/^f_(\d+)\.hpd$/i);
+    favoritesLists.push({
+      listName: entry.listName,
+      fileSlot: slot ? Number.parseInt(slot[1], 10) : undefined,
+      monitor: entry.monitor,
+      download: entry.download,
+      quickKey: entry.quickKey,
+      systems: parseFavoritesFile(file.content, file.path, issues),
+    });
+  });
+
+  if (!favoritesLists.length) {
+    push(issues, "error", "NO_LISTS", "$", "No favorites lists could be read from the provided files.");
+  }
+
+  const profile = getModelProfile(scannerModel);
+  return {
+    job: {
+      scannerModel: profile.model,
+      formatVersion: profile.formatVersions[0],
+      favoritesLists,
+      options: {
+        includeProfileChanges: false,
+        mergeMode: "replace",
+        defaultServiceType: UNIDEN_OTHER_SERVICE_TYPE,
+      },
+    },
+    issues,
+  };
+}
@@ -0,0 +1,101 @@
+import { UNIDEN_SERVICE_TYPES } from "../categoryTaxonomy";
+import type { FormatVersion, ScannerModel } from "./types";
+
+export interface ModelProfile {
+  model: ScannerModel;
+  label: string;
+  /** Values written to the TargetModel / FormatVersion header lines. */
+  targetModel: string;
+  formatVersions: FormatVersion[];
+  /** Top-level folder on the SD card and the favorites folder beneath it. */
+  rootDir: string;
+  favoritesDir: string;
+  limits: {
+    alphaTagMax: number;
+    maxLists: number;
+    maxChannelsPerList: number;
+  };
+  /** Service type ids the radio accepts, with their on-screen names. */
+  serviceTypes: Record<number, string>;
+}
+
+const COMMON_SERVICE_TYPES = UNIDEN_SERVICE_TYPES;
+
+const SDS_SERVICE_TYPES: Record<number, string> = {
+  ...COMMON_SERVICE_TYPES,
+  216: "Racing Officials",
+  217: "Racing Teams",
+};
+
+const HP_LIMITS: ModelProfile["limits"] = { alphaTagMax: 16, maxLists: 256, maxChannelsPerList: 2000 };
+const SDS_LIMITS: ModelProfile["limits"] = { alphaTagMax: 32, maxLists: 256, maxChannelsPerList: 4000 };
+
+const MODEL_PROFILES: Record<ScannerModel, ModelProfile> = {
+  BCDx36HP: {
+    model: "BCDx36HP",
+    label: "BCDx36HP (generic)",
+    targetModel: "BCDx36HP",
+    formatVersions: ["1.00"],
+    rootDir: "BCDx36HP",
+    favoritesDir: "favorites_lists",
+    limits: HP_LIMITS,
+    serviceTypes: COMMON_SERVICE_TYPES,
+  },
+  BCD436HP: {
+    model: "BCD436HP",
+    label: "Uniden BCD436HP",
+    targetModel: "BCDx36HP",
+    formatVersions: ["1.00"],
+    rootDir: "BCDx36HP",
+    favoritesDir: "favorites_lists",
+    limits: HP_LIMITS,
+    serviceTypes: COMMON_SERVICE_TYPES,
+  },
+  BCD536HP: {
+    model: "BCD536HP",
+    label: "Uniden BCD536HP",
+    targetModel: "BCDx36HP",
+    formatVersions: ["1.00"],
+    rootDir: "BCDx36HP",
+    favoritesDir: "favorites_lists",
+    limits: HP_LIMITS,
+    serviceTypes: COMMON_SERVICE_TYPES,
+  },
+  SDS100: {
+    model: "SDS100",
+    label: "Uniden SDS100",
+    targetModel: "BCDx36HP",
+    formatVersions: ["1.00"],
+    rootDir: "BCDx36HP",
+    favoritesDir: "favorites_lists",
+    limits: SDS_LIMITS,
+    serviceTypes: SDS_SERVICE_TYPES,
+  },
+  SDS200: {
+    model: "SDS200",
+    label: "Uniden SDS200",
+    targetModel: "BCDx36HP",
+    formatVersions: ["1.00"],
+    rootDir: "BCDx36HP",
+    favoritesDir: "favorites_lists",
+    limits: SDS_LIMITS,
+    serviceTypes: SDS_SERVICE_TYPES,
+  },
+};
+
+export const SCANNER_MODELS = Object.keys(MODEL_PROFILES) as ScannerModel[];
+
+/** Real radios offered in export pickers; the generic profile is only a fallback. */
+export const EXPORT_SCANNER_MODELS = SCANNER_MODELS.filter((model) => model !== "BCDx36HP");
+
+export function isScannerModel(value: unknown): value is ScannerModel {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(MODEL_PROFILES, value);
+}
+
+export function getModelProfile(model: ScannerModel): ModelProfile {
+  return MODEL_PROFILES[model];
+}
+
+/** Header values any supported profile writes; used when reading files back. */
+export const KNOWN_TARGET_MODELS: string[] = Array.from(new Set(SCANNER_MODELS.map((m) => MODEL_PROFILES[m].targetModel)));
+export const KNOWN_FORMAT_VERSIONS: string[] = Array.from(new Set(SCANNER_MODELS.flatMap((m) => MODEL_PROFILES[m].formatVersions)));
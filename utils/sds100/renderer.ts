@@ -16,6 +16,13 @@ import { IdAllocator } from "./idAllocator";
 export interface RenderContext {
   templates: TemplateSet;
   ids: IdAllocator;
+  /** Longest channel/talkgroup alpha tag the target radio accepts. */
+  alphaTagMax?: number;
+}
+
+function alphaTag(value: string, max?: number): string {
+  const text = cleanText(value);
+  return max ? text.slice(0, max).trim() : text;
 }
 
 function renderConventionalLine(system: ConventionalSystem, templates: TemplateSet): string {
@@ -44,13 +51,13 @@ function renderCGroupLine(
   return joinTokens(row);
 }
 
-function renderCFreqLine(channel: ConventionalChannel, dept: ConventionalDepartment, templates: TemplateSet, ids: IdAllocator): string {
+function renderCFreqLine(channel: ConventionalChannel, dept: ConventionalDepartment, templates: TemplateSet, ids: IdAllocator, alphaTagMax?: number): string {
   const row = cloneTemplate(templates.cFreqLine);
   const id = channel.id ?? ids.nextCFreqId();
   channel.id = id;
   row[1] = `CFreqId=${id}`;
   row[2] = `CGroupId=${dept.id ?? 0}`;
-  row[3] = cleanText(channel.name);
+  row[3] = alphaTag(channel.name, alphaTagMax);
   row[4] = boolToken(channel.avoid);
   row[5] = String(channel.frequencyHz);
   row[6] = channel.modulation;
@@ -67,19 +74,29 @@ function renderTrunkLine(system: TrunkSystem, templates: TemplateSet): string {
   return joinTokens(row);
 }
 
+/** Site name as shown on the radio, led by the RR site number when the name lacks it. */
+function siteLabel(site: TrunkSite): string {
+  const name = cleanText(site.name);
+  const number = cleanText(site.siteNumber || "");
+  return number && !name.includes(number) ? `${number} ${name}` : name;
+}
+
 function renderSiteLine(site: TrunkSite, templates: TemplateSet): string {
   const row = cloneTemplate(templates.siteLine);
-  row[1] = cleanText(site.name);
+  row[1] = siteLabel(site);
   row[2] = boolToken(site.avoid);
   row[3] = (site.lat ?? 0).toFixed(6);
   row[4] = (site.lon ?? 0).toFixed(6);
   row[5] = String(site.rangeMiles ?? 0);
+  if (site.nac) row[15] = cleanText(site.nac);
   return joinTokens(row);
 }
 
-function renderTFreqLine(freqHz: number, templates: TemplateSet): string {
+/** Control channels carry LCN 0; voice channels are numbered from 1 in site order. */
+function renderTFreqLine(freqHz: number, templates: TemplateSet, lcn = 0): string {
   const row = cloneTemplate(templates.tFreqLine);
   row[4] = String(freqHz);
+  row[5] = String(lcn);
   return joinTokens(row);
 }
 
@@ -90,9 +107,9 @@ function renderTGroupLine(group: TrunkGroup, templates: TemplateSet): string {
   return joinTokens(row);
 }
 
-function renderTGIDLine(tg: Talkgroup, templates: TemplateSet): string {
+function renderTGIDLine(tg: Talkgroup, templates: TemplateSet, alphaTagMax?: number): string {
   const row = cloneTemplate(templates.tgidLine);
-  row[1] = cleanText(tg.name);
+  row[1] = alphaTag(tg.name, alphaTagMax);
   row[2] = boolToken(tg.avoid);
   row[3] = String(tg.tgid);
   row[5] = String(tg.serviceType);
@@ -113,7 +130,7 @@ function renderOneFavorites(list: FavoriteList, ctx: RenderContext): string {
       system.departments.forEach((dept) => {
         lines.push(renderCGroupLine(parentRef, dept, ctx.templates, ctx.ids));
         dept.channels.forEach((channel) => {
-          lines.push(renderCFreqLine(channel, dept, ctx.templates, ctx.ids));
+          lines.push(renderCFreqLine(channel, dept, ctx.templates, ctx.ids, ctx.alphaTagMax));
         });
       });
       return;
@@ -125,11 +142,14 @@ function renderOneFavorites(list: FavoriteList, ctx: RenderContext): string {
       site.controlChannelsHz.forEach((freq) => {
         lines.push(renderTFreqLine(freq, ctx.templates));
       });
+      (site.voiceChannelsHz || []).forEach((freq, i) => {
+        lines.push(renderTFreqLine(freq, ctx.templates, i + 1));
+      });
     });
     system.groups.forEach((group) => {
       lines.push(renderTGroupLine(group, ctx.templates));
       group.talkgroups.forEach((tg) => {
-        lines.push(renderTGIDLine(tg, ctx.templates));
+        lines.push(renderTGIDLine(tg, ctx.templates, ctx.alphaTagMax));
       });
     });
   });
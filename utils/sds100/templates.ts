@@ -1,3 +1,9 @@
+import type { FormatVersion } from "./types";
+import type { ModelProfile } from "./profiles";
+import { UNIDEN_OTHER_SERVICE_TYPE } from "../categoryTaxonomy";
+
+const DEFAULT_SERVICE_TYPE = String(UNIDEN_OTHER_SERVICE_TYPE);
+
 export interface TemplateSet {
   headerTargetModel: string[];
   headerFormatVersion: string[];
@@ -17,12 +23,12 @@ const DEFAULT_TEMPLATES: TemplateSet = {
   headerFormatVersion: ["FormatVersion", "1.00"],
   conventionalLine: ["Conventional", "AgencyId=1", "StateId=1", "NEW SYSTEM", "Off", "Conventional"],
   cGroupLine: ["C-Group", "CGroupId=1", "AgencyId=1", "NEW DEPARTMENT", "Off", "0.000000", "0.000000", "0.0", "Circle", "Off", "Global"],
-  cFreqLine: ["C-Freq", "CFreqId=1", "CGroupId=1", "NEW CHANNEL", "Off", "155000000", "NFM", "", "3"],
+  cFreqLine: ["C-Freq", "CFreqId=1", "CGroupId=1", "NEW CHANNEL", "Off", "155000000", "NFM", "", DEFAULT_SERVICE_TYPE],
   trunkLine: ["Trunk", "", "", "NEW TRUNK", "Off", "P25Standard", "Off", "Off", "Auto", "Ignore"],
   siteLine: ["Site", "NEW SITE", "Off", "0.000000", "0.000000", "0.0", "AUTO", "Custom", "", "Circle", "Off", "400", "Auto", "8", "Off", "0", "Global"],
   tFreqLine: ["T-Freq", "", "", "Off", "770000000", "0", "Srch"],
   tGroupLine: ["T-Group", "NEW TGROUP", "Off", "0.000000", "0.000000", "0.0", "Circle", "Off"],
-  tgidLine: ["TGID", "NEW TGID", "Off", "1001", "ALL", "3", "2", "0", "Off", "Auto", "Off", "On", "Off", "Off", "1"],
+  tgidLine: ["TGID", "NEW TGID", "Off", "1001", "ALL", DEFAULT_SERVICE_TYPE, "2", "0", "Off", "Auto", "Off", "On", "Off", "Off", "1"],
   fListLine: ["F-List", "NEW LIST", "f_000001.hpd", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off", "Off"],
 };
 
@@ -30,6 +36,13 @@ export function getDefaultTemplates(): TemplateSet {
   return structuredClone(DEFAULT_TEMPLATES);
 }
 
+export function getProfileTemplates(profile: ModelProfile, formatVersion: FormatVersion): TemplateSet {
+  const templates = getDefaultTemplates();
+  templates.headerTargetModel = ["TargetModel", profile.targetModel];
+  templates.headerFormatVersion = ["FormatVersion", formatVersion];
+  return templates;
+}
+
 export function cloneTemplate(line: string[]): string[] {
   return line.slice();
 }
@@ -1,6 +1,6 @@
 export type OnOff = "On" | "Off";
 
-export type ScannerModel = "BCDx36HP";
+export type ScannerModel = "BCDx36HP" | "BCD436HP" | "BCD536HP" | "SDS100" | "SDS200";
 export type FormatVersion = "1.00";
 
 export type Modulation = "AUTO" | "AM" | "FM" | "NFM" | "WFM" | "FMB";
@@ -85,6 +85,8 @@ export interface TrunkSite {
   id?: number;
   name: string;
   avoid: boolean;
+  siteNumber?: string;
+  nac?: string;
   lat?: number;
   lon?: number;
   rangeMiles?: number;
@@ -120,6 +122,8 @@ export interface ValidationIssue {
 export interface ValidationResult {
   valid: boolean;
   issues: ValidationIssue[];
+  /** Entries that are exported but altered to fit the model, e.g. names shortened to the alpha tag limit. */
+  notices: ValidationIssue[];
 }
 
 export interface BuildFile {
@@ -130,4 +134,5 @@ export interface BuildFile {
 export interface BuildOutput {
   files: BuildFile[];
   warnings: ValidationIssue[];
+  notices: ValidationIssue[];
 }
@@ -1,4 +1,5 @@
-import type { ExportJob, SystemRecord, ValidationIssue, ValidationResult } from "./types";
+import type { ExportJob, FavoriteList, SystemRecord, ValidationIssue, ValidationResult } from "./types";
+import { getModelProfile, isScannerModel, SCANNER_MODELS, type ModelProfile } from "./profiles";
 
 function push(
   issues: ValidationIssue[],
@@ -21,7 +22,40 @@ function isValidLatLon(lat?: number, lon?: number): boolean {
   return lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
 }
 
-function validateSystem(system: SystemRecord, path: string, issues: ValidationIssue[]): void {
+// The entry is still written, only with a shorter name, so this is a notice rather than an issue.
+function checkAlphaTag(name: string, path: string, notices: ValidationIssue[], profile?: ModelProfile): void {
+  const tag = name.trim();
+  if (profile && tag.length > profile.limits.alphaTagMax) {
+    push(notices, "warning", "ALPHA_TAG_LENGTH", path, `"${tag}" shows as "${tag.slice(0, profile.limits.alphaTagMax).trim()}" on ${profile.label}.`);
+  }
+}
+
+function checkServiceType(serviceType: number, path: string, issues: ValidationIssue[], profile?: ModelProfile): void {
+  if (serviceType < 1 || serviceType > 255) {
+    push(issues, "warning", "SERVICE_TYPE_RANGE", path, "Service type should be between 1 and 255.");
+    return;
+  }
+  if (profile && !(serviceType in profile.serviceTypes)) {
+    push(issues, "warning", "SERVICE_TYPE_UNKNOWN", path, `Service type ${serviceType} is not defined on ${profile.label}.`);
+  }
+}
+
+function countChannels(list: FavoriteList): number {
+  return list.systems.reduce((sum, system) => {
+    if (system.kind === "conventional") {
+      return sum + system.departments.reduce((n, dept) => n + dept.channels.length, 0);
+    }
+    return sum + system.groups.reduce((n, group) => n + group.talkgroups.length, 0);
+  }, 0);
+}
+
+function validateSystem(
+  system: SystemRecord,
+  path: string,
+  issues: ValidationIssue[],
+  notices: ValidationIssue[],
+  profile?: ModelProfile,
+): void {
   if (!system.name.trim()) {
     push(issues, "error", "SYSTEM_NAME_REQUIRED", `${path}.name`, "System name is required.");
   }
@@ -49,12 +83,11 @@ function validateSystem(system: SystemRecord, path: string, issues: ValidationIs
         if (!ch.name.trim()) {
           push(issues, "error", "CHANNEL_NAME_REQUIRED", `${chPath}.name`, "Channel name is required.");
         }
+        checkAlphaTag(ch.name, `${chPath}.name`, notices, profile);
         if (!Number.isInteger(ch.frequencyHz) || ch.frequencyHz < 25_000_000 || ch.frequencyHz > 1_300_000_000) {
           push(issues, "error", "FREQ_RANGE", `${chPath}.frequencyHz`, "Frequency must be integer Hz between 25MHz and 1300MHz.");
         }
-        if (ch.serviceType < 1 || ch.serviceType > 255) {
-          push(issues, "warning", "SERVICE_TYPE_RANGE", `${chPath}.serviceType`, "Service type should be between 1 and 255.");
-        }
+        checkServiceType(ch.serviceType, `${chPath}.serviceType`, issues, profile);
         if (ch.delaySec < 0 || ch.delaySec > 30) {
           push(issues, "warning", "DELAY_RANGE", `${chPath}.delaySec`, "Delay should be between 0 and 30 seconds.");
         }
@@ -99,6 +132,8 @@ function validateSystem(system: SystemRecord, path: string, issues: ValidationIs
         if (!Number.isInteger(tg.tgid) || tg.tgid < 1 || tg.tgid > 16_777_215) {
           push(issues, "error", "TGID_RANGE", `${tgPath}.tgid`, "Talkgroup id must be between 1 and 16777215.");
         }
+        checkAlphaTag(tg.name, `${tgPath}.name`, notices, profile);
+        checkServiceType(tg.serviceType, `${tgPath}.serviceType`, issues, profile);
       });
     });
   }
@@ -106,16 +141,20 @@ function validateSystem(system: SystemRecord, path: string, issues: ValidationIs
 
 export function validateExportJob(job: ExportJob): ValidationResult {
   const issues: ValidationIssue[] = [];
+  const notices: ValidationIssue[] = [];
 
-  if (job.scannerModel !== "BCDx36HP") {
-    push(issues, "error", "MODEL_UNSUPPORTED", "scannerModel", "Only BCDx36HP is currently supported.");
-  }
-  if (job.formatVersion !== "1.00") {
-    push(issues, "error", "FORMAT_UNSUPPORTED", "formatVersion", "Only format version 1.00 is currently supported.");
+  const profile = isScannerModel(job.scannerModel) ? getModelProfile(job.scannerModel) : undefined;
+  if (!profile) {
+    push(issues, "error", "MODEL_UNSUPPORTED", "scannerModel", `Scanner model must be one of ${SCANNER_MODELS.join(", ")}.`);
+  } else if (!profile.formatVersions.includes(job.formatVersion)) {
+    push(issues, "error", "FORMAT_UNSUPPORTED", "formatVersion", `${profile.label} supports format version ${profile.formatVersions.join(", ")}.`);
   }
   if (!job.favoritesLists.length) {
     push(issues, "error", "NO_LISTS", "favoritesLists", "At least one favorites list is required.");
   }
+  if (profile && job.favoritesLists.length > profile.limits.maxLists) {
+    push(issues, "error", "TOO_MANY_LISTS", "favoritesLists", `${profile.label} holds at most ${profile.limits.maxLists} favorites lists.`);
+  }
 
   job.favoritesLists.forEach((list, li) => {
     const listPath = `favoritesLists[${li}]`;
@@ -128,15 +167,19 @@ export function validateExportJob(job: ExportJob): ValidationResult {
     if (list.quickKey !== undefined && list.quickKey !== null && (list.quickKey < 0 || list.quickKey > 99)) {
       push(issues, "warning", "QK_RANGE", `${listPath}.quickKey`, "Quick key should be between 0 and 99.");
     }
+    if (profile && countChannels(list) > profile.limits.maxChannelsPerList) {
+      push(issues, "warning", "LIST_TOO_LARGE", listPath, `List has more than ${profile.limits.maxChannelsPerList} channels and talkgroups, the practical limit for ${profile.label}.`);
+    }
 
     list.systems.forEach((system, si) => {
-      validateSystem(system, `${listPath}.systems[${si}]`, issues);
+      validateSystem(system, `${listPath}.systems[${si}]`, issues, notices, profile);
     });
   });
 
   return {
     valid: !issues.some((x) => x.severity === "error"),
     issues,
+    notices,
   };
 }
 
@@ -154,11 +197,10 @@ export function parseExportJobPayload(payload: unknown): { success: true; data:
   const favoritesLists = payload.favoritesLists;
   const options = payload.options;
 
-  if (scannerModel !== "BCDx36HP") {
-    push(issues, "error", "SCHEMA", "scannerModel", "scannerModel must be BCDx36HP.");
-  }
-  if (formatVersion !== "1.00") {
-    push(issues, "error", "SCHEMA", "formatVersion", "formatVersion must be 1.00.");
+  if (!isScannerModel(scannerModel)) {
+    push(issues, "error", "SCHEMA", "scannerModel", `scannerModel must be one of ${SCANNER_MODELS.join(", ")}.`);
+  } else if (!getModelProfile(scannerModel).formatVersions.includes(formatVersion as ExportJob["formatVersion"])) {
+    push(issues, "error", "SCHEMA", "formatVersion", `formatVersion must be one of ${getModelProfile(scannerModel).formatVersions.join(", ")}.`);
   }
   if (!Array.isArray(favoritesLists)) {
     push(issues, "error", "SCHEMA", "favoritesLists", "favoritesLists must be an array.");
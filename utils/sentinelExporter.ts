@@ -1,6 +1,14 @@
 
 import JSZip from 'jszip';
-import { ScanResult, TripResult } from '../types';
+import { Agency, ScanResult, TripResult, TrunkedSystem } from '../types';
+import {
+    buildExport,
+    getModelProfile,
+    scanResultToExportJob,
+    tripResultToExportJob,
+    type MappedExportJob,
+    type ScannerModel,
+} from './sds100';
 import {
     CONVENTIONAL_SYSTEM_FILTER_KEYS as CONV_FILTER_KEYS,
     TRUNKED_SYSTEM_FILTER_KEYS as TRUNK_FILTER_KEYS,
@@ -8,15 +16,30 @@ import {
     trunkedSystemMatchesFilter,
     type SystemFilterKey,
 } from './systemTypeFilters';
+import { unidenServiceLabelFor } from './categoryTaxonomy';
+import { distinctStatewideResults, statewideResult } from './statewide';
+import { dedupeTrunkedSystems } from './systemIdentity';
 
 /**
  * Sentinel Exporter
  * 
  * Generates a ZIP file containing Sentinel-formatted CSV files
  * for easy copy-paste import into Uniden Sentinel software
- * (SDS100 / SDS200 programming).
+ * (SDS100 / SDS200 programming), plus ready-to-copy favorites list
+ * files (f_list.cfg + .hpd) for the scanner's SD card.
  */
 
+export interface Sds100PackageSummary {
+    /** Number of favorites lists written to the SD card folder. */
+    listCount: number;
+    /** Folder inside the ZIP to copy onto the SD card root. */
+    sdCardDir: string;
+    /** Rows or systems that could not be represented in the .hpd files. */
+    skipped: string[];
+    /** Entries written with a name shortened to the model's alpha tag limit. */
+    truncated: string[];
+}
+
 function filterScanResultBySystemTypes(data: ScanResult, selectedFilters?: SystemFilterKey[]): ScanResult {
     if (!selectedFilters || selectedFilters.length === 0) {
         return data;
@@ -24,22 +47,28 @@ function filterScanResultBySystemTypes(data: ScanResult, selectedFilters?: Syste
 
     const selected = new Set<SystemFilterKey>(selectedFilters);
 
-    const agencies = (data.agencies || [])
-        .map(agency => ({
-            ...agency,
-            frequencies: (agency.frequencies || []).filter(freq =>
-                CONV_FILTER_KEYS.some(key => selected.has(key) && frequencyMatchesSystemFilter(freq, key))
-            )
-        }))
-        .filter(agency => agency.frequencies.length > 0);
-
-    const trunkedSystems = (data.trunkedSystems || [])
-        .filter(system => TRUNK_FILTER_KEYS.some(key => selected.has(key) && trunkedSystemMatchesFilter(system, key)));
-
     return {
         ...data,
-        agencies,
-        trunkedSystems,
+        ...filterChannelsBySystemTypes(data.agencies, data.trunkedSystems, selected),
+        statewide: data.statewide && {
+            ...data.statewide,
+            ...filterChannelsBySystemTypes(data.statewide.agencies, data.statewide.trunkedSystems, selected),
+        },
+    };
+}
+
+function filterChannelsBySystemTypes(agencies: Agency[], trunkedSystems: TrunkedSystem[], selected: Set<SystemFilterKey>) {
+    return {
+        agencies: (agencies || [])
+            .map(agency => ({
+                ...agency,
+                frequencies: (agency.frequencies || []).filter(freq =>
+                    CONV_FILTER_KEYS.some(key => selected.has(key) && frequencyMatchesSystemFilter(freq, key))
+                )
+            }))
+            .filter(agency => agency.frequencies.length > 0),
+        trunkedSystems: (trunkedSystems || [])
+            .filter(system => TRUNK_FILTER_KEYS.some(key => selected.has(key) && trunkedSystemMatchesFilter(system, key))),
     };
 }
 
@@ -65,7 +94,7 @@ function buildConventionalCSV(agencies: Agency[], locationName: string): string
     const lines: string[] = [];
 
     // Header matches Sentinel's conventional channel editor column order
-    lines.push('Frequency,Name,Modulation,CTCSS_DCS,Department,Tag,System');
+    lines.push('Frequency,Name,Modulation,CTCSS_DCS,Department,Tag,Service_Type,System');
 
     for (const agency of agencies) {
         for (const freq of (agency.frequencies || [])) {
@@ -80,6 +109,7 @@ function buildConventionalCSV(agencies: Agency[], locationName: string): string
                 tone,
                 agency.name,
                 freq.tag || agency.category,
+                unidenServiceLabelFor(agency.category, freq.tag),
                 locationName
             ]));
         }
@@ -101,7 +131,25 @@ function buildTrunkedCSV(system: TrunkedSystem): string {
     lines.push('');
 
     // Section 2: Site Frequencies (Control Channels)
-    if (system.frequencies && system.frequencies.length > 0) {
+    if (system.sites && system.sites.length > 0) {
+        lines.push('# SITES - Enter each site in Sentinel under New Site, then Set Frequencies');
+        lines.push('Site_Number,Site_Name,NAC,Latitude,Longitude,Range_Miles,Site_Frequency,Use');
+        for (const site of system.sites) {
+            for (const ch of site.channels) {
+                lines.push(csvRow([
+                    site.siteNumber || '',
+                    site.name,
+                    site.nac || '',
+                    site.lat?.toFixed(6) || '',
+                    site.lon?.toFixed(6) || '',
+                    site.rangeMiles?.toString() || '',
+                    ch.freq,
+                    ch.use
+                ]));
+            }
+        }
+        lines.push('');
+    } else if (system.frequencies && system.frequencies.length > 0) {
         lines.push('# SITE FREQUENCIES - Enter these in Sentinel under Edit Site > Set Frequencies');
         lines.push('Site_Frequency,Use');
         for (const f of system.frequencies) {
@@ -112,13 +160,14 @@ function buildTrunkedCSV(system: TrunkedSystem): string {
 
     // Section 3: Talkgroups - columns match Sentinel's talkgroup editor
     lines.push('# TALKGROUPS - Select all rows below and paste into Sentinel talkgroup editor');
-    lines.push('TGID,Name,Tag,Mode,Description');
+    lines.push('TGID,Name,Tag,Service_Type,Mode,Description');
 
     for (const tg of (system.talkgroups || [])) {
         lines.push(csvRow([
             tg.dec,
             (tg.alphaTag || '').substring(0, 16),
             tg.tag || '',
+            unidenServiceLabelFor(undefined, tg.tag),
             tg.mode || 'D',
             tg.description || ''
         ]));
@@ -196,7 +245,9 @@ function buildQuickReference(data: ScanResult): string {
 
 // --- Import Instructions ---
 
-function buildImportGuide(data: ScanResult): string {
+function buildImportGuide(data: ScanResult, scannerModel: ScannerModel): string {
+    const profile = getModelProfile(scannerModel);
+    const listDir = `${profile.rootDir}/${profile.favoritesDir}`;
     const hasTrunked = (data.trunkedSystems || []).length > 0;
     const hasConventional = (data.agencies || []).length > 0;
 
@@ -211,6 +262,20 @@ function buildImportGuide(data: ScanResult): string {
     lines.push(`Generated: ${new Date().toLocaleString()}`);
     lines.push('');
     lines.push('════════════════════════════════════════════════════════════');
+    lines.push('  FAST PATH: COPY TO THE SD CARD');
+    lines.push('════════════════════════════════════════════════════════════');
+    lines.push('');
+    lines.push(`The SD_CARD folder holds favorites list files for the ${profile.label}.`);
+    lines.push(`1. Back up the ${profile.rootDir} folder on your scanner's SD card.`);
+    lines.push(`2. Copy the .hpd files from SD_CARD/${listDir}`);
+    lines.push('   into the same folder on the SD card.');
+    lines.push('3. If you have no existing favorites lists, also copy');
+    lines.push('   f_list.cfg. Otherwise open the card in Sentinel and use');
+    lines.push('   "Read from Scanner" so it re-indexes the new lists.');
+    lines.push('');
+    lines.push('The steps below are the manual alternative using the CSVs.');
+    lines.push('');
+    lines.push('════════════════════════════════════════════════════════════');
     lines.push('  BEFORE YOU START');
     lines.push('════════════════════════════════════════════════════════════');
     lines.push('');
@@ -295,6 +360,28 @@ function buildImportGuide(data: ScanResult): string {
     return lines.join('\n');
 }
 
+// --- SD Card Favorites Lists ---
+
+function addFavoritesFiles(zip: JSZip, mapped: MappedExportJob): Sds100PackageSummary {
+    const skipped = mapped.skipped.map(issue => issue.message);
+    const sdCardDir = `SD_CARD/${getModelProfile(mapped.job.scannerModel).rootDir}`;
+    if (mapped.job.favoritesLists.length === 0) {
+        return { listCount: 0, sdCardDir, skipped, truncated: [] };
+    }
+
+    const output = buildExport(mapped.job);
+    for (const file of output.files) {
+        zip.file(`SD_CARD/${file.path}`, file.content);
+    }
+
+    return {
+        listCount: mapped.job.favoritesLists.length,
+        sdCardDir,
+        skipped: [...skipped, ...output.warnings.map(issue => issue.message)],
+        truncated: output.notices.map(issue => issue.message),
+    };
+}
+
 // --- Filename Sanitizer ---
 
 function safeFilename(name: string): string {
@@ -317,13 +404,17 @@ function timestampTag(): string {
 /**
  * Export a single scan result as a Sentinel-compatible ZIP
  */
-export async function exportSentinelZip(data: ScanResult, selectedFilters?: SystemFilterKey[]): Promise<void> {
+export async function exportSentinelZip(
+    data: ScanResult,
+    selectedFilters?: SystemFilterKey[],
+    scannerModel: ScannerModel = 'SDS100',
+): Promise<Sds100PackageSummary> {
     const filteredData = filterScanResultBySystemTypes(data, selectedFilters);
     const zip = new JSZip();
     const locName = safeFilename(filteredData.locationName);
 
     // Import Guide
-    zip.file('README_IMPORT_GUIDE.txt', buildImportGuide(filteredData));
+    zip.file('README_IMPORT_GUIDE.txt', buildImportGuide(filteredData, scannerModel));
 
     // Quick Reference
     zip.file('Quick_Reference.txt', buildQuickReference(filteredData));
@@ -342,33 +433,58 @@ export async function exportSentinelZip(data: ScanResult, selectedFilters?: Syst
         zip.file(`Trunked_${i + 1}_${sysName}.csv`, buildTrunkedCSV(sys));
     }
 
+    // State Police, DOT and statewide systems in a folder of their own
+    const statewide = statewideResult(filteredData);
+    if (statewide) {
+        const folder = zip.folder(`Statewide_${safeFilename(statewide.locationName)}`)!;
+        if (statewide.agencies.length > 0) {
+            folder.file('Conventional_Channels.csv', buildConventionalCSV(statewide.agencies, statewide.locationName));
+        }
+        statewide.trunkedSystems.forEach((sys, i) => {
+            folder.file(`Trunked_${i + 1}_${safeFilename(sys.name)}.csv`, buildTrunkedCSV(sys));
+        });
+    }
+
+    // Favorites list files for the SD card
+    const summary = addFavoritesFiles(zip, scanResultToExportJob(filteredData, { scannerModel }));
+
     // Generate and download ZIP
     const blob = await zip.generateAsync({ type: 'blob' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `SDS100_${locName}_${timestampTag()}.zip`;
+    link.download = `${scannerModel}_${locName}_${timestampTag()}.zip`;
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
+
+    return summary;
 }
 
 /**
  * Export a full trip result as a Sentinel-compatible ZIP
  */
-export async function exportTripSentinelZip(trip: TripResult): Promise<void> {
+export async function exportTripSentinelZip(trip: TripResult, scannerModel: ScannerModel = 'SDS100'): Promise<Sds100PackageSummary> {
     const zip = new JSZip();
     const tripName = `${safeFilename(trip.startLocation)}_to_${safeFilename(trip.endLocation)}`;
     const locations = trip.locations || [];
 
     // Master import guide (uses first location as template for instructions)
     if (locations.length > 0) {
-        const masterGuide = buildImportGuide(locations[0].data);
+        const masterGuide = buildImportGuide(locations[0].data, scannerModel);
         zip.file('README_IMPORT_GUIDE.txt', masterGuide);
     }
 
+    // Statewide/regional systems repeat in every zone's search results. Each
+    // state's statewide section is one more zone, after the route's own.
+    const statewides = distinctStatewideResults(locations.map(loc => loc.data));
+    const systems = dedupeTrunkedSystems([
+        ...locations.map(loc => loc.data.trunkedSystems || []),
+        ...statewides.map(statewide => statewide.trunkedSystems),
+    ]);
+
     // Per-location folders
     for (let locIdx = 0; locIdx < locations.length; locIdx++) {
         const loc = locations[locIdx];
@@ -384,24 +500,71 @@ export async function exportTripSentinelZip(trip: TripResult): Promise<void> {
             folder.file('Conventional_Channels.csv', buildConventionalCSV(agencies, loc.locationName));
         }
 
-        // Trunked
-        const systems = loc.data.trunkedSystems || [];
-        for (let i = 0; i < systems.length; i++) {
-            const sys = systems[i];
+        // Trunked: each system once, in the zone it first appears in, with every zone's sites
+        const zoneSystems = systems.filter(entry => entry.zones[0] === locIdx);
+        for (let i = 0; i < zoneSystems.length; i++) {
+            const sys = zoneSystems[i].system;
             const sysName = safeFilename(sys.name);
             folder.file(`Trunked_${i + 1}_${sysName}.csv`, buildTrunkedCSV(sys));
         }
     }
 
+    // Statewide folders, skipping systems already written under a route zone
+    statewides.forEach((statewide, si) => {
+        const folder = zip.folder(`Statewide_${safeFilename(statewide.locationName)}`)!;
+        if (statewide.agencies.length > 0) {
+            folder.file('Conventional_Channels.csv', buildConventionalCSV(statewide.agencies, statewide.locationName));
+        }
+        systems
+            .filter(entry => entry.zones[0] === locations.length + si)
+            .forEach((entry, i) => {
+                folder.file(`Trunked_${i + 1}_${safeFilename(entry.system.name)}.csv`, buildTrunkedCSV(entry.system));
+            });
+    });
+
+    // One favorites list per zone (and per state) on the SD card
+    const summary = addFavoritesFiles(zip, tripResultToExportJob(trip, { scannerModel }));
+
     // Generate and download
     const blob = await zip.generateAsync({ type: 'blob' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `SDS100_Trip_${tripName}_${timestampTag()}.zip`;
+    link.download = `${scannerModel}_Trip_${tripName}_${timestampTag()}.zip`;
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
+
+    return summary;
+}
+
+/**
+ * Turn a package summary into the status notice shown after an export.
+ */
+export function describeSds100Package(
+    summary: Sds100PackageSummary,
+    scannerModel: ScannerModel = 'SDS100',
+): { tone: 'success' | 'warning'; message: string; detail: string } {
+    const { label } = getModelProfile(scannerModel);
+    if (summary.listCount === 0) {
+        return {
+            tone: 'warning',
+            message: `${label} package generated without favorites list files.`,
+            detail: 'Nothing in these results could be written as .hpd files. Use the CSVs in the ZIP with Sentinel instead.',
+        };
+    }
+    const { skipped, truncated } = summary;
+    const notes = [
+        skipped.length > 0 && `${skipped.length} item${skipped.length === 1 ? ' was' : 's were'} skipped: ${skipped[0]}`,
+        truncated.length > 0 && `${truncated.length} name${truncated.length === 1 ? ' is' : 's are'} shortened to fit the scanner display: ${truncated[0]}`,
+    ].filter(Boolean);
+    return {
+        tone: skipped.length > 0 ? 'warning' : 'success',
+        message: `${label} package generated.`,
+        detail: notes.length > 0
+            ? `Copy ${summary.sdCardDir} to your SD card. ${notes.join(' ')}`
+            : `Copy ${summary.sdCardDir} from the ZIP onto your scanner's SD card.`,
+    };
 }
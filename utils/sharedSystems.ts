@@ -0,0 +1,115 @@
+import type { Frequency, TripResult, TrunkedSystem } from '../types';
+import { freqKey, trunkedControlChannels, trunkedSystemIdentity } from './systemIdentity';
+import { formatTone, toneOf } from './tones';
+
+/**
+ * Radio systems a trip can keep using across zone boundaries. Trunked
+ * systems match by RR sid, normalized name or a shared control channel, because a
+ * statewide network is often listed under a different site or county name in
+ * each zone. Conventional channels match by frequency plus tone when they
+ * are interop channels or belong to the same agency, so two unrelated
+ * agencies reusing a frequency are not reported as shared.
+ */
+
+export type SharedSystemKind = 'trunked' | 'interop' | 'agency';
+
+export interface SharedSystem {
+  key: string;
+  kind: SharedSystemKind;
+  label: string;
+  /** Indexes into trip.locations, ascending. */
+  zones: number[];
+}
+
+// National interop channel names (VTAC, UCALL, 8TAC, ICALL...) plus common state labels.
+const INTEROP_PATTERN = /interop|mutual\s*aid|nlee|ispern|\b[vu8i](tac|call|med|fire|law)\s*\d*\b|\b8calt?\b|statewide|\bsar\b/i;
+
+function normalizeName(name: string): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isInteropChannel(freq: Frequency): boolean {
+  return INTEROP_PATTERN.test(`${freq.alphaTag || ''} ${freq.description || ''} ${freq.tag || ''}`);
+}
+
+function sharedTrunkedSystems(trip: TripResult): SharedSystem[] {
+  const nodes: Array<{ zone: number; system: TrunkedSystem; name: string; control: Set<string> }> = [];
+  trip.locations.forEach((loc, zone) => {
+    (loc.data?.trunkedSystems || []).forEach((system) => {
+      nodes.push({ zone, system, name: normalizeName(system.name), control: trunkedControlChannels(system) });
+    });
+  });
+
+  // Union-find over every system listing on the trip.
+  const parent = nodes.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      const sameSid = Boolean(a.system.sid) && a.system.sid === b.system.sid;
+      const sameName = a.name && a.name === b.name;
+      const sharedControl = !sameName && Array.from(a.control).some((key) => b.control.has(key));
+      if (sameSid || sameName || sharedControl) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, typeof nodes>();
+  nodes.forEach((node, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(node);
+  });
+
+  const shared: SharedSystem[] = [];
+  groups.forEach((members) => {
+    const zones = Array.from(new Set(members.map((m) => m.zone))).sort((a, b) => a - b);
+    if (zones.length < 2) return;
+    shared.push({ key: `trunked:${trunkedSystemIdentity(members[0].system)}`, kind: 'trunked', label: members[0].system.name, zones });
+  });
+  return shared;
+}
+
+function sharedConventional(trip: TripResult): SharedSystem[] {
+  const channels = new Map<string, { label: string; zones: Set<number>; interop: boolean }>();
+  const agencies = new Map<string, { label: string; zones: Set<number> }>();
+
+  trip.locations.forEach((loc, zone) => {
+    (loc.data?.agencies || []).forEach((agency) => {
+      const agencyKey = normalizeName(agency.name);
+      if (agencyKey) {
+        if (!agencies.has(agencyKey)) agencies.set(agencyKey, { label: agency.name, zones: new Set() });
+        agencies.get(agencyKey)!.zones.add(zone);
+      }
+      (agency.frequencies || []).forEach((freq) => {
+        const key = `${freqKey(freq.freq)}|${formatTone(toneOf(freq))}`;
+        if (!channels.has(key)) {
+          channels.set(key, { label: `${freq.alphaTag || freq.description || 'Channel'} ${freq.freq}`, zones: new Set(), interop: false });
+        }
+        const entry = channels.get(key)!;
+        entry.zones.add(zone);
+        entry.interop = entry.interop || isInteropChannel(freq);
+      });
+    });
+  });
+
+  const shared: SharedSystem[] = [];
+  agencies.forEach((entry, key) => {
+    if (entry.zones.size < 2) return;
+    shared.push({ key: `agency:${key}`, kind: 'agency', label: entry.label, zones: Array.from(entry.zones).sort((a, b) => a - b) });
+  });
+  channels.forEach((entry, key) => {
+    // Same agency across zones is already reported above.
+    if (entry.zones.size < 2 || !entry.interop) return;
+    shared.push({ key: `interop:${key}`, kind: 'interop', label: entry.label, zones: Array.from(entry.zones).sort((a, b) => a - b) });
+  });
+  return shared;
+}
+
+/** Every system, agency or interop channel that appears in two or more trip zones. Trunked systems first. */
+export function findSharedSystems(trip: TripResult | null): SharedSystem[] {
+  if (!trip || !Array.isArray(trip.locations) || trip.locations.length < 2) return [];
+  const order: Record<SharedSystemKind, number> = { trunked: 0, interop: 1, agency: 2 };
+  return [...sharedTrunkedSystems(trip), ...sharedConventional(trip)]
+    .sort((a, b) => order[a.kind] - order[b.kind] || b.zones.length - a.zones.length || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,33 @@
+import type { ScanResult } from '../types';
+
+/**
+ * The statewide section of an RR county result (State Police, DOT, DNR,
+ * interop and the state's trunked systems) as a result of its own, so
+ * exporters can give it a labeled list, zone or folder. On a trip every
+ * county in a state carries the same section, so it is exported once.
+ */
+
+export function statewideResult(data: ScanResult): ScanResult | null {
+  const section = data.statewide;
+  if (!section) return null;
+  const agencies = section.agencies || [];
+  const trunkedSystems = section.trunkedSystems || [];
+  if (agencies.length === 0 && trunkedSystems.length === 0) return null;
+  return {
+    source: data.source,
+    locationName: section.name,
+    summary: `Statewide agencies and systems for ${section.name.replace(/ Statewide$/, '')}.`,
+    agencies,
+    trunkedSystems,
+  };
+}
+
+/** One statewide result per state, in order of first appearance. */
+export function distinctStatewideResults(results: ScanResult[]): ScanResult[] {
+  const byName = new Map<string, ScanResult>();
+  results.forEach(result => {
+    const statewide = statewideResult(result);
+    if (statewide && !byName.has(statewide.locationName)) byName.set(statewide.locationName, statewide);
+  });
+  return Array.from(byName.values());
+}
@@ -0,0 +1,151 @@
+import type { TrunkedSite, TrunkedSystem, TrunkedSystemFreq, Talkgroup } from '../types';
+
+/**
+ * Identity for trunked systems seen in more than one result. RadioReference
+ * systems carry their sid; anything else is matched on a fingerprint of
+ * normalized name + type + control channels. Statewide networks come back
+ * in every county search, so trip exports merge them into one system with
+ * the union of the sites and talkgroups seen along the route.
+ */
+
+export interface MergedTrunkedSystem {
+  system: TrunkedSystem;
+  /** Indexes of the input groups (trip zones) the system appeared in, ascending. */
+  zones: number[];
+}
+
+const normalize = (value: string | undefined) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function freqKey(freq: string): string {
+  const mhz = Number.parseFloat(freq);
+  return Number.isFinite(mhz) ? mhz.toFixed(5) : (freq || '').trim();
+}
+
+/** Control and alternate-control channels across the primary site and every listed site. */
+export function trunkedControlChannels(system: TrunkedSystem): Set<string> {
+  const keys = new Set<string>();
+  (system.frequencies || []).forEach((f) => {
+    if (/^c$|control|^a$|alt/i.test((f.use || '').trim())) keys.add(freqKey(f.freq));
+  });
+  (system.sites || []).forEach((site) => {
+    (site.channels || []).forEach((channel) => {
+      if (channel.use !== 'voice') keys.add(freqKey(channel.freq));
+    });
+  });
+  return keys;
+}
+
+/** Stable identity string: "sid:<id>" for RR systems, otherwise "fp:<name>|<type>|<control channels>". */
+export function trunkedSystemIdentity(system: TrunkedSystem): string {
+  if (system.sid) return `sid:${system.sid}`;
+  const control = Array.from(trunkedControlChannels(system)).sort().join(',');
+  return `fp:${normalize(system.name)}|${normalize(system.type)}|${control}`;
+}
+
+/**
+ * Two listings are the same system when their sids match, or (without a sid
+ * on both) when name and type match and the control channels overlap. A
+ * listing with no control channels at all matches on name and type alone.
+ */
+export function sameTrunkedSystem(a: TrunkedSystem, b: TrunkedSystem): boolean {
+  if (a.sid && b.sid) return a.sid === b.sid;
+  if (normalize(a.name) !== normalize(b.name) || normalize(a.type) !== normalize(b.type)) return false;
+  const aControl = trunkedControlChannels(a);
+  const bControl = trunkedControlChannels(b);
+  if (aControl.size === 0 || bControl.size === 0) return true;
+  return Array.from(aControl).some((key) => bControl.has(key));
+}
+
+/**
+ * Sites a zone's listing contributes. RR returns every site of the system
+ * with the searched county's sites first, so keep that leading block; other
+ * sources list only the sites they know about.
+ */
+function zoneSites(system: TrunkedSystem): TrunkedSite[] {
+  const sites = system.sites || [];
+  const county = sites[0]?.countyId;
+  if (!county) return sites;
+  const leading: TrunkedSite[] = [];
+  for (const site of sites) {
+    if (site.countyId !== county) break;
+    leading.push(site);
+  }
+  return leading;
+}
+
+const siteKey = (site: TrunkedSite) => site.siteNumber ? `#${site.siteNumber}` : normalize(site.name);
+
+function mergeSites(into: TrunkedSite[], sites: TrunkedSite[]) {
+  for (const site of sites) {
+    const existing = into.find((s) => siteKey(s) === siteKey(site));
+    if (!existing) {
+      into.push({ ...site, channels: [...(site.channels || [])] });
+      continue;
+    }
+    const known = new Set(existing.channels.map((ch) => freqKey(ch.freq)));
+    (site.channels || []).forEach((ch) => {
+      if (!known.has(freqKey(ch.freq))) existing.channels.push(ch);
+    });
+  }
+}
+
+function mergeFrequencies(into: TrunkedSystemFreq[], frequencies: TrunkedSystemFreq[] | undefined) {
+  const known = new Set(into.map((f) => freqKey(f.freq)));
+  (frequencies || []).forEach((f) => {
+    if (known.has(freqKey(f.freq))) return;
+    known.add(freqKey(f.freq));
+    into.push(f);
+  });
+}
+
+function mergeTalkgroups(into: Talkgroup[], talkgroups: Talkgroup[] | undefined) {
+  const known = new Set(into.map((tg) => String(tg.dec).trim()));
+  (talkgroups || []).forEach((tg) => {
+    const key = String(tg.dec).trim();
+    if (known.has(key)) return;
+    known.add(key);
+    into.push(tg);
+  });
+}
+
+/**
+ * Collapses the trunked systems of several results (one array per trip zone)
+ * into one entry per system, in order of first appearance, keeping the sites
+ * each zone contributed. Inputs are not mutated.
+ */
+export function dedupeTrunkedSystems(groups: TrunkedSystem[][]): MergedTrunkedSystem[] {
+  const merged: Array<MergedTrunkedSystem & { listings: TrunkedSystem[] }> = [];
+
+  groups.forEach((systems, zone) => {
+    (systems || []).forEach((system) => {
+      const match = merged.find((entry) => entry.listings.some((listing) => sameTrunkedSystem(listing, system)));
+      if (!match) {
+        merged.push({
+          system: {
+            ...system,
+            frequencies: [...(system.frequencies || [])],
+            sites: system.sites ? zoneSites(system).map((site) => ({ ...site, channels: [...(site.channels || [])] })) : undefined,
+            talkgroups: [...(system.talkgroups || [])],
+          },
+          zones: [zone],
+          listings: [system],
+        });
+        return;
+      }
+
+      match.listings.push(system);
+      if (!match.zones.includes(zone)) match.zones.push(zone);
+      const target = match.system;
+      if (!target.sid && system.sid) target.sid = system.sid;
+      if (system.origin === 'RR') target.origin = 'RR';
+      mergeFrequencies(target.frequencies, system.frequencies);
+      if (system.sites && system.sites.length > 0) {
+        target.sites = target.sites || [];
+        mergeSites(target.sites, zoneSites(system));
+      }
+      mergeTalkgroups(target.talkgroups, system.talkgroups);
+    });
+  });
+
+  return merged.map(({ system, zones }) => ({ system, zones }));
+}
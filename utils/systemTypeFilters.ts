@@ -53,7 +53,7 @@ export function trunkedSystemMatchesFilter(system: TrunkedSystem, key: SystemFil
 export function detectSystemFilters(data: ScanResult): Set<SystemFilterKey> {
   const present = new Set<SystemFilterKey>();
 
-  for (const agency of data.agencies || []) {
+  for (const agency of [...(data.agencies || []), ...(data.statewide?.agencies || [])]) {
     for (const freq of agency.frequencies || []) {
       for (const key of CONVENTIONAL_SYSTEM_FILTER_KEYS) {
         if (frequencyMatchesSystemFilter(freq, key)) present.add(key);
@@ -61,7 +61,7 @@ export function detectSystemFilters(data: ScanResult): Set<SystemFilterKey> {
     }
   }
 
-  for (const system of data.trunkedSystems || []) {
+  for (const system of [...(data.trunkedSystems || []), ...(data.statewide?.trunkedSystems || [])]) {
     for (const key of TRUNKED_SYSTEM_FILTER_KEYS) {
       if (trunkedSystemMatchesFilter(system, key)) present.add(key);
     }
@@ -0,0 +1,142 @@
+import type { Frequency, ScanResult, ToneInfo } from '../types';
+
+/**
+ * Tone parsing shared by ingest and every exporter. AI answers and RR's
+ * `tone` field arrive free-form ("100.0", "PL 100", "DPL 023", "NAC 293",
+ * "CC1"); this turns them into a ToneInfo validated against the standard
+ * tone tables so exporters only ever render, never guess.
+ */
+
+/** CTCSS tones radios accept, including the common non-EIA ones. */
+export const CTCSS_TONES = [
+  '67.0', '69.3', '71.9', '74.4', '77.0', '79.7', '82.5', '85.4', '88.5', '91.5', '94.8', '97.4', '100.0',
+  '103.5', '107.2', '110.9', '114.8', '118.8', '123.0', '127.3', '131.8', '136.5', '141.3', '146.2', '150.0',
+  '151.4', '156.7', '159.8', '162.2', '165.5', '167.9', '171.3', '173.8', '177.3', '179.9', '183.5', '186.2',
+  '189.9', '192.8', '196.6', '199.5', '203.5', '206.5', '210.7', '218.1', '225.7', '229.1', '233.6', '241.8',
+  '250.3', '254.1',
+];
+
+/** The 104 standard DCS codes. */
+export const DCS_CODES = [
+  '023', '025', '026', '031', '032', '036', '043', '047', '051', '053', '054', '065', '071', '072', '073', '074',
+  '114', '115', '116', '122', '125', '131', '132', '134', '143', '145', '152', '155', '156', '162', '165', '172',
+  '174', '205', '212', '223', '225', '226', '243', '244', '245', '246', '251', '252', '255', '261', '263', '265',
+  '266', '271', '274', '306', '311', '315', '325', '331', '332', '343', '346', '351', '356', '364', '365', '371',
+  '411', '412', '413', '423', '431', '432', '445', '446', '452', '454', '455', '462', '464', '465', '466', '503',
+  '506', '516', '523', '526', '532', '546', '565', '606', '612', '624', '627', '631', '632', '654', '662', '664',
+  '703', '712', '723', '731', '732', '734', '743', '754',
+];
+
+const DMR_COLOR_CODE_MAX = 15;
+const NXDN_RAN_MAX = 63;
+
+export type ToneContext = 'P25' | 'DMR' | 'NXDN';
+
+function toneContextOf(mode: string | undefined): ToneContext | undefined {
+  const m = (mode || '').toUpperCase();
+  if (m.includes('P25')) return 'P25';
+  if (m.includes('DMR') || m.includes('TRBO')) return 'DMR';
+  if (m.includes('NXDN')) return 'NXDN';
+  return undefined;
+}
+
+function nacOf(raw: string): ToneInfo | null {
+  const n = Number.parseInt(raw, 16);
+  return Number.isInteger(n) && n >= 0 && n <= 0xfff ? { kind: 'nac', nac: n.toString(16).toUpperCase().padStart(3, '0') } : null;
+}
+
+function colorCodeOf(raw: string): ToneInfo | null {
+  const n = Number.parseInt(raw, 10);
+  return Number.isInteger(n) && n >= 0 && n <= DMR_COLOR_CODE_MAX ? { kind: 'colorCode', colorCode: n } : null;
+}
+
+function ranOf(raw: string): ToneInfo | null {
+  const n = Number.parseInt(raw, 10);
+  return Number.isInteger(n) && n >= 0 && n <= NXDN_RAN_MAX ? { kind: 'ran', ran: n } : null;
+}
+
+/**
+ * Classifies one tone string. Bare numbers are read in the channel's digital
+ * context when there is one ("293" on a P25 channel is a NAC, "1" on DMR a
+ * color code). Returns null for a blank value and `unknown` for anything
+ * that is not in the tone tables.
+ */
+export function parseTone(raw: string | undefined, context?: ToneContext): ToneInfo | null {
+  const t = (raw || '').trim().toUpperCase();
+  if (!t) return null;
+  if (/^(CSQ|NONE|CARRIER|OFF)$/.test(t)) return { kind: 'none' };
+
+  let m = t.match(/^(?:D|DCS|DPL|DCG)\s*-?\s*(\d{3})\s*([NI])?$/) || t.match(/^(\d{3})\s*([NI])$/);
+  if (m) {
+    return DCS_CODES.includes(m[1]) ? { kind: 'dcs', code: m[1], inverted: m[2] === 'I' } : { kind: 'unknown', raw: t };
+  }
+
+  m = t.match(/^(?:NAC)\s*[:=]?\s*\$?([0-9A-F]{1,3})$/) || t.match(/^\$([0-9A-F]{1,3})$/);
+  if (m) return nacOf(m[1]) || { kind: 'unknown', raw: t };
+
+  m = t.match(/^(?:CC|COLOU?R\s*CODE)\s*[:=]?\s*(\d{1,2})$/);
+  if (m) return colorCodeOf(m[1]) || { kind: 'unknown', raw: t };
+
+  m = t.match(/^RAN\s*[:=]?\s*(\d{1,2})$/);
+  if (m) return ranOf(m[1]) || { kind: 'unknown', raw: t };
+
+  if (context === 'P25' && /^[0-9A-F]{1,3}$/.test(t)) return nacOf(t) || { kind: 'unknown', raw: t };
+  if (context === 'DMR' && /^\d{1,2}$/.test(t)) return colorCodeOf(t) || { kind: 'unknown', raw: t };
+  if (context === 'NXDN' && /^\d{1,2}$/.test(t)) return ranOf(t) || { kind: 'unknown', raw: t };
+
+  m = t.match(/^(?:PL|CTCSS|CTC|TONE|TPL)?\s*(\d{2,3}(?:\.\d{1,2})?)\s*(?:HZ)?(?:\s*PL)?$/);
+  if (m) {
+    const hz = Number.parseFloat(m[1]).toFixed(1);
+    return CTCSS_TONES.includes(hz) ? { kind: 'ctcss', hz } : { kind: 'unknown', raw: t };
+  }
+
+  return { kind: 'unknown', raw: t };
+}
+
+/**
+ * Structured tone for a channel. The dedicated nac/colorCode/ran fields win
+ * over the free-form tone string; a channel with nothing at all is carrier
+ * squelch.
+ */
+export function parseFrequencyTone(freq: Pick<Frequency, 'mode' | 'tone' | 'nac' | 'colorCode' | 'ran'>): ToneInfo {
+  const nac = freq.nac?.trim() && nacOf(freq.nac.trim().replace(/^\$/, ''));
+  if (nac) return nac;
+  const cc = freq.colorCode?.trim() && colorCodeOf(freq.colorCode.trim());
+  if (cc) return cc;
+  const ran = freq.ran?.trim() && ranOf(freq.ran.trim());
+  if (ran) return ran;
+  return parseTone(freq.tone, toneContextOf(freq.mode)) || { kind: 'none' };
+}
+
+/** The channel's ToneInfo, parsing on the fly for results cached before ingest set it. */
+export function toneOf(freq: Frequency): ToneInfo {
+  return freq.toneInfo || parseFrequencyTone(freq);
+}
+
+/** Canonical display form: "100.0", "D023N", "NAC 293", "CC 1", "RAN 1". */
+export function formatTone(info: ToneInfo): string {
+  switch (info.kind) {
+    case 'ctcss': return info.hz;
+    case 'dcs': return `D${info.code}${info.inverted ? 'I' : 'N'}`;
+    case 'nac': return `NAC ${info.nac}`;
+    case 'colorCode': return `CC ${info.colorCode}`;
+    case 'ran': return `RAN ${info.ran}`;
+    case 'unknown': return info.raw;
+    default: return '';
+  }
+}
+
+/**
+ * Sets `toneInfo` on every conventional channel in a result. Returns how
+ * many channels carried a tone that is not a valid code.
+ */
+export function attachToneInfo(result: ScanResult): number {
+  let unknown = 0;
+  for (const agency of result.agencies || []) {
+    for (const freq of agency.frequencies || []) {
+      freq.toneInfo = parseFrequencyTone(freq);
+      if (freq.toneInfo.kind === 'unknown') unknown++;
+    }
+  }
+  return unknown;
+}
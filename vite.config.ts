@@ -8,6 +8,14 @@ export default defineConfig({
       host: '0.0.0.0',
     },
     plugins: [react()],
+    define: {
+      // Versions the service worker caches (index.tsx registers /sw.js?v=<id>), so each deploy drops the last one's chunks.
+      'import.meta.env.VITE_BUILD_ID': JSON.stringify(process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 12) || Date.now().toString(36)),
+    },
+    build: {
+      // Read by public/sw.js to precache every chunk for offline use.
+      manifest: 'asset-manifest.json',
+    },
     test: {
       environment: 'jsdom',
       globals: true,